@@ -31,15 +31,34 @@ CREATE TABLE IF NOT EXISTS questions (
   survey_id BIGINT NOT NULL REFERENCES surveys(id),
   section TEXT NOT NULL,
   question_text TEXT NOT NULL,
-  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox')),
+  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps')),
   question_order INTEGER NOT NULL,
   is_required BOOLEAN DEFAULT true,
   options TEXT, -- JSON string for multiple choice and ranking questions
   validation_rules TEXT, -- JSON string
+  display_condition TEXT, -- JSON string, skip logic rule
   analysis_tags TEXT,
   UNIQUE(survey_id, question_order)
 );
 
+-- Skip logic was added after the initial release
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS display_condition TEXT;
+
+-- NPS questions were added later; widen the type check of existing tables
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps'));
+
+-- Survey versions table: frozen copy of the questions as each version was published
+CREATE TABLE IF NOT EXISTS survey_versions (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  version INTEGER NOT NULL,
+  questions TEXT NOT NULL, -- JSON array of question rows
+  published_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(survey_id, version)
+);
+
 -- Responses table
 CREATE TABLE IF NOT EXISTS responses (
   id BIGSERIAL PRIMARY KEY,
@@ -50,7 +69,48 @@ CREATE TABLE IF NOT EXISTS responses (
   started_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ,
   is_complete BOOLEAN DEFAULT false,
-  response_time_seconds INTEGER
+  response_time_seconds INTEGER,
+  survey_version INTEGER -- published version the answers were given against
+);
+
+-- Versioning was added after the initial release; earlier responses were all
+-- answered against the version their survey had at the time
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS survey_version INTEGER;
+UPDATE responses r SET survey_version = s.version
+FROM surveys s
+WHERE r.survey_id = s.id AND r.survey_version IS NULL;
+
+-- Sign-in links: only a hash of the emailed token is stored, and each one works once
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Campaigns: a survey sent to a chosen set of users
+CREATE TABLE IF NOT EXISTS campaigns (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  name TEXT NOT NULL,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Campaign recipients: progress is tracked per invitation, never linked to the
+-- response itself so anonymous answers stay anonymous
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id BIGSERIAL PRIMARY KEY,
+  campaign_id BIGINT NOT NULL REFERENCES campaigns(id),
+  user_id BIGINT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  opened_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE(campaign_id, user_id)
 );
 
 -- Answers table
@@ -61,29 +121,320 @@ CREATE TABLE IF NOT EXISTS answers (
   answer_value TEXT,
   answer_numeric REAL,
   confidence_score INTEGER,
+  sentiment_score REAL, -- -1 to 1, text answers only
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Sentiment was added later; score older text answers with npm run backfill-sentiment
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS sentiment_score REAL;
+
+-- Action items: work agreed on from the feedback
+CREATE TABLE IF NOT EXISTS action_items (
+  id BIGSERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+  category TEXT,
+  assigned_to BIGINT REFERENCES users(id),
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'cancelled')),
+  due_date DATE,
+  department TEXT,
+  created_from_response_id BIGINT REFERENCES responses(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Status changes of action items, starting with their creation
+CREATE TABLE IF NOT EXISTS action_item_history (
+  id BIGSERIAL PRIMARY KEY,
+  action_item_id BIGINT NOT NULL REFERENCES action_items(id),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by BIGINT REFERENCES users(id),
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Themes for coding free-text answers, and the themes given to each answer
+CREATE TABLE IF NOT EXISTS text_themes (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS answer_themes (
+  answer_id BIGINT NOT NULL REFERENCES answers(id),
+  theme_id BIGINT NOT NULL REFERENCES text_themes(id),
+  coded_by BIGINT REFERENCES users(id),
+  coded_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (answer_id, theme_id)
+);
+
+-- Analytics cache: precomputed dashboard figures, looked up by metric and
+-- filters hash until they expire; cleared whenever a survey is submitted
+CREATE TABLE IF NOT EXISTS analytics_cache (
+  id BIGSERIAL PRIMARY KEY,
+  metric_name TEXT NOT NULL,
+  metric_value TEXT NOT NULL,
+  filters TEXT,
+  filters_hash TEXT,
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
 -- Create indexes for performance
+-- Sign-in matches emails case-insensitively, so one address is one user whatever its case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_lower ON users(lower(email));
 CREATE INDEX IF NOT EXISTS idx_responses_survey_date ON responses(survey_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_responses_survey_version ON responses(survey_id, survey_version);
 CREATE INDEX IF NOT EXISTS idx_answers_response_question ON answers(response_id, question_id);
 CREATE INDEX IF NOT EXISTS idx_users_role_active ON users(role, is_active);
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_user ON campaign_recipients(user_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_analytics_cache_key ON analytics_cache(metric_name, filters_hash);
+CREATE INDEX IF NOT EXISTS idx_action_items_status_priority ON action_items(status, priority);
+CREATE INDEX IF NOT EXISTS idx_action_item_history_item ON action_item_history(action_item_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_answer_themes_theme ON answer_themes(theme_id);
+-- Full-text search over answers, used by search_answers
+CREATE INDEX IF NOT EXISTS idx_answers_fts ON answers USING GIN (to_tsvector('spanish', COALESCE(answer_value, '')));
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE surveys ENABLE ROW LEVEL SECURITY;
 ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE responses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE action_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE action_item_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE text_themes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE answer_themes ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the app reaches every table through its API with the
+-- service-role key, which bypasses RLS, so the middleware's role checks always
+-- apply. The anon key ships to the browser and must not read or write anything.
+-- Projects set up before this drop the public policies they were created with.
+DO $$
+DECLARE
+  p RECORD;
+BEGIN
+  FOR p IN SELECT policyname, tablename FROM pg_policies
+           WHERE schemaname = 'public' AND policyname LIKE 'Public % access' LOOP
+    EXECUTE format('DROP POLICY %I ON %I', p.policyname, p.tablename);
+  END LOOP;
+END $$;
+
+-- Autosave drafts are stored as incomplete responses. Responses submitted before
+-- the update policy existed were never flagged complete, so mark them once:
+UPDATE responses SET is_complete = true, completed_at = COALESCE(completed_at, started_at)
+WHERE is_complete = false AND id IN (SELECT DISTINCT response_id FROM answers);
+
+-- Atomic, idempotent survey submission. Retrying with the same session
+-- returns the original response instead of inserting a duplicate.
+-- The version-less signature is replaced, not overloaded
+DROP FUNCTION IF EXISTS submit_survey_response(BIGINT, BIGINT, TEXT, BOOLEAN, TIMESTAMPTZ, INTEGER, JSONB);
+DROP FUNCTION IF EXISTS submit_survey_response(BIGINT, BIGINT, TEXT, BOOLEAN, TIMESTAMPTZ, INTEGER, INTEGER, JSONB);
+CREATE OR REPLACE FUNCTION submit_survey_response(
+  p_survey_id BIGINT,
+  p_user_id BIGINT,
+  p_respondent_id BIGINT,
+  p_session_id TEXT,
+  p_is_anonymous BOOLEAN,
+  p_started_at TIMESTAMPTZ,
+  p_response_time_seconds INTEGER,
+  p_survey_version INTEGER,
+  p_answers JSONB
+) RETURNS TABLE (response_id BIGINT, already_submitted BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_response responses%ROWTYPE;
+BEGIN
+  -- Serialize concurrent submissions for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_id));
+
+  SELECT * INTO v_response FROM responses r
+  WHERE r.session_id = p_session_id AND r.survey_id = p_survey_id
+    -- Only the respondent's own draft, or an anonymous submission being retried
+    AND (r.user_id = p_respondent_id OR (r.user_id IS NULL AND r.is_complete))
+  ORDER BY r.user_id IS NULL, r.id DESC
+  LIMIT 1;
+
+  IF FOUND AND v_response.is_complete THEN
+    RETURN QUERY SELECT v_response.id, true;
+    RETURN;
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO responses (survey_id, user_id, session_id, is_anonymous, started_at, survey_version)
+    VALUES (p_survey_id, p_user_id, p_session_id, p_is_anonymous, COALESCE(p_started_at, NOW()), p_survey_version)
+    RETURNING * INTO v_response;
+  END IF;
+
+  DELETE FROM answers a WHERE a.response_id = v_response.id;
+
+  INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score, sentiment_score)
+  SELECT v_response.id,
+         (elem->>'question_id')::BIGINT,
+         elem->>'answer_value',
+         (elem->>'answer_numeric')::REAL,
+         (elem->>'confidence_score')::INTEGER,
+         (elem->>'sentiment_score')::REAL
+  FROM jsonb_array_elements(p_answers) AS elem;
+
+  -- A draft may have been started on an older version or before the respondent
+  -- chose to stay anonymous; the submission is what counts
+  UPDATE responses r
+  SET completed_at = NOW(), is_complete = true, response_time_seconds = p_response_time_seconds,
+      survey_version = p_survey_version, user_id = p_user_id, is_anonymous = p_is_anonymous
+  WHERE r.id = v_response.id;
+
+  RETURN QUERY SELECT v_response.id, false;
+END;
+$$;
 
--- Create policies for public access (adjust as needed for your security requirements)
-CREATE POLICY "Public read access" ON surveys FOR SELECT USING (true);
-CREATE POLICY "Public read access" ON questions FOR SELECT USING (true);
-CREATE POLICY "Public insert access" ON responses FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public insert access" ON answers FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public read access" ON responses FOR SELECT USING (true);
-CREATE POLICY "Public read access" ON answers FOR SELECT USING (true);
-CREATE POLICY "Public read access" ON users FOR SELECT USING (true);
+-- Replace a draft's answers in one transaction, as autosave does on every save
+CREATE OR REPLACE FUNCTION replace_response_answers(
+  p_response_id BIGINT,
+  p_answers JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM answers a WHERE a.response_id = p_response_id;
+
+  INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score, sentiment_score)
+  SELECT p_response_id,
+         (elem->>'question_id')::BIGINT,
+         elem->>'answer_value',
+         (elem->>'answer_numeric')::REAL,
+         (elem->>'confidence_score')::INTEGER,
+         (elem->>'sentiment_score')::REAL
+  FROM jsonb_array_elements(p_answers) AS elem;
+END;
+$$;
+
+-- Reorder all questions of a survey in one transaction. Skip logic references
+-- questions by question_order, so display conditions are remapped as well.
+CREATE OR REPLACE FUNCTION reorder_survey_questions(
+  p_survey_id BIGINT,
+  p_question_ids BIGINT[]
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE questions q
+  SET display_condition = jsonb_set(q.display_condition::jsonb, '{question_order}', to_jsonb(m.new_order))::text
+  FROM (
+    SELECT src.question_order AS old_order, ids.position::INTEGER AS new_order
+    FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+    JOIN questions src ON src.id = ids.id AND src.survey_id = p_survey_id
+  ) m
+  WHERE q.survey_id = p_survey_id
+    AND q.display_condition IS NOT NULL
+    AND (q.display_condition::jsonb->>'question_order')::INTEGER = m.old_order;
+
+  -- Move everything out of the way first so UNIQUE(survey_id, question_order) holds at every step
+  UPDATE questions SET question_order = -question_order WHERE survey_id = p_survey_id;
+
+  UPDATE questions q
+  SET question_order = ids.position
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE q.id = ids.id AND q.survey_id = p_survey_id;
+END;
+$$;
+
+-- Publish the current questions of a survey as its next immutable version
+CREATE OR REPLACE FUNCTION publish_survey_version(p_survey_id BIGINT)
+RETURNS SETOF survey_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  -- Lock the survey so concurrent publishes get consecutive version numbers
+  SELECT COALESCE(s.version, 0) + 1 INTO v_version FROM surveys s WHERE s.id = p_survey_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey % not found', p_survey_id;
+  END IF;
+
+  UPDATE surveys SET version = v_version, updated_at = NOW() WHERE id = p_survey_id;
+
+  RETURN QUERY
+  INSERT INTO survey_versions (survey_id, version, questions)
+  SELECT p_survey_id, v_version, COALESCE(json_agg(q ORDER BY q.question_order), '[]'::json)::text
+  FROM questions q
+  WHERE q.survey_id = p_survey_id
+  RETURNING *;
+END;
+$$;
+
+-- Create a campaign together with all of its recipients
+CREATE OR REPLACE FUNCTION create_campaign(
+  p_survey_id BIGINT,
+  p_name TEXT,
+  p_created_by BIGINT,
+  p_recipients JSONB
+) RETURNS SETOF campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+BEGIN
+  INSERT INTO campaigns (survey_id, name, created_by)
+  VALUES (p_survey_id, p_name, p_created_by)
+  RETURNING * INTO v_campaign;
+
+  INSERT INTO campaign_recipients (campaign_id, user_id, token_hash)
+  SELECT v_campaign.id, (elem->>'user_id')::BIGINT, elem->>'token_hash'
+  FROM jsonb_array_elements(p_recipients) AS elem;
+
+  RETURN NEXT v_campaign;
+END;
+$$;
+
+-- Create an action item together with the history entry of its first status
+CREATE OR REPLACE FUNCTION create_action_item(
+  p_title TEXT,
+  p_description TEXT,
+  p_priority TEXT,
+  p_category TEXT,
+  p_assigned_to BIGINT,
+  p_status TEXT,
+  p_due_date DATE,
+  p_department TEXT,
+  p_created_by BIGINT
+) RETURNS SETOF action_items
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item action_items%ROWTYPE;
+BEGIN
+  INSERT INTO action_items (title, description, priority, category, assigned_to, status, due_date, department)
+  VALUES (p_title, p_description, p_priority, p_category, p_assigned_to, p_status, p_due_date, p_department)
+  RETURNING * INTO v_item;
+
+  INSERT INTO action_item_history (action_item_id, from_status, to_status, changed_by)
+  VALUES (v_item.id, NULL, v_item.status, p_created_by);
+
+  RETURN NEXT v_item;
+END;
+$$;
+
+-- Ids of the answers matching a web-style search (words, "phrases", -excluded)
+CREATE OR REPLACE FUNCTION search_answers(p_search TEXT)
+RETURNS TABLE (id BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT a.id FROM answers a
+  WHERE to_tsvector('spanish', COALESCE(a.answer_value, '')) @@ websearch_to_tsquery('spanish', p_search)
+  ORDER BY a.id;
+$$;
 
 -- Insert sample users
 INSERT INTO users (email, role, name, department, hire_date, is_active) VALUES
@@ -130,6 +481,10 @@ INSERT INTO questions (survey_id, section, question_text, question_type, questio
 (1, 'Asignación de Recursos y ROI', 'Si tuviera presupuesto adicional para mejoras del sistema, clasifique sus principales prioridades: (1=más alta, 5=más baja)', 'ranking', 18, true, '["Funcionalidad del Sistema de Gestión de Relaciones con Clientes", "Reportes/análisis", "Capacidades de integración", "Capacitación de usuarios", "Herramientas adicionales"]', null, 'improvement_priorities,budget_allocation')
 ON CONFLICT (survey_id, question_order) DO NOTHING;
 
+-- Only ask for the critical workarounds when a manager reports 4 or more
+UPDATE questions SET display_condition = '{"question_order": 11, "in": ["4-7", "8-12", "13+"]}'
+WHERE survey_id = 1 AND question_order = 12;
+
 -- Insert EXACT Sales Team Survey Questions (Survey ID: 2)
 INSERT INTO questions (survey_id, section, question_text, question_type, question_order, is_required, options, validation_rules, analysis_tags) VALUES
 -- Section 1: Eficiencia del Flujo de Trabajo Diario
@@ -162,4 +517,13 @@ INSERT INTO questions (survey_id, section, question_text, question_type, questio
 (2, 'Diagnóstico Avanzado', 'Clasifique sus 5 principales frustraciones diarias y califique su impacto en el éxito de inscripciones (escala 1-10):', 'text', 19, false, null, '{"word_limit": 300}', 'pain_points,impact_assessment'),
 (2, 'Diagnóstico Avanzado', '¿Qué herramientas/características desearía usted que tuviera Eduscore que ha visto en otros lugares?', 'text', 20, false, null, '{"word_limit": 200}', 'feature_requests,competitive_analysis'),
 (2, 'Diagnóstico Avanzado', 'Si pudiera eliminar una tarea diaria relacionada con Eduscore, ¿cuál sería y cuánto tiempo le ahorraría diariamente?', 'text', 21, false, null, '{"word_limit": 150}', 'task_elimination,time_savings')
-ON CONFLICT (survey_id, question_order) DO NOTHING;
\ No newline at end of file
+ON CONFLICT (survey_id, question_order) DO NOTHING;
+
+-- Surveys published before versioning existed get a snapshot of their current questions
+INSERT INTO survey_versions (survey_id, version, questions)
+SELECT s.id, s.version, json_agg(q ORDER BY q.question_order)::text
+FROM surveys s
+JOIN questions q ON q.survey_id = s.id
+WHERE s.version >= 1
+GROUP BY s.id, s.version
+ON CONFLICT (survey_id, version) DO NOTHING;
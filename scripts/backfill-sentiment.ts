@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+/**
+ * Scores the sentiment of text answers stored without one.
+ * Run with: npm run backfill-sentiment
+ * Pass --all to rescore every text answer, e.g. after the lexicon changed.
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function backfillSentiment() {
+  // Imported after the environment is loaded, which picks the database
+  const { databaseAdapter } = await import('../src/lib/database-adapter');
+  const { scoreSentiment } = await import('../src/lib/analytics/sentiment');
+  const { invalidateAnalyticsCache } = await import('../src/lib/analytics-cache');
+
+  const rescoreAll = process.argv.includes('--all');
+  const answers = await databaseAdapter.getTextAnswers(!rescoreAll);
+  console.log(`💬 ${answers.length} text answer(s) to score${rescoreAll ? ' (rescoring all)' : ''}`);
+
+  if (answers.length > 0) {
+    await databaseAdapter.setSentimentScores(answers.map(answer => ({
+      answerId: answer.id,
+      score: scoreSentiment(answer.answer_value)
+    })));
+    await invalidateAnalyticsCache();
+  }
+
+  console.log('✅ Sentiment backfill complete');
+}
+
+backfillSentiment().catch(error => {
+  console.error('❌ Sentiment backfill failed:', error);
+  process.exit(1);
+});
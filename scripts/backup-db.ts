@@ -19,7 +19,7 @@ class DatabaseBackup {
 
   constructor() {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
     if (!supabaseUrl || !supabaseKey) {
       throw new Error('Missing Supabase configuration. Please check your environment variables.');
@@ -42,7 +42,7 @@ class DatabaseBackup {
       mkdirSync(options.outputDir, { recursive: true });
     }
 
-    const tables = options.tables || ['users', 'surveys', 'questions', 'responses', 'answers'];
+    const tables = options.tables || ['users', 'surveys', 'questions', 'survey_versions', 'campaigns', 'campaign_recipients', 'responses', 'answers', 'action_items', 'action_item_history', 'text_themes', 'answer_themes'];
     const backupData: Record<string, any[]> = {};
 
     try {
@@ -172,15 +172,48 @@ CREATE TABLE IF NOT EXISTS questions (
   survey_id BIGINT NOT NULL REFERENCES surveys(id),
   section TEXT NOT NULL,
   question_text TEXT NOT NULL,
-  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox')),
+  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps')),
   question_order INTEGER NOT NULL,
   is_required BOOLEAN DEFAULT true,
   options TEXT,
   validation_rules TEXT,
+  display_condition TEXT,
   analysis_tags TEXT,
   UNIQUE(survey_id, question_order)
 );
 
+-- Survey versions table
+CREATE TABLE IF NOT EXISTS survey_versions (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  version INTEGER NOT NULL,
+  questions TEXT NOT NULL,
+  published_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(survey_id, version)
+);
+
+-- Campaigns table
+CREATE TABLE IF NOT EXISTS campaigns (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  name TEXT NOT NULL,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Campaign recipients table
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id BIGSERIAL PRIMARY KEY,
+  campaign_id BIGINT NOT NULL REFERENCES campaigns(id),
+  user_id BIGINT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  opened_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE(campaign_id, user_id)
+);
+
 -- Responses table
 CREATE TABLE IF NOT EXISTS responses (
   id BIGSERIAL PRIMARY KEY,
@@ -191,7 +224,8 @@ CREATE TABLE IF NOT EXISTS responses (
   started_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ,
   is_complete BOOLEAN DEFAULT false,
-  response_time_seconds INTEGER
+  response_time_seconds INTEGER,
+  survey_version INTEGER
 );
 
 -- Answers table
@@ -202,9 +236,64 @@ CREATE TABLE IF NOT EXISTS answers (
   answer_value TEXT,
   answer_numeric REAL,
   confidence_score INTEGER,
+  sentiment_score REAL,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Action items table
+CREATE TABLE IF NOT EXISTS action_items (
+  id BIGSERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+  category TEXT,
+  assigned_to BIGINT REFERENCES users(id),
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'cancelled')),
+  due_date DATE,
+  created_from_response_id BIGINT REFERENCES responses(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Action item history table
+CREATE TABLE IF NOT EXISTS action_item_history (
+  id BIGSERIAL PRIMARY KEY,
+  action_item_id BIGINT NOT NULL REFERENCES action_items(id),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by BIGINT REFERENCES users(id),
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Text themes table
+CREATE TABLE IF NOT EXISTS text_themes (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Answer themes table
+CREATE TABLE IF NOT EXISTS answer_themes (
+  answer_id BIGINT NOT NULL REFERENCES answers(id),
+  theme_id BIGINT NOT NULL REFERENCES text_themes(id),
+  coded_by BIGINT REFERENCES users(id),
+  coded_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (answer_id, theme_id)
+);
+
+-- Analytics cache table (derived data, not backed up)
+CREATE TABLE IF NOT EXISTS analytics_cache (
+  id BIGSERIAL PRIMARY KEY,
+  metric_name TEXT NOT NULL,
+  metric_value TEXT NOT NULL,
+  filters TEXT,
+  filters_hash TEXT,
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_responses_survey_date ON responses(survey_id, completed_at);
 CREATE INDEX IF NOT EXISTS idx_answers_response_question ON answers(response_id, question_id);
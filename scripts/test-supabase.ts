@@ -16,7 +16,7 @@ async function testSupabaseConnection() {
   // Check environment variables
   const dbType = process.env.DATABASE_TYPE;
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   
   console.log(`📊 Database Type: ${dbType || 'sqlite (default)'}`);
   console.log(`🌐 Supabase URL: ${supabaseUrl ? '✅ Set' : '❌ Missing'}`);
@@ -28,7 +28,7 @@ async function testSupabaseConnection() {
       console.log('\n🔧 Fix by setting these in .env.local:');
       console.log('DATABASE_TYPE=supabase');
       console.log('NEXT_PUBLIC_SUPABASE_URL=https://telibffpfnttamfvxydz.supabase.co');
-      console.log('NEXT_PUBLIC_SUPABASE_ANON_KEY=your-anon-key-here');
+      console.log('SUPABASE_SERVICE_ROLE_KEY=your-service-role-key-here');
       return;
     }
     
@@ -50,7 +50,7 @@ async function testSupabaseConnection() {
         console.log('\n🔧 Possible fixes:');
         console.log('1. Check your Supabase URL and API key');
         console.log('2. Run the SQL setup script in Supabase dashboard');
-        console.log('3. Verify RLS policies allow public access');
+        console.log('3. Verify SUPABASE_SERVICE_ROLE_KEY is the service role key, not the anon key');
       } else {
         console.log('✅ Supabase connection successful!');
         console.log('✅ Tables are accessible');
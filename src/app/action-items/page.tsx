@@ -0,0 +1,366 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BarChart3, CalendarDays, History, ListTodo, Plus, XCircle } from 'lucide-react';
+import {
+  ACTION_ITEM_PRIORITIES,
+  ACTION_ITEM_PRIORITY_LABELS,
+  ACTION_ITEM_STATUSES,
+  ACTION_ITEM_STATUS_LABELS,
+  type ActionItemPriority,
+  type ActionItemStatus
+} from '@/lib/action-items';
+
+interface ActionItem {
+  id: number;
+  title: string;
+  description: string | null;
+  priority: ActionItemPriority;
+  category: string | null;
+  assigned_to: number | null;
+  assigned_name: string | null;
+  status: ActionItemStatus;
+  due_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Assignee {
+  id: number;
+  name: string;
+  role: string;
+  department: string | null;
+}
+
+interface HistoryEntry {
+  id: number;
+  from_status: ActionItemStatus | null;
+  to_status: ActionItemStatus;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
+// Select value standing for "nobody"
+const UNASSIGNED = 'none';
+
+const PRIORITY_BADGES: Record<ActionItemPriority, 'destructive' | 'default' | 'secondary'> = {
+  high: 'destructive',
+  medium: 'default',
+  low: 'secondary'
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function isOverdue(item: ActionItem) {
+  return item.due_date !== null
+    && (item.status === 'open' || item.status === 'in_progress')
+    && item.due_date < new Date().toISOString().slice(0, 10);
+}
+
+export default function ActionItemsPage() {
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<ActionItemPriority>('medium');
+  const [assignedTo, setAssignedTo] = useState(UNASSIGNED);
+  const [dueDate, setDueDate] = useState('');
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [historyFor, setHistoryFor] = useState<number | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    fetch('/api/action-items')
+      .then(response => {
+        if (!response.ok) throw new Error('No se pudieron cargar las acciones');
+        return response.json();
+      })
+      .then(data => {
+        setActionItems(data.actionItems);
+        setAssignees(data.assignees);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'No se pudieron cargar las acciones'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const replaceItem = (item: ActionItem) => {
+    setActionItems(items => items.map(current => current.id === item.id ? item : current));
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setFormErrors([]);
+    try {
+      const response = await fetch('/api/action-items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          description: description || null,
+          priority,
+          assigned_to: assignedTo === UNASSIGNED ? null : Number(assignedTo),
+          due_date: dueDate || null
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFormErrors(data.errors || [data.details || data.error]);
+        return;
+      }
+
+      setActionItems(items => [data.actionItem, ...items]);
+      setTitle('');
+      setDescription('');
+      setPriority('medium');
+      setAssignedTo(UNASSIGNED);
+      setDueDate('');
+    } catch (err) {
+      console.error('Error creating action item:', err);
+      setFormErrors(['No se pudo crear la acción']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (item: ActionItem, changes: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/action-items/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.errors?.join('. ') || data.error);
+
+      replaceItem(data.actionItem);
+      if (historyFor === item.id) loadHistory(item.id);
+    } catch (err) {
+      console.error('Error updating action item:', err);
+      setError('No se pudo actualizar la acción');
+    }
+  };
+
+  const handleCancel = async (item: ActionItem) => {
+    if (!window.confirm(`¿Cancelar la acción "${item.title}"?`)) return;
+    try {
+      const response = await fetch(`/api/action-items/${item.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      replaceItem(data.actionItem);
+      if (historyFor === item.id) loadHistory(item.id);
+    } catch (err) {
+      console.error('Error cancelling action item:', err);
+      setError('No se pudo cancelar la acción');
+    }
+  };
+
+  const loadHistory = async (id: number) => {
+    const response = await fetch(`/api/action-items/${id}`);
+    if (response.ok) setHistory((await response.json()).history);
+  };
+
+  const toggleHistory = (id: number) => {
+    if (historyFor === id) {
+      setHistoryFor(null);
+      return;
+    }
+    setHistoryFor(id);
+    setHistory([]);
+    loadHistory(id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <ListTodo className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-semibold text-gray-900">Plan de Acción</h1>
+            </div>
+            <Button variant="outline" onClick={() => window.location.href = '/analytics'}>
+              <BarChart3 className="mr-2 h-4 w-4" />
+              Analytics
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Nueva acción</CardTitle>
+            <CardDescription>Convierta lo aprendido en las encuestas en trabajo con responsable y fecha</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="action-title">Título</Label>
+                <Input id="action-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label>Prioridad</Label>
+                  <Select value={priority} onValueChange={value => setPriority(value as ActionItemPriority)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ACTION_ITEM_PRIORITIES.map(value => (
+                        <SelectItem key={value} value={value}>{ACTION_ITEM_PRIORITY_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Responsable</Label>
+                  <Select value={assignedTo} onValueChange={setAssignedTo}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                      {assignees.map(user => (
+                        <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="action-due-date">Fecha límite</Label>
+                  <Input id="action-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="action-description">Descripción</Label>
+              <Textarea id="action-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+            </div>
+            {formErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>{formErrors.join('. ')}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={handleCreate} disabled={isSaving || title.trim().length === 0}>
+                <Plus className="mr-2 h-4 w-4" />
+                {isSaving ? 'Guardando...' : 'Crear acción'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading && <div className="text-muted-foreground">Cargando acciones...</div>}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* One column per status */}
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {ACTION_ITEM_STATUSES.map(status => {
+            const items = actionItems.filter(item => item.status === status);
+            return (
+              <div key={status} className="bg-gray-100 rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between px-1">
+                  <h2 className="font-semibold text-gray-800">{ACTION_ITEM_STATUS_LABELS[status]}</h2>
+                  <Badge variant="secondary">{items.length}</Badge>
+                </div>
+                {items.length === 0 && (
+                  <div className="text-sm text-muted-foreground px-1">Sin acciones</div>
+                )}
+                {items.map(item => (
+                  <div key={item.id} className="bg-white border rounded-lg p-3 space-y-3">
+                    <div className="space-y-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="font-medium text-sm text-gray-900">{item.title}</div>
+                        <Badge variant={PRIORITY_BADGES[item.priority]}>{ACTION_ITEM_PRIORITY_LABELS[item.priority]}</Badge>
+                      </div>
+                      {item.description && <p className="text-xs text-gray-600">{item.description}</p>}
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                        {item.category && <Badge variant="outline">{item.category}</Badge>}
+                        {item.due_date && (
+                          <span className={`flex items-center ${isOverdue(item) ? 'text-red-600 font-medium' : ''}`}>
+                            <CalendarDays className="w-3 h-3 mr-1" />
+                            {formatDate(item.due_date)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={item.status} onValueChange={value => handleUpdate(item, { status: value })}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ACTION_ITEM_STATUSES.map(value => (
+                            <SelectItem key={value} value={value}>{ACTION_ITEM_STATUS_LABELS[value]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={item.assigned_to !== null ? String(item.assigned_to) : UNASSIGNED}
+                        onValueChange={value => handleUpdate(item, { assigned_to: value === UNASSIGNED ? null : Number(value) })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                          {assignees.map(user => (
+                            <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex justify-between">
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => toggleHistory(item.id)}>
+                        <History className="mr-1 h-3 w-3" />
+                        Historial
+                      </Button>
+                      {item.status !== 'cancelled' && (
+                        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleCancel(item)} title="Cancelar acción">
+                          <XCircle className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                    {historyFor === item.id && (
+                      <ul className="border-t pt-2 space-y-1 text-xs text-gray-600">
+                        {history.map(entry => (
+                          <li key={entry.id}>
+                            {formatDate(entry.changed_at)} · {entry.from_status
+                              ? `${ACTION_ITEM_STATUS_LABELS[entry.from_status]} → ${ACTION_ITEM_STATUS_LABELS[entry.to_status]}`
+                              : `Creada como ${ACTION_ITEM_STATUS_LABELS[entry.to_status].toLowerCase()}`}
+                            {entry.changed_by_name && ` · ${entry.changed_by_name}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
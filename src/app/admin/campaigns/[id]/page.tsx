@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, Send } from 'lucide-react';
+import type { InvitationStatus } from '@/lib/campaigns';
+
+interface Campaign {
+  id: number;
+  name: string;
+  survey_name: string;
+  created_at: string;
+  invited_count: number;
+  started_count: number;
+  completed_count: number;
+}
+
+interface Recipient {
+  id: number;
+  name: string;
+  email: string;
+  department: string | null;
+  invited_at: string;
+  completed_at: string | null;
+  status: InvitationStatus;
+}
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  invited: 'Invitado',
+  opened: 'Abrió el enlace',
+  started: 'En progreso',
+  completed: 'Completada'
+};
+
+const STATUS_VARIANTS: Record<InvitationStatus, 'default' | 'secondary' | 'outline'> = {
+  invited: 'outline',
+  opened: 'outline',
+  started: 'secondary',
+  completed: 'default'
+};
+
+export default function AdminCampaignPage() {
+  const params = useParams<{ id: string }>();
+  const campaignId = parseInt(params.id);
+
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/campaigns/${campaignId}`)
+      .then(response => {
+        if (!response.ok) throw new Error(response.status === 404 ? 'Campaña no encontrada' : 'No se pudo cargar la campaña');
+        return response.json();
+      })
+      .then(data => {
+        setCampaign(data.campaign);
+        setRecipients(data.recipients);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'No se pudo cargar la campaña'));
+  }, [campaignId]);
+
+  const completionRate = campaign && campaign.invited_count > 0
+    ? Math.round((campaign.completed_count / campaign.invited_count) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <Send className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-semibold text-gray-900">{campaign?.name || 'Campaña'}</h1>
+            </div>
+            <Button variant="outline" onClick={() => window.location.href = '/admin/campaigns'}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Campañas
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {!campaign && !error && <div className="text-muted-foreground">Cargando campaña...</div>}
+
+          {campaign && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Avance</CardTitle>
+                  <CardDescription>
+                    {campaign.survey_name} · enviada el {new Date(campaign.created_at).toLocaleDateString('es-ES')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <div className="text-2xl font-semibold">{campaign.invited_count}</div>
+                      <div className="text-sm text-muted-foreground">Invitados</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-semibold">{campaign.started_count}</div>
+                      <div className="text-sm text-muted-foreground">Iniciadas</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-semibold">{campaign.completed_count}</div>
+                      <div className="text-sm text-muted-foreground">Completadas</div>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Progress value={completionRate} />
+                    <div className="text-xs text-muted-foreground text-right">{completionRate}% completado</div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Destinatarios</CardTitle>
+                  <CardDescription>
+                    El avance se registra por persona; las respuestas anónimas no se vinculan con su invitación
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {recipients.map(recipient => (
+                    <div key={recipient.id} className="flex items-center justify-between p-3 border rounded-lg bg-white">
+                      <div>
+                        <div className="font-medium text-sm">{recipient.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {recipient.email}{recipient.department ? ` · ${recipient.department}` : ''}
+                        </div>
+                      </div>
+                      <Badge variant={STATUS_VARIANTS[recipient.status]}>{STATUS_LABELS[recipient.status]}</Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Eye, Send } from 'lucide-react';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+
+interface Campaign {
+  id: number;
+  name: string;
+  survey_name: string;
+  target_role: string;
+  created_at: string;
+  invited_count: number;
+  started_count: number;
+  completed_count: number;
+}
+
+interface SurveyOption {
+  id: number;
+  name: string;
+  target_role: string;
+  version: number;
+  is_active: boolean | number;
+}
+
+interface UserOption {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  department: string | null;
+}
+
+export default function AdminCampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [surveys, setSurveys] = useState<SurveyOption[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [surveyId, setSurveyId] = useState('');
+  const [selectedUserIds, setSelectedUserIds] = useState<number[]>([]);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    Promise.all(['/api/campaigns', '/api/surveys', '/api/users'].map(url =>
+      fetch(url).then(response => {
+        if (!response.ok) throw new Error('No se pudieron cargar las campañas');
+        return response.json();
+      })
+    ))
+      .then(([campaignData, surveyData, userData]) => {
+        setCampaigns(campaignData.campaigns);
+        // Only published, active surveys can be sent
+        setSurveys(surveyData.surveys.filter((survey: SurveyOption) => survey.is_active && survey.version > 0));
+        setUsers(userData.users);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'No se pudieron cargar las campañas'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selectedSurvey = surveys.find(survey => String(survey.id) === surveyId);
+  const eligibleUsers = selectedSurvey ? users.filter(user => user.role === selectedSurvey.target_role) : [];
+
+  const handleSurveyChange = (value: string) => {
+    setSurveyId(value);
+    setSelectedUserIds([]);
+  };
+
+  const toggleUser = (userId: number) => {
+    setSelectedUserIds(ids => ids.includes(userId) ? ids.filter(id => id !== userId) : [...ids, userId]);
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setFormErrors([]);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, survey_id: Number(surveyId), user_ids: selectedUserIds }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFormErrors(data.errors || [data.details || data.error]);
+        return;
+      }
+
+      setCampaigns(current => [data.campaign, ...current]);
+      setName('');
+      setSelectedUserIds([]);
+      setNotice(data.failedRecipients.length > 0
+        ? `Campaña creada, pero no se pudo enviar la invitación a: ${data.failedRecipients.join(', ')}`
+        : `Se enviaron ${data.campaign.invited_count} invitaciones`);
+    } catch (err) {
+      console.error('Error creating campaign:', err);
+      setFormErrors(['No se pudo crear la campaña']);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <Send className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-semibold text-gray-900">Campañas de Encuestas</h1>
+            </div>
+            <Button variant="outline" onClick={() => window.location.href = '/admin/surveys'}>
+              <ClipboardList className="mr-2 h-4 w-4" />
+              Encuestas
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Campañas</CardTitle>
+              <CardDescription>Invitaciones enviadas y su avance</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {loading && <div className="text-muted-foreground">Cargando campañas...</div>}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              {!loading && !error && campaigns.length === 0 && (
+                <div className="text-muted-foreground">Todavía no hay campañas</div>
+              )}
+              {campaigns.map(campaign => (
+                <div key={campaign.id} className="flex items-center justify-between p-4 border rounded-lg bg-white">
+                  <div className="space-y-1">
+                    <div className="font-medium">{campaign.name}</div>
+                    <div className="text-sm text-muted-foreground">{campaign.survey_name}</div>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{TARGET_ROLE_LABELS[campaign.target_role] || campaign.target_role}</Badge>
+                      <Badge variant="secondary">{campaign.invited_count} invitados</Badge>
+                      <Badge variant="secondary">{campaign.started_count} iniciadas</Badge>
+                      <Badge variant="default">{campaign.completed_count} completadas</Badge>
+                    </div>
+                  </div>
+                  <Button variant="outline" onClick={() => window.location.href = `/admin/campaigns/${campaign.id}`}>
+                    <Eye className="mr-2 h-4 w-4" />
+                    Ver avance
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Nueva campaña</CardTitle>
+              <CardDescription>Cada destinatario recibe por correo un enlace personal a la encuesta</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Nombre</Label>
+                <Input id="campaign-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Encuesta</Label>
+                <Select value={surveyId} onValueChange={handleSurveyChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleccione una encuesta publicada" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {surveys.map(survey => (
+                      <SelectItem key={survey.id} value={String(survey.id)}>
+                        {survey.name} ({TARGET_ROLE_LABELS[survey.target_role] || survey.target_role})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selectedSurvey && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Destinatarios</Label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedUserIds(
+                        selectedUserIds.length === eligibleUsers.length ? [] : eligibleUsers.map(user => user.id)
+                      )}
+                    >
+                      {selectedUserIds.length === eligibleUsers.length ? 'Quitar todos' : 'Seleccionar todos'}
+                    </Button>
+                  </div>
+                  {eligibleUsers.length === 0 && (
+                    <div className="text-sm text-muted-foreground">No hay usuarios activos con esta función</div>
+                  )}
+                  <div className="border rounded-lg divide-y bg-white">
+                    {eligibleUsers.map(user => (
+                      <label key={user.id} className="flex items-center space-x-3 p-3 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedUserIds.includes(user.id)}
+                          onChange={() => toggleUser(user.id)}
+                        />
+                        <span className="font-medium">{user.name}</span>
+                        <span className="text-muted-foreground">{user.email}</span>
+                        {user.department && <Badge variant="outline">{user.department}</Badge>}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {formErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formErrors.join('. ')}</AlertDescription>
+                </Alert>
+              )}
+              {notice && (
+                <Alert>
+                  <AlertDescription>{notice}</AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleSend} disabled={isSending || !selectedSurvey || selectedUserIds.length === 0}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {isSending ? 'Enviando...' : `Enviar ${selectedUserIds.length} invitaciones`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
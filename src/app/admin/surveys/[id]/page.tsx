@@ -0,0 +1,494 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionEditor, QUESTION_TYPE_LABELS, type EditableQuestion } from '@/components/QuestionEditor';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import { ArrowDown, ArrowLeft, ArrowUp, GitBranch, History, Pencil, Plus, Save, Send, Trash2 } from 'lucide-react';
+
+interface AdminSurvey {
+  id: number;
+  name: string;
+  description: string | null;
+  target_role: string;
+  version: number;
+  is_active: boolean | number;
+}
+
+interface SurveyVersion {
+  id: number;
+  version: number;
+  published_at: string;
+  question_count: number;
+  response_count: number;
+}
+
+interface VersionState {
+  currentVersion: number;
+  hasUnpublishedChanges: boolean;
+  versions: SurveyVersion[];
+}
+
+// Editor state: null when closed, 'new' when adding, otherwise the question being edited
+type EditorTarget = EditableQuestion | 'new' | null;
+
+export default function AdminSurveyEditorPage() {
+  const params = useParams<{ id: string }>();
+  const surveyId = parseInt(params.id);
+
+  const [survey, setSurvey] = useState<AdminSurvey | null>(null);
+  const [questions, setQuestions] = useState<EditableQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetRole, setTargetRole] = useState('manager');
+  const [isActive, setIsActive] = useState(true);
+  const [surveyErrors, setSurveyErrors] = useState<string[]>([]);
+  const [isSavingSurvey, setIsSavingSurvey] = useState(false);
+
+  const [editorTarget, setEditorTarget] = useState<EditorTarget>(null);
+  const [questionErrors, setQuestionErrors] = useState<string[]>([]);
+  const [isSavingQuestion, setIsSavingQuestion] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const [versionState, setVersionState] = useState<VersionState | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/surveys/${surveyId}/versions`);
+      if (!response.ok) throw new Error(`Loading versions failed with status ${response.status}`);
+      setVersionState(await response.json());
+    } catch (err) {
+      console.error('Error loading survey versions:', err);
+    }
+  }, [surveyId]);
+
+  const loadSurvey = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/surveys/${surveyId}/questions?source=live`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Encuesta no encontrada' : 'No se pudo cargar la encuesta');
+      }
+
+      const data = await response.json();
+      setSurvey(data.survey);
+      setQuestions(data.questions.map((q: EditableQuestion) => ({ ...q, is_required: Boolean(q.is_required) })));
+      setName(data.survey.name);
+      setDescription(data.survey.description || '');
+      setTargetRole(data.survey.target_role);
+      setIsActive(Boolean(data.survey.is_active));
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo cargar la encuesta');
+    } finally {
+      setLoading(false);
+    }
+  }, [surveyId, loadVersions]);
+
+  useEffect(() => {
+    loadSurvey();
+  }, [loadSurvey]);
+
+  const handlePublish = async () => {
+    const nextVersion = (versionState?.currentVersion ?? 0) + 1;
+    if (!confirm(`¿Publicar las preguntas actuales como versión ${nextVersion}? Los participantes responderán esta versión a partir de ahora.`)) return;
+
+    setIsPublishing(true);
+    try {
+      const response = await fetch(`/api/surveys/${surveyId}/versions`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(response.status === 409
+          ? `No se puede publicar: ${data.details}`
+          : 'No se pudo publicar la encuesta');
+        return;
+      }
+
+      setSurvey(data.survey);
+      await loadVersions();
+    } catch (err) {
+      console.error('Error publishing survey:', err);
+      alert('No se pudo publicar la encuesta');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleSaveSurvey = async () => {
+    setIsSavingSurvey(true);
+    setSurveyErrors([]);
+    try {
+      const response = await fetch(`/api/surveys/${surveyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, target_role: targetRole, is_active: isActive }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSurveyErrors(data.errors || [data.details || data.error]);
+        return;
+      }
+
+      setSurvey(data.survey);
+    } catch (err) {
+      console.error('Error saving survey:', err);
+      setSurveyErrors(['No se pudo guardar la encuesta']);
+    } finally {
+      setIsSavingSurvey(false);
+    }
+  };
+
+  const handleDeleteSurvey = async () => {
+    if (!confirm('¿Eliminar esta encuesta y todas sus preguntas?')) return;
+
+    const response = await fetch(`/api/surveys/${surveyId}`, { method: 'DELETE' });
+    if (response.status === 409) {
+      alert('La encuesta ya tiene respuestas. Desactívela en lugar de eliminarla.');
+      return;
+    }
+    if (!response.ok) {
+      alert('No se pudo eliminar la encuesta');
+      return;
+    }
+
+    window.location.href = '/admin/surveys';
+  };
+
+  const handleSaveQuestion = async (payload: Record<string, unknown>) => {
+    const isNew = editorTarget === 'new';
+    const url = isNew
+      ? `/api/surveys/${surveyId}/questions`
+      : `/api/surveys/${surveyId}/questions/${(editorTarget as EditableQuestion).id}`;
+
+    setIsSavingQuestion(true);
+    setQuestionErrors([]);
+    try {
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setQuestionErrors(data.errors || [data.details || data.error]);
+        return;
+      }
+
+      setEditorTarget(null);
+      await loadSurvey();
+    } catch (err) {
+      console.error('Error saving question:', err);
+      setQuestionErrors(['No se pudo guardar la pregunta']);
+    } finally {
+      setIsSavingQuestion(false);
+    }
+  };
+
+  const handleDeleteQuestion = async (question: EditableQuestion) => {
+    if (!confirm(`¿Eliminar la pregunta #${question.question_order}?`)) return;
+
+    const response = await fetch(`/api/surveys/${surveyId}/questions/${question.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      alert(response.status === 409
+        ? `No se puede eliminar la pregunta: ${data.details}`
+        : 'No se pudo eliminar la pregunta');
+      return;
+    }
+
+    await loadSurvey();
+  };
+
+  const handleMoveQuestion = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    setIsReordering(true);
+    try {
+      const response = await fetch(`/api/surveys/${surveyId}/questions`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionIds: reordered.map(q => q.id) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(response.status === 400 && data.details
+          ? 'Una pregunta condicional debe quedar después de la pregunta de la que depende.'
+          : 'No se pudo cambiar el orden');
+        return;
+      }
+
+      setQuestions(data.questions);
+      await loadVersions();
+    } catch (err) {
+      console.error('Error reordering questions:', err);
+      alert('No se pudo cambiar el orden');
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-muted-foreground">Cargando encuesta...</div>
+      </div>
+    );
+  }
+
+  if (error || !survey) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 space-y-4">
+            <Alert variant="destructive">
+              <AlertDescription>{error || 'Encuesta no encontrada'}</AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={() => window.location.href = '/admin/surveys'}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Volver a encuestas
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">{survey.name}</h1>
+              <p className="text-sm text-muted-foreground">{questions.length} preguntas</p>
+            </div>
+            <Button variant="outline" onClick={() => window.location.href = '/admin/surveys'}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Volver a encuestas
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Survey details */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Datos de la encuesta</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="survey-name">Nombre</Label>
+                  <Input id="survey-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Dirigida a</Label>
+                  <Select value={targetRole} onValueChange={setTargetRole}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TARGET_ROLE_LABELS).map(([role, label]) => (
+                        <SelectItem key={role} value={role}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="survey-description">Descripción</Label>
+                <Textarea id="survey-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="survey-active"
+                  checked={isActive}
+                  onChange={(e) => setIsActive(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="survey-active" className="cursor-pointer">Encuesta activa (visible para los participantes)</Label>
+              </div>
+              {surveyErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>{surveyErrors.join('. ')}</AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={handleDeleteSurvey} className="text-red-600">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Eliminar encuesta
+                </Button>
+                <Button onClick={handleSaveSurvey} disabled={isSavingSurvey}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSavingSurvey ? 'Guardando...' : 'Guardar cambios'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Published versions */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    Versiones publicadas
+                    {versionState?.hasUnpublishedChanges && (
+                      <Badge variant="outline" className="text-orange-700 border-orange-300">Cambios sin publicar</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    Los participantes responden la última versión publicada; los cambios en las preguntas
+                    no les llegan hasta publicar una nueva versión
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={handlePublish}
+                  disabled={isPublishing || !versionState?.hasUnpublishedChanges}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {isPublishing ? 'Publicando...' : 'Publicar versión'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {versionState && versionState.versions.length === 0 && (
+                <div className="text-muted-foreground">Esta encuesta todavía no se ha publicado</div>
+              )}
+              {versionState?.versions.slice().reverse().map(version => (
+                <div key={version.id} className="flex items-center justify-between p-3 border rounded-lg bg-white text-sm">
+                  <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-muted-foreground" />
+                    <span className="font-medium">Versión {version.version}</span>
+                    {version.version === versionState.currentVersion && <Badge>Actual</Badge>}
+                  </div>
+                  <div className="flex items-center gap-4 text-muted-foreground">
+                    <span>{version.question_count} preguntas</span>
+                    <span>{version.response_count} respuestas</span>
+                    <span>{new Date(version.published_at).toLocaleDateString('es-ES')}</span>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Question editor */}
+          {editorTarget && (
+            <QuestionEditor
+              key={editorTarget === 'new' ? 'new' : editorTarget.id}
+              surveyId={surveyId}
+              question={editorTarget === 'new' ? null : editorTarget}
+              surveyQuestions={questions}
+              errors={questionErrors}
+              isSaving={isSavingQuestion}
+              onSave={handleSaveQuestion}
+              onCancel={() => {
+                setEditorTarget(null);
+                setQuestionErrors([]);
+              }}
+            />
+          )}
+
+          {/* Question list */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Preguntas</CardTitle>
+                  <CardDescription>Use las flechas para cambiar el orden</CardDescription>
+                </div>
+                <Button
+                  onClick={() => {
+                    setEditorTarget('new');
+                    setQuestionErrors([]);
+                  }}
+                  disabled={editorTarget === 'new'}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Agregar pregunta
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {questions.length === 0 && (
+                <div className="text-muted-foreground">Esta encuesta todavía no tiene preguntas</div>
+              )}
+              {questions.map((question, index) => (
+                <div key={question.id} className="flex items-start justify-between p-4 border rounded-lg bg-white">
+                  <div className="space-y-2 flex-1 pr-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">#{question.question_order}</span>
+                      <Badge variant="secondary">{question.section}</Badge>
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                      {question.is_required && <Badge variant="destructive">Requerida</Badge>}
+                      {question.display_condition && (
+                        <Badge variant="outline">
+                          <GitBranch className="w-3 h-3 mr-1" />
+                          Depende de #{question.display_condition.question_order}
+                        </Badge>
+                      )}
+                    </div>
+                    <div>{question.question_text}</div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMoveQuestion(index, -1)}
+                      disabled={isReordering || index === 0}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMoveQuestion(index, 1)}
+                      disabled={isReordering || index === questions.length - 1}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setEditorTarget(question);
+                        setQuestionErrors([]);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDeleteQuestion(question)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
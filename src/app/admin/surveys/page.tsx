@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Home, Pencil, Plus, Send } from 'lucide-react';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+
+interface AdminSurvey {
+  id: number;
+  name: string;
+  description: string | null;
+  target_role: string;
+  version: number;
+  is_active: boolean | number;
+  question_count: number;
+}
+
+export default function AdminSurveysPage() {
+  const [surveys, setSurveys] = useState<AdminSurvey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetRole, setTargetRole] = useState('manager');
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/surveys')
+      .then(response => {
+        if (!response.ok) throw new Error('No se pudieron cargar las encuestas');
+        return response.json();
+      })
+      .then(data => setSurveys(data.surveys))
+      .catch(err => setError(err instanceof Error ? err.message : 'No se pudieron cargar las encuestas'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setFormErrors([]);
+    try {
+      const response = await fetch('/api/surveys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, target_role: targetRole, is_active: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFormErrors(data.errors || [data.details || data.error]);
+        return;
+      }
+
+      window.location.href = `/admin/surveys/${data.survey.id}`;
+    } catch (err) {
+      console.error('Error creating survey:', err);
+      setFormErrors(['No se pudo crear la encuesta']);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <ClipboardList className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-semibold text-gray-900">Administración de Encuestas</h1>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => window.location.href = '/admin/campaigns'}>
+                <Send className="mr-2 h-4 w-4" />
+                Campañas
+              </Button>
+              <Button variant="outline" onClick={() => window.location.href = '/'}>
+                <Home className="mr-2 h-4 w-4" />
+                Inicio
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Encuestas</CardTitle>
+              <CardDescription>Cree encuestas y edite sus preguntas, reglas y orden</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {loading && <div className="text-muted-foreground">Cargando encuestas...</div>}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              {!loading && !error && surveys.length === 0 && (
+                <div className="text-muted-foreground">Todavía no hay encuestas</div>
+              )}
+              {surveys.map(survey => (
+                <div key={survey.id} className="flex items-center justify-between p-4 border rounded-lg bg-white">
+                  <div className="space-y-1">
+                    <div className="font-medium">{survey.name}</div>
+                    {survey.description && (
+                      <div className="text-sm text-muted-foreground">{survey.description}</div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{TARGET_ROLE_LABELS[survey.target_role] || survey.target_role}</Badge>
+                      <Badge variant="secondary">{survey.question_count} preguntas</Badge>
+                      <Badge variant="outline">
+                        {survey.version > 0 ? `Versión ${survey.version}` : 'Sin publicar'}
+                      </Badge>
+                      <Badge variant={survey.is_active ? 'default' : 'destructive'}>
+                        {survey.is_active ? 'Activa' : 'Inactiva'}
+                      </Badge>
+                    </div>
+                  </div>
+                  <Button variant="outline" onClick={() => window.location.href = `/admin/surveys/${survey.id}`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Editar
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Nueva encuesta</CardTitle>
+              <CardDescription>Las preguntas se agregan después de crear la encuesta y se publican como versión 1</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="survey-name">Nombre</Label>
+                <Input id="survey-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="survey-description">Descripción</Label>
+                <Textarea id="survey-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+              </div>
+              <div className="space-y-2">
+                <Label>Dirigida a</Label>
+                <Select value={targetRole} onValueChange={setTargetRole}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TARGET_ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formErrors.join('. ')}</AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleCreate} disabled={isCreating}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {isCreating ? 'Creando...' : 'Crear encuesta'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,13 +7,23 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
-import { Input } from '@/components/ui/input';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line, CartesianGrid, PieChart, Pie, Cell } from 'recharts';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import { CreateActionItemButton } from '@/components/CreateActionItemButton';
+import { AnalyticsFilterBar, type AnalyticsFilterOptions } from '@/components/AnalyticsFilterBar';
+import { TextExplorer } from '@/components/TextExplorer';
+import { NpsCard } from '@/components/NpsCard';
+import { PeriodComparisonPanel } from '@/components/PeriodComparisonPanel';
+import { RankingTable } from '@/components/RankingTable';
+import { parseAnalyticsFilter, toSearchParams } from '@/lib/analytics/filters';
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import type { NpsAnalysis, QuestionDistribution, RankingSummary, TextThemeAnalysis } from '@/lib/analytics/types';
+import { sentimentLabel } from '@/lib/analytics/sentiment';
+import { BarChart, Bar, ErrorBar, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line, CartesianGrid, PieChart, Pie, Cell } from 'recharts';
 import {
   TrendingUp, TrendingDown, Users, AlertTriangle, Download, RefreshCw, Target, Clock, Activity, CheckCircle,
   Award, Trophy, Star, Zap, Lightbulb, Heart, Rocket, Crown, Medal, DollarSign, Brain, Gauge,
   Info, HelpCircle, ChevronRight, ThumbsUp, Flag, BarChart3, AlertCircle, TrendingDown as TrendDown,
-  Building2, UserCheck, Briefcase, MessageSquare, FileText, Eye, ArrowUp, ArrowDown, Minus, Lock
+  Building2, UserCheck, Briefcase, MessageSquare, FileText, Eye, ArrowUp, ArrowDown, Minus, LogOut, ShieldCheck, ListTodo, FileSpreadsheet, ListOrdered
 } from 'lucide-react';
 
 interface ProfessionalInsight {
@@ -56,6 +66,13 @@ interface AnalyticsData {
     lastUpdated: string;
     healthStatus: string;
     trendDirection: string;
+    // Filters applied by the API, department included for managers
+    filters: AnalyticsFilter;
+    anonymity: {
+      minCellSize: number;
+      belowThreshold: boolean;
+      suppressedGroups: number;
+    };
   };
   systemHealth: {
     overall_health_score: number;
@@ -70,6 +87,7 @@ interface AnalyticsData {
   };
   businessMetrics: BusinessMetrics;
   criticalIssues: Array<{
+    question_id: number;
     section: string;
     question_text: string;
     severity_score: number;
@@ -81,7 +99,9 @@ interface AnalyticsData {
     avg_score: number;
     response_count: number;
     problem_indicators: number;
-    confidence_level: number;
+    median_score?: number;
+    ci_low?: number | null;
+    ci_high?: number | null;
   }>;
   achievements: {
     participation_badges: {
@@ -134,7 +154,10 @@ interface AnalyticsData {
     avg_score: number;
     response_count: number;
     problem_indicators: number;
-    confidence_level: number;
+    median_score?: number;
+    ci_low?: number | null;
+    ci_high?: number | null;
+    avg_sentiment?: number | null;
   }>;
   processIssues: Array<{
     section: string;
@@ -150,12 +173,30 @@ interface AnalyticsData {
     strengths: number;
     sample_size: number;
     avg_completion_time: number;
+    median_score?: number;
+    ci_low?: number | null;
+    ci_high?: number | null;
+    avg_sentiment?: number | null;
+  }>;
+  textThemes?: TextThemeAnalysis;
+  questionDistributions?: QuestionDistribution[];
+  npsAnalysis?: NpsAnalysis;
+  rankingAnalysis?: RankingSummary[];
+  versionBreakdown?: Array<{
+    survey_id: number;
+    survey_name: string;
+    target_role: string;
+    version: number | null;
+    published_at: string | null;
+    response_count: number;
+    avg_score: number | null;
   }>;
   performanceTrends: Array<{
     month: string;
     avg_performance: number;
     response_count: number;
     issues_reported: number;
+    avg_sentiment?: number | null;
   }>;
   quickWins?: Array<{
     title: string;
@@ -176,38 +217,29 @@ interface AnalyticsData {
 }
 
 export default function AnalyticsPage() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState('');
-  const [authError, setAuthError] = useState('');
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  // Check if already authenticated (using localStorage)
-  useEffect(() => {
-    const authStatus = localStorage.getItem('analytics_auth');
-    if (authStatus === 'authenticated') {
-      setIsAuthenticated(true);
-    }
-  }, []);
-
-  const handleAuth = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (password === 'uniat') {
-      setIsAuthenticated(true);
-      localStorage.setItem('analytics_auth', 'authenticated');
-      setAuthError('');
-      loadAnalytics();
-    } else {
-      setAuthError('Contraseña incorrecta');
-    }
-  };
+  // Filters live in the URL so a view can be shared; invalid parameters are dropped
+  const [filter, setFilter] = useState<AnalyticsFilter>(() =>
+    typeof window === 'undefined' ? {} : parseAnalyticsFilter(new URLSearchParams(window.location.search)).data
+  );
+  const [filterOptions, setFilterOptions] = useState<AnalyticsFilterOptions | null>(null);
+  const [exporting, setExporting] = useState<'csv' | 'xlsx' | 'pdf' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const loadAnalytics = async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch('/api/analytics');
+      const query = toSearchParams(filter).toString();
+      window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+      const response = await fetch(`/api/analytics${query ? `?${query}` : ''}`);
+      // The session expired or the role changed since the page was opened
+      if (response.status === 401 || response.status === 403) {
+        window.location.href = '/login';
+        return;
+      }
       if (!response.ok) throw new Error('Failed to load analytics');
       const analyticsData = await response.json();
       setData(analyticsData);
@@ -219,10 +251,20 @@ export default function AnalyticsPage() {
   };
 
   useEffect(() => {
-    if (isAuthenticated) {
-      loadAnalytics();
-    }
-  }, [isAuthenticated]);
+    loadAnalytics();
+  }, [filter]);
+
+  useEffect(() => {
+    fetch('/api/analytics/filters')
+      .then(response => response.ok ? response.json() : null)
+      .then(setFilterOptions)
+      .catch(() => setFilterOptions(null));
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
 
   const handleExportData = () => {
     if (!data) return;
@@ -243,6 +285,36 @@ export default function AnalyticsPage() {
     URL.revokeObjectURL(url);
   };
 
+  // Raw responses (for Excel or SPSS) and the executive report, under the current filters
+  const handleDownload = async (format: 'csv' | 'xlsx' | 'pdf') => {
+    setExporting(format);
+    setExportError(null);
+    try {
+      const params = toSearchParams(filter);
+      params.set('format', format);
+      const endpoint = format === 'pdf' ? '/api/reports/executive' : '/api/export/responses';
+      const response = await fetch(`${endpoint}?${params}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(response.status === 409
+          ? 'No hay suficientes respuestas con estos filtros para exportarlas sin identificar a nadie'
+          : response.status === 503
+            ? 'El servidor no tiene un navegador instalado para generar el PDF'
+            : body?.details || body?.error || `Error ${response.status}`);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${format === 'pdf' ? 'informe-ejecutivo' : 'respuestas'}-${new Date().toISOString().split('T')[0]}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Error al descargar el archivo');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 7) return 'text-gray-900';
     if (score >= 5) return 'text-gray-700';
@@ -259,53 +331,38 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Sentiment runs from -1 to 1
+  const formatSentiment = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(2)} · ${sentimentLabel(score)}`;
+
+  const getSentimentColor = (score: number) => {
+    const label = sentimentLabel(score);
+    if (label === 'Positivo') return 'text-green-700';
+    if (label === 'Negativo') return 'text-red-700';
+    return 'text-gray-600';
+  };
+
+  // 95% confidence interval of an average; placeholder rows and single respondents have none
+  const formatInterval = (low?: number | null, high?: number | null) =>
+    low != null && high != null ? `${low.toFixed(1)}–${high.toFixed(1)}` : null;
+
+  // Drill-down into one question, keeping the dashboard filters
+  const questionHref = (questionId: number) => {
+    const query = toSearchParams(filter).toString();
+    return `/analytics/questions/${questionId}${query ? `?${query}` : ''}`;
+  };
+
+  const getHistogramColor = (score: number) => {
+    if (score >= 8) return 'bg-green-500';
+    if (score >= 5) return 'bg-amber-400';
+    return 'bg-red-500';
+  };
+
   const formatTime = (seconds: number) => {
     if (!seconds) return '0m';
     const minutes = Math.floor(seconds / 60);
     return `${minutes}m`;
   };
 
-  // Authentication screen
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <div className="mx-auto mb-4 w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
-              <Lock className="w-8 h-8 text-blue-600" />
-            </div>
-            <CardTitle className="text-2xl">Acceso a Analytics</CardTitle>
-            <CardDescription>
-              Ingresa la contraseña para acceder al dashboard de analytics
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleAuth} className="space-y-4">
-              <div>
-                <Input
-                  type="password"
-                  placeholder="Contraseña"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full"
-                />
-              </div>
-              {authError && (
-                <Alert variant="destructive">
-                  <AlertTriangle className="h-4 w-4" />
-                  <AlertDescription>{authError}</AlertDescription>
-                </Alert>
-              )}
-              <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700">
-                Acceder
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -330,6 +387,8 @@ export default function AnalyticsPage() {
     );
   }
 
+  const surveyNames = Object.fromEntries((data.versionBreakdown ?? []).map(row => [String(row.survey_id), row.survey_name]));
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-6">
@@ -351,6 +410,12 @@ export default function AnalyticsPage() {
                     <Users className="w-4 h-4 text-gray-500" />
                     <span>Gerentes: {data.summary.manager_participation} | Ventas: {data.summary.sales_participation}</span>
                   </div>
+                  {data.summary.filters.department && (
+                    <div className="flex items-center space-x-2">
+                      <Building2 className="w-4 h-4 text-gray-500" />
+                      <span>Departamento: {data.summary.filters.department}</span>
+                    </div>
+                  )}
                   <div className="flex items-center space-x-2">
                     <Clock className="w-4 h-4 text-gray-500" />
                     <span>Actualizado: {new Date(data.summary.lastUpdated).toLocaleString('es-ES', {
@@ -358,25 +423,55 @@ export default function AnalyticsPage() {
                     })}</span>
                   </div>
                 </div>
+                <AnalyticsFilterBar filter={filter} options={filterOptions} onChange={setFilter} />
+                {exportError && (
+                  <div className="flex items-center space-x-2 mt-4 text-sm text-red-600">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>{exportError}</span>
+                  </div>
+                )}
+                {(data.summary.anonymity.belowThreshold || data.summary.anonymity.suppressedGroups > 0) && (
+                  <div className="flex items-center space-x-2 mt-4 text-sm text-gray-600">
+                    <ShieldCheck className="w-4 h-4 text-gray-500" />
+                    <span>
+                      {data.summary.anonymity.belowThreshold
+                        ? `Se necesitan al menos ${data.summary.anonymity.minCellSize} respuestas para mostrar puntuaciones sin identificar a nadie`
+                        : `${data.summary.anonymity.suppressedGroups} grupo(s) con menos de ${data.summary.anonymity.minCellSize} respuestas se ocultaron para proteger el anonimato`}
+                    </span>
+                  </div>
+                )}
               </div>
               <div className="flex space-x-3">
-                <Button variant="outline" size="sm" onClick={loadAnalytics} disabled={loading}>
+                <Button variant="outline" size="sm" onClick={() => loadAnalytics()} disabled={loading}>
                   <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
                   Actualizar
                 </Button>
+                <Button variant="outline" size="sm" onClick={() => window.location.href = '/action-items'}>
+                  <ListTodo className="w-4 h-4 mr-2" />
+                  Plan de Acción
+                </Button>
                 <Button size="sm" onClick={handleExportData} className="bg-blue-600 hover:bg-blue-700">
                   <Download className="w-4 h-4 mr-2" />
                   Exportar Reporte
                 </Button>
+                <Button variant="outline" size="sm" onClick={() => handleDownload('pdf')} disabled={exporting !== null}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  {exporting === 'pdf' ? 'Generando...' : 'Informe PDF'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleDownload('csv')} disabled={exporting !== null}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  {exporting === 'csv' ? 'Exportando...' : 'Respuestas CSV'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleDownload('xlsx')} disabled={exporting !== null}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  {exporting === 'xlsx' ? 'Exportando...' : 'Respuestas Excel'}
+                </Button>
                 <Button 
                   variant="outline" 
                   size="sm" 
-                  onClick={() => {
-                    setIsAuthenticated(false);
-                    localStorage.removeItem('analytics_auth');
-                  }}
+                  onClick={handleSignOut}
                 >
-                  <Lock className="w-4 h-4 mr-2" />
+                  <LogOut className="w-4 h-4 mr-2" />
                   Cerrar Sesión
                 </Button>
               </div>
@@ -476,7 +571,7 @@ export default function AnalyticsPage() {
 
           {/* MAIN ANALYTICS TABS */}
           <Tabs defaultValue="resumen" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4 bg-white border border-gray-200">
+            <TabsList className="grid w-full grid-cols-6 bg-white border border-gray-200">
               <TabsTrigger value="resumen" className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700">
                 Resumen Simple
               </TabsTrigger>
@@ -489,6 +584,12 @@ export default function AnalyticsPage() {
               <TabsTrigger value="recomendaciones" className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700">
                 Recomendaciones
               </TabsTrigger>
+              <TabsTrigger value="comentarios" className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700">
+                Comentarios
+              </TabsTrigger>
+              <TabsTrigger value="comparar" className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700">
+                Comparar
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="resumen" className="space-y-6">
@@ -664,6 +765,24 @@ export default function AnalyticsPage() {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* Net Promoter Score, and the employee version from questions tagged enps */}
+              {data.npsAnalysis && (
+                <div className="space-y-6 mt-6">
+                  <NpsCard
+                    title="Net Promoter Score"
+                    description="Probabilidad de recomendar, de 0 a 10: % de promotores (9-10) menos % de detractores (0-6)"
+                    breakdown={data.npsAnalysis.nps}
+                    surveyNames={surveyNames}
+                  />
+                  <NpsCard
+                    title="eNPS · Recomendación como lugar de trabajo"
+                    description="Mismo cálculo sobre las preguntas marcadas con la etiqueta enps"
+                    breakdown={data.npsAnalysis.enps}
+                    surveyNames={surveyNames}
+                  />
+                </div>
+              )}
             </TabsContent>
 
             <TabsContent value="areas" className="space-y-6">
@@ -672,12 +791,23 @@ export default function AnalyticsPage() {
                 <Card className="border-gray-200 bg-white">
                   <CardHeader>
                     <CardTitle className="text-lg text-gray-900">Rendimiento por Área</CardTitle>
-                    <CardDescription className="text-gray-600">Puntuaciones promedio de las secciones evaluadas</CardDescription>
+                    <CardDescription className="text-gray-600">
+                      Puntuación promedio por sección, contando a cada persona una vez; las barras de error muestran el intervalo de confianza del 95%
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     {data.sectionPerformance.length > 0 ? (
                       <ResponsiveContainer width="100%" height={300}>
-                        <BarChart data={data.sectionPerformance} margin={{ top: 20, right: 30, left: 20, bottom: 80 }}>
+                        <BarChart
+                          data={data.sectionPerformance.map(section => ({
+                            ...section,
+                            // Distance from the average to each end of the interval, as ErrorBar expects
+                            ci_error: section.ci_low != null && section.ci_high != null
+                              ? [Math.max(0, section.avg_score - section.ci_low), Math.max(0, section.ci_high - section.avg_score)]
+                              : [0, 0]
+                          }))}
+                          margin={{ top: 20, right: 30, left: 20, bottom: 80 }}
+                        >
                           <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                           <XAxis
                             dataKey="section"
@@ -689,10 +819,19 @@ export default function AnalyticsPage() {
                           />
                           <YAxis domain={[0, 10]} stroke="#6b7280" />
                           <Tooltip
-                            formatter={(value, name) => [`${value}/10`, 'Puntuación']}
+                            formatter={(value, name, item) => {
+                              const interval = formatInterval(item.payload.ci_low, item.payload.ci_high);
+                              const median = item.payload.median_score;
+                              return [
+                                `${value}/10${median !== undefined ? ` · mediana ${median.toFixed(1)}` : ''}${interval ? ` · IC 95% ${interval}` : ''}`,
+                                'Puntuación'
+                              ];
+                            }}
                             labelFormatter={(label) => `Área: ${label}`}
                           />
-                          <Bar dataKey="avg_score" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                          <Bar dataKey="avg_score" fill="#3b82f6" radius={[4, 4, 0, 0]}>
+                            <ErrorBar dataKey="ci_error" width={6} strokeWidth={1.5} stroke="#1e3a8a" />
+                          </Bar>
                         </BarChart>
                       </ResponsiveContainer>
                     ) : (
@@ -704,6 +843,19 @@ export default function AnalyticsPage() {
                         <p className="text-gray-500 text-sm">Se necesitan al menos 3 respuestas</p>
                       </div>
                     )}
+                    {data.sectionPerformance.some(section => section.avg_sentiment != null) && (
+                      <div className="mt-4 space-y-1">
+                        <p className="text-xs font-medium text-gray-500">Sentimiento de los comentarios</p>
+                        {data.sectionPerformance.filter(section => section.avg_sentiment != null).map(section => (
+                          <div key={section.section} className="flex justify-between text-sm">
+                            <span className="text-gray-700 truncate mr-3">{section.section}</span>
+                            <span className={`font-medium shrink-0 ${getSentimentColor(section.avg_sentiment!)}`}>
+                              {formatSentiment(section.avg_sentiment!)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -720,7 +872,7 @@ export default function AnalyticsPage() {
                             <div className="flex items-start justify-between">
                               <div className="flex-1">
                                 <p className="font-medium text-gray-900 text-sm">{issue.section}</p>
-                                <p className="text-gray-600 text-xs mt-1 line-clamp-2">{issue.question_text}</p>
+                                <a href={questionHref(issue.question_id)} className="text-gray-600 text-xs mt-1 line-clamp-2 hover:underline">{issue.question_text}</a>
                               </div>
                               <div className="ml-3 flex flex-col items-end">
                                 <div className={`px-2 py-1 rounded text-xs font-medium ${
@@ -731,6 +883,12 @@ export default function AnalyticsPage() {
                                   {issue.severity_score}/10
                                 </div>
                                 <p className="text-xs text-gray-500 mt-1">{issue.issue_category}</p>
+                                <CreateActionItemButton draft={{
+                                  title: `Problema crítico en ${issue.section}`,
+                                  description: issue.question_text,
+                                  category: issue.issue_category,
+                                  priority: 'high'
+                                }} />
                               </div>
                             </div>
                           </div>
@@ -747,6 +905,131 @@ export default function AnalyticsPage() {
                 </Card>
               </div>
 
+              {/* How the answers to each Likert question spread over the scale */}
+              {data.questionDistributions && data.questionDistributions.length > 0 && (
+                <Card className="border-gray-200 bg-white">
+                  <CardHeader>
+                    <CardTitle className="text-lg text-gray-900 flex items-center">
+                      <BarChart3 className="w-5 h-5 mr-2 text-blue-600" />
+                      Distribución de respuestas por pregunta
+                    </CardTitle>
+                    <CardDescription className="text-gray-600">
+                      Cuántas personas eligieron cada puntuación de la escala; dos preguntas con el mismo promedio pueden esconder opiniones muy distintas
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {data.questionDistributions.map(question => {
+                        const largest = Math.max(...question.counts, 1);
+                        const interval = formatInterval(question.ci_low, question.ci_high);
+                        return (
+                          <div key={question.question_id} className="p-4 border border-gray-200 rounded-lg">
+                            <a href={questionHref(question.question_id)} className="block text-sm font-medium text-gray-900 hover:underline">{question.question_text}</a>
+                            <p className="text-xs text-gray-500 mb-3">{question.section} · {question.n} respuestas</p>
+                            <div className="flex items-end h-16 gap-1">
+                              {question.counts.map((count, index) => (
+                                <div
+                                  key={index}
+                                  className={`flex-1 rounded-t ${getHistogramColor(index + question.min)}`}
+                                  style={{ height: `${(count / largest) * 100}%`, minHeight: count > 0 ? 2 : 0 }}
+                                  title={`${index + question.min}: ${count} respuesta${count !== 1 ? 's' : ''}`}
+                                />
+                              ))}
+                            </div>
+                            <div className="flex gap-1 mt-1">
+                              {question.counts.map((_, index) => (
+                                <span key={index} className="flex-1 text-center text-[10px] text-gray-400">{index + question.min}</span>
+                              ))}
+                            </div>
+                            <p className="text-xs text-gray-600 mt-2">
+                              Media {question.mean.toFixed(1)} · Mediana {question.median.toFixed(1)} · DE {question.std_dev.toFixed(1)}
+                              {interval && ` · IC 95% ${interval}`}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* What respondents put first in each ranking question */}
+              {data.rankingAnalysis && data.rankingAnalysis.length > 0 && (
+                <Card className="border-gray-200 bg-white">
+                  <CardHeader>
+                    <CardTitle className="text-lg text-gray-900 flex items-center">
+                      <ListOrdered className="w-5 h-5 mr-2 text-blue-600" />
+                      Clasificaciones
+                    </CardTitle>
+                    <CardDescription className="text-gray-600">
+                      Opciones de cada pregunta de clasificación ordenadas por puntos Borda: con k opciones, el primer puesto suma k − 1 puntos y el último ninguno
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                      {data.rankingAnalysis.map(question => (
+                        <div key={question.question_id} className="p-4 border border-gray-200 rounded-lg">
+                          <a href={questionHref(question.question_id)} className="block text-sm font-medium text-gray-900 hover:underline">{question.question_text}</a>
+                          <p className="text-xs text-gray-500 mb-3">{question.section} · {question.respondents} respuestas</p>
+                          <RankingTable ranking={question} />
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Themes found in the open-text answers */}
+              {data.textThemes && data.textThemes.analyzed_answers > 0 && (
+                <Card className="border-gray-200 bg-white">
+                  <CardHeader>
+                    <CardTitle className="text-lg text-gray-900 flex items-center">
+                      <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+                      Temas principales
+                    </CardTitle>
+                    <CardDescription className="text-gray-600">
+                      Agrupación automática de {data.textThemes.analyzed_answers} comentarios abiertos según las palabras que comparten
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {data.textThemes.themes.length > 0 ? (
+                      <div className="space-y-3">
+                        {data.textThemes.themes.map((theme, index) => (
+                          <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                            <div className="flex items-start justify-between">
+                              <div>
+                                <p className="font-medium text-gray-900">{theme.label}</p>
+                                <p className="text-xs text-gray-500">{theme.sections.join(' · ')}</p>
+                              </div>
+                              <div className="text-right ml-3 shrink-0">
+                                <p className="text-sm font-semibold text-gray-900">{theme.answer_count} comentarios</p>
+                                <p className="text-xs text-gray-500">{theme.share}% del total</p>
+                              </div>
+                            </div>
+                            <Progress value={theme.share} className="h-1.5" />
+                            {theme.examples.map(example => (
+                              <p key={example} className="text-sm text-gray-600 italic">«{example}»</p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">Los comentarios no comparten temas recurrentes todavía.</p>
+                    )}
+                    {data.textThemes.top_terms.length > 0 && (
+                      <div>
+                        <p className="text-xs font-medium text-gray-500 mb-2">Términos más frecuentes</p>
+                        <div className="flex flex-wrap gap-2">
+                          {data.textThemes.top_terms.map(term => (
+                            <Badge key={term.term} variant="secondary">{term.term} · {term.count}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Excellence Areas */}
               {data.excellenceAreas && data.excellenceAreas.length > 0 && (
                 <Card className="border-gray-200 bg-white">
@@ -778,6 +1061,42 @@ export default function AnalyticsPage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Results per survey version */}
+              {data.versionBreakdown && data.versionBreakdown.length > 0 && (
+                <Card className="border-gray-200 bg-white">
+                  <CardHeader>
+                    <CardTitle className="text-lg text-gray-900">Resultados por Versión</CardTitle>
+                    <CardDescription className="text-gray-600">
+                      Cada versión publicada conserva la redacción con la que se respondió; compare tendencias dentro de la misma versión
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {data.versionBreakdown.map(row => (
+                        <div key={`${row.survey_id}:${row.version}`} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {TARGET_ROLE_LABELS[row.target_role] || row.survey_name} · {row.version !== null ? `versión ${row.version}` : 'sin versión'}
+                            </p>
+                            {row.published_at && (
+                              <p className="text-xs text-gray-500">
+                                Publicada el {new Date(row.published_at).toLocaleDateString('es-ES')}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-6">
+                            <span className="text-gray-600">{row.response_count} respuestas</span>
+                            <span className={`font-bold ${row.avg_score !== null ? getScoreColor(row.avg_score) : 'text-gray-400'}`}>
+                              {row.avg_score !== null ? `${row.avg_score.toFixed(1)}/10` : '—'}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
 
             <TabsContent value="eficiencia" className="space-y-6">
@@ -806,6 +1125,12 @@ export default function AnalyticsPage() {
                             {team.performance_score.toFixed(1)}/10
                           </div>
                           <p className="text-sm text-gray-600">Rendimiento General</p>
+                          {team.median_score !== undefined && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Mediana {team.median_score.toFixed(1)}
+                              {formatInterval(team.ci_low, team.ci_high) && ` · IC 95% ${formatInterval(team.ci_low, team.ci_high)}`}
+                            </p>
+                          )}
                         </div>
 
                         {/* Metrics Grid */}
@@ -832,6 +1157,14 @@ export default function AnalyticsPage() {
                           </div>
                         )}
 
+                        {/* Sentiment of the team's comments */}
+                        {team.avg_sentiment != null && (
+                          <div className="flex justify-between items-center p-3 bg-gray-50 rounded border">
+                            <span className="text-sm text-gray-600">Sentimiento de comentarios:</span>
+                            <span className={`font-medium ${getSentimentColor(team.avg_sentiment)}`}>{formatSentiment(team.avg_sentiment)}</span>
+                          </div>
+                        )}
+
                         {/* Status Badge */}
                         <div className="text-center">
                           <Badge variant={team.sample_size > 5 ? 'default' : team.sample_size > 0 ? 'secondary' : 'outline'}>
@@ -851,7 +1184,7 @@ export default function AnalyticsPage() {
                   <CardHeader>
                     <CardTitle className="text-lg text-gray-900">Tendencia de Rendimiento del Equipo</CardTitle>
                     <CardDescription className="text-gray-600">
-                      Evolución del rendimiento a lo largo del tiempo
+                      Evolución del rendimiento a lo largo del tiempo, con el sentimiento de los comentarios (-1 a 1) en el eje derecho
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -859,12 +1192,16 @@ export default function AnalyticsPage() {
                       <LineChart data={data.performanceTrends} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                         <XAxis dataKey="month" fontSize={11} stroke="#6b7280" />
-                        <YAxis domain={[0, 10]} stroke="#6b7280" />
+                        <YAxis yAxisId="score" domain={[0, 10]} stroke="#6b7280" />
+                        <YAxis yAxisId="sentiment" orientation="right" domain={[-1, 1]} stroke="#16a34a" />
                         <Tooltip
-                          formatter={(value, name) => [`${value}/10`, 'Rendimiento Promedio']}
+                          formatter={(value, name) => name === 'avg_sentiment'
+                            ? [formatSentiment(Number(value)), 'Sentimiento']
+                            : [`${value}/10`, 'Rendimiento Promedio']}
                           labelFormatter={(label) => `Mes: ${label}`}
                         />
                         <Line
+                          yAxisId="score"
                           type="monotone"
                           dataKey="avg_performance"
                           stroke="#3b82f6"
@@ -872,6 +1209,16 @@ export default function AnalyticsPage() {
                           dot={{ fill: '#3b82f6', strokeWidth: 2, r: 5 }}
                           activeDot={{ r: 7, fill: '#1d4ed8' }}
                         />
+                        <Line
+                          yAxisId="sentiment"
+                          type="monotone"
+                          dataKey="avg_sentiment"
+                          stroke="#16a34a"
+                          strokeWidth={2}
+                          strokeDasharray="5 5"
+                          connectNulls
+                          dot={{ fill: '#16a34a', r: 4 }}
+                        />
                       </LineChart>
                     </ResponsiveContainer>
                   </CardContent>
@@ -948,7 +1295,8 @@ export default function AnalyticsPage() {
                             <div className="w-6 h-6 rounded-full bg-red-500 text-white text-xs flex items-center justify-center font-bold flex-shrink-0 mt-0.5">
                               !
                             </div>
-                            <p className="text-sm text-red-800">{action}</p>
+                            <p className="text-sm text-red-800 flex-1">{action}</p>
+                            <CreateActionItemButton draft={{ title: action, category: 'Acción inmediata', priority: 'high' }} />
                           </div>
                         ))
                       ) : (
@@ -979,7 +1327,8 @@ export default function AnalyticsPage() {
                             <div className="w-6 h-6 rounded-full bg-orange-500 text-white text-xs flex items-center justify-center font-bold flex-shrink-0 mt-0.5">
                               {index + 1}
                             </div>
-                            <p className="text-sm text-orange-800">{opportunity}</p>
+                            <p className="text-sm text-orange-800 flex-1">{opportunity}</p>
+                            <CreateActionItemButton draft={{ title: opportunity, category: 'Oportunidad de mejora', priority: 'medium' }} />
                           </div>
                         ))
                       ) : (
@@ -1013,7 +1362,8 @@ export default function AnalyticsPage() {
                             <div className="w-6 h-6 rounded-full bg-blue-500 text-white text-xs flex items-center justify-center font-bold flex-shrink-0 mt-0.5">
                               📋
                             </div>
-                            <p className="text-sm text-blue-800">{recommendation}</p>
+                            <p className="text-sm text-blue-800 flex-1">{recommendation}</p>
+                            <CreateActionItemButton draft={{ title: recommendation, category: 'Recomendación estratégica', priority: 'medium' }} />
                           </div>
                         ))
                       ) : (
@@ -1121,6 +1471,14 @@ export default function AnalyticsPage() {
                 </Card>
               </div>
             </TabsContent>
+
+            <TabsContent value="comentarios" className="space-y-6">
+              <TextExplorer filter={filter} />
+            </TabsContent>
+
+            <TabsContent value="comparar" className="space-y-6">
+              <PeriodComparisonPanel filter={filter} options={filterOptions} />
+            </TabsContent>
           </Tabs>
 
           {/* FOOTER */}
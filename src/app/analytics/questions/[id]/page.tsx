@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { QUESTION_TYPE_LABELS } from '@/components/QuestionEditor';
+import { RankingTable } from '@/components/RankingTable';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import { parseAnalyticsFilter, toSearchParams } from '@/lib/analytics/filters';
+import type { QuestionType } from '@/lib/questions';
+import type { QuestionDetail, QuestionGroupView, QuestionSplit, QuestionView } from '@/lib/analytics/types';
+import { ArrowLeft, BarChart3, ShieldCheck } from 'lucide-react';
+
+type QuestionDetailData = QuestionDetail & { minCellSize: number };
+
+const SPLIT_LABELS: Record<QuestionSplit, string> = {
+  none: 'Total',
+  role: 'Por rol',
+  month: 'Por mes'
+};
+
+const ALLOCATION_COLORS = ['bg-blue-500', 'bg-amber-400', 'bg-green-500', 'bg-purple-500', 'bg-red-400', 'bg-teal-500', 'bg-gray-400'];
+
+function groupLabel(split: QuestionSplit, group: string) {
+  if (split === 'role') return TARGET_ROLE_LABELS[group] || group;
+  if (split === 'month') return `Mes: ${group}`;
+  return 'Todas las respuestas';
+}
+
+function getScoreColor(score: number, isNps: boolean) {
+  if (isNps) return score >= 9 ? 'bg-green-500' : score >= 7 ? 'bg-amber-400' : 'bg-red-500';
+  if (score >= 8) return 'bg-green-500';
+  if (score >= 5) return 'bg-amber-400';
+  return 'bg-red-500';
+}
+
+function ScaleView({ view }: { view: Extract<QuestionView, { kind: 'scale' }> }) {
+  const largest = Math.max(...view.counts, 1);
+  const { summary } = view;
+  return (
+    <div>
+      <div className="flex items-end h-24 gap-1">
+        {view.counts.map((count, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-t ${getScoreColor(index + view.min, view.nps !== null)}`}
+            style={{ height: `${(count / largest) * 100}%`, minHeight: count > 0 ? 2 : 0 }}
+            title={`${index + view.min}: ${count} respuesta${count !== 1 ? 's' : ''}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {view.counts.map((_, index) => (
+          <span key={index} className="flex-1 text-center text-[10px] text-gray-400">{index + view.min}</span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-600 mt-2">
+        Media {summary.mean.toFixed(1)} · Mediana {summary.median.toFixed(1)} · DE {summary.std_dev.toFixed(1)}
+        {summary.ci_low !== null && summary.ci_high !== null && ` · IC 95% ${summary.ci_low.toFixed(1)}–${summary.ci_high.toFixed(1)}`}
+        {view.nps && ` · NPS ${view.nps.nps > 0 ? '+' : ''}${view.nps.nps}`}
+      </p>
+    </div>
+  );
+}
+
+function ChoiceView({ view }: { view: Extract<QuestionView, { kind: 'choice' }> }) {
+  const largest = Math.max(...view.options.map(option => option.share), 1);
+  return (
+    <div className="space-y-2">
+      {view.options.map(option => (
+        <div key={option.option} className="text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-700 truncate mr-3">{option.option}</span>
+            <span className="text-gray-500 shrink-0">{option.count} · {option.share}%</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div className="h-2 bg-blue-500 rounded" style={{ width: `${(option.share / largest) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AllocationView({ view }: { view: Extract<QuestionView, { kind: 'allocation' }> }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex h-4 rounded overflow-hidden">
+        {view.categories.map((category, index) => (
+          <div
+            key={category.category}
+            className={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}
+            style={{ width: `${category.mean_percentage}%` }}
+            title={`${category.category}: ${category.mean_percentage}%`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {view.categories.map((category, index) => (
+          <span key={category.category} className="flex items-center">
+            <span className={`inline-block w-2 h-2 rounded-sm mr-1 ${ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}`} />
+            {category.category} {category.mean_percentage}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TextView({ view, minCellSize }: { view: Extract<QuestionView, { kind: 'text' }>; minCellSize: number }) {
+  if (view.answers.length === 0) {
+    return <p className="text-sm text-gray-500">Se necesitan al menos {minCellSize} respuestas para citar los comentarios.</p>;
+  }
+  return (
+    <ul className="space-y-2 max-h-96 overflow-y-auto">
+      {view.answers.map((answer, index) => (
+        <li key={index} className="text-sm text-gray-800 border-l-2 border-gray-200 pl-3 whitespace-pre-line">{answer}</li>
+      ))}
+    </ul>
+  );
+}
+
+function GroupCard({ split, group, minCellSize }: { split: QuestionSplit; group: QuestionGroupView; minCellSize: number }) {
+  const { view } = group;
+  return (
+    <Card className="border-gray-200 bg-white">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base text-gray-900">{groupLabel(split, group.group)}</CardTitle>
+        <CardDescription>{group.respondents} respuesta{group.respondents !== 1 ? 's' : ''}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {view.kind === 'scale' && <ScaleView view={view} />}
+        {view.kind === 'choice' && <ChoiceView view={view} />}
+        {view.kind === 'ranking' && <RankingTable ranking={view.ranking} />}
+        {view.kind === 'allocation' && <AllocationView view={view} />}
+        {view.kind === 'text' && <TextView view={view} minCellSize={minCellSize} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+// One question under the dashboard filters, taken from the URL, with its
+// answers overall and split by role or month
+export default function AnalyticsQuestionPage() {
+  const params = useParams<{ id: string }>();
+  const questionId = parseInt(params.id);
+  const [filter] = useState(() =>
+    typeof window === 'undefined' ? {} : parseAnalyticsFilter(new URLSearchParams(window.location.search)).data
+  );
+  const [split, setSplit] = useState<QuestionSplit>('none');
+  const [data, setData] = useState<QuestionDetailData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const query = toSearchParams(filter);
+    if (split !== 'none') query.set('split', split);
+    fetch(`/api/analytics/questions/${questionId}?${query}`)
+      .then(response => {
+        if (!response.ok) throw new Error(response.status === 404 ? 'Pregunta no encontrada' : 'No se pudo cargar la pregunta');
+        return response.json();
+      })
+      .then(setData)
+      .catch(err => setError(err instanceof Error ? err.message : 'No se pudo cargar la pregunta'));
+  }, [questionId, filter, split]);
+
+  const dashboardQuery = toSearchParams(filter).toString();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <BarChart3 className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-semibold text-gray-900">Detalle de pregunta</h1>
+            </div>
+            <Button variant="outline" onClick={() => window.location.href = `/analytics${dashboardQuery ? `?${dashboardQuery}` : ''}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {!data && !error && <div className="text-muted-foreground">Cargando pregunta...</div>}
+
+          {data && (
+            <>
+              <Card className="border-gray-200 bg-white">
+                <CardHeader>
+                  <CardDescription>{data.question.section}</CardDescription>
+                  <CardTitle className="text-lg text-gray-900">{data.question.question_text}</CardTitle>
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
+                    <Badge variant="outline">{QUESTION_TYPE_LABELS[data.question.question_type as QuestionType] || data.question.question_type}</Badge>
+                    {data.overall && <span className="text-sm text-gray-600">{data.overall.respondents} respuestas con los filtros del panel</span>}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex gap-2">
+                    {(Object.keys(SPLIT_LABELS) as QuestionSplit[]).map(option => (
+                      <Button key={option} size="sm" variant={split === option ? 'default' : 'outline'} onClick={() => setSplit(option)}>
+                        {SPLIT_LABELS[option]}
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {data.overall ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <GroupCard split="none" group={data.overall} minCellSize={data.minCellSize} />
+                  {data.split === split && data.groups.map(group => (
+                    <GroupCard key={group.group} split={data.split} group={group} minCellSize={data.minCellSize} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Se necesitan al menos {data.minCellSize} respuestas a esta pregunta con los filtros del panel para mostrarla.
+                </p>
+              )}
+
+              {data.suppressedGroups > 0 && (
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <ShieldCheck className="w-4 h-4 text-gray-500" />
+                  <span>
+                    {data.suppressedGroups} grupo(s) con menos de {data.minCellSize} respuestas se ocultaron para proteger el anonimato
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type AnalyticsFilter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { isActionItemInScope, parseActionItemPayload } from '@/lib/action-items';
+
+// An action item with its status history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view action items' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const actionItemId = parseInt(id);
+
+    if (isNaN(actionItemId)) {
+      return NextResponse.json(
+        { error: 'Invalid action item ID' },
+        { status: 400 }
+      );
+    }
+
+    const actionItem = await databaseAdapter.getActionItem(actionItemId);
+    if (!actionItem || !isActionItemInScope(actionItem, scope)) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await databaseAdapter.getActionItemHistory(actionItemId);
+    return NextResponse.json({ actionItem, history });
+
+  } catch (error) {
+    console.error('Error fetching action item:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch action item' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view action items' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const actionItemId = parseInt(id);
+
+    if (isNaN(actionItemId)) {
+      return NextResponse.json(
+        { error: 'Invalid action item ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getActionItem(actionItemId);
+    if (!existing || !isActionItemInScope(existing, scope)) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data, errors } = parseActionItemPayload(await request.json(), true);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid action item', errors },
+        { status: 400 }
+      );
+    }
+
+    if (data.assignedTo != null && data.assignedTo !== existing.assigned_to) {
+      const assignee = await databaseAdapter.getUser(data.assignedTo);
+      if (!assignee || !assignee.is_active || !isActionItemInScope(assignee, scope)) {
+        return NextResponse.json(
+          { error: 'Invalid action item', errors: [`user ${data.assignedTo} does not exist, is inactive or is outside your department`] },
+          { status: 400 }
+        );
+      }
+    }
+
+    const actionItem = await databaseAdapter.updateActionItem(actionItemId, data, user.id);
+    return NextResponse.json({ actionItem });
+
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update action item',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancels the item; it stays on the board with its history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view action items' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const actionItemId = parseInt(id);
+
+    if (isNaN(actionItemId)) {
+      return NextResponse.json(
+        { error: 'Invalid action item ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getActionItem(actionItemId);
+    if (!existing || !isActionItemInScope(existing, scope)) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    const actionItem = await databaseAdapter.updateActionItem(actionItemId, { status: 'cancelled' }, user.id);
+    return NextResponse.json({ actionItem });
+
+  } catch (error) {
+    console.error('Error cancelling action item:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel action item',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
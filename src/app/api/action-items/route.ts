@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type ActionItemInput, type AnalyticsFilter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { isActionItemInScope, parseActionItemPayload } from '@/lib/action-items';
+
+// Action items together with the users they can be assigned to, both limited
+// to the manager's department
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view action items' },
+        { status: 403 }
+      );
+    }
+
+    const actionItems = (await databaseAdapter.getActionItems()).filter(item => isActionItemInScope(item, scope));
+    const users = (await databaseAdapter.getActiveUsers()).filter(assignee => isActionItemInScope(assignee, scope));
+    return NextResponse.json({
+      actionItems,
+      assignees: users.map(({ id, name, role, department }) => ({ id, name, role, department }))
+    });
+  } catch (error) {
+    console.error('Error fetching action items:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch action items' },
+      { status: 500 }
+    );
+  }
+}
+
+// A manager's items belong to their department; an admin's to the assignee's
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view action items' },
+        { status: 403 }
+      );
+    }
+
+    const { data, errors } = parseActionItemPayload(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid action item', errors },
+        { status: 400 }
+      );
+    }
+
+    let department = scope.department ?? null;
+    if (data.assignedTo != null) {
+      const assignee = await databaseAdapter.getUser(data.assignedTo);
+      if (!assignee || !assignee.is_active || !isActionItemInScope(assignee, scope)) {
+        return NextResponse.json(
+          { error: 'Invalid action item', errors: [`user ${data.assignedTo} does not exist, is inactive or is outside your department`] },
+          { status: 400 }
+        );
+      }
+      department ??= assignee.department ?? null;
+    }
+
+    const actionItem = await databaseAdapter.createActionItem({ ...data, department } as ActionItemInput, user.id);
+    return NextResponse.json({ actionItem }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating action item:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create action item',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { loadPeriodComparison } from '@/lib/analytics-report';
+import { COMPARISON_SIDES, parseComparisonFilter, type ComparisonFilter } from '@/lib/analytics';
+
+// Likert scores of two periods or survey waves under the dashboard filters,
+// with a significance test for every change
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: requested, errors } = parseComparisonFilter(request.nextUrl.searchParams);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid filter', errors }, { status: 400 });
+    }
+    const filter = {} as ComparisonFilter;
+    for (const side of COMPARISON_SIDES) {
+      const scoped = resolveAnalyticsScope(user, requested[side]);
+      if (!scoped) {
+        return NextResponse.json(
+          { error: 'Forbidden', details: 'Managers need a department to view analytics' },
+          { status: 403 }
+        );
+      }
+      filter[side] = scoped;
+    }
+
+    const comparison = await loadPeriodComparison(filter);
+
+    return NextResponse.json({ ...comparison, filters: filter });
+
+  } catch (error) {
+    console.error('Analytics comparison API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare analytics periods',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession } from '@/lib/auth';
+
+// Choices for the dashboard filter bar: surveys with their published versions,
+// question sections and respondents' departments (none for managers, who are
+// always limited to their own)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const surveys = await databaseAdapter.getAllSurveys();
+    const sections = new Set<string>();
+    const surveyOptions = [];
+    for (const survey of surveys) {
+      const versions = await databaseAdapter.getSurveyVersions(survey.id);
+      const questions = await databaseAdapter.getQuestionsBySurvey(survey.id);
+      questions.forEach(question => sections.add(question.section));
+      surveyOptions.push({
+        id: survey.id,
+        name: survey.name,
+        target_role: survey.target_role,
+        versions: versions.map(version => version.version)
+      });
+    }
+
+    const departments = user.role === 'manager'
+      ? []
+      : Array.from(new Set((await databaseAdapter.getActiveUsers()).map(u => u.department).filter(Boolean))).sort();
+
+    return NextResponse.json({
+      surveys: surveyOptions,
+      sections: Array.from(sections).sort(),
+      departments
+    });
+  } catch (error) {
+    console.error('Error fetching analytics filters:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch analytics filters' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type AnalyticsFilter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { parseSnapshot } from '@/lib/survey-versions';
+import { QUESTION_SPLITS, buildQuestionDetail, parseAnalyticsFilter, type DetailQuestion, type QuestionSplit } from '@/lib/analytics';
+import { MIN_CELL_SIZE } from '@/lib/anonymity';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Answers to one question under the dashboard filters, overall and split by
+// `split` (role or month). Sections are ignored: the question picks its own.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const questionId = parseInt(id);
+    if (isNaN(questionId)) {
+      return NextResponse.json({ error: 'Invalid question ID' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { data: requested, errors } = parseAnalyticsFilter(searchParams);
+    const split = (searchParams.get('split') ?? 'none') as QuestionSplit;
+    if (!QUESTION_SPLITS.includes(split)) {
+      errors.push(`split must be one of: ${QUESTION_SPLITS.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid filter', errors }, { status: 400 });
+    }
+
+    const stored = await databaseAdapter.getQuestion(questionId);
+    if (!stored) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+    let question: DetailQuestion = stored;
+
+    const { sections, ...rest } = requested;
+    const filter: AnalyticsFilter | null = resolveAnalyticsScope(user, { ...rest, surveyId: question.survey_id });
+    if (!filter) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view analytics' },
+        { status: 403 }
+      );
+    }
+    // A version other than the question's survey's cannot match any response
+    if (requested.surveyId !== undefined && requested.surveyId !== question.survey_id) {
+      delete filter.version;
+    }
+
+    // Show the question as the version being analysed asked it
+    if (filter.version !== undefined) {
+      const versionRow = await databaseAdapter.getSurveyVersion(question.survey_id, filter.version);
+      const asked = versionRow ? parseSnapshot(versionRow).find(q => q.id === questionId) : undefined;
+      if (asked) question = { ...question, ...asked, survey_id: question.survey_id };
+    }
+
+    const responses = await databaseAdapter.getResponsesWithAnswers(filter);
+    const detail = buildQuestionDetail(question, responses, { split });
+
+    return NextResponse.json({ ...detail, filters: filter, minCellSize: MIN_CELL_SIZE });
+
+  } catch (error) {
+    console.error('Error fetching question detail:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch question detail',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
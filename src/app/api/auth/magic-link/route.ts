@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { generateToken, hashToken, safeRedirectPath, MAGIC_LINK_TTL_MINUTES } from '@/lib/auth';
+import { sendMail } from '@/lib/mailer';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Email a single-use sign-in link to an active user; `next` is where it lands afterwards
+export async function POST(request: NextRequest) {
+  try {
+    const { email, next } = await request.json();
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return NextResponse.json(
+        { error: 'Invalid email' },
+        { status: 400 }
+      );
+    }
+
+    const user = await databaseAdapter.getUserByEmail(normalizedEmail);
+
+    // The response is the same whether or not the address belongs to a user,
+    // so the endpoint cannot be used to find out who has an account
+    if (user && user.is_active) {
+      const token = generateToken();
+      const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000);
+      await databaseAdapter.createAuthToken(user.id, await hashToken(token), expiresAt.toISOString());
+
+      const baseUrl = process.env.APP_URL || request.nextUrl.origin;
+      const nextPath = safeRedirectPath(next);
+      const link = `${baseUrl}/api/auth/verify?token=${encodeURIComponent(token)}`
+        + (nextPath ? `&next=${encodeURIComponent(nextPath)}` : '');
+
+      await sendMail({
+        to: user.email,
+        subject: 'Su enlace de acceso al Sistema de Retroalimentación',
+        text: [
+          `Hola ${user.name},`,
+          '',
+          'Use el siguiente enlace para iniciar sesión y responder su encuesta:',
+          link,
+          '',
+          `El enlace vence en ${MAGIC_LINK_TTL_MINUTES} minutos y solo puede usarse una vez.`,
+          'Si usted no solicitó este correo, puede ignorarlo.'
+        ].join('\n')
+      });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error sending sign-in link:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send sign-in link',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
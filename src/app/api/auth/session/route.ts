@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+
+// The signed-in user, or null
+export async function GET(request: NextRequest) {
+  const user = await getSession(request);
+  return NextResponse.json({ user });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { hashToken, safeRedirectPath, setSessionCookie, toSessionUser } from '@/lib/auth';
+
+// Redeem a sign-in link and start a session; failures go back to the login page
+export async function GET(request: NextRequest) {
+  const loginUrl = (reason: string) => new URL(`/login?error=${reason}`, request.url);
+
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.redirect(loginUrl('invalid'));
+    }
+
+    const userId = await databaseAdapter.consumeAuthToken(await hashToken(token));
+    const user = userId ? await databaseAdapter.getUser(userId) : null;
+
+    if (!user || !user.is_active) {
+      return NextResponse.redirect(loginUrl('invalid'));
+    }
+
+    // Back to the page that asked for sign-in; administrators have no survey of their own
+    const destination = safeRedirectPath(request.nextUrl.searchParams.get('next')) ?? (user.role === 'admin' ? '/' : '/survey');
+    const response = NextResponse.redirect(new URL(destination, request.url));
+    await setSessionCookie(response, toSessionUser(user));
+    return response;
+
+  } catch (error) {
+    console.error('Error verifying sign-in link:', error);
+    return NextResponse.redirect(loginUrl('failed'));
+  }
+}
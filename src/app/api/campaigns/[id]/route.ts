@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getInvitationStatus } from '@/lib/campaigns';
+
+// Campaign progress with the status of every recipient
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const campaignId = parseInt(id);
+
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { error: 'Invalid campaign ID' },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await databaseAdapter.getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const recipients = await databaseAdapter.getCampaignRecipients(campaignId);
+    return NextResponse.json({
+      campaign,
+      recipients: recipients.map(recipient => ({ ...recipient, status: getInvitationStatus(recipient) }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching campaign:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
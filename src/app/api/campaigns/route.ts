@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { generateToken, getSession, hashToken } from '@/lib/auth';
+import { buildInvitationEmail, parseCampaignPayload, type CampaignPayload } from '@/lib/campaigns';
+import { sendMail } from '@/lib/mailer';
+
+export async function GET() {
+  try {
+    const campaigns = await databaseAdapter.getCampaigns();
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('Error fetching campaigns:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a campaign and email every recipient their personal survey link
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { data, errors } = parseCampaignPayload(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid campaign', errors },
+        { status: 400 }
+      );
+    }
+
+    const payload = data as CampaignPayload;
+    const survey = await databaseAdapter.getSurvey(payload.surveyId);
+    if (!survey) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+    if (!survey.is_active || survey.version === 0) {
+      return NextResponse.json(
+        { error: 'Survey not available', details: 'Only active, published surveys can be sent' },
+        { status: 409 }
+      );
+    }
+
+    // Recipients must be able to take the survey once they follow their link
+    const activeUsers = new Map((await databaseAdapter.getActiveUsers()).map(user => [user.id, user]));
+    const recipientErrors = payload.userIds.flatMap(userId => {
+      const user = activeUsers.get(userId);
+      if (!user) return [`user ${userId} does not exist or is inactive`];
+      if (user.role !== survey.target_role) return [`user ${userId} is not in the ${survey.target_role} role`];
+      return [];
+    });
+
+    if (recipientErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid campaign', errors: recipientErrors },
+        { status: 400 }
+      );
+    }
+
+    const invitations = await Promise.all(payload.userIds.map(async userId => {
+      const token = generateToken();
+      return { user: activeUsers.get(userId), token, tokenHash: await hashToken(token) };
+    }));
+
+    const session = await getSession(request);
+    const campaign = await databaseAdapter.createCampaign(
+      { surveyId: survey.id, name: payload.name, createdBy: session?.id ?? null },
+      invitations.map(({ user, tokenHash }) => ({ userId: user.id, tokenHash }))
+    );
+
+    // The campaign exists either way; addresses that could not be reached are
+    // reported so the admin can follow up with those users directly
+    const baseUrl = process.env.APP_URL || request.nextUrl.origin;
+    const failedRecipients: string[] = [];
+    for (const { user, token } of invitations) {
+      try {
+        const link = `${baseUrl}/survey?token=${encodeURIComponent(token)}`;
+        await sendMail(buildInvitationEmail(user, survey, link));
+      } catch (error) {
+        console.error(`Error sending invitation to ${user.email}:`, error);
+        failedRecipients.push(user.email);
+      }
+    }
+
+    return NextResponse.json({ campaign, failedRecipients }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating campaign:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
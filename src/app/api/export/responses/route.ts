@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { parseAnalyticsFilter } from '@/lib/analytics';
+import { MIN_CELL_SIZE, isReportable } from '@/lib/anonymity';
+import { buildResponseTable, responseRows, variableRows } from '@/lib/export/responses';
+import { toCsv } from '@/lib/export/csv';
+import { toXlsx } from '@/lib/export/xlsx';
+
+const FORMATS = ['csv', 'xlsx'];
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Raw responses, one row each, under the same filters as the dashboard.
+// XLSX carries the variables sheet alongside; CSV holds one sheet per file,
+// so the variables come from ?sheet=variables.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') ?? 'csv';
+    const sheet = params.get('sheet') ?? 'responses';
+    const { data: requested, errors } = parseAnalyticsFilter(params);
+    if (!FORMATS.includes(format)) errors.push(`format must be one of: ${FORMATS.join(', ')}`);
+    if (!['responses', 'variables'].includes(sheet)) errors.push('sheet must be one of: responses, variables');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid filter', errors }, { status: 400 });
+    }
+    const filter = resolveAnalyticsScope(user, requested);
+    if (!filter) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to export responses' },
+        { status: 403 }
+      );
+    }
+
+    const responses = await databaseAdapter.getResponsesWithAnswers(filter);
+    // Raw rows include free text, so small groups stay as hidden as on the dashboard
+    if (!isReportable(responses.length)) {
+      return NextResponse.json(
+        { error: 'Not enough responses', details: `At least ${MIN_CELL_SIZE} responses are needed to export` },
+        { status: 409 }
+      );
+    }
+
+    const table = buildResponseTable(responses);
+    const filename = `respuestas-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'xlsx') {
+      const workbook = toXlsx([
+        { name: 'Respuestas', rows: responseRows(table) },
+        { name: 'Variables', rows: variableRows(table) }
+      ]);
+      return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+          'Content-Type': XLSX_TYPE,
+          'Content-Disposition': `attachment; filename="${filename}.xlsx"`
+        }
+      });
+    }
+
+    const rows = sheet === 'variables' ? variableRows(table) : responseRows(table);
+    return new NextResponse(toCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${sheet === 'variables' ? `variables-${filename}` : filename}.csv"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Export API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export responses',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { hashToken, setSessionCookie, toSessionUser } from '@/lib/auth';
+
+// Exchange an invitation token for a session as its recipient. Unlike sign-in
+// links, the token keeps working until the survey is completed, so a recipient
+// can come back to a draft from the same email. Since a forwarded link works
+// just as well, the session only reaches the campaign's survey, never the rest
+// of what the recipient's role could see; signing in gives the full session.
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    const invitation = typeof token === 'string' && token
+      ? await databaseAdapter.getInvitation(await hashToken(token))
+      : null;
+    const user = invitation ? await databaseAdapter.getUser(invitation.user_id) : null;
+
+    if (!invitation || !user || !user.is_active) {
+      return NextResponse.json(
+        { error: 'Invalid invitation' },
+        { status: 404 }
+      );
+    }
+    if (invitation.completed_at) {
+      return NextResponse.json(
+        { error: 'Invitation already used', details: 'The survey was already completed with this invitation' },
+        { status: 410 }
+      );
+    }
+
+    const survey = await databaseAdapter.getSurvey(invitation.survey_id);
+    if (!survey || !survey.is_active) {
+      return NextResponse.json(
+        { error: 'Survey not available' },
+        { status: 410 }
+      );
+    }
+
+    await databaseAdapter.markInvitationOpened(invitation.id);
+
+    const sessionUser = { ...toSessionUser(user), surveyId: survey.id };
+    const response = NextResponse.json({
+      user: sessionUser,
+      campaign: { id: invitation.campaign_id, name: invitation.campaign_name },
+      survey: { id: survey.id, name: survey.name, description: survey.description, target_role: survey.target_role }
+    });
+    await setSessionCookie(response, sessionUser);
+    return response;
+
+  } catch (error) {
+    console.error('Error redeeming invitation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to redeem invitation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
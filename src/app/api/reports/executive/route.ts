@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { parseAnalyticsFilter } from '@/lib/analytics';
+import { loadAnalyticsReport } from '@/lib/analytics-report';
+import { renderExecutiveReport } from '@/lib/reports/executive-report';
+import { findBrowser, htmlToPdf } from '@/lib/reports/pdf';
+
+const FORMATS = ['pdf', 'html'];
+
+// Executive report under the same filters as the dashboard. format=html
+// returns the page the PDF is printed from, for previewing it in a browser.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') ?? 'pdf';
+    const { data: requested, errors } = parseAnalyticsFilter(params);
+    if (!FORMATS.includes(format)) errors.push(`format must be one of: ${FORMATS.join(', ')}`);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid filter', errors }, { status: 400 });
+    }
+    const filter = resolveAnalyticsScope(user, requested);
+    if (!filter) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view analytics' },
+        { status: 403 }
+      );
+    }
+
+    if (format === 'pdf' && !findBrowser()) {
+      return NextResponse.json(
+        { error: 'PDF generation unavailable', details: 'No Chrome or Chromium found; set REPORT_CHROME_PATH' },
+        { status: 503 }
+      );
+    }
+
+    const report = await loadAnalyticsReport(filter);
+    const survey = filter.surveyId !== undefined ? await databaseAdapter.getSurvey(filter.surveyId) : null;
+    const html = renderExecutiveReport(report, { filter, surveyName: survey?.name, generatedAt: new Date() });
+
+    if (format === 'html') {
+      return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+    }
+
+    const pdf = await htmlToPdf(html);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="informe-ejecutivo-${new Date().toISOString().slice(0, 10)}.pdf"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Executive report error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
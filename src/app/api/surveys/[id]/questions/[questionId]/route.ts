@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { parseQuestionPayload, parseStoredQuestion } from '@/lib/survey-authoring';
+import { parseDisplayCondition } from '@/lib/question-conditions';
+
+type RouteParams = { params: Promise<{ id: string; questionId: string }> };
+
+// Resolve the route params to a question that belongs to the survey
+async function findQuestion(params: RouteParams['params']) {
+  const { id, questionId } = await params;
+  const surveyId = parseInt(id);
+  const questionIdNum = parseInt(questionId);
+
+  if (isNaN(surveyId) || isNaN(questionIdNum)) {
+    return { error: NextResponse.json({ error: 'Invalid survey or question ID' }, { status: 400 }) };
+  }
+
+  const question = await databaseAdapter.getQuestion(questionIdNum);
+  if (!question || question.survey_id !== surveyId) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+
+  return { surveyId, question };
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, surveyId, question } = await findQuestion(params);
+    if (error) return error;
+
+    const body = await request.json();
+
+    const otherQuestions = (await databaseAdapter.getQuestionsBySurvey(surveyId))
+      .filter((q: any) => q.id !== question.id);
+    const stored = parseStoredQuestion(question);
+    const { data, errors } = parseQuestionPayload({ ...stored, ...body }, question.question_order, otherQuestions);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Invalid question', errors },
+        { status: 400 }
+      );
+    }
+
+    // Analytics read every stored answer against the live question, so once a
+    // question has answers it stays as it is; changes go into a new question
+    const current = parseQuestionPayload(stored, question.question_order, otherQuestions).data;
+    if (JSON.stringify(data) !== JSON.stringify(current)) {
+      const answerCount = await databaseAdapter.countAnswersByQuestion(question.id);
+      if (answerCount > 0) {
+        return NextResponse.json(
+          {
+            error: 'Question has answers',
+            details: `Question ${question.id} has ${answerCount} answers and can no longer change; add a new question instead`
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await databaseAdapter.updateQuestion(question.id, data);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ question: parseStoredQuestion(updated) });
+
+  } catch (error) {
+    console.error('Error updating question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update question',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, surveyId, question } = await findQuestion(params);
+    if (error) return error;
+
+    const answerCount = await databaseAdapter.countAnswersByQuestion(question.id);
+    if (answerCount > 0) {
+      return NextResponse.json(
+        {
+          error: 'Question has answers',
+          details: `Question ${question.id} has ${answerCount} answers and cannot be deleted`
+        },
+        { status: 409 }
+      );
+    }
+
+    const dependents = (await databaseAdapter.getQuestionsBySurvey(surveyId))
+      .filter((q: any) => parseDisplayCondition(q)?.question_order === question.question_order);
+    if (dependents.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Question is used by skip logic',
+          details: `Questions ${dependents.map((q: any) => q.id).join(', ')} depend on question ${question.id}`
+        },
+        { status: 409 }
+      );
+    }
+
+    await databaseAdapter.deleteQuestion(question.id);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete question',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { databaseAdapter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { parseQuestionPayload, parseStoredQuestion } from '@/lib/survey-authoring';
+import { parseDisplayCondition } from '@/lib/question-conditions';
+import { getPublishedQuestions } from '@/lib/survey-versions';
 
+// Respondents get the questions of a published version (?version=N, the current
+// one by default); the admin editor asks for the unpublished ones with ?source=live
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -25,13 +31,44 @@ export async function GET(
       );
     }
 
-    // Get questions for this survey
-    const questions = await databaseAdapter.getQuestionsBySurvey(surveyId);
+    let questions: any[];
+    let published: { version: number; published_at: string } | null = null;
+
+    if (request.nextUrl.searchParams.get('source') === 'live') {
+      questions = await databaseAdapter.getQuestionsBySurvey(surveyId);
+    } else {
+      const versionParam = request.nextUrl.searchParams.get('version');
+      const version = versionParam === null ? survey.version : parseInt(versionParam);
+
+      if (isNaN(version)) {
+        return NextResponse.json(
+          { error: 'Invalid survey version' },
+          { status: 400 }
+        );
+      }
+
+      const snapshot = await getPublishedQuestions(survey, version);
+      if (!snapshot) {
+        return versionParam === null
+          ? NextResponse.json(
+              { error: 'Survey not published', details: `Survey ${surveyId} has no published version yet` },
+              { status: 409 }
+            )
+          : NextResponse.json(
+              { error: 'Survey version not found', details: `Survey ${surveyId} has no version ${version}` },
+              { status: 404 }
+            );
+      }
+
+      questions = snapshot.questions;
+      published = { version: snapshot.version, published_at: snapshot.publishedAt };
+    }
 
     // Parse JSON fields with error handling
     const parsedQuestions = questions.map((question: any) => {
       let options = null;
       let validation_rules = null;
+      let display_condition = null;
 
       if (question.options) {
         try {
@@ -51,15 +88,27 @@ export async function GET(
         }
       }
 
+      if (question.display_condition) {
+        try {
+          display_condition = JSON.parse(question.display_condition);
+        } catch (error) {
+          console.error('Error parsing display_condition for question', question.id, ':', error);
+          display_condition = null;
+        }
+      }
+
       return {
         ...question,
         options,
         validation_rules,
+        display_condition,
       };
     });
 
     return NextResponse.json({
       survey,
+      version: published?.version ?? null,
+      published_at: published?.published_at ?? null,
       questions: parsedQuestions,
     });
 
@@ -70,4 +119,121 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+// Append a new question to the survey
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const surveyId = parseInt(id);
+
+    if (isNaN(surveyId)) {
+      return NextResponse.json(
+        { error: 'Invalid survey ID' },
+        { status: 400 }
+      );
+    }
+
+    const survey = await databaseAdapter.getSurvey(surveyId);
+    if (!survey) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const surveyQuestions = await databaseAdapter.getQuestionsBySurvey(surveyId);
+    const { data, errors } = parseQuestionPayload(await request.json(), null, surveyQuestions);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Invalid question', errors },
+        { status: 400 }
+      );
+    }
+
+    const question = await databaseAdapter.createQuestion(surveyId, data);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ question: parseStoredQuestion(question) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating question:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create question',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Reorder questions: body is { questionIds } listing every question of the survey in its new order
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const surveyId = parseInt(id);
+
+    if (isNaN(surveyId)) {
+      return NextResponse.json(
+        { error: 'Invalid survey ID' },
+        { status: 400 }
+      );
+    }
+
+    const { questionIds }: { questionIds: number[] } = await request.json();
+    const questions = await databaseAdapter.getQuestionsBySurvey(surveyId);
+    const currentIds = questions.map((q: any) => q.id);
+
+    const isPermutation = Array.isArray(questionIds)
+      && questionIds.length === currentIds.length
+      && new Set(questionIds).size === questionIds.length
+      && questionIds.every(questionId => currentIds.includes(questionId));
+
+    if (!isPermutation) {
+      return NextResponse.json(
+        { error: 'questionIds must list every question of the survey exactly once' },
+        { status: 400 }
+      );
+    }
+
+    // A conditional question must stay after the question it depends on
+    const newPosition = new Map<number, number>(questionIds.map((questionId, index) => [questionId, index + 1]));
+    const positionByOrder = new Map<number, number>(questions.map((q: any) => [q.question_order, newPosition.get(q.id)!]));
+    const brokenConditions = questions.filter((q: any) => {
+      const condition = parseDisplayCondition(q);
+      const sourcePosition = condition && positionByOrder.get(condition.question_order);
+      return sourcePosition !== undefined && sourcePosition !== null && sourcePosition >= newPosition.get(q.id)!;
+    });
+
+    if (brokenConditions.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid question order',
+          details: `Questions ${brokenConditions.map((q: any) => q.id).join(', ')} would come before the question their display condition depends on`
+        },
+        { status: 400 }
+      );
+    }
+
+    await databaseAdapter.reorderQuestions(surveyId, questionIds);
+    await invalidateAnalyticsCache();
+    const reordered = await databaseAdapter.getQuestionsBySurvey(surveyId);
+    return NextResponse.json({ questions: reordered.map(parseStoredQuestion) });
+
+  } catch (error) {
+    console.error('Error reordering questions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reorder questions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
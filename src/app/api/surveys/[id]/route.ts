@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { parseSurveyPayload } from '@/lib/survey-authoring';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const surveyId = parseInt(id);
+
+    if (isNaN(surveyId)) {
+      return NextResponse.json(
+        { error: 'Invalid survey ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getSurvey(surveyId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data, errors } = parseSurveyPayload(await request.json(), true);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid survey', errors },
+        { status: 400 }
+      );
+    }
+
+    const survey = await databaseAdapter.updateSurvey(surveyId, data);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ survey });
+
+  } catch (error) {
+    console.error('Error updating survey:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Surveys that already collected responses are deactivated instead of deleted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const surveyId = parseInt(id);
+
+    if (isNaN(surveyId)) {
+      return NextResponse.json(
+        { error: 'Invalid survey ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getSurvey(surveyId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Survey not found' },
+        { status: 404 }
+      );
+    }
+
+    const responseCount = await databaseAdapter.countResponsesBySurvey(surveyId);
+    if (responseCount > 0) {
+      return NextResponse.json(
+        {
+          error: 'Survey has responses',
+          details: `Survey ${surveyId} has ${responseCount} responses; deactivate it instead of deleting it`
+        },
+        { status: 409 }
+      );
+    }
+
+    await databaseAdapter.deleteSurvey(surveyId);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting survey:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
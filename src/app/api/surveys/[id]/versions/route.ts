@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { hasUnpublishedChanges, parseSnapshot } from '@/lib/survey-versions';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Resolve the route params to an existing survey
+async function findSurvey(params: RouteParams['params']) {
+  const { id } = await params;
+  const surveyId = parseInt(id);
+
+  if (isNaN(surveyId)) {
+    return { error: NextResponse.json({ error: 'Invalid survey ID' }, { status: 400 }) };
+  }
+
+  const survey = await databaseAdapter.getSurvey(surveyId);
+  if (!survey) {
+    return { error: NextResponse.json({ error: 'Survey not found' }, { status: 404 }) };
+  }
+
+  return { survey };
+}
+
+// Compare the live questions with the snapshot of the current version
+async function getPublishState(survey: any) {
+  const liveQuestions = await databaseAdapter.getQuestionsBySurvey(survey.id);
+  const current = survey.version > 0 ? await databaseAdapter.getSurveyVersion(survey.id, survey.version) : null;
+  return {
+    liveQuestions,
+    hasUnpublishedChanges: hasUnpublishedChanges(liveQuestions, current ? parseSnapshot(current) : null)
+  };
+}
+
+// List the published versions of a survey
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, survey } = await findSurvey(params);
+    if (error) return error;
+
+    const versions = await databaseAdapter.getSurveyVersions(survey.id);
+    const { hasUnpublishedChanges } = await getPublishState(survey);
+
+    return NextResponse.json({
+      currentVersion: survey.version,
+      hasUnpublishedChanges,
+      versions
+    });
+
+  } catch (error) {
+    console.error('Error fetching survey versions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch survey versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Publish the current questions as the next immutable version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, survey } = await findSurvey(params);
+    if (error) return error;
+
+    const { liveQuestions, hasUnpublishedChanges } = await getPublishState(survey);
+
+    if (liveQuestions.length === 0) {
+      return NextResponse.json(
+        { error: 'Survey has no questions', details: `Survey ${survey.id} needs at least one question to be published` },
+        { status: 409 }
+      );
+    }
+
+    if (!hasUnpublishedChanges) {
+      return NextResponse.json(
+        { error: 'Nothing to publish', details: `Survey ${survey.id} has no changes since version ${survey.version}` },
+        { status: 409 }
+      );
+    }
+
+    const published = await databaseAdapter.publishSurvey(survey.id);
+    await invalidateAnalyticsCache();
+    const { questions, ...version } = published;
+
+    return NextResponse.json({
+      survey: await databaseAdapter.getSurvey(survey.id),
+      version: { ...version, question_count: parseSnapshot({ questions }).length }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error publishing survey:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to publish survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
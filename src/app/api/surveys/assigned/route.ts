@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession, isSurveyInScope } from '@/lib/auth';
+
+// The survey the signed-in user should answer: the invitation's for sessions
+// opened from one, otherwise picked by their role
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Only published surveys can be answered; the newest one wins if a role has several
+    const surveys = await databaseAdapter.getSurveysByRole(user.role);
+    const survey = surveys
+      .filter(candidate => candidate.version > 0 && isSurveyInScope(user, candidate.id))
+      .sort((a, b) => b.id - a.id)[0];
+
+    if (!survey) {
+      return NextResponse.json(
+        { error: 'No survey assigned', details: `There is no published survey for the ${user.role} role` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ survey });
+
+  } catch (error) {
+    console.error('Error fetching assigned survey:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch assigned survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
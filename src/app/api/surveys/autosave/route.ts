@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession, isSurveyInScope } from '@/lib/auth';
+import { findDuplicateQuestionIds, isValidConfidenceScore, isWellFormedAnswer, toAnswerNumeric } from '@/lib/answer-validation';
+import { getPublishedQuestions } from '@/lib/survey-versions';
+
+// As on submit, any `numericValue` sent along is ignored and derived from `value`
+interface DraftAnswer {
+  questionId: number;
+  value: string;
+  confidenceScore?: number;
+}
+
+interface AutosaveRequest {
+  surveyId: number;
+  sessionId: string;
+  answers: DraftAnswer[];
+  startedAt?: string;
+  surveyVersion?: number;
+  anonymous?: boolean;
+}
+
+// Save partial answers against the draft response for this session
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { surveyId, sessionId, answers, startedAt, surveyVersion, anonymous }: AutosaveRequest = await request.json();
+
+    if (!surveyId || !sessionId || !answers || !Array.isArray(answers)) {
+      return NextResponse.json(
+        { error: 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+
+    if (!answers.every(isWellFormedAnswer)) {
+      return NextResponse.json(
+        { error: 'Invalid answers', details: 'Every answer needs a numeric questionId and a string value' },
+        { status: 400 }
+      );
+    }
+
+    const duplicateIds = findDuplicateQuestionIds(answers);
+    if (duplicateIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Duplicate question IDs', details: `Question IDs ${duplicateIds.join(', ')} are answered more than once` },
+        { status: 400 }
+      );
+    }
+
+    if (!answers.every(answer => isValidConfidenceScore(answer.confidenceScore))) {
+      return NextResponse.json(
+        { error: 'Invalid confidence score', details: 'confidenceScore must be a whole number from 1 to 10' },
+        { status: 400 }
+      );
+    }
+
+    const survey = await databaseAdapter.getSurvey(surveyId);
+    if (!isSurveyInScope(user, surveyId)) {
+      return NextResponse.json(
+        { error: 'Survey not assigned to user', details: `This session was opened from an invitation to survey ${user.surveyId}` },
+        { status: 403 }
+      );
+    }
+
+    if (survey && survey.target_role !== user.role) {
+      return NextResponse.json(
+        { error: 'Survey not assigned to user', details: `Survey ${surveyId} is meant for the ${survey.target_role} role` },
+        { status: 403 }
+      );
+    }
+
+    if (answers.length > 0) {
+      const validation = await databaseAdapter.validateQuestionIds(answers.map(a => a.questionId), surveyId);
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            error: 'Invalid question IDs',
+            missingIds: validation.missingIds,
+            details: `Question IDs ${validation.missingIds?.join(', ')} do not exist for survey ${surveyId}`
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Another user's draft under the same session is never found, so it is left alone
+    let draft = await databaseAdapter.getResponseBySession(sessionId, user.id);
+
+    if (draft?.is_complete) {
+      return NextResponse.json(
+        { error: 'Survey already submitted', responseId: draft.id },
+        { status: 409 }
+      );
+    }
+
+    if (draft && draft.survey_id !== surveyId) {
+      return NextResponse.json(
+        { error: 'Session belongs to a different survey' },
+        { status: 409 }
+      );
+    }
+
+    if (!draft) {
+      // Drafts always name their owner so they can only be resumed by them;
+      // an anonymous submission drops the link when it completes
+      draft = await databaseAdapter.insertResponse(
+        surveyId,
+        user.id,
+        sessionId,
+        Boolean(anonymous),
+        startedAt || new Date().toISOString(),
+        surveyVersion ?? null
+      );
+      // Campaign progress is tracked per user only, never per response,
+      // so it stays the same whether or not the answers are anonymous
+      await databaseAdapter.markInvitationsStarted(user.id, surveyId);
+    }
+
+    // Drafts may hold answers that do not validate yet; those get no numeric value
+    const published = survey ? await getPublishedQuestions(survey, surveyVersion ?? survey.version) : null;
+    const questionsById = new Map((published?.questions ?? []).map((q: any) => [q.id, q]));
+
+    await databaseAdapter.replaceAnswers(draft.id, answers.map(answer => ({
+      questionId: answer.questionId,
+      answerValue: answer.value,
+      answerNumeric: toAnswerNumeric(questionsById.get(answer.questionId), answer.value),
+      confidenceScore: answer.confidenceScore ?? null
+    })));
+
+    return NextResponse.json({
+      success: true,
+      responseId: Number(draft.id),
+      savedAt: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Autosave error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save draft',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Look up the open draft for a session so the survey can be resumed
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Missing sessionId' },
+        { status: 400 }
+      );
+    }
+
+    const response = await databaseAdapter.getResponseBySession(sessionId, user.id);
+
+    if (!response || response.is_complete) {
+      return NextResponse.json({ draft: null });
+    }
+
+    const answers = await databaseAdapter.getAnswersByResponse(response.id);
+
+    return NextResponse.json({
+      draft: {
+        responseId: Number(response.id),
+        surveyId: response.survey_id,
+        sessionId: response.session_id,
+        startedAt: response.started_at,
+        surveyVersion: response.survey_version ?? null,
+        answers: answers.map((answer: any) => ({
+          questionId: answer.question_id,
+          value: answer.answer_value ?? '',
+          numericValue: answer.answer_numeric ?? undefined,
+          confidenceScore: answer.confidence_score ?? undefined
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Draft lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load draft' },
+      { status: 500 }
+    );
+  }
+}
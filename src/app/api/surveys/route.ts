@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type SurveyInput } from '@/lib/database-adapter';
+import { parseSurveyPayload } from '@/lib/survey-authoring';
+
+// List every survey, including inactive ones, for the admin area
+export async function GET() {
+  try {
+    const surveys = await databaseAdapter.getAllSurveys();
+    return NextResponse.json({ surveys });
+  } catch (error) {
+    console.error('Error fetching surveys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch surveys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { data, errors } = parseSurveyPayload(body);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid survey', errors },
+        { status: 400 }
+      );
+    }
+
+    const survey = await databaseAdapter.createSurvey(data as SurveyInput);
+    return NextResponse.json({ survey }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating survey:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create survey',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
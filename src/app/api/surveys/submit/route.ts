@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { databaseAdapter, isUsingSupabase } from '@/lib/database-adapter';
+import { findDuplicateQuestionIds, isValidConfidenceScore, isWellFormedAnswer, toAnswerNumeric, validateSubmission } from '@/lib/answer-validation';
+import { filterVisibleAnswers } from '@/lib/question-conditions';
+import { getPublishedQuestions } from '@/lib/survey-versions';
+import { getSession, isSurveyInScope } from '@/lib/auth';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { scoreSentiment } from '@/lib/analytics/sentiment';
 
+// Clients may still send `numericValue`; it is ignored and derived from `value`
 interface SubmissionAnswer {
   questionId: number;
   value: string;
-  numericValue?: number;
   confidenceScore?: number;
 }
 
@@ -15,20 +21,18 @@ interface SubmissionRequest {
   responseTime: number;
   sessionId?: string;
   startedAt?: string;
+  surveyVersion?: number;
+  anonymous?: boolean;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { surveyId, answers, completedAt, responseTime, sessionId, startedAt }: SubmissionRequest = await request.json();
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
 
-    // Log the incoming data for debugging
-    console.log('Survey submission data:', {
-      surveyId,
-      answersCount: answers?.length,
-      questionIds: answers?.map((a: SubmissionAnswer) => a.questionId),
-      sessionId,
-      startedAt
-    });
+    const { surveyId, answers, completedAt, responseTime, sessionId, startedAt, surveyVersion, anonymous }: SubmissionRequest = await request.json();
 
     // Validate required fields
     if (!surveyId || !answers || !Array.isArray(answers)) {
@@ -46,20 +50,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!answers.every(isWellFormedAnswer)) {
+      return NextResponse.json(
+        { error: 'Invalid answers', details: 'Every answer needs a numeric questionId and a string value' },
+        { status: 400 }
+      );
+    }
+
     // Validate that all question IDs exist
     const questionIds = answers.map(a => a.questionId);
+
+    const duplicateIds = findDuplicateQuestionIds(answers);
+    if (duplicateIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Duplicate question IDs', details: `Question IDs ${duplicateIds.join(', ')} are answered more than once` },
+        { status: 400 }
+      );
+    }
+
+    if (!answers.every(answer => isValidConfidenceScore(answer.confidenceScore))) {
+      return NextResponse.json(
+        { error: 'Invalid confidence score', details: 'confidenceScore must be a whole number from 1 to 10' },
+        { status: 400 }
+      );
+    }
     
     const validation = await databaseAdapter.validateQuestionIds(questionIds, surveyId);
 
-    console.log('Question validation:', {
-      submittedIds: questionIds,
-      surveyId,
-      answersCount: answers.length,
-      valid: validation.valid
-    });
-
     if (!validation.valid) {
-      console.error('Missing question IDs:', validation.missingIds);
       return NextResponse.json(
         {
           error: 'Invalid question IDs',
@@ -70,33 +88,101 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create the response record
-    const response = await databaseAdapter.insertResponse(
-      surveyId,
-      null, // userId - will be null for anonymous responses
-      sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      true, // isAnonymous
-      startedAt || new Date().toISOString()
-    );
+    // Answers are validated against the version the respondent was shown;
+    // clients that predate versioning answered the current one
+    const survey = await databaseAdapter.getSurvey(surveyId);
 
-    const responseId = response.id;
+    if (!isSurveyInScope(user, surveyId)) {
+      return NextResponse.json(
+        { error: 'Survey not assigned to user', details: `This session was opened from an invitation to survey ${user.surveyId}` },
+        { status: 403 }
+      );
+    }
 
-    // Insert all answers
-    for (const answer of answers) {
-      await databaseAdapter.insertAnswer(
-        responseId,
-        answer.questionId,
-        answer.value,
-        answer.numericValue || null,
-        answer.confidenceScore || null
+    if (survey && survey.target_role !== user.role) {
+      return NextResponse.json(
+        { error: 'Survey not assigned to user', details: `Survey ${surveyId} is meant for the ${survey.target_role} role` },
+        { status: 403 }
       );
     }
 
-    // Update the response as complete
-    await databaseAdapter.updateResponse(
-      responseId,
-      responseTime || 0
-    );
+    const published = survey ? await getPublishedQuestions(survey, surveyVersion ?? survey.version) : null;
+
+    if (!published) {
+      return NextResponse.json(
+        {
+          error: 'Invalid survey version',
+          details: `Survey ${surveyId} has no published version ${surveyVersion ?? survey?.version ?? ''}`.trim()
+        },
+        { status: 400 }
+      );
+    }
+
+    const questions = published.questions;
+    const publishedIds = new Set(questions.map((q: any) => q.id));
+    const unpublishedIds = questionIds.filter(id => !publishedIds.has(id));
+
+    if (unpublishedIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid question IDs',
+          missingIds: unpublishedIds,
+          details: `Question IDs ${unpublishedIds.join(', ')} are not part of version ${published.version} of survey ${surveyId}`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate every answer against its question definition
+    // Answers to questions hidden by skip logic are dropped, not stored
+    const visibleAnswers = filterVisibleAnswers(questions, answers);
+    const validationErrors = validateSubmission(questions, visibleAnswers);
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          errors: validationErrors
+        },
+        { status: 422 }
+      );
+    }
+
+    const textQuestionIds = new Set(questions.filter((q: any) => q.question_type === 'text').map((q: any) => q.id));
+    const questionsById = new Map(questions.map((q: any) => [q.id, q]));
+
+    // Store the response, its answers and the completion flag atomically.
+    // Submitting the same session twice returns the original response.
+    const { responseId, alreadySubmitted } = await databaseAdapter.submitResponse({
+      surveyId,
+      // Respondents who opt into anonymity are not linked to their user
+      userId: anonymous ? null : user.id,
+      respondentId: user.id,
+      sessionId: sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      isAnonymous: Boolean(anonymous),
+      startedAt: startedAt || new Date().toISOString(),
+      responseTimeSeconds: responseTime || 0,
+      surveyVersion: published.version,
+      answers: visibleAnswers.map(answer => ({
+        questionId: answer.questionId,
+        answerValue: answer.value,
+        answerNumeric: toAnswerNumeric(questionsById.get(answer.questionId), answer.value),
+        confidenceScore: answer.confidenceScore ?? null,
+        sentimentScore: textQuestionIds.has(answer.questionId) && answer.value.trim() ? scoreSentiment(answer.value) : null
+      }))
+    });
+
+    if (alreadySubmitted) {
+      return NextResponse.json({
+        success: true,
+        responseId,
+        duplicate: true,
+        message: 'Survey was already submitted'
+      });
+    }
+
+    await invalidateAnalyticsCache();
+    await databaseAdapter.markInvitationsCompleted(user.id, surveyId);
 
     return NextResponse.json({
       success: true,
@@ -106,13 +192,6 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Survey submission error:', error);
-    
-    // Log more detailed error information
-    if (error instanceof Error) {
-      console.error('Error message:', error.message);
-      console.error('Error stack:', error.stack);
-    }
-    
     return NextResponse.json(
       {
         error: 'Failed to submit survey',
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type AnalyticsFilter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { parseAnswerThemesPayload } from '@/lib/text-themes';
+
+// Replace the themes an answer is coded with
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const answerId = parseInt(id);
+    if (isNaN(answerId)) {
+      return NextResponse.json({ error: 'Invalid answer ID' }, { status: 400 });
+    }
+
+    const { data: themeIds, errors } = parseAnswerThemesPayload(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid themes', errors }, { status: 400 });
+    }
+
+    const known = new Set((await databaseAdapter.getTextThemes()).map(theme => theme.id));
+    const unknown = themeIds.filter(themeId => !known.has(themeId));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid themes', errors: unknown.map(themeId => `theme ${themeId} does not exist`) },
+        { status: 400 }
+      );
+    }
+
+    const scope = resolveAnalyticsScope<AnalyticsFilter>(user, {});
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view analytics' },
+        { status: 403 }
+      );
+    }
+
+    // Only text answers of completed responses the user can see may be coded
+    const answer = await databaseAdapter.getAnswerContext(answerId);
+    const canCode = answer !== null && answer.is_complete && answer.question_type === 'text'
+      && (scope.department === undefined || answer.department === scope.department);
+    if (!canCode) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 });
+    }
+
+    await databaseAdapter.setAnswerThemes(answerId, themeIds, user.id);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ answerId, themes: themeIds });
+
+  } catch (error) {
+    console.error('Error coding text answer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update answer themes',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
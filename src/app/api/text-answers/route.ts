@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { getSession, resolveAnalyticsScope } from '@/lib/auth';
+import { buildTextExplorer, parseAnalyticsFilter } from '@/lib/analytics';
+import { MIN_CELL_SIZE } from '@/lib/anonymity';
+
+// Free-text answers per question under the dashboard filters, optionally
+// narrowed by a full-text `search` and a `themeId`, with the coding themes
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const { data: requested, errors } = parseAnalyticsFilter(params);
+    const search = params.get('search')?.trim() || null;
+    let themeId: number | undefined;
+    if (params.has('themeId')) {
+      themeId = /^\d+$/.test(params.get('themeId')!) ? parseInt(params.get('themeId')!) : undefined;
+      if (themeId === undefined) errors.push('themeId must be a number');
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid filter', errors }, { status: 400 });
+    }
+    const filter = resolveAnalyticsScope(user, requested);
+    if (!filter) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Managers need a department to view analytics' },
+        { status: 403 }
+      );
+    }
+
+    const responses = await databaseAdapter.getResponsesWithAnswers(filter);
+    const codings = await databaseAdapter.getAnswerThemes();
+    const matches = search ? new Set(await databaseAdapter.searchAnswers(search)) : null;
+    const themes = await databaseAdapter.getTextThemes();
+
+    const explorer = buildTextExplorer(responses, { codings, matches, themeId });
+
+    return NextResponse.json({
+      questions: explorer.questions,
+      themes: themes.map(theme => ({ ...theme, answer_count: explorer.themeCounts[theme.id] ?? 0 })),
+      suppressedQuestions: explorer.suppressedQuestions,
+      minCellSize: MIN_CELL_SIZE
+    });
+
+  } catch (error) {
+    console.error('Error fetching text answers:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch text answers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { parseTextThemePayload, sameThemeName } from '@/lib/text-themes';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const themeId = parseInt(id);
+
+    if (isNaN(themeId)) {
+      return NextResponse.json(
+        { error: 'Invalid theme ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getTextTheme(themeId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data, errors } = parseTextThemePayload(await request.json(), true);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid theme', errors },
+        { status: 400 }
+      );
+    }
+
+    if (data.name !== undefined) {
+      const themes = await databaseAdapter.getTextThemes();
+      if (themes.some(theme => theme.id !== themeId && sameThemeName(theme.name, data.name!))) {
+        return NextResponse.json(
+          { error: 'Theme already exists', details: `A theme named "${data.name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const theme = await databaseAdapter.updateTextTheme(themeId, data);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ theme });
+
+  } catch (error) {
+    console.error('Error updating text theme:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update text theme',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting a theme also removes it from every answer coded with it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const themeId = parseInt(id);
+
+    if (isNaN(themeId)) {
+      return NextResponse.json(
+        { error: 'Invalid theme ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseAdapter.getTextTheme(themeId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    await databaseAdapter.deleteTextTheme(themeId);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting text theme:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete text theme',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseAdapter, type TextThemeInput } from '@/lib/database-adapter';
+import { invalidateAnalyticsCache } from '@/lib/analytics-cache';
+import { getSession } from '@/lib/auth';
+import { parseTextThemePayload, sameThemeName } from '@/lib/text-themes';
+
+export async function GET() {
+  try {
+    const themes = await databaseAdapter.getTextThemes();
+    return NextResponse.json({ themes });
+  } catch (error) {
+    console.error('Error fetching text themes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch text themes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { data, errors } = parseTextThemePayload(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid theme', errors },
+        { status: 400 }
+      );
+    }
+
+    const themes = await databaseAdapter.getTextThemes();
+    if (themes.some(theme => sameThemeName(theme.name, data.name!))) {
+      return NextResponse.json(
+        { error: 'Theme already exists', details: `A theme named "${data.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const session = await getSession(request);
+    const theme = await databaseAdapter.createTextTheme(data as TextThemeInput, session?.id ?? null);
+    await invalidateAnalyticsCache();
+    return NextResponse.json({ theme }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating text theme:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create text theme',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
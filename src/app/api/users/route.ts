@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { databaseAdapter } from '@/lib/database-adapter';
+
+// Active users that can be picked as campaign recipients
+export async function GET() {
+  try {
+    const users = await databaseAdapter.getActiveUsers();
+    return NextResponse.json({
+      users: users.map(({ id, name, email, role, department }) => ({ id, name, email, role, department }))
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Mail, MailCheck } from 'lucide-react';
+import spanishTranslations from '@/lib/translations';
+
+const t = spanishTranslations.login;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: t.invalidLink,
+  invitation: t.invalidInvitation,
+  'invitation-used': t.usedInvitation
+};
+
+export default function LoginPage() {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Failed sign-in and invitation links come back here as ?error=<reason>
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get('error');
+    if (reason) {
+      setError(ERROR_MESSAGES[reason] ?? t.verifyFailed);
+    }
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, next: new URLSearchParams(window.location.search).get('next') }),
+      });
+
+      if (response.status === 400) {
+        setError(t.invalidEmail);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Sign-in link request failed with status ${response.status}`);
+      }
+
+      setLinkSent(true);
+    } catch (err) {
+      console.error('Error requesting sign-in link:', err);
+      setError(t.sendFailed);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-6 py-12">
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl font-semibold">{t.title}</CardTitle>
+            <CardDescription className="text-sm">{t.subtitle}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {linkSent ? (
+              <div className="space-y-4 text-center">
+                <MailCheck className="w-10 h-10 mx-auto text-green-600" />
+                <div>
+                  <h3 className="font-semibold mb-1">{t.linkSentTitle}</h3>
+                  <p className="text-sm text-muted-foreground">{t.linkSentDescription}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setLinkSent(false)}>
+                  {t.useAnotherEmail}
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="login-email">{t.emailLabel}</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    autoComplete="email"
+                    placeholder={t.emailPlaceholder}
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                <Button type="submit" className="w-full" disabled={isSending}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  {isSending ? t.sending : t.sendLink}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { BarChart3, Users, Target, TrendingUp, ArrowRight, UserCog, Clock, FileText } from 'lucide-react';
+import { BarChart3, Users, Target, TrendingUp, ArrowRight, UserCog, Clock, FileText, ClipboardList } from 'lucide-react';
 import spanishTranslations from '@/lib/translations';
 
 export default function HomePage() {
@@ -18,6 +18,10 @@ export default function HomePage() {
               <h1 className="text-xl font-semibold text-gray-900">{spanishTranslations.navigation.title}</h1>
             </div>
             <div className="flex space-x-3">
+              <Button variant="outline" onClick={() => window.location.href = '/admin/surveys'}>
+                <ClipboardList className="mr-2 h-4 w-4" />
+                {spanishTranslations.navigation.manageSurveys}
+              </Button>
               <Button variant="outline" onClick={() => window.location.href = '/analytics'}>
                 <BarChart3 className="mr-2 h-4 w-4" />
                 {spanishTranslations.navigation.viewAnalytics}
@@ -7,6 +7,31 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, BarChart3, Home, Users } from 'lucide-react';
 import spanishTranslations from '@/lib/translations';
+import type { MeasuredImprovement, MeasuredImprovements } from '@/lib/analytics/types';
+
+function formatChange(value: number) {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+// A measured change with its interval, or a notice when there is too little data to measure it
+function ImprovementFigure({ improvement, label }: { improvement: MeasuredImprovement | null; label: string }) {
+  const copy = spanishTranslations.completion.impact;
+  return (
+    <div className="text-center">
+      {improvement ? (
+        <>
+          <div className="text-lg font-bold text-foreground">{formatChange(improvement.percent)}%</div>
+          <div className="text-[11px] text-muted-foreground">
+            {copy.confidenceInterval.replace('{low}', formatChange(improvement.ci_low)).replace('{high}', formatChange(improvement.ci_high))}
+          </div>
+        </>
+      ) : (
+        <div className="text-sm font-medium text-muted-foreground py-1">{copy.insufficientData}</div>
+      )}
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
 
 export default function SurveyCompletePage() {
   const { resetSurvey } = useSurveyStore();
@@ -15,13 +40,17 @@ export default function SurveyCompletePage() {
     total: 0,
     role: 'unknown'
   });
-  const [dynamicStats, setDynamicStats] = useState({
+  const [dynamicStats, setDynamicStats] = useState<{
+    totalResponses: number;
+    avgResponseTime: number;
+    improvements: MeasuredImprovements;
+  }>({
     totalResponses: 0,
     avgResponseTime: 0,
     improvements: {
-      dataEntry: 25,
-      leadResponse: 40,
-      productivity: 60
+      efficiency: null,
+      productivity: null,
+      satisfaction: null
     }
   });
 
@@ -119,18 +148,18 @@ export default function SurveyCompletePage() {
                   {spanishTranslations.completion.impact.description}
                 </p>
                 <div className="grid grid-cols-3 gap-4 mt-4">
-                  <div className="text-center">
-                    <div className="text-lg font-bold text-foreground">{dynamicStats.improvements.dataEntry}%</div>
-                    <p className="text-xs text-muted-foreground">{spanishTranslations.completion.impact.dataEntryReduction}</p>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-lg font-bold text-foreground">{dynamicStats.improvements.leadResponse}%</div>
-                    <p className="text-xs text-muted-foreground">{spanishTranslations.completion.impact.leadResponseImprovement}</p>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-lg font-bold text-foreground">{dynamicStats.improvements.productivity}%</div>
-                    <p className="text-xs text-muted-foreground">{spanishTranslations.completion.impact.productivityIncrease}</p>
-                  </div>
+                  <ImprovementFigure
+                    improvement={dynamicStats.improvements.efficiency}
+                    label={spanishTranslations.completion.impact.efficiencyChange}
+                  />
+                  <ImprovementFigure
+                    improvement={dynamicStats.improvements.productivity}
+                    label={spanishTranslations.completion.impact.productivityChange}
+                  />
+                  <ImprovementFigure
+                    improvement={dynamicStats.improvements.satisfaction}
+                    label={spanishTranslations.completion.impact.satisfactionChange}
+                  />
                 </div>
               </div>
 
@@ -1,24 +1,28 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useSurveyStore } from '@/lib/store';
+import { useSurveyStore, type SurveyAnswer } from '@/lib/store';
 import { SurveyInterface } from '@/components/SurveyInterface';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, UserCog, Shield } from 'lucide-react';
+import { Users, UserCog, Shield, LogOut } from 'lucide-react';
 import spanishTranslations from '@/lib/translations';
+import { getVisibleQuestions, toAnswerValues, type DisplayCondition } from '@/lib/question-conditions';
+import type { QuestionType } from '@/lib/questions';
+import type { SessionUser } from '@/lib/auth';
 
 interface Question {
   id: number;
   survey_id: number;
   section: string;
   question_text: string;
-  question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage';
+  question_type: QuestionType;
   question_order: number;
   is_required: boolean;
   options?: string;
   validation_rules?: string;
+  display_condition?: string | DisplayCondition | null;
   analysis_tags?: string;
 }
 
@@ -31,33 +35,152 @@ interface Survey {
   is_active: boolean;
 }
 
+interface Invitation {
+  campaign: { id: number; name: string };
+  survey: Pick<Survey, 'id' | 'name' | 'description' | 'target_role'>;
+}
+
+interface SurveyDraft {
+  surveyId: number;
+  sessionId: string;
+  startedAt: string;
+  surveyVersion?: number | null;
+  answers: SurveyAnswer[];
+}
+
 export default function SurveyPage() {
   const {
     currentSurveyId,
+    isAnonymous,
+    setAnonymous,
+    setUserId,
     setUserRole,
     startSurvey,
+    resumeSurvey,
+    setCurrentQuestion,
     resetSurvey,
   } = useSurveyStore();
 
   const [survey, setSurvey] = useState<Survey | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [surveyVersion, setSurveyVersion] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedRole, setSelectedRole] = useState<'manager' | 'sales' | null>(null);
+  const [draft, setDraft] = useState<SurveyDraft | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
 
-  // Always start fresh - don't check for existing userRole
-  const handleRoleSelection = async (role: 'manager' | 'sales') => {
-    setSelectedRole(role);
-    setUserRole(role);
-    
-    // Determine survey ID based on role
-    const surveyId = role === 'manager' ? 1 : 2;
-    
-    // Start the survey
-    startSurvey(surveyId, 0); // Will update total questions after loading
-    
-    // Load survey data
-    await loadSurveyDataAndStart(surveyId);
+  // The survey is answered by signed-in users only. An invitation link
+  // (?token=) signs its recipient in and preselects the campaign's survey.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+
+    const redeemInvitation = async () => {
+      if (!token) return true;
+
+      // Keep the token out of the address bar and browser history
+      params.delete('token');
+      const remaining = params.toString();
+      window.history.replaceState(null, '', remaining ? `/survey?${remaining}` : '/survey');
+
+      const response = await fetch('/api/invitations/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      if (!response.ok) {
+        window.location.href = `/login?error=${response.status === 410 ? 'invitation-used' : 'invitation'}`;
+        return false;
+      }
+
+      const data = await response.json();
+      setInvitation({ campaign: data.campaign, survey: data.survey });
+      return true;
+    };
+
+    redeemInvitation()
+      .then(redeemed => redeemed ? fetch('/api/auth/session').then(response => response.json()) : null)
+      .then(data => {
+        if (!data) return;
+        if (!data.user) {
+          window.location.href = '/login';
+          return;
+        }
+        setUser(data.user);
+        setUserId(data.user.id);
+      })
+      .catch(error => {
+        console.error('Error checking session:', error);
+        setError('Failed to load session');
+      });
+  }, [setUserId]);
+
+  // Detect an open draft for the persisted session, or one passed as ?resume=<sessionId>
+  useEffect(() => {
+    const state = useSurveyStore.getState();
+    const resumeSessionId = new URLSearchParams(window.location.search).get('resume') || state.sessionId;
+    if (!resumeSessionId) return;
+
+    const localDraft: SurveyDraft | null = state.sessionId === resumeSessionId && state.currentSurveyId && Object.keys(state.answers).length > 0
+      ? {
+          surveyId: state.currentSurveyId,
+          sessionId: resumeSessionId,
+          startedAt: state.startTime ? new Date(state.startTime).toISOString() : new Date().toISOString(),
+          answers: [],
+        }
+      : null;
+
+    fetch(`/api/surveys/autosave?sessionId=${encodeURIComponent(resumeSessionId)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setDraft(data?.draft || localDraft))
+      .catch(error => {
+        // Offline: local progress is still resumable
+        console.error('Error checking for saved draft:', error);
+        setDraft(localDraft);
+      });
+  }, []);
+
+  // The user's role decides which survey they answer, unless they came from an invitation
+  const loadAssignedSurvey = async () => {
+    if (invitation) return invitation.survey;
+
+    const response = await fetch('/api/surveys/assigned');
+    if (response.status === 404) {
+      throw new Error(spanishTranslations.roleSelection.noSurveyAssigned);
+    }
+    if (!response.ok) {
+      throw new Error('Failed to load survey');
+    }
+    return (await response.json()).survey;
+  };
+
+  const handleStartSurvey = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const assigned = await loadAssignedSurvey();
+      const role = assigned.target_role === 'manager' ? 'manager' : 'sales';
+      setSelectedRole(role);
+      setUserRole(role);
+
+      // Start the survey
+      startSurvey(assigned.id, 0); // Will update total questions after loading
+
+      // Load survey data
+      await loadSurveyDataAndStart(assigned.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load survey');
+      setLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    resetSurvey();
+    window.location.href = '/login';
   };
 
   const loadSurveyDataAndStart = async (surveyId: number) => {
@@ -73,6 +196,7 @@ export default function SurveyPage() {
       const data = await response.json();
       setSurvey(data.survey);
       setQuestions(data.questions);
+      setSurveyVersion(data.version);
       
       // Update the survey with correct question count
       startSurvey(surveyId, data.questions.length);
@@ -86,15 +210,88 @@ export default function SurveyPage() {
   };
 
 
+  const handleResumeDraft = async () => {
+    if (!draft) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Keep answering the version the draft was started on
+      const versionQuery = draft.surveyVersion ? `?version=${draft.surveyVersion}` : '';
+      const response = await fetch(`/api/surveys/${draft.surveyId}/questions${versionQuery}`);
+      if (!response.ok) {
+        throw new Error('Failed to load survey');
+      }
+
+      const data = await response.json();
+      resumeSurvey(draft.surveyId, draft.sessionId, data.questions.length, draft.answers, draft.startedAt);
+
+      const role = data.survey.target_role === 'manager' ? 'manager' : 'sales';
+      setSelectedRole(role);
+      setUserRole(role);
+      setSurvey(data.survey);
+      setQuestions(data.questions);
+      setSurveyVersion(data.version);
+
+      // Continue from the first unanswered question
+      const savedAnswers = useSurveyStore.getState().answers;
+      const visibleQuestions = getVisibleQuestions<Question>(data.questions, toAnswerValues(Object.values(savedAnswers)));
+      const firstOpen = visibleQuestions.find(q => !savedAnswers[q.id]) ?? visibleQuestions[visibleQuestions.length - 1];
+      const index = data.questions.findIndex((q: Question) => q.id === firstOpen.id);
+      setCurrentQuestion(index, firstOpen.section);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load survey');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiscardDraft = () => {
+    resetSurvey();
+    setDraft(null);
+  };
+
+  const savedAnswerCount = (() => {
+    if (!draft) return 0;
+    const state = useSurveyStore.getState();
+    const ids = new Set(draft.answers.map(a => a.questionId));
+    if (state.sessionId === draft.sessionId) {
+      Object.keys(state.answers).forEach(id => ids.add(Number(id)));
+    }
+    return ids.size;
+  })();
+
   const handleRestart = () => {
     resetSurvey();
     setSurvey(null);
     setQuestions([]);
+    setSurveyVersion(null);
     setError(null);
     setSelectedRole(null);
   };
 
-  // Always show role selection first
+  // Wait for the session before showing anything
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-6">
+        <div className="max-w-4xl mx-auto text-center">
+          <Card>
+            <CardContent className="py-6">
+              <p className="text-sm">{error || spanishTranslations.roleSelection.loadingSurvey}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const roleCopy = user.role === 'manager'
+    ? spanishTranslations.roleSelection.managerRole
+    : user.role === 'sales' ? spanishTranslations.roleSelection.salesRole : null;
+  const RoleIcon = user.role === 'manager' ? UserCog : Users;
+
+  // Show the assigned survey first
   if (!selectedRole || !currentSurveyId) {
     return (
       <div className="container mx-auto px-6 py-4">
@@ -107,8 +304,41 @@ export default function SurveyPage() {
               <CardDescription className="text-sm">
                 {spanishTranslations.roleSelection.subtitle}
               </CardDescription>
+              <div className="flex items-center justify-center space-x-2 pt-2 text-xs text-muted-foreground">
+                <span>{spanishTranslations.roleSelection.signedInAs} {user.name} ({user.email})</span>
+                <Button variant="ghost" size="sm" className="text-xs h-6 px-2" onClick={handleSignOut}>
+                  <LogOut className="mr-1 h-3 w-3" />
+                  {spanishTranslations.roleSelection.signOut}
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              {draft && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="font-semibold text-green-800 mb-1 text-sm">
+                        {spanishTranslations.roleSelection.resumeDraft.title}
+                      </h3>
+                      <p className="text-green-700 text-xs leading-snug">
+                        {spanishTranslations.roleSelection.resumeDraft.description}
+                      </p>
+                    </div>
+                    <Badge variant="secondary" className="text-xs ml-3 whitespace-nowrap">
+                      {savedAnswerCount} {spanishTranslations.roleSelection.resumeDraft.savedAnswers}
+                    </Badge>
+                  </div>
+                  <div className="flex space-x-2 mt-3">
+                    <Button size="sm" className="text-xs" onClick={handleResumeDraft} disabled={loading}>
+                      {spanishTranslations.roleSelection.resumeDraft.continue}
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-xs" onClick={handleDiscardDraft} disabled={loading}>
+                      {spanishTranslations.roleSelection.resumeDraft.startOver}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <h3 className="font-semibold text-blue-800 mb-1 text-sm">
                   {spanishTranslations.roleSelection.aboutTitle}
@@ -118,81 +348,81 @@ export default function SurveyPage() {
                 </p>
               </div>
               
-              <div className="text-center">
-                <h3 className="text-base font-semibold mb-1">
-                  {spanishTranslations.roleSelection.selectRoleTitle}
-                </h3>
-                <p className="text-xs text-muted-foreground mb-3">
-                  {spanishTranslations.roleSelection.selectRoleSubtitle}
-                </p>
-              </div>
-
-              <div className="grid md:grid-cols-2 gap-3">
-                <Card
-                  className="cursor-pointer hover:border-primary hover:shadow-md transition-all"
-                  onClick={() => handleRoleSelection('manager')}
-                >
+              {roleCopy && (
+                <Card>
                   <CardHeader className="text-center pb-2">
-                    <UserCog className="w-8 h-8 mx-auto mb-2 text-primary" />
-                    <CardTitle className="text-base">{spanishTranslations.roleSelection.managerRole.title}</CardTitle>
+                    <RoleIcon className="w-8 h-8 mx-auto mb-2 text-primary" />
+                    <CardTitle className="text-base">
+                      {invitation
+                        ? `${spanishTranslations.roleSelection.invitationTitle}: ${invitation.campaign.name}`
+                        : `${spanishTranslations.roleSelection.assignedSurveyTitle}: ${roleCopy.title}`}
+                    </CardTitle>
                     <CardDescription className="text-xs">
-                      {spanishTranslations.roleSelection.managerRole.description}
+                      {invitation ? invitation.survey.name : roleCopy.description}
                     </CardDescription>
                   </CardHeader>
-                  <CardContent className="pt-0">
+                  <CardContent className="pt-0 space-y-3">
                     <div className="space-y-1 text-xs">
                       <div className="flex items-center justify-between">
                         <span>{spanishTranslations.roleSelection.questions}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.managerRole.questions}</Badge>
+                        <Badge variant="secondary" className="text-xs">{roleCopy.questions}</Badge>
                       </div>
                       <div className="flex items-center justify-between">
                         <span>{spanishTranslations.roleSelection.time}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.managerRole.time}</Badge>
+                        <Badge variant="secondary" className="text-xs">{roleCopy.time}</Badge>
                       </div>
                       <div className="flex items-center justify-between">
                         <span>{spanishTranslations.roleSelection.focus}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.managerRole.focus}</Badge>
+                        <Badge variant="secondary" className="text-xs">{roleCopy.focus}</Badge>
                       </div>
                     </div>
+                    <Button className="w-full" size="sm" onClick={handleStartSurvey} disabled={loading}>
+                      {spanishTranslations.roleSelection.startSurvey}
+                    </Button>
                   </CardContent>
                 </Card>
+              )}
 
-                <Card
-                  className="cursor-pointer hover:border-primary hover:shadow-md transition-all"
-                  onClick={() => handleRoleSelection('sales')}
-                >
-                  <CardHeader className="text-center pb-2">
-                    <Users className="w-8 h-8 mx-auto mb-2 text-primary" />
-                    <CardTitle className="text-base">{spanishTranslations.roleSelection.salesRole.title}</CardTitle>
-                    <CardDescription className="text-xs">
-                      {spanishTranslations.roleSelection.salesRole.description}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <div className="space-y-1 text-xs">
-                      <div className="flex items-center justify-between">
-                        <span>{spanishTranslations.roleSelection.questions}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.salesRole.questions}</Badge>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <span>{spanishTranslations.roleSelection.time}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.salesRole.time}</Badge>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <span>{spanishTranslations.roleSelection.focus}</span>
-                        <Badge variant="secondary" className="text-xs">{spanishTranslations.roleSelection.salesRole.focus}</Badge>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+              {!roleCopy && (
+                <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-yellow-800 text-xs">{spanishTranslations.roleSelection.noSurveyAssigned}</p>
+                </div>
+              )}
 
-              <div className="text-center">
-                <p className="text-xs text-muted-foreground">
-                  {spanishTranslations.roleSelection.anonymousNotice}
-                </p>
+              <div className="border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold mb-1 text-sm">
+                      {spanishTranslations.roleSelection.privacyTitle}
+                    </h3>
+                    <p className="text-muted-foreground text-xs leading-snug">
+                      {isAnonymous
+                        ? spanishTranslations.roleSelection.anonymousDescription
+                        : spanishTranslations.roleSelection.privacyDescription}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={isAnonymous ? 'default' : 'outline'}
+                    className="text-xs ml-3 whitespace-nowrap"
+                    onClick={() => setAnonymous(!isAnonymous)}
+                  >
+                    <Shield className="mr-1 h-3 w-3" />
+                    {isAnonymous
+                      ? spanishTranslations.roleSelection.anonymousMode
+                      : spanishTranslations.roleSelection.makeAnonymous}
+                  </Button>
+                </div>
               </div>
 
+              {isAnonymous && (
+                <div className="text-center">
+                  <p className="text-xs text-muted-foreground">
+                    {spanishTranslations.roleSelection.anonymousNotice}
+                  </p>
+                </div>
+              )}
+
               {error && (
                 <div className="p-2 bg-red-50 border border-red-200 rounded-lg">
                   <p className="text-red-800 text-xs">{error}</p>
@@ -229,7 +459,7 @@ export default function SurveyPage() {
             </Button>
           </div>
           
-          <SurveyInterface surveyId={survey.id} questions={questions} />
+          <SurveyInterface surveyId={survey.id} surveyVersion={surveyVersion} questions={questions} />
         </div>
       </div>
     );
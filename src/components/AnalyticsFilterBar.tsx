@@ -0,0 +1,163 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import { X } from 'lucide-react';
+
+// Choices as returned by /api/analytics/filters
+export interface AnalyticsFilterOptions {
+  surveys: Array<{ id: number; name: string; target_role: string; versions: number[] }>;
+  sections: string[];
+  departments: string[];
+}
+
+interface AnalyticsFilterBarProps {
+  filter: AnalyticsFilter;
+  options: AnalyticsFilterOptions | null;
+  onChange: (filter: AnalyticsFilter) => void;
+}
+
+// Select value standing for "no filter"
+const ALL = 'all';
+
+export function AnalyticsFilterBar({ filter, options, onChange }: AnalyticsFilterBarProps) {
+  const update = (changes: Partial<AnalyticsFilter>) => {
+    const next: AnalyticsFilter = { ...filter, ...changes };
+    (Object.keys(next) as Array<keyof AnalyticsFilter>).forEach(key => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const selectedSurvey = options?.surveys.find(survey => survey.id === filter.surveyId);
+  const isFiltered = Object.keys(filter).length > 0;
+
+  const toggleSection = (section: string) => {
+    const current = filter.sections || [];
+    const sections = current.includes(section)
+      ? current.filter(s => s !== section)
+      : [...current, section];
+    update({ sections: sections.length > 0 ? sections : undefined });
+  };
+
+  return (
+    <div className="space-y-3 mt-4 text-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs text-gray-600">Desde</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            className="h-8 w-40"
+            value={filter.from || ''}
+            max={filter.to}
+            onChange={e => update({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs text-gray-600">Hasta</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            className="h-8 w-40"
+            value={filter.to || ''}
+            min={filter.from}
+            onChange={e => update({ to: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Encuesta</Label>
+          <Select
+            value={filter.surveyId !== undefined ? String(filter.surveyId) : ALL}
+            onValueChange={value => update({ surveyId: value === ALL ? undefined : parseInt(value), version: undefined })}
+          >
+            <SelectTrigger className="w-56 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas las encuestas</SelectItem>
+              {options?.surveys.map(survey => (
+                <SelectItem key={survey.id} value={String(survey.id)}>{survey.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedSurvey && selectedSurvey.versions.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Versión</Label>
+            <Select
+              value={filter.version !== undefined ? String(filter.version) : ALL}
+              onValueChange={value => update({ version: value === ALL ? undefined : parseInt(value) })}
+            >
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas las versiones</SelectItem>
+                {selectedSurvey.versions.map(version => (
+                  <SelectItem key={version} value={String(version)}>Versión {version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Rol</Label>
+          <Select value={filter.role || ALL} onValueChange={value => update({ role: value === ALL ? undefined : value })}>
+            <SelectTrigger className="w-48 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos los roles</SelectItem>
+              {Object.entries(TARGET_ROLE_LABELS).map(([role, label]) => (
+                <SelectItem key={role} value={role}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {options && options.departments.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Departamento</Label>
+            <Select value={filter.department || ALL} onValueChange={value => update({ department: value === ALL ? undefined : value })}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos los departamentos</SelectItem>
+                {options.departments.map(department => (
+                  <SelectItem key={department} value={department}>{department}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isFiltered && (
+          <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+            <X className="w-4 h-4 mr-1" />
+            Limpiar filtros
+          </Button>
+        )}
+      </div>
+      {options && options.sections.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-600">Secciones:</span>
+          {options.sections.map(section => (
+            <Button
+              key={section}
+              variant={filter.sections?.includes(section) ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => toggleSection(section)}
+            >
+              {section}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, ListPlus } from 'lucide-react';
+import type { ActionItemPriority } from '@/lib/action-items';
+
+export interface ActionItemDraft {
+  title: string;
+  description?: string;
+  category: string;
+  priority: ActionItemPriority;
+}
+
+// Turns a dashboard finding into an open, unassigned action item; it is
+// assigned and scheduled later from the action items page
+export function CreateActionItemButton({ draft }: { draft: ActionItemDraft }) {
+  const [state, setState] = useState<'idle' | 'saving' | 'created' | 'error'>('idle');
+
+  const handleCreate = async () => {
+    setState('saving');
+    try {
+      const response = await fetch('/api/action-items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: draft.title,
+          description: draft.description ?? null,
+          category: draft.category,
+          priority: draft.priority
+        }),
+      });
+      setState(response.ok ? 'created' : 'error');
+    } catch (err) {
+      console.error('Error creating action item:', err);
+      setState('error');
+    }
+  };
+
+  if (state === 'created') {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 text-xs flex-shrink-0" onClick={() => window.location.href = '/action-items'}>
+        <Check className="mr-1 h-3 w-3" />
+        Ver acción
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 text-xs flex-shrink-0"
+      onClick={handleCreate}
+      disabled={state === 'saving'}
+      title="Crear una acción a partir de este hallazgo"
+    >
+      <ListPlus className="mr-1 h-3 w-3" />
+      {state === 'error' ? 'Reintentar' : 'Crear acción'}
+    </Button>
+  );
+}
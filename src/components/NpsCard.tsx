@@ -0,0 +1,122 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import type { NpsBreakdown, NpsGroup } from '@/lib/analytics/types';
+import { CartesianGrid, ErrorBar, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ThumbsUp } from 'lucide-react';
+
+interface NpsCardProps {
+  title: string;
+  description: string;
+  breakdown: NpsBreakdown;
+  // Survey names by id, for the per-survey rows
+  surveyNames: Record<string, string>;
+}
+
+function formatNps(nps: number) {
+  return `${nps > 0 ? '+' : ''}${nps}`;
+}
+
+function formatMargin(margin: number | null) {
+  return margin !== null ? `± ${margin.toFixed(1)}` : '';
+}
+
+function getNpsColor(nps: number) {
+  if (nps >= 30) return 'text-green-700';
+  if (nps >= 0) return 'text-gray-900';
+  return 'text-red-700';
+}
+
+function GroupRows({ title, groups, labelOf }: { title: string; groups: NpsGroup[]; labelOf: (group: string) => string }) {
+  if (groups.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-gray-500">{title}</p>
+      {groups.map(group => (
+        <div key={group.group} className="flex justify-between text-sm">
+          <span className="text-gray-700 truncate mr-3">{labelOf(group.group)}</span>
+          <span className="shrink-0">
+            <span className={`font-medium ${getNpsColor(group.nps)}`}>{formatNps(group.nps)}</span>
+            <span className="text-gray-500 text-xs ml-1">{formatMargin(group.margin_of_error)} · {group.respondents}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// NPS or eNPS under the dashboard filters: the overall score with its margin of
+// error, the share of each category, the monthly trend and the breakdowns
+export function NpsCard({ title, description, breakdown, surveyNames }: NpsCardProps) {
+  const { overall } = breakdown;
+  if (!overall) return null;
+
+  const share = (count: number) => (count / overall.respondents) * 100;
+
+  return (
+    <Card className="border-gray-200 bg-white">
+      <CardHeader>
+        <CardTitle className="text-lg text-gray-900 flex items-center">
+          <ThumbsUp className="w-5 h-5 mr-2 text-blue-600" />
+          {title}
+        </CardTitle>
+        <CardDescription className="text-gray-600">{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <div className="text-center">
+              <div className={`text-4xl font-bold ${getNpsColor(overall.nps)}`}>{formatNps(overall.nps)}</div>
+              <p className="text-gray-600 text-sm">
+                {formatMargin(overall.margin_of_error)} puntos (IC 95%) · {overall.respondents} respuestas
+              </p>
+            </div>
+            <div>
+              <div className="flex h-3 rounded overflow-hidden">
+                <div className="bg-green-500" style={{ width: `${share(overall.promoters)}%` }} />
+                <div className="bg-amber-400" style={{ width: `${share(overall.passives)}%` }} />
+                <div className="bg-red-500" style={{ width: `${share(overall.detractors)}%` }} />
+              </div>
+              <div className="flex justify-between text-xs text-gray-600 mt-1">
+                <span>Promotores {Math.round(share(overall.promoters))}%</span>
+                <span>Pasivos {Math.round(share(overall.passives))}%</span>
+                <span>Detractores {Math.round(share(overall.detractors))}%</span>
+              </div>
+            </div>
+            <GroupRows title="Por rol" groups={breakdown.by_role} labelOf={role => TARGET_ROLE_LABELS[role] || role} />
+            <GroupRows title="Por departamento" groups={breakdown.by_department} labelOf={department => department} />
+            <GroupRows title="Por encuesta" groups={breakdown.by_survey} labelOf={id => surveyNames[id] || `Encuesta ${id}`} />
+          </div>
+
+          <div className="lg:col-span-2">
+            {breakdown.by_month.length > 1 ? (
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={breakdown.by_month} margin={{ top: 20, right: 30, left: 0, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="group" fontSize={11} stroke="#6b7280" />
+                  <YAxis domain={[-100, 100]} stroke="#6b7280" />
+                  <ReferenceLine y={0} stroke="#9ca3af" />
+                  <Tooltip
+                    formatter={(value, name, item) => [
+                      `${formatNps(Number(value))} ${formatMargin(item.payload.margin_of_error)} · ${item.payload.respondents} respuestas`,
+                      'NPS'
+                    ]}
+                    labelFormatter={(label) => `Mes: ${label}`}
+                  />
+                  <Line type="monotone" dataKey="nps" stroke="#3b82f6" strokeWidth={3} dot={{ fill: '#3b82f6', r: 5 }}>
+                    <ErrorBar dataKey="margin_of_error" width={6} strokeWidth={1.5} stroke="#1e3a8a" />
+                  </Line>
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="text-center py-12 text-gray-500 text-sm">
+                La tendencia aparecerá cuando haya respuestas suficientes en más de un mes
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
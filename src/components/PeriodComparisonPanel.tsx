@@ -0,0 +1,273 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AnalyticsFilterOptions } from '@/components/AnalyticsFilterBar';
+import { COMPARISON_SIDES, toComparisonSearchParams, toSearchParams, type ComparisonFilter, type ComparisonSide } from '@/lib/analytics/filters';
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import type { PeriodComparison, ScoreChange } from '@/lib/analytics/types';
+import { ArrowDownRight, ArrowRight, ArrowUpRight, GitCompare, ShieldCheck } from 'lucide-react';
+
+type ComparisonMode = 'periods' | 'versions';
+
+interface Period {
+  from: string;
+  to: string;
+  version: string;
+}
+
+const SIDE_LABELS: Record<ComparisonSide, string> = { before: 'Periodo A', after: 'Periodo B' };
+const EMPTY_PERIOD: Period = { from: '', to: '', version: '' };
+
+function formatDelta(delta: number) {
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+}
+
+function formatPValue(p: number) {
+  return p < 0.001 ? '< 0,001' : p.toFixed(3).replace('.', ',');
+}
+
+function ChangeIcon({ change }: { change: ScoreChange }) {
+  if (!change.significant) return <ArrowRight className="w-4 h-4 text-gray-400" />;
+  return change.delta > 0
+    ? <ArrowUpRight className="w-4 h-4 text-green-600" />
+    : <ArrowDownRight className="w-4 h-4 text-red-600" />;
+}
+
+function ChangeCells({ change }: { change: ScoreChange }) {
+  return (
+    <>
+      <td className="py-2 px-2 text-right">{change.before.mean.toFixed(2)} <span className="text-xs text-gray-500">({change.before.n})</span></td>
+      <td className="py-2 px-2 text-right">{change.after.mean.toFixed(2)} <span className="text-xs text-gray-500">({change.after.n})</span></td>
+      <td className={`py-2 px-2 text-right font-medium ${change.significant ? (change.delta > 0 ? 'text-green-700' : 'text-red-700') : 'text-gray-700'}`}>
+        <span className="inline-flex items-center gap-1">
+          <ChangeIcon change={change} />
+          {formatDelta(change.delta)}
+        </span>
+      </td>
+      <td className="py-2 px-2 text-right text-gray-600">{formatPValue(change.adjusted_p_value)}</td>
+      <td className="py-2 px-2 text-right">
+        {change.significant
+          ? <Badge className="bg-blue-100 text-blue-800">Significativo</Badge>
+          : <span className="text-xs text-gray-500">No significativo</span>}
+      </td>
+    </>
+  );
+}
+
+function ChangeHeader({ first }: { first: string }) {
+  return (
+    <thead>
+      <tr className="border-b border-gray-200 text-xs text-gray-500">
+        <th className="py-2 px-2 text-left font-medium">{first}</th>
+        <th className="py-2 px-2 text-right font-medium">A (n)</th>
+        <th className="py-2 px-2 text-right font-medium">B (n)</th>
+        <th className="py-2 px-2 text-right font-medium">Cambio</th>
+        <th className="py-2 px-2 text-right font-medium">p</th>
+        <th className="py-2 px-2 text-right font-medium"></th>
+      </tr>
+    </thead>
+  );
+}
+
+// Two periods, or two published versions of the selected survey, under the
+// rest of the dashboard filters. Dates and versions in the filter bar are
+// replaced by the ones chosen here.
+export function PeriodComparisonPanel({ filter, options }: { filter: AnalyticsFilter; options: AnalyticsFilterOptions | null }) {
+  const [mode, setMode] = useState<ComparisonMode>('periods');
+  const [periods, setPeriods] = useState<Record<ComparisonSide, Period>>({ before: EMPTY_PERIOD, after: EMPTY_PERIOD });
+  const [data, setData] = useState<PeriodComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const versions = options?.surveys.find(survey => survey.id === filter.surveyId)?.versions ?? [];
+  const canCompareVersions = versions.length >= 2;
+  const activeMode: ComparisonMode = canCompareVersions ? mode : 'periods';
+
+  const updatePeriod = (side: ComparisonSide, changes: Partial<Period>) => {
+    setPeriods(current => ({ ...current, [side]: { ...current[side], ...changes } }));
+  };
+
+  const isComplete = COMPARISON_SIDES.every(side => activeMode === 'versions'
+    ? periods[side].version !== ''
+    : periods[side].from !== '' || periods[side].to !== '');
+
+  const compare = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { from, to, version, ...shared } = filter;
+      const comparison = {} as ComparisonFilter;
+      COMPARISON_SIDES.forEach(side => {
+        const period = periods[side];
+        comparison[side] = activeMode === 'versions'
+          ? { ...shared, from, to, version: parseInt(period.version) }
+          : { ...shared, version, from: period.from || undefined, to: period.to || undefined };
+      });
+      const response = await fetch(`/api/analytics/compare?${toComparisonSearchParams(comparison)}`);
+      if (!response.ok) throw new Error('Error al comparar los periodos');
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const significantQuestions = data?.questions.filter(question => question.significant).length ?? 0;
+  const questions = data ? [...data.questions].sort((a, b) => a.p_value - b.p_value) : [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-gray-200 bg-white">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-900 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-blue-600" />
+            Comparar periodos
+          </CardTitle>
+          <CardDescription>
+            Puntuaciones Likert de dos periodos o de dos versiones de la encuesta, con los demás filtros del panel.
+            Un cambio es significativo cuando la prueba de Mann-Whitney da p &lt; 0,05. En secciones y preguntas la p
+            está ajustada por Holm según el número de comparaciones.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {canCompareVersions && (
+            <div className="flex gap-2">
+              <Button size="sm" variant={activeMode === 'periods' ? 'default' : 'outline'} onClick={() => setMode('periods')}>
+                Fechas
+              </Button>
+              <Button size="sm" variant={activeMode === 'versions' ? 'default' : 'outline'} onClick={() => setMode('versions')}>
+                Versiones
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {COMPARISON_SIDES.map(side => (
+              <div key={side} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="font-medium text-gray-900">{SIDE_LABELS[side]}</div>
+                {activeMode === 'versions' ? (
+                  <Select value={periods[side].version} onValueChange={value => updatePeriod(side, { version: value })}>
+                    <SelectTrigger className="w-40 h-8">
+                      <SelectValue placeholder="Versión" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version} value={String(version)}>Versión {version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="flex flex-wrap gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`${side}-from`} className="text-xs text-gray-600">Desde</Label>
+                      <Input
+                        id={`${side}-from`}
+                        type="date"
+                        className="h-8 w-40"
+                        value={periods[side].from}
+                        max={periods[side].to || undefined}
+                        onChange={e => updatePeriod(side, { from: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`${side}-to`} className="text-xs text-gray-600">Hasta</Label>
+                      <Input
+                        id={`${side}-to`}
+                        type="date"
+                        className="h-8 w-40"
+                        value={periods[side].to}
+                        min={periods[side].from || undefined}
+                        onChange={e => updatePeriod(side, { to: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Button size="sm" onClick={compare} disabled={!isComplete || loading}>
+            {loading ? 'Comparando...' : 'Comparar'}
+          </Button>
+          {error && <p className="text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {data && (
+        <Card className="border-gray-200 bg-white">
+          <CardHeader>
+            <CardTitle className="text-lg text-gray-900">Resultado</CardTitle>
+            <CardDescription>
+              {data.before_responses} respuesta(s) en A y {data.after_responses} en B ·{' '}
+              {significantQuestions} pregunta(s) con cambios significativos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6 text-sm">
+            {data.overall ? (
+              <table className="w-full">
+                <ChangeHeader first="Puntuación media por persona" />
+                <tbody>
+                  <tr>
+                    <td className="py-2 px-2 font-medium text-gray-900">General</td>
+                    <ChangeCells change={data.overall} />
+                  </tr>
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500">No hay respuestas suficientes en los dos periodos para compararlos.</p>
+            )}
+
+            {data.sections.length > 0 && (
+              <table className="w-full">
+                <ChangeHeader first="Sección" />
+                <tbody>
+                  {data.sections.map(section => (
+                    <tr key={section.section} className="border-b border-gray-100">
+                      <td className="py-2 px-2 text-gray-900">{section.section}</td>
+                      <ChangeCells change={section} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {questions.length > 0 && (
+              <table className="w-full">
+                <ChangeHeader first="Pregunta" />
+                <tbody>
+                  {questions.map(question => (
+                    <tr key={question.question_id} className="border-b border-gray-100">
+                      <td className="py-2 px-2">
+                        <div className="text-xs text-gray-500">{question.section}</div>
+                        <a href={`/analytics/questions/${question.question_id}?${toSearchParams(filter)}`} className="text-gray-900 hover:underline">
+                          {question.question_text}
+                        </a>
+                      </td>
+                      <ChangeCells change={question} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {data.suppressedGroups > 0 && (
+              <div className="flex items-center space-x-2 text-gray-600">
+                <ShieldCheck className="w-4 h-4 text-gray-500" />
+                <span>
+                  {data.suppressedGroups} sección(es) o pregunta(s) con pocas respuestas en alguno de los periodos se ocultaron para proteger el anonimato
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
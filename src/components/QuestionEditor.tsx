@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { QuestionRenderer } from './QuestionRenderer';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QUESTION_TYPES, type QuestionType } from '@/lib/questions';
+import type { DisplayCondition } from '@/lib/question-conditions';
+
+// Question as returned by the authoring API (JSON columns already parsed)
+export interface EditableQuestion {
+  id: number;
+  survey_id: number;
+  section: string;
+  question_text: string;
+  question_type: QuestionType;
+  question_order: number;
+  is_required: boolean;
+  options: string[] | null;
+  validation_rules: { min?: number; max?: number; step?: number; word_limit?: number; sum_to_100?: boolean } | null;
+  display_condition: DisplayCondition | null;
+  analysis_tags: string | null;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  likert: 'Escala Likert',
+  multiple_choice: 'Opción múltiple',
+  text: 'Texto abierto',
+  ranking: 'Clasificación',
+  percentage: 'Porcentajes',
+  checkbox: 'Selección múltiple',
+  nps: 'Net Promoter Score (0-10)'
+};
+
+const ALWAYS_VISIBLE = 'always';
+
+interface QuestionEditorProps {
+  surveyId: number;
+  question: EditableQuestion | null; // null when adding a new question
+  surveyQuestions: EditableQuestion[];
+  errors: string[];
+  isSaving: boolean;
+  onSave: (payload: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+export function QuestionEditor({ surveyId, question, surveyQuestions, errors, isSaving, onSave, onCancel }: QuestionEditorProps) {
+  const [section, setSection] = useState(question?.section ?? '');
+  const [questionText, setQuestionText] = useState(question?.question_text ?? '');
+  const [questionType, setQuestionType] = useState<QuestionType>(question?.question_type ?? 'likert');
+  const [isRequired, setIsRequired] = useState(question?.is_required ?? true);
+  const [optionsText, setOptionsText] = useState((question?.options ?? []).join('\n'));
+  const [min, setMin] = useState(question?.validation_rules?.min?.toString() ?? '1');
+  const [max, setMax] = useState(question?.validation_rules?.max?.toString() ?? '10');
+  const [wordLimit, setWordLimit] = useState(question?.validation_rules?.word_limit?.toString() ?? '');
+  const [sumTo100, setSumTo100] = useState(question?.validation_rules?.sum_to_100 ?? true);
+  const [conditionOrder, setConditionOrder] = useState(question?.display_condition?.question_order?.toString() ?? ALWAYS_VISIBLE);
+  const [conditionValues, setConditionValues] = useState<string[]>(question?.display_condition?.in ?? []);
+  const [conditionMin, setConditionMin] = useState(question?.display_condition?.min?.toString() ?? '');
+  const [conditionMax, setConditionMax] = useState(question?.display_condition?.max?.toString() ?? '');
+  const [analysisTags, setAnalysisTags] = useState(question?.analysis_tags ?? '');
+  const [previewValue, setPreviewValue] = useState('');
+
+  const options = optionsText.split('\n').map(option => option.trim()).filter(Boolean);
+  const takesOptions = ['multiple_choice', 'ranking', 'checkbox', 'percentage'].includes(questionType);
+
+  // Skip logic can only depend on questions that come earlier in the survey
+  const earlierQuestions = surveyQuestions.filter(q =>
+    q.id !== question?.id && (question === null || q.question_order < question.question_order)
+  );
+  const conditionSource = earlierQuestions.find(q => q.question_order.toString() === conditionOrder);
+  const sections = Array.from(new Set(surveyQuestions.map(q => q.section)));
+
+  const validationRules = useMemo(() => {
+    switch (questionType) {
+      case 'likert':
+        // The editor has no step field; keep one set through the API
+        return { min: parseInt(min) || 1, max: parseInt(max) || 10, step: question?.validation_rules?.step };
+      case 'text':
+        return wordLimit ? { word_limit: parseInt(wordLimit) } : null;
+      case 'percentage':
+        return { sum_to_100: sumTo100 };
+      default:
+        return null;
+    }
+  }, [questionType, min, max, wordLimit, sumTo100, question]);
+
+  const displayCondition = useMemo((): DisplayCondition | null => {
+    if (!conditionSource) return null;
+    const condition: DisplayCondition = { question_order: conditionSource.question_order };
+    if (conditionSource.options && conditionSource.options.length > 0) {
+      if (conditionValues.length > 0) condition.in = conditionValues;
+    } else {
+      if (conditionMin !== '') condition.min = parseFloat(conditionMin);
+      if (conditionMax !== '') condition.max = parseFloat(conditionMax);
+    }
+    return condition;
+  }, [conditionSource, conditionValues, conditionMin, conditionMax]);
+
+  const previewQuestion = {
+    id: question?.id ?? 0,
+    survey_id: surveyId,
+    section,
+    question_text: questionText,
+    question_type: questionType,
+    question_order: question?.question_order ?? surveyQuestions.length + 1,
+    is_required: isRequired,
+    options: takesOptions ? options : [],
+    validation_rules: validationRules ?? undefined
+  };
+  const previewKey = JSON.stringify(previewQuestion);
+
+  // Start the preview over whenever the definition changes
+  useEffect(() => {
+    setPreviewValue('');
+  }, [previewKey]);
+
+  const handleSave = () => {
+    onSave({
+      section,
+      question_text: questionText,
+      question_type: questionType,
+      is_required: isRequired,
+      options: takesOptions && options.length > 0 ? options : null,
+      validation_rules: validationRules,
+      display_condition: displayCondition,
+      analysis_tags: analysisTags
+    });
+  };
+
+  const toggleConditionValue = (value: string, checked: boolean) => {
+    setConditionValues(checked ? [...conditionValues, value] : conditionValues.filter(v => v !== value));
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{question ? `Editar pregunta #${question.question_order}` : 'Nueva pregunta'}</CardTitle>
+          <CardDescription>Defina el contenido, el tipo y las reglas de la pregunta</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="question-section">Sección</Label>
+            <Input
+              id="question-section"
+              list="question-sections"
+              value={section}
+              onChange={(e) => setSection(e.target.value)}
+              placeholder="Ej. Eficiencia de Procesos y Flujo de Trabajo"
+            />
+            <datalist id="question-sections">
+              {sections.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="question-text">Texto de la pregunta</Label>
+            <Textarea
+              id="question-text"
+              value={questionText}
+              onChange={(e) => setQuestionText(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo de pregunta</Label>
+              <Select value={questionType} onValueChange={(value) => setQuestionType(value as QuestionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end space-x-2 pb-2">
+              <input
+                type="checkbox"
+                id="question-required"
+                checked={isRequired}
+                onChange={(e) => setIsRequired(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <Label htmlFor="question-required" className="cursor-pointer">Respuesta obligatoria</Label>
+            </div>
+          </div>
+
+          {takesOptions && (
+            <div className="space-y-2">
+              <Label htmlFor="question-options">
+                {questionType === 'percentage' ? 'Categorías (opcional, una por línea)' : 'Opciones (una por línea)'}
+              </Label>
+              <Textarea
+                id="question-options"
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                rows={5}
+              />
+            </div>
+          )}
+
+          {questionType === 'likert' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Valor mínimo</Label>
+                <Input id="rule-min" type="number" value={min} onChange={(e) => setMin(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Valor máximo</Label>
+                <Input id="rule-max" type="number" value={max} onChange={(e) => setMax(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {questionType === 'text' && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-word-limit">Límite de palabras (opcional)</Label>
+              <Input id="rule-word-limit" type="number" min="1" value={wordLimit} onChange={(e) => setWordLimit(e.target.value)} />
+            </div>
+          )}
+
+          {questionType === 'percentage' && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="rule-sum-to-100"
+                checked={sumTo100}
+                onChange={(e) => setSumTo100(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <Label htmlFor="rule-sum-to-100" className="cursor-pointer">Los porcentajes deben sumar 100%</Label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Mostrar esta pregunta</Label>
+            <Select
+              value={conditionOrder}
+              onValueChange={(value) => {
+                setConditionOrder(value);
+                setConditionValues([]);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALWAYS_VISIBLE}>Siempre</SelectItem>
+                {earlierQuestions.map(q => (
+                  <SelectItem key={q.id} value={q.question_order.toString()}>
+                    Según la respuesta a #{q.question_order}: {q.question_text.slice(0, 60)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {conditionSource && conditionSource.options && conditionSource.options.length > 0 && (
+              <div className="space-y-2 rounded-lg border p-3">
+                <div className="text-sm text-muted-foreground">Mostrar solo si la respuesta es una de:</div>
+                {conditionSource.options.map((option, index) => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`condition-${index}`}
+                      checked={conditionValues.includes(option)}
+                      onChange={(e) => toggleConditionValue(option, e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor={`condition-${index}`} className="cursor-pointer">{option}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            {conditionSource && !(conditionSource.options && conditionSource.options.length > 0) && (
+              <div className="grid grid-cols-2 gap-4 rounded-lg border p-3">
+                <div className="space-y-2">
+                  <Label htmlFor="condition-min">Respuesta mínima</Label>
+                  <Input id="condition-min" type="number" value={conditionMin} onChange={(e) => setConditionMin(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="condition-max">Respuesta máxima</Label>
+                  <Input id="condition-max" type="number" value={conditionMax} onChange={(e) => setConditionMax(e.target.value)} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="question-tags">Etiquetas de análisis (separadas por comas)</Label>
+            <Input
+              id="question-tags"
+              value={analysisTags}
+              onChange={(e) => setAnalysisTags(e.target.value)}
+              placeholder="workarounds,system_limitations"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onCancel} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Guardando...' : 'Guardar pregunta'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Vista previa</CardTitle>
+            {isRequired && <Badge variant="destructive">Requerida</Badge>}
+          </div>
+          <CardDescription>Así verán la pregunta los participantes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {section && <Badge variant="secondary">{section}</Badge>}
+          <div className="text-xl leading-relaxed font-semibold">
+            {questionText || 'Escriba el texto de la pregunta'}
+          </div>
+          <QuestionRenderer
+            key={previewKey}
+            question={previewQuestion}
+            value={previewValue}
+            onChange={(value) => setPreviewValue(value)}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSurveyStore } from '@/lib/store';
+import { parseQuestionOptions, parseValidationRules, validateAnswer, DEFAULT_PERCENTAGE_CATEGORIES } from '@/lib/answer-validation';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
@@ -16,7 +17,7 @@ interface Question {
   survey_id: number;
   section: string;
   question_text: string;
-  question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox';
+  question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox' | 'nps';
   question_order: number;
   is_required: boolean;
   options?: string | string[]; // Can be JSON string or already parsed array
@@ -26,11 +27,16 @@ interface Question {
 
 interface QuestionRendererProps {
   question: Question;
+  // Preview mode (admin editor): the answer lives outside the survey store
+  value?: string;
+  onChange?: (value: string, numericValue?: number) => void;
 }
 
-export function QuestionRenderer({ question }: QuestionRendererProps) {
+export function QuestionRenderer({ question, value, onChange }: QuestionRendererProps) {
   const { answers, setAnswer, setError, clearError } = useSurveyStore();
-  const currentAnswer = answers[question.id];
+  const isPreview = onChange !== undefined;
+  const previewAnswer = useMemo(() => (value ? { value } : undefined), [value]);
+  const currentAnswer = isPreview ? previewAnswer : answers[question.id];
   
   const [localValue, setLocalValue] = useState(currentAnswer?.value || '');
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -42,39 +48,8 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
 
   // Handle options and validation rules (may already be parsed by API)
-  const options = (() => {
-    if (!question.options) return [];
-    // If it's already an array, use it directly
-    if (Array.isArray(question.options)) return question.options;
-    // If it's a string, try to parse it
-    if (typeof question.options === 'string') {
-      try {
-        return JSON.parse(question.options);
-      } catch (error) {
-        console.error('Error parsing question options:', error, 'Raw options:', question.options);
-        return [];
-      }
-    }
-    return [];
-  })();
-
-  const validationRules = (() => {
-    if (!question.validation_rules) return {};
-    // If it's already an object, use it directly
-    if (typeof question.validation_rules === 'object' && !Array.isArray(question.validation_rules)) {
-      return question.validation_rules;
-    }
-    // If it's a string, try to parse it
-    if (typeof question.validation_rules === 'string') {
-      try {
-        return JSON.parse(question.validation_rules);
-      } catch (error) {
-        console.error('Error parsing validation rules:', error, 'Raw rules:', question.validation_rules);
-        return {};
-      }
-    }
-    return {};
-  })();
+  const options = parseQuestionOptions(question);
+  const validationRules = parseValidationRules(question);
 
   useEffect(() => {
     setLocalValue(currentAnswer?.value || '');
@@ -126,25 +101,7 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
   }, [currentAnswer, question.question_type]);
 
   const validateInput = (value: string): string | null => {
-    if (question.is_required && !value.trim()) {
-      return 'Este campo es requerido';
-    }
-
-    if (validationRules.word_limit && value.trim()) {
-      const wordCount = value.trim().split(/\s+/).length;
-      if (wordCount > validationRules.word_limit) {
-        return `Por favor limite a ${validationRules.word_limit} palabras (actual: ${wordCount})`;
-      }
-    }
-
-    if (validationRules.min && validationRules.max) {
-      const numValue = parseFloat(value);
-      if (isNaN(numValue) || numValue < validationRules.min || numValue > validationRules.max) {
-        return `Por favor ingrese un valor entre ${validationRules.min} y ${validationRules.max}`;
-      }
-    }
-
-    return null;
+    return validateAnswer(question, value)?.message ?? null;
   };
 
   const handleValueChange = (value: string, numericValue?: number) => {
@@ -153,18 +110,23 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
     
     if (error) {
       setValidationError(error);
-      setError(question.id, error);
+      if (!isPreview) setError(question.id, error);
     } else {
       setValidationError(null);
-      clearError(question.id);
-      setAnswer(question.id, value, numericValue);
+      if (isPreview) {
+        onChange(value, numericValue);
+      } else {
+        clearError(question.id);
+        setAnswer(question.id, value, numericValue);
+      }
     }
   };
 
   const renderLikertScale = () => {
     const min = validationRules.min || 1;
     const max = validationRules.max || 10;
-    const scale = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+    const step = validationRules.step || 1;
+    const scale = Array.from({ length: Math.floor((max - min) / step) + 1 }, (_, i) => min + i * step);
 
     return (
       <div className="space-y-4">
@@ -195,6 +157,39 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
     );
   };
 
+  // Net Promoter Score: a fixed 0-10 scale, coloured by how the answer will be counted
+  const renderNps = () => {
+    const scale = Array.from({ length: 11 }, (_, i) => i);
+    const selected = localValue === '' ? null : parseInt(localValue);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>Nada probable</span>
+          <span>Extremadamente probable</span>
+        </div>
+        <div className="grid grid-cols-11 gap-1">
+          {scale.map((num) => {
+            const tone = num >= 9 ? 'bg-green-600 border-green-600' : num >= 7 ? 'bg-amber-500 border-amber-500' : 'bg-red-600 border-red-600';
+            return (
+              <Button
+                key={num}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleValueChange(num.toString(), num)}
+                className={`h-10 p-0 ${selected === num ? `${tone} text-white hover:text-white` : ''}`}
+                aria-pressed={selected === num}
+              >
+                {num}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
   const renderMultipleChoice = () => {
     return (
       <RadioGroup
@@ -331,7 +326,7 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
       handleValueChange(JSON.stringify(newPercentages));
     };
 
-    const categories = options.length > 0 ? options : ['Data Entry', 'Selling', 'Other'];
+    const categories = options.length > 0 ? options : DEFAULT_PERCENTAGE_CATEGORIES;
     const isValid = Math.abs(total - 100) < 0.01; // Allow for small floating point errors
 
     return (
@@ -429,6 +424,8 @@ export function QuestionRenderer({ question }: QuestionRendererProps) {
     switch (question.question_type) {
       case 'likert':
         return renderLikertScale();
+      case 'nps':
+        return renderNps();
       case 'multiple_choice':
         return renderMultipleChoice();
       case 'text':
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { RankingAggregate } from '@/lib/analytics/types';
+
+// Shade of a pairwise cell: blue when most respondents prefer the row option
+function getPreferenceColor(share: number) {
+  if (share >= 60) return 'bg-blue-100 text-blue-900';
+  if (share <= 40) return 'bg-gray-50 text-gray-500';
+  return 'text-gray-700';
+}
+
+// Options of a ranking question by Borda count, with the pairwise preference
+// matrix on demand
+export function RankingTable({ ranking }: { ranking: RankingAggregate }) {
+  const [showMatrix, setShowMatrix] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-xs text-gray-500">
+            <th className="py-1 text-left font-medium">Opción</th>
+            <th className="py-1 text-right font-medium">Puntos Borda</th>
+            <th className="py-1 text-right font-medium">Posición media</th>
+            <th className="py-1 text-right font-medium">Primera opción</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ranking.options.map((option, index) => (
+            <tr key={option.option} className="border-b border-gray-100">
+              <td className="py-1 text-gray-900">
+                <span className="text-gray-400 mr-2">{index + 1}.</span>
+                {option.option}
+              </td>
+              <td className="py-1 text-right font-medium">{option.borda_points}</td>
+              <td className="py-1 text-right">{option.mean_rank !== null ? option.mean_rank.toFixed(2) : '—'}</td>
+              <td className="py-1 text-right">{option.first_choice_share}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {ranking.options.length > 1 && (
+        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setShowMatrix(!showMatrix)}>
+          {showMatrix ? 'Ocultar preferencias por pares' : 'Ver preferencias por pares'}
+        </Button>
+      )}
+
+      {showMatrix && (
+        <div className="overflow-x-auto">
+          <p className="text-xs text-gray-500 mb-2">
+            Porcentaje de las {ranking.respondents} personas que pusieron la opción de la fila por delante de la de la columna
+          </p>
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {ranking.options.map((option, index) => (
+                  <th key={option.option} className="px-2 py-1 font-medium text-gray-500" title={option.option}>{index + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.options.map((option, row) => (
+                <tr key={option.option}>
+                  <td className="pr-3 py-1 text-gray-700 max-w-xs truncate" title={option.option}>{row + 1}. {option.option}</td>
+                  {ranking.pairwise[row].map((share, column) => (
+                    <td key={column} className={`px-2 py-1 text-center ${row === column ? 'text-gray-300' : getPreferenceColor(share)}`}>
+                      {row === column ? '—' : `${Math.round(share)}%`}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSurveyStore } from '@/lib/store';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,26 +10,31 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { QuestionRenderer } from './QuestionRenderer';
 import { ChevronLeft, ChevronRight, Save } from 'lucide-react';
 import spanishTranslations from '@/lib/translations';
+import type { QuestionValidationError } from '@/lib/answer-validation';
+import { getVisibleQuestions, toAnswerValues, type DisplayCondition } from '@/lib/question-conditions';
+import type { QuestionType } from '@/lib/questions';
 
 interface Question {
   id: number;
   survey_id: number;
   section: string;
   question_text: string;
-  question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage';
+  question_type: QuestionType;
   question_order: number;
   is_required: boolean;
   options?: string;
   validation_rules?: string;
+  display_condition?: string | DisplayCondition | null;
   analysis_tags?: string;
 }
 
 interface SurveyInterfaceProps {
   surveyId: number;
+  surveyVersion: number | null;
   questions: Question[];
 }
 
-export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
+export function SurveyInterface({ surveyId, surveyVersion, questions }: SurveyInterfaceProps) {
   const {
     currentQuestionIndex,
     currentSection,
@@ -38,9 +43,10 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
     startTime,
     sessionId,
     userRole,
+    isAnonymous,
     setCurrentQuestion,
     setAnswer,
-    getProgress,
+    setError,
     validateAnswers,
   } = useSurveyStore();
 
@@ -56,59 +62,85 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
     }
   }, [currentQuestionIndex, questions]);
 
-  // Auto-save functionality (disabled - API endpoint not implemented)
-  // TODO: Implement /api/surveys/autosave endpoint
-  /*
-  useEffect(() => {
-    const autoSave = async () => {
-      if (Object.keys(answers).length === 0 || !startTime) return;
-      
-      setAutoSaveStatus('saving');
-      try {
-        await fetch('/api/surveys/autosave', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            surveyId,
-            answers: Object.values(answers),
-            timestamp: new Date().toISOString(),
-          }),
-        });
-        setAutoSaveStatus('saved');
-        setTimeout(() => setAutoSaveStatus(null), 2000);
-      } catch (error) {
-        setAutoSaveStatus('error');
-        console.error('Auto-save failed:', error);
+  // Auto-save answers to the server so progress survives lost connections
+  const lastSavedSnapshot = useRef<string | null>(null);
+
+  const autoSave = useCallback(async () => {
+    if (!sessionId || Object.keys(answers).length === 0) return;
+
+    const snapshot = JSON.stringify(answers);
+    if (snapshot === lastSavedSnapshot.current) return;
+
+    setAutoSaveStatus('saving');
+    try {
+      const response = await fetch('/api/surveys/autosave', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          surveyId,
+          sessionId,
+          surveyVersion,
+          anonymous: isAnonymous,
+          answers: Object.values(answers),
+          startedAt: startTime ? new Date(startTime).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Auto-save failed with status ${response.status}`);
       }
-    };
 
+      lastSavedSnapshot.current = snapshot;
+      setAutoSaveStatus('saved');
+      setTimeout(() => setAutoSaveStatus(null), 2000);
+    } catch (error) {
+      setAutoSaveStatus('error');
+      console.error('Auto-save failed:', error);
+    }
+  }, [answers, sessionId, surveyId, surveyVersion, isAnonymous, startTime]);
+
+  useEffect(() => {
     const interval = setInterval(autoSave, 30000); // Auto-save every 30 seconds
-    return () => clearInterval(interval);
-  }, [answers, surveyId, startTime]);
-  */
+    // Flush pending answers as soon as the connection comes back
+    window.addEventListener('online', autoSave);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', autoSave);
+    };
+  }, [autoSave]);
 
-  const progress = getProgress();
-  const isFirstQuestion = currentQuestionIndex === 0;
-  const isLastQuestion = currentQuestionIndex === questions.length - 1;
+  // Questions hidden by skip logic are left out of navigation, progress and submission
+  const visibleQuestions = useMemo(
+    () => getVisibleQuestions(questions, toAnswerValues(Object.values(answers))),
+    [questions, answers]
+  );
+  const visiblePosition = visibleQuestions.findIndex(q => q.id === questions[currentQuestionIndex]?.id);
+  const progress = visibleQuestions.length > 0 ? ((visiblePosition + 1) / visibleQuestions.length) * 100 : 0;
+  const isFirstQuestion = visiblePosition <= 0;
+  const isLastQuestion = visiblePosition === visibleQuestions.length - 1;
   const hasAnswer = currentQuestion ? Boolean(answers[currentQuestion.id]?.value) : false;
 
   const handleNext = () => {
-    if (!isLastQuestion && currentQuestionIndex + 1 < questions.length) {
-      const nextIndex = currentQuestionIndex + 1;
-      const nextQuestion = questions[nextIndex];
-      setCurrentQuestion(nextIndex, nextQuestion.section);
+    const nextQuestion = visibleQuestions[visiblePosition + 1];
+    if (!isLastQuestion && nextQuestion) {
+      setCurrentQuestion(questions.indexOf(nextQuestion), nextQuestion.section);
+      autoSave();
     }
   };
 
   const handlePrevious = () => {
-    if (!isFirstQuestion && currentQuestionIndex > 0) {
-      const prevIndex = currentQuestionIndex - 1;
-      const prevQuestion = questions[prevIndex];
-      setCurrentQuestion(prevIndex, prevQuestion.section);
+    const prevQuestion = visibleQuestions[visiblePosition - 1];
+    if (!isFirstQuestion && prevQuestion) {
+      setCurrentQuestion(questions.indexOf(prevQuestion), prevQuestion.section);
     }
   };
 
+  const submittingRef = useRef(false);
+
   const handleSubmit = async () => {
+    // Ignore double clicks while a submission is in flight
+    if (submittingRef.current) return;
+    submittingRef.current = true;
     setIsSubmitting(true);
     try {
       const isValid = validateAnswers();
@@ -116,22 +148,34 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
         throw new Error(spanishTranslations.survey.errors.completeRequired);
       }
 
+      const visibleIds = new Set(visibleQuestions.map(q => q.id));
+      const submittedAnswers = Object.values(answers).filter(a => visibleIds.has(a.questionId));
+
       const response = await fetch('/api/surveys/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           surveyId,
-          answers: Object.values(answers),
+          surveyVersion,
+          anonymous: isAnonymous,
+          answers: submittedAnswers,
           completedAt: new Date().toISOString(),
-          responseTime: startTime ? Math.floor((Date.now() - startTime.getTime()) / 1000) : 0,
+          responseTime: startTime ? Math.floor((Date.now() - new Date(startTime).getTime()) / 1000) : 0,
           sessionId,
-          startedAt: startTime?.toISOString(),
+          startedAt: startTime ? new Date(startTime).toISOString() : undefined,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
         console.error('Submission error details:', errorData);
+
+        // Answers stay in local storage, so they are still here after signing in again
+        if (response.status === 401) {
+          alert(spanishTranslations.survey.errors.sessionExpired);
+          window.location.href = '/login';
+          return;
+        }
         
         // If we get question ID validation errors, clear the store and reload
         if (errorData.error === 'Invalid question IDs') {
@@ -142,14 +186,26 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
           window.location.reload();
           return;
         }
+
+        // Show the server's per-question errors and jump to the first one
+        if (response.status === 422 && Array.isArray(errorData.errors)) {
+          const validationErrors: QuestionValidationError[] = errorData.errors;
+          validationErrors.forEach(({ questionId, message }) => setError(questionId, message));
+          const firstInvalidIndex = questions.findIndex(q => validationErrors.some(e => e.questionId === q.id));
+          if (firstInvalidIndex >= 0) {
+            setCurrentQuestion(firstInvalidIndex, questions[firstInvalidIndex].section);
+          }
+          alert(spanishTranslations.survey.errors.validationFailed);
+          return;
+        }
         
         throw new Error(spanishTranslations.survey.errors.submissionFailed);
       }
 
       // Redirect to thank you page with completion stats
       const completionParams = new URLSearchParams({
-        completed: Object.keys(answers).length.toString(),
-        total: questions.length.toString(),
+        completed: submittedAnswers.length.toString(),
+        total: visibleQuestions.length.toString(),
         role: userRole || 'unknown'
       });
       window.location.href = `/survey/complete?${completionParams.toString()}`;
@@ -157,13 +213,14 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
       console.error('Submission failed:', error);
       alert(spanishTranslations.survey.errors.submissionFailed);
     } finally {
+      submittingRef.current = false;
       setIsSubmitting(false);
     }
   };
 
   const getSectionQuestions = () => {
     if (!currentSection) return [];
-    return questions.filter(q => q.section === currentSection);
+    return visibleQuestions.filter(q => q.section === currentSection);
   };
 
   const getCurrentSectionProgress = () => {
@@ -191,7 +248,7 @@ export function SurveyInterface({ surveyId, questions }: SurveyInterfaceProps) {
             <div>
               <CardTitle className="text-lg">{spanishTranslations.survey.title}</CardTitle>
               <CardDescription>
-                Pregunta {currentQuestionIndex + 1} de {questions.length} • ID: {currentQuestion?.id}
+                Pregunta {visiblePosition + 1} de {visibleQuestions.length} • ID: {currentQuestion?.id}
               </CardDescription>
             </div>
             <div className="flex items-center space-x-2">
@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+import { toSearchParams } from '@/lib/analytics/filters';
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import type { TextQuestionGroup } from '@/lib/analytics/text-answers';
+import { MessageSquare, Search, ShieldCheck, Tag, Trash2, X } from 'lucide-react';
+
+interface TextTheme {
+  id: number;
+  name: string;
+  description: string | null;
+  answer_count: number;
+}
+
+interface TextExplorerData {
+  questions: TextQuestionGroup[];
+  themes: TextTheme[];
+  suppressedQuestions: number;
+  minCellSize: number;
+}
+
+// Text answers under the dashboard filters, searchable and codable with themes
+export function TextExplorer({ filter }: { filter: AnalyticsFilter }) {
+  const [data, setData] = useState<TextExplorerData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [themeId, setThemeId] = useState<number | null>(null);
+  const [newTheme, setNewTheme] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = toSearchParams(filter);
+      if (search) params.set('search', search);
+      if (themeId !== null) params.set('themeId', String(themeId));
+      const response = await fetch(`/api/text-answers?${params}`);
+      if (!response.ok) throw new Error('Error al cargar los comentarios');
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, search, themeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreateTheme = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTheme.trim()) return;
+    const response = await fetch('/api/text-themes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newTheme })
+    });
+    if (response.ok) {
+      setNewTheme('');
+      load();
+    } else {
+      setError(response.status === 409 ? 'Ya existe un tema con ese nombre' : 'No se pudo crear el tema');
+    }
+  };
+
+  const handleDeleteTheme = async (theme: TextTheme) => {
+    if (!confirm(`¿Eliminar el tema "${theme.name}"? Se quitará de ${theme.answer_count} comentario(s).`)) return;
+    const response = await fetch(`/api/text-themes/${theme.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError('No se pudo eliminar el tema');
+      return;
+    }
+    if (themeId === theme.id) setThemeId(null);
+    load();
+  };
+
+  const toggleAnswerTheme = async (answerId: number, themes: number[], id: number) => {
+    const next = themes.includes(id) ? themes.filter(t => t !== id) : [...themes, id];
+    const response = await fetch(`/api/text-answers/${answerId}/themes`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ theme_ids: next })
+    });
+    if (response.ok) load();
+    else setError('No se pudo actualizar la codificación');
+  };
+
+  const themeName = (id: number) => data?.themes.find(theme => theme.id === id)?.name ?? `#${id}`;
+  const shownAnswers = data?.questions.reduce((sum, question) => sum + question.answers.length, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-gray-200 bg-white">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-900 flex items-center">
+            <Tag className="w-5 h-5 mr-2 text-blue-600" />
+            Temas
+          </CardTitle>
+          <CardDescription>
+            Etiquete los comentarios con temas para contarlos. Haga clic en un tema para ver solo sus comentarios.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {data?.themes.length === 0 && <p className="text-sm text-gray-500">Todavía no hay temas.</p>}
+            {data?.themes.map(theme => (
+              <div
+                key={theme.id}
+                className={`flex items-center rounded-full border text-sm ${themeId === theme.id ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-800'}`}
+              >
+                <button
+                  type="button"
+                  className="pl-3 pr-2 py-1"
+                  title={theme.description ?? undefined}
+                  onClick={() => setThemeId(themeId === theme.id ? null : theme.id)}
+                >
+                  {theme.name} <span className="font-semibold">{theme.answer_count}</span>
+                </button>
+                <button type="button" className="pr-2 opacity-70 hover:opacity-100" onClick={() => handleDeleteTheme(theme)} title="Eliminar tema">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <form onSubmit={handleCreateTheme} className="flex gap-2 max-w-md">
+            <Input value={newTheme} onChange={e => setNewTheme(e.target.value)} placeholder="Nuevo tema" className="h-8" maxLength={60} />
+            <Button type="submit" size="sm" disabled={!newTheme.trim()}>Crear tema</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-gray-200 bg-white">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-900 flex items-center">
+            <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+            Comentarios
+          </CardTitle>
+          <CardDescription>
+            Respuestas abiertas por pregunta, con los filtros del panel. Use el filtro de secciones y de rol de arriba para acotarlas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            onSubmit={e => { e.preventDefault(); setSearch(searchInput.trim()); }}
+            className="flex gap-2 max-w-xl"
+          >
+            <Input value={searchInput} onChange={e => setSearchInput(e.target.value)} placeholder="Buscar en los comentarios" className="h-8" />
+            <Button type="submit" size="sm" variant="outline">
+              <Search className="w-4 h-4 mr-1" />
+              Buscar
+            </Button>
+            {(search || themeId !== null) && (
+              <Button type="button" size="sm" variant="ghost" onClick={() => { setSearch(''); setSearchInput(''); setThemeId(null); }}>
+                <X className="w-4 h-4 mr-1" />
+                Limpiar
+              </Button>
+            )}
+          </form>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {loading && !data && <p className="text-sm text-gray-500">Cargando comentarios...</p>}
+
+          {data && (
+            <>
+              <p className="text-sm text-gray-600">
+                {shownAnswers} comentario(s)
+                {search && <> que contienen «{search}»</>}
+                {themeId !== null && <> con el tema «{themeName(themeId)}»</>}
+              </p>
+              {data.suppressedQuestions > 0 && (
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <ShieldCheck className="w-4 h-4 text-gray-500" />
+                  <span>
+                    {data.suppressedQuestions} pregunta(s) con menos de {data.minCellSize} respuestas se ocultaron para proteger el anonimato
+                  </span>
+                </div>
+              )}
+
+              {data.questions.map(question => (
+                <div key={question.question_id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div>
+                    <div className="text-xs text-gray-500">{question.section}</div>
+                    <div className="font-medium text-gray-900">{question.question_text}</div>
+                    <div className="flex flex-wrap gap-2 mt-2 text-xs text-gray-600">
+                      <span>{question.answer_count} respuesta(s)</span>
+                      {Object.entries(question.theme_counts).map(([id, count]) => (
+                        <Badge key={id} variant="secondary">{themeName(Number(id))}: {count}</Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  {question.answers.length === 0
+                    ? <p className="text-sm text-gray-500">Ningún comentario coincide.</p>
+                    : question.answers.map(answer => (
+                      <div key={answer.id} className="bg-gray-50 rounded p-3 space-y-2">
+                        <p className="text-sm text-gray-800 whitespace-pre-line">{answer.text}</p>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-xs text-gray-500 mr-2">{TARGET_ROLE_LABELS[answer.target_role] ?? answer.target_role}</span>
+                          {data.themes.map(theme => (
+                            <button
+                              key={theme.id}
+                              type="button"
+                              onClick={() => toggleAnswerTheme(answer.id, answer.themes, theme.id)}
+                              className={`text-xs rounded-full px-2 py-0.5 border ${answer.themes.includes(theme.id) ? 'bg-blue-100 border-blue-300 text-blue-800' : 'border-gray-200 text-gray-500 hover:border-gray-400'}`}
+                            >
+                              {theme.name}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              ))}
+
+              {data.questions.length === 0 && (
+                <p className="text-sm text-gray-500">No hay comentarios con estos filtros.</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Action items.
+ * Work agreed on from the feedback: each item has a priority, an optional
+ * assignee and due date, and moves through the statuses below. Every status
+ * change is kept in action_item_history so progress can be followed later;
+ * items are cancelled rather than deleted, so that history is never lost.
+ */
+
+import type { ActionItemInput } from './database-adapter';
+import type { ParseResult } from './survey-authoring';
+
+export const ACTION_ITEM_STATUSES = ['open', 'in_progress', 'completed', 'cancelled'] as const;
+export type ActionItemStatus = (typeof ACTION_ITEM_STATUSES)[number];
+
+export const ACTION_ITEM_PRIORITIES = ['high', 'medium', 'low'] as const;
+export type ActionItemPriority = (typeof ACTION_ITEM_PRIORITIES)[number];
+
+export const ACTION_ITEM_STATUS_LABELS: Record<ActionItemStatus, string> = {
+  open: 'Pendiente',
+  in_progress: 'En curso',
+  completed: 'Completada',
+  cancelled: 'Cancelada'
+};
+
+export const ACTION_ITEM_PRIORITY_LABELS: Record<ActionItemPriority, string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja'
+};
+
+// Managers only see the action items of their own department
+export function isActionItemInScope(item: { department: string | null }, scope: { department?: string }): boolean {
+  return scope.department === undefined || item.department === scope.department;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value == null) return null;
+  return typeof value === 'string' ? value.trim() || null : undefined;
+}
+
+export function parseActionItemPayload(body: any, partial = false): ParseResult<Partial<ActionItemInput>> {
+  const data: Partial<ActionItemInput> = {};
+  const errors: string[] = [];
+
+  if (!partial || body.title !== undefined) {
+    if (isNonEmptyString(body.title)) data.title = body.title.trim();
+    else errors.push('title is required');
+  }
+
+  if (!partial || body.description !== undefined) {
+    const description = optionalString(body.description);
+    if (description === undefined) errors.push('description must be a string');
+    else data.description = description;
+  }
+
+  if (!partial || body.priority !== undefined) {
+    const priority = body.priority ?? 'medium';
+    if (ACTION_ITEM_PRIORITIES.includes(priority)) data.priority = priority;
+    else errors.push(`priority must be one of: ${ACTION_ITEM_PRIORITIES.join(', ')}`);
+  }
+
+  if (!partial || body.category !== undefined) {
+    const category = optionalString(body.category);
+    if (category === undefined) errors.push('category must be a string');
+    else data.category = category;
+  }
+
+  if (!partial || body.assigned_to !== undefined) {
+    if (body.assigned_to == null || Number.isInteger(body.assigned_to)) data.assignedTo = body.assigned_to ?? null;
+    else errors.push('assigned_to must be a user id');
+  }
+
+  if (!partial || body.status !== undefined) {
+    const status = body.status ?? 'open';
+    if (ACTION_ITEM_STATUSES.includes(status)) data.status = status;
+    else errors.push(`status must be one of: ${ACTION_ITEM_STATUSES.join(', ')}`);
+  }
+
+  if (!partial || body.due_date !== undefined) {
+    if (body.due_date == null || body.due_date === '') data.dueDate = null;
+    else if (typeof body.due_date === 'string' && DATE_PATTERN.test(body.due_date) && !isNaN(Date.parse(body.due_date))) {
+      data.dueDate = body.due_date;
+    } else {
+      errors.push('due_date must be a date (YYYY-MM-DD)');
+    }
+  }
+
+  return { data, errors };
+}
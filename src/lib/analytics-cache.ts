@@ -0,0 +1,60 @@
+// Precomputed analytics in the analytics_cache table. Figures are cached per
+// metric and filters until ANALYTICS_CACHE_TTL_SECONDS pass or the data behind
+// them changes (a survey submitted, surveys, questions or text themes edited),
+// so the dashboard does not reload every response on each visit.
+// A failing cache never fails the request: the figure is just computed again.
+
+import { createHash } from 'crypto';
+import { databaseAdapter, type AnalyticsFilter } from './database-adapter';
+
+export const CACHE_TTL_SECONDS = parseInt(process.env.ANALYTICS_CACHE_TTL_SECONDS || '600');
+
+// The same filters in any key or section order share one entry
+function normalizeFilter(filter: AnalyticsFilter): AnalyticsFilter {
+  const normalized: Record<string, unknown> = {};
+  (Object.keys(filter) as Array<keyof AnalyticsFilter>).sort().forEach(key => {
+    const value = filter[key];
+    if (value === undefined) return;
+    normalized[key] = Array.isArray(value) ? [...value].sort() : value;
+  });
+  return normalized as AnalyticsFilter;
+}
+
+export function hashFilter(filter: AnalyticsFilter): string {
+  return createHash('sha256').update(JSON.stringify(normalizeFilter(filter))).digest('hex');
+}
+
+export async function cachedMetric<T>(metricName: string, filter: AnalyticsFilter, compute: () => Promise<T>): Promise<T> {
+  if (CACHE_TTL_SECONDS <= 0) return compute();
+
+  const filtersHash = hashFilter(filter);
+  try {
+    const cached = await databaseAdapter.getCachedMetric(metricName, filtersHash);
+    if (cached !== null) return JSON.parse(cached) as T;
+  } catch (error) {
+    console.error(`Error reading cached ${metricName}:`, error);
+  }
+
+  const value = await compute();
+  try {
+    await databaseAdapter.saveCachedMetric({
+      metricName,
+      value: JSON.stringify(value),
+      filters: JSON.stringify(normalizeFilter(filter)),
+      filtersHash,
+      expiresAt: new Date(Date.now() + CACHE_TTL_SECONDS * 1000).toISOString()
+    });
+  } catch (error) {
+    console.error(`Error caching ${metricName}:`, error);
+  }
+  return value;
+}
+
+// Any cached figure may depend on what changed, so all of them go
+export async function invalidateAnalyticsCache(): Promise<void> {
+  try {
+    await databaseAdapter.clearAnalyticsCache();
+  } catch (error) {
+    console.error('Error clearing analytics cache:', error);
+  }
+}
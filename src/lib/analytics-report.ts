@@ -0,0 +1,67 @@
+// Loads the dashboard report for a set of filters: headline figures from the
+// adapter's stats queries and detailed analytics from the responses, each
+// through the analytics cache. Shared by the dashboard API and the PDF report
+// so both always show the same numbers.
+
+import { databaseAdapter, type AnalyticsFilter } from './database-adapter';
+import { parseSnapshot } from './survey-versions';
+import { cachedMetric } from './analytics-cache';
+import {
+  buildAnalyticsReport,
+  compareResponses,
+  computeDetailedAnalytics,
+  emptyDetailedAnalytics,
+  type AnalyticsReport,
+  type ComparisonFilter,
+  type PeriodComparison
+} from './analytics';
+
+export async function loadAnalyticsReport(filter: AnalyticsFilter): Promise<AnalyticsReport> {
+  const completionStats = await cachedMetric('completion_stats', filter, () => databaseAdapter.getCompletionStats(filter));
+  const improvementMetrics = await cachedMetric('improvement_metrics', filter, () => databaseAdapter.getImprovementMetrics(filter));
+  // Every version stays listed so they can be compared under the other filters
+  const { surveyId, version, ...breakdownFilter } = filter;
+  const versionBreakdown = await cachedMetric('version_breakdown', breakdownFilter, () => databaseAdapter.getVersionBreakdown(breakdownFilter));
+  const detailed = await getDetailedAnalytics(filter);
+
+  return buildAnalyticsReport({ completionStats, improvementMetrics, versionBreakdown, detailed });
+}
+
+// A failure here only empties the detailed sections; the headline figures still load
+async function getDetailedAnalytics(filter: AnalyticsFilter) {
+  try {
+    return await cachedMetric('detailed_analytics', filter, () => computeFromResponses(filter));
+  } catch (error) {
+    console.error('Error in professional analytics:', error);
+    return emptyDetailedAnalytics('Error');
+  }
+}
+
+async function computeFromResponses(filter: AnalyticsFilter) {
+  const responses = await databaseAdapter.getResponsesWithAnswers(filter);
+  const questionText = new Map<number, string>();
+  await addVersionWording(filter, questionText);
+
+  return computeDetailedAnalytics(responses, { questionText });
+}
+
+// Report questions with the wording of the version being analysed
+async function addVersionWording(filter: AnalyticsFilter, questionText: Map<number, string>) {
+  if (filter.surveyId === undefined || filter.version === undefined) return;
+  const versionRow = await databaseAdapter.getSurveyVersion(filter.surveyId, filter.version);
+  if (versionRow) parseSnapshot(versionRow).forEach(q => questionText.set(q.id, q.question_text));
+}
+
+// Two periods or survey waves side by side. Not cached: comparisons are one-off
+// questions rather than a view that is reloaded.
+export async function loadPeriodComparison(filter: ComparisonFilter): Promise<PeriodComparison> {
+  const before = await databaseAdapter.getResponsesWithAnswers(filter.before);
+  const after = await databaseAdapter.getResponsesWithAnswers(filter.after);
+
+  // Questions reworded between waves are shown as the later wave asks them
+  const questionText = new Map<number, string>();
+  await addVersionWording(filter.before, questionText);
+  await addVersionWording(filter.after, questionText);
+
+  return compareResponses(before, after, { questionText });
+}
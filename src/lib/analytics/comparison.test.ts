@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalyticsAnswer, ResponseWithAnswers } from '@/lib/database-adapter';
+import { compareResponses } from './comparison';
+import { holmAdjust } from './statistics';
+
+type Question = AnalyticsAnswer['question'];
+
+const question = (id: number, section: string): Question => ({
+  id,
+  section,
+  question_text: `Pregunta ${id}`,
+  question_type: 'likert',
+  analysis_tags: null,
+  options: null,
+  validation_rules: null
+});
+
+let nextId = 1;
+
+// One response per row, each answering every question with the score at its position
+function respondAll(questions: Question[], scores: number[][]): ResponseWithAnswers[] {
+  return scores.map(row => ({
+    id: nextId++,
+    survey_id: 1,
+    survey_version: 1,
+    user_id: null,
+    is_anonymous: true,
+    target_role: 'sales',
+    department: null,
+    completed_at: '2024-03-12T10:00:00Z',
+    response_time_seconds: 300,
+    answers: questions.map((q, index) => ({
+      id: nextId++,
+      question_id: q.id,
+      answer_value: String(row[index]),
+      answer_numeric: row[index],
+      confidence_score: null,
+      sentiment_score: null,
+      question: q
+    }))
+  }));
+}
+
+describe('holmAdjust', () => {
+  it('scales each p-value by its rank and keeps the original order', () => {
+    expect(holmAdjust([0.04, 0.01, 0.03, 0.5])).toEqual([0.09, 0.04, 0.09, 0.5]);
+    expect(holmAdjust([0.3, 0.6])).toEqual([0.6, 0.6]);
+    expect(holmAdjust([])).toEqual([]);
+  });
+});
+
+describe('compareResponses', () => {
+  it('adjusts section and question p-values for the number of tests', () => {
+    const questions = [question(1, 'Eficiencia'), question(2, 'Visibilidad'), question(3, 'Soporte'), question(4, 'Soporte')];
+    const before = respondAll(questions, [[2, 5, 5, 5], [3, 6, 6, 6], [4, 7, 7, 7], [5, 5, 5, 5], [6, 6, 6, 6]]);
+    const after = respondAll(questions, [[5, 5, 5, 5], [6, 6, 6, 6], [7, 7, 7, 7], [8, 5, 5, 5], [9, 6, 6, 6]]);
+
+    const comparison = compareResponses(before, after, { minCellSize: 5 });
+    const efficiency = comparison.questions.find(change => change.question_id === 1)!;
+
+    // Significant on its own, but not once the other six tests are accounted for
+    expect(efficiency.p_value).toBeLessThan(0.05);
+    expect(efficiency.adjusted_p_value).toBeGreaterThanOrEqual(0.05);
+    expect(efficiency.significant).toBe(false);
+    expect(comparison.sections.find(change => change.section === 'Eficiencia')).toMatchObject({ significant: false });
+    // The overall score is a single test and is not adjusted
+    expect(comparison.overall!.adjusted_p_value).toBe(comparison.overall!.p_value);
+  });
+
+  it('keeps a change significant when it holds up after the adjustment', () => {
+    const questions = [question(1, 'Eficiencia'), question(2, 'Visibilidad')];
+    const lows = [[1, 5], [2, 6], [2, 7], [1, 5], [3, 6], [2, 7], [1, 5], [3, 6]];
+    const highs = lows.map(([score, other]) => [score + 7, other]);
+
+    const comparison = compareResponses(respondAll(questions, lows), respondAll(questions, highs), { minCellSize: 5 });
+
+    expect(comparison.questions.map(change => [change.question_id, change.significant])).toEqual([[1, true], [2, false]]);
+    expect(comparison.questions[0].adjusted_p_value).toBeLessThan(0.05);
+  });
+
+  it('hides changes between overlapping responses that differ by only a few people', () => {
+    const questions = [question(1, 'Eficiencia')];
+    const shared = respondAll(questions, [[2], [3], [4], [5], [6]]);
+    const fewMore = [...shared, ...respondAll(questions, [[10]])];
+    const enoughMore = [...shared, ...respondAll(questions, [[8], [9], [9], [10], [10]])];
+
+    // One extra response would be the whole difference between the two sides
+    const leaking = compareResponses(shared, fewMore, { minCellSize: 5 });
+    expect(leaking.overall).toBeNull();
+    expect(leaking.sections).toEqual([]);
+    expect(leaking.questions).toEqual([]);
+    expect(leaking.suppressedGroups).toBe(2);
+
+    expect(compareResponses(shared, enoughMore, { minCellSize: 5 }).overall).not.toBeNull();
+  });
+});
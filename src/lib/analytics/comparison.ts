@@ -0,0 +1,133 @@
+// Likert scores of two sets of responses side by side: two date ranges, two
+// survey waves, or the latest month against the previous one. Every change
+// comes with a Mann-Whitney test, so a shift of a few tenths on a handful of
+// answers is not read as a trend. A comparison runs one test per section and
+// per question, so their p-values are Holm-adjusted before any of them is
+// called significant. Date ranges may overlap, so a change is also left out
+// when the responses behind it differ by only a few people.
+
+import type { ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, isReportable, isReportableDifference } from '@/lib/anonymity';
+import { holmAdjust, mannWhitney, mean, summarize } from './statistics';
+import type { PeriodComparison, QuestionChange, ScoreChange, SectionChange } from './types';
+
+export interface ComparisonOptions {
+  // Wording to report questions with, by question id
+  questionText?: Map<number, string>;
+  minCellSize?: number;
+}
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// Scores by the id of the response they come from
+type Scores = Map<number, number>;
+
+interface PeriodScores {
+  respondents: Scores;
+  sections: Map<string, Scores>;
+  questions: Map<number, { section: string; question_text: string; scores: Scores }>;
+}
+
+function collect(responses: ResponseWithAnswers[], questionText?: Map<number, string>): PeriodScores {
+  const period: PeriodScores = { respondents: new Map(), sections: new Map(), questions: new Map() };
+
+  responses.forEach(response => {
+    const likert = response.answers.filter(answer => answer.question.question_type === 'likert' && answer.answer_numeric !== null);
+    if (likert.length === 0) return;
+    period.respondents.set(response.id, mean(likert.map(answer => answer.answer_numeric as number)));
+
+    const bySection = new Map<string, number[]>();
+    likert.forEach(answer => {
+      const { question } = answer;
+      const score = answer.answer_numeric as number;
+      if (!bySection.has(question.section)) bySection.set(question.section, []);
+      bySection.get(question.section)!.push(score);
+
+      if (!period.questions.has(question.id)) {
+        period.questions.set(question.id, {
+          section: question.section,
+          question_text: questionText?.get(question.id) ?? question.question_text,
+          scores: new Map()
+        });
+      }
+      period.questions.get(question.id)!.scores.set(response.id, score);
+    });
+
+    bySection.forEach((scores, section) => {
+      if (!period.sections.has(section)) period.sections.set(section, new Map());
+      period.sections.get(section)!.set(response.id, mean(scores));
+    });
+  });
+
+  return period;
+}
+
+function compareScores(beforeScores: Scores, afterScores: Scores, minCellSize: number): ScoreChange | null {
+  if (!isReportable(beforeScores.size, minCellSize) || !isReportable(afterScores.size, minCellSize)) return null;
+  if (!isReportableDifference(beforeScores.keys(), afterScores.keys(), minCellSize)) return null;
+  const before = Array.from(beforeScores.values());
+  const after = Array.from(afterScores.values());
+  const test = mannWhitney(before, after);
+  if (!test) return null;
+
+  const beforeSummary = summarize(before);
+  const afterSummary = summarize(after);
+  return {
+    before: beforeSummary,
+    after: afterSummary,
+    delta: Math.round((afterSummary.mean - beforeSummary.mean) * 100) / 100,
+    p_value: test.p_value,
+    effect_size: test.effect_size,
+    adjusted_p_value: test.p_value,
+    significant: test.p_value < SIGNIFICANCE_LEVEL
+  };
+}
+
+// Changes with their p-values adjusted for the other tests in the same comparison
+function withAdjustedPValues<T extends ScoreChange>(changes: T[], adjusted: number[]): T[] {
+  return changes.map((change, index) => ({
+    ...change,
+    adjusted_p_value: adjusted[index],
+    significant: adjusted[index] < SIGNIFICANCE_LEVEL
+  }));
+}
+
+export function compareResponses(
+  before: ResponseWithAnswers[],
+  after: ResponseWithAnswers[],
+  options: ComparisonOptions = {}
+): PeriodComparison {
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  const first = collect(before, options.questionText);
+  const second = collect(after, options.questionText);
+  let suppressedGroups = 0;
+
+  // Sections and questions in the order they first appear, in either period
+  const sectionNames = Array.from(new Set([...first.sections.keys(), ...second.sections.keys()]));
+  const sections: SectionChange[] = [];
+  sectionNames.forEach(section => {
+    const change = compareScores(first.sections.get(section) ?? new Map(), second.sections.get(section) ?? new Map(), minCellSize);
+    if (change) sections.push({ section, ...change });
+    else suppressedGroups++;
+  });
+
+  const questionIds = Array.from(new Set([...first.questions.keys(), ...second.questions.keys()]));
+  const questions: QuestionChange[] = [];
+  questionIds.forEach(questionId => {
+    const question = second.questions.get(questionId) ?? first.questions.get(questionId)!;
+    const change = compareScores(first.questions.get(questionId)?.scores ?? new Map(), second.questions.get(questionId)?.scores ?? new Map(), minCellSize);
+    if (change) questions.push({ question_id: questionId, section: question.section, question_text: question.question_text, ...change });
+    else suppressedGroups++;
+  });
+
+  const adjusted = holmAdjust([...sections, ...questions].map(change => change.p_value));
+
+  return {
+    before_responses: before.length,
+    after_responses: after.length,
+    overall: compareScores(first.respondents, second.respondents, minCellSize),
+    sections: withAdjustedPValues(sections, adjusted.slice(0, sections.length)),
+    questions: withAdjustedPValues(questions, adjusted.slice(sections.length)),
+    suppressedGroups
+  };
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalyticsAnswer, ResponseWithAnswers } from '@/lib/database-adapter';
+import { computeDetailedAnalytics, emptyDetailedAnalytics } from './engine';
+
+type Question = AnalyticsAnswer['question'];
+
+const question = (id: number, section: string, overrides: Partial<Question> = {}): Question => ({
+  id,
+  section,
+  question_text: `Pregunta ${id}`,
+  question_type: 'likert',
+  analysis_tags: null,
+  options: null,
+  validation_rules: null,
+  ...overrides
+});
+
+let nextId = 1;
+
+function respond(role: string, completedAt: string, answers: [Question, string][], seconds: number | null = 300): ResponseWithAnswers {
+  const id = nextId++;
+  return {
+    id,
+    survey_id: role === 'manager' ? 1 : 2,
+    survey_version: 1,
+    user_id: id,
+    is_anonymous: false,
+    target_role: role,
+    department: null,
+    completed_at: completedAt,
+    response_time_seconds: seconds,
+    answers: answers.map(([question, value]) => ({
+      id: nextId++,
+      question_id: question.id,
+      answer_value: value,
+      answer_numeric: question.question_type === 'likert' || question.question_type === 'nps' ? Number(value) : null,
+      confidence_score: null,
+      sentiment_score: null,
+      question
+    }))
+  };
+}
+
+// One response per score, each answering every question given its score
+function respondAll(role: string, completedAt: string, questions: Question[], scores: number[][]): ResponseWithAnswers[] {
+  return scores.map(row => respond(role, completedAt, questions.map((q, index) => [q, String(row[index])])));
+}
+
+const MARCH = '2024-03-12T10:00:00Z';
+
+describe('computeDetailedAnalytics', () => {
+  it('reports no data without responses', () => {
+    expect(computeDetailedAnalytics([])).toEqual(emptyDetailedAnalytics('Sin datos'));
+    expect(computeDetailedAnalytics([respond('sales', MARCH, [])])).toEqual(emptyDetailedAnalytics('Sin datos'));
+  });
+
+  it('reports nothing below the minimum number of responses', () => {
+    const responses = respondAll('sales', MARCH, [question(1, 'Eficiencia')], [[5], [6], [7], [8]]);
+    expect(computeDetailedAnalytics(responses, { minCellSize: 5 })).toEqual(emptyDetailedAnalytics('Datos insuficientes'));
+  });
+
+  it('averages each section over its respondents, lowest first', () => {
+    const usefulness = question(1, 'Eficiencia', { analysis_tags: 'effectiveness' });
+    const visibility = question(2, 'Visibilidad', { analysis_tags: 'revenue_impact' });
+    const responses = respondAll('manager', MARCH, [usefulness, visibility], [[2, 9], [4, 9], [6, 8], [8, 8], [10, 9]]);
+
+    const { sectionPerformance, excellenceAreas } = computeDetailedAnalytics(responses, { minCellSize: 5 });
+
+    expect(sectionPerformance.map(section => section.section)).toEqual(['Eficiencia', 'Visibilidad']);
+    expect(sectionPerformance[0]).toMatchObject({
+      avg_score: 6,
+      median_score: 6,
+      response_count: 5,
+      problem_indicators: 1,
+      critical_issues: 1,
+      business_impact: 0
+    });
+    expect(sectionPerformance[1]).toMatchObject({ avg_score: 8.6, problem_indicators: 0, business_impact: 8.6 });
+    expect(excellenceAreas.map(section => section.section)).toEqual(['Visibilidad']);
+  });
+
+  it('weighs every respondent the same in a section, however many questions they answered', () => {
+    const first = question(1, 'Eficiencia');
+    const second = question(2, 'Eficiencia');
+    const responses = [
+      ...respondAll('sales', MARCH, [first, second], [[2, 2], [2, 2]]),
+      ...respondAll('sales', MARCH, [first], [[8], [8], [8]])
+    ];
+
+    const [section] = computeDetailedAnalytics(responses, { minCellSize: 5 }).sectionPerformance;
+
+    expect(section.avg_score).toBe(5.6);
+    expect(section.response_count).toBe(5);
+  });
+
+  it('summarises each team', () => {
+    const usefulness = question(1, 'Eficiencia', { analysis_tags: 'effectiveness' });
+    const visibility = question(2, 'Visibilidad');
+    const responses = [
+      ...respondAll('manager', MARCH, [usefulness, visibility], [[2, 9], [4, 9], [6, 8], [8, 8], [10, 9]]),
+      respond('sales', MARCH, [[usefulness, '7']], 200),
+      respond('sales', MARCH, [[usefulness, '8']], 250),
+      respond('sales', MARCH, [[usefulness, '9']], null),
+      respond('sales', MARCH, [[usefulness, '6']], 301),
+      respond('sales', MARCH, [[usefulness, '5']], 400)
+    ];
+
+    const { teamAnalysis } = computeDetailedAnalytics(responses, { minCellSize: 5 });
+    const byTeam = Object.fromEntries(teamAnalysis.map(team => [team.team, team]));
+
+    expect(byTeam.manager).toMatchObject({
+      performance_score: 7.3,
+      pain_points: 1,
+      strengths: 7,
+      sample_size: 5,
+      avg_completion_time: 300,
+      critical_pain_points: 1
+    });
+    // Completion time is averaged over the responses that recorded one
+    expect(byTeam.sales).toMatchObject({ performance_score: 7, pain_points: 0, strengths: 2, avg_completion_time: 288 });
+  });
+
+  it('groups responses by month, merging months that are too quiet to show', () => {
+    const score = question(1, 'Eficiencia');
+    const other = question(2, 'Visibilidad');
+    const responses = [
+      ...respondAll('sales', '2024-01-10T10:00:00Z', [score], [[2], [3], [4]]),
+      ...respondAll('sales', '2024-02-10T10:00:00Z', [score], [[5], [6], [7]]),
+      ...respondAll('sales', '2024-03-10T10:00:00Z', [score, other], [[8, 10], [8, 8], [9, 9], [9, 9], [10, 10]])
+    ];
+
+    const { performanceTrends, suppressedGroups, recentChange } = computeDetailedAnalytics(responses, { minCellSize: 5 });
+
+    // Performance is the mean over respondents, each one the mean of their scores
+    expect(performanceTrends.map(month => [month.month, month.avg_performance, month.response_count, month.issues_reported])).toEqual([
+      ['2024-01 – 2024-02', 4.5, 6, 2],
+      ['2024-03', 9, 5, 0]
+    ]);
+    expect(suppressedGroups).toBe(0);
+    // The latest month is compared with the merged period before it
+    expect(recentChange).toMatchObject({ before_responses: 6, after_responses: 5 });
+  });
+
+  it('leaves out sections, teams, questions and issues below the minimum cell size', () => {
+    const managers = question(1, 'Estrategia', { analysis_tags: 'revenue_impact' });
+    const sales = question(2, 'Ventas', { analysis_tags: 'revenue_impact' });
+    const responses = [
+      ...respondAll('manager', MARCH, [managers], [[7], [7], [8], [8], [9]]),
+      ...respondAll('sales', MARCH, [sales], [[1], [2], [6]])
+    ];
+
+    const analytics = computeDetailedAnalytics(responses, { minCellSize: 5 });
+
+    expect(analytics.sectionPerformance.map(section => section.section)).toEqual(['Estrategia']);
+    expect(analytics.teamAnalysis.map(team => team.team)).toEqual(['manager']);
+    expect(analytics.questionDistributions.map(distribution => distribution.question_id)).toEqual([1]);
+    expect(analytics.processIssues).toEqual([]);
+    expect(analytics.suppressedGroups).toBe(2);
+    // The month holds everyone, so it is shown
+    expect(analytics.performanceTrends).toHaveLength(1);
+  });
+
+  it('reads business metrics and issues from tags, wording and answer types', () => {
+    const support = question(1, 'Soporte', { question_text: '¿Recibe apoyo suficiente del sistema?', analysis_tags: 'revenue_impact' });
+    const productivity = question(2, 'Productividad', { analysis_tags: 'information_accessibility,productivity' });
+    const tools = question(3, 'Herramientas', { question_type: 'multiple_choice', analysis_tags: 'tool_count' });
+    const time = question(4, 'Tiempo', { question_type: 'percentage', analysis_tags: 'time_allocation' });
+    const toolAnswers = ['1-2', '1-2', '3-4', '9+', '5-6'];
+    const supportScores = [1, 2, 3, 9, 10];
+    const responses = [6, 7, 8, 9, 10].map((score, index) => respond('sales', MARCH, [
+      [support, String(supportScores[index])],
+      [productivity, String(score)],
+      [tools, toolAnswers[index]],
+      [time, '{"Venta":60,"Admin":40}']
+    ]));
+
+    const { businessMetrics, processIssues, criticalIssues, teamAnalysis } = computeDetailedAnalytics(responses, { minCellSize: 5 });
+
+    expect(businessMetrics.systemEfficiency.workflowEffectiveness).toBe(5);
+    expect(businessMetrics.teamPerformance.salesProductivity).toBe(8);
+    expect(businessMetrics.operationalEfficiency.workflowEfficiency).toBe(8);
+    expect(businessMetrics.operationalEfficiency.systemComplexity).toBeCloseTo(6.2);
+    expect(businessMetrics.operationalEfficiency.adminTimeRatio).toBe(6);
+    expect(businessMetrics.systemEfficiency.taskCompletion).toBe(7);
+    expect(teamAnalysis[0]).toMatchObject({ critical_pain_points: 3, workflow_efficiency: 8 });
+
+    expect(processIssues.map(issue => [issue.question_id, issue.severity_score, issue.issue_category])).toEqual([
+      [1, 1, 'REVENUE_CRITICAL'],
+      [1, 2, 'REVENUE_CRITICAL']
+    ]);
+    expect(criticalIssues).toHaveLength(2);
+  });
+
+  it('uses the wording of the version being analysed', () => {
+    const score = question(1, 'Eficiencia', { question_text: 'Texto actual' });
+    const responses = respondAll('sales', MARCH, [score], [[1], [5], [6], [7], [8]]);
+
+    const analytics = computeDetailedAnalytics(responses, { minCellSize: 5, questionText: new Map([[1, 'Texto publicado']]) });
+
+    expect(analytics.processIssues[0].question_text).toBe('Texto publicado');
+    expect(analytics.questionDistributions[0]).toMatchObject({ question_text: 'Texto publicado', n: 5, mean: 5.4 });
+    expect(analytics.questionDistributions[0].counts).toEqual([1, 0, 0, 0, 1, 1, 1, 1, 0, 0]);
+  });
+
+  it('bins each distribution over its own scale', () => {
+    const fivePoint = question(1, 'Eficiencia', { validation_rules: '{"min":1,"max":5}' });
+    const fromZero = question(2, 'Eficiencia', { validation_rules: '{"min":0,"max":4,"step":2}' });
+    const responses = respondAll('sales', MARCH, [fivePoint, fromZero], [[1, 0], [2, 2], [5, 4], [5, 4], [4, 2]]);
+
+    const [first, second] = computeDetailedAnalytics(responses, { minCellSize: 5 }).questionDistributions;
+
+    expect(first).toMatchObject({ min: 1, counts: [1, 1, 0, 1, 2] });
+    expect(second).toMatchObject({ min: 0, counts: [1, 0, 2, 0, 2] });
+  });
+
+  it('leaves NPS answers out of the section scores', () => {
+    const recommend = question(1, 'Recomendación', { question_type: 'nps' });
+    const responses = respondAll('sales', MARCH, [recommend], [[0], [10], [9], [10], [3]]);
+
+    const analytics = computeDetailedAnalytics(responses, { minCellSize: 5 });
+
+    expect(analytics.sectionPerformance).toEqual([]);
+    expect(analytics.processIssues).toEqual([]);
+    expect(analytics.npsAnalysis.nps.overall).toMatchObject({ respondents: 5, promoters: 3, detractors: 2, nps: 20 });
+  });
+});
@@ -0,0 +1,513 @@
+// Detailed analytics over completed responses. Pure: the caller loads the
+// responses, so the same numbers can back the dashboard, exports and reports.
+
+import type { AnalyticsAnswer, ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, isReportable, mergeSmallCells, suppressSmallCells } from '@/lib/anonymity';
+import { parseQuestionOptions, parseValidationRules } from '@/lib/answer-validation';
+import {
+  CRITICAL_SCORE,
+  EXCELLENT_SCORE,
+  LOW_SCORE,
+  METRIC_TAGS,
+  METRIC_WORDING,
+  hasAnyTag,
+  issueCategory,
+  salesTimeEfficiency,
+  toolCountSimplicity
+} from './heuristics';
+import { compareResponses } from './comparison';
+import { extractTextThemes, type TextDocument } from './topics';
+import { computeNps, emptyNpsAnalysis } from './nps';
+import { aggregateRankings, parseRanking } from './ranking';
+import { sentimentLabel } from './sentiment';
+import { histogram, mean, summarize } from './statistics';
+import type {
+  BusinessMetrics,
+  DetailedAnalytics,
+  MonthlyStat,
+  PeriodComparison,
+  ProcessIssue,
+  QuestionDistribution,
+  RankingSummary,
+  ScoreSpread,
+  SectionStat,
+  TeamStat,
+  TrendDirection
+} from './types';
+
+export interface AnalyticsOptions {
+  // Wording of the survey version being analysed, by question id
+  questionText?: Map<number, string>;
+  minCellSize?: number;
+}
+
+interface SectionTotals {
+  section: string;
+  count: number;
+  // Scores of each respondent, so everyone weighs the same however many questions they answered
+  scores: Map<number, number[]>;
+  low_scores: number;
+  high_scores: number;
+  critical_issues: number;
+  business_impact_score: number;
+  sentiment_total: number;
+  sentiment_count: number;
+}
+
+interface TeamTotals {
+  team: string;
+  responses: number;
+  scores: Map<number, number[]>;
+  completion_times: number[];
+  low_scores: number;
+  high_scores: number;
+  critical_pain_points: number;
+  workflow_efficiency: number;
+  collaboration_score: number;
+  sentiment_total: number;
+  sentiment_count: number;
+}
+
+interface MonthlyTotals {
+  month: string;
+  responses: number;
+  // The responses themselves, to compare the latest month with the previous one
+  members: ResponseWithAnswers[];
+  scores: Map<number, number[]>;
+  completion_times: number[];
+  issues: number;
+  business_impact: number;
+  sentiment_total: number;
+  sentiment_count: number;
+}
+
+// Running sum and count of one business metric
+class Average {
+  private total = 0;
+  private count = 0;
+
+  add(value: number) {
+    this.total += value;
+    this.count++;
+  }
+
+  get hasValues() {
+    return this.count > 0;
+  }
+
+  get value() {
+    return this.count > 0 ? this.total / this.count : 0;
+  }
+}
+
+export function emptyBusinessMetrics(): BusinessMetrics {
+  return {
+    systemEfficiency: { workflowEffectiveness: 0, processOptimization: 0, taskCompletion: 0 },
+    operationalEfficiency: { adminTimeRatio: 0, systemComplexity: 0, workflowEfficiency: 0 },
+    teamPerformance: { managerEffectiveness: 0, salesProductivity: 0, collaborationQuality: 0 }
+  };
+}
+
+export function emptyDetailedAnalytics(trendDirection: TrendDirection): DetailedAnalytics {
+  return {
+    sectionPerformance: [],
+    teamAnalysis: [],
+    performanceTrends: [],
+    processIssues: [],
+    criticalIssues: [],
+    excellenceAreas: [],
+    trendDirection,
+    businessMetrics: emptyBusinessMetrics(),
+    textThemes: { analyzed_answers: 0, themes: [], top_terms: [] },
+    questionDistributions: [],
+    npsAnalysis: emptyNpsAnalysis(),
+    rankingAnalysis: [],
+    recentChange: null,
+    suppressedGroups: 0
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function addScore(scores: Map<number, number[]>, responseId: number, score: number) {
+  getOrCreate(scores, responseId, () => []).push(score);
+}
+
+// Median, spread and interval over respondents, each one the mean of their scores
+function scoreSpread(scores: Map<number, number[]>): { avg: number } & ScoreSpread {
+  const summary = summarize(Array.from(scores.values()).map(mean));
+  return {
+    avg: summary.mean,
+    median_score: summary.median,
+    std_dev: summary.std_dev,
+    ci_low: summary.ci_low,
+    ci_high: summary.ci_high
+  };
+}
+
+function meanSentiment(stat: { sentiment_total: number; sentiment_count: number }): number | null {
+  return stat.sentiment_count > 0 ? Math.round((stat.sentiment_total / stat.sentiment_count) * 100) / 100 : null;
+}
+
+// Months are YYYY-MM; a merged period is labelled with its first and last month
+function mergeMonths(a: MonthlyTotals, b: MonthlyTotals): MonthlyTotals {
+  return {
+    month: `${a.month.slice(0, 7)} – ${b.month.slice(-7)}`,
+    responses: a.responses + b.responses,
+    members: [...a.members, ...b.members],
+    scores: new Map([...a.scores, ...b.scores]),
+    completion_times: [...a.completion_times, ...b.completion_times],
+    issues: a.issues + b.issues,
+    business_impact: a.business_impact + b.business_impact,
+    sentiment_total: a.sentiment_total + b.sentiment_total,
+    sentiment_count: a.sentiment_count + b.sentiment_count
+  };
+}
+
+function getOrCreate<K, V>(map: Map<K, V>, key: K, create: () => V): V {
+  if (!map.has(key)) map.set(key, create());
+  return map.get(key)!;
+}
+
+// Only a significant change in the respondents' scores counts as a trend
+function trendOf(change: PeriodComparison | null): TrendDirection {
+  if (!change?.overall?.significant) return 'Estable';
+  return change.overall.delta > 0 ? 'Mejorando' : 'Declinando';
+}
+
+export function computeDetailedAnalytics(responses: ResponseWithAnswers[], options: AnalyticsOptions = {}): DetailedAnalytics {
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  const withAnswers = responses.filter(response => response.answers.length > 0);
+
+  // Too few responses to break down without exposing individuals
+  if (!isReportable(withAnswers.length, minCellSize)) {
+    return emptyDetailedAnalytics(withAnswers.length === 0 ? 'Sin datos' : 'Datos insuficientes');
+  }
+
+  const sectionTotals = new Map<string, SectionTotals>();
+  const teamTotals = new Map<string, TeamTotals>();
+  const monthlyTotals = new Map<string, MonthlyTotals>();
+  const questionResponseCounts = new Map<number, number>();
+  const processIssues: ProcessIssue[] = [];
+  const textDocuments: TextDocument[] = [];
+  const likertScores = new Map<number, { section: string; question_text: string; min: number; max: number; scores: number[] }>();
+  const rankingAnswers = new Map<number, { section: string; question_text: string; options: string[]; rankings: Record<string, number>[] }>();
+
+  const metrics = {
+    workflowEffectiveness: new Average(),
+    processOptimization: new Average(),
+    adminTimeRatio: new Average(),
+    systemComplexity: new Average(),
+    managerEffectiveness: new Average(),
+    salesProductivity: new Average(),
+    collaborationQuality: new Average(),
+    admissionProcess: new Average()
+  };
+
+  const analyseAnswer = (answer: AnalyticsAnswer, responseId: number, team: TeamTotals, month: MonthlyTotals) => {
+    const { question } = answer;
+    // NPS answers are a 0-10 likelihood to recommend, reported on their own by computeNps
+    const score = question.question_type === 'nps' ? null : answer.answer_numeric;
+    const textAnswer = answer.answer_value;
+    const tags = (question.analysis_tags || '').toLowerCase();
+    const questionText = options.questionText?.get(question.id) ?? question.question_text;
+    const wording = questionText.toLowerCase();
+
+    questionResponseCounts.set(question.id, (questionResponseCounts.get(question.id) || 0) + 1);
+
+    const section = getOrCreate(sectionTotals, question.section, () => ({
+      section: question.section,
+      count: 0,
+      scores: new Map<number, number[]>(),
+      low_scores: 0,
+      high_scores: 0,
+      critical_issues: 0,
+      business_impact_score: 0,
+      sentiment_total: 0,
+      sentiment_count: 0
+    }));
+
+    if (score !== null) {
+      section.count++;
+      addScore(section.scores, responseId, score);
+      addScore(team.scores, responseId, score);
+      addScore(month.scores, responseId, score);
+
+      // Business metrics only read 1-10 Likert answers
+      if (question.question_type === 'likert') {
+        getOrCreate(likertScores, question.id, () => {
+          const rules = parseValidationRules(question);
+          return { section: question.section, question_text: questionText, min: rules.min ?? 1, max: rules.max ?? 10, scores: [] };
+        }).scores.push(score);
+        if (hasAnyTag(tags, METRIC_TAGS.workflowEffectiveness) || hasAnyTag(wording, METRIC_WORDING.workflowEffectiveness)) {
+          metrics.workflowEffectiveness.add(score);
+          if (score <= LOW_SCORE) {
+            section.critical_issues++;
+            team.critical_pain_points++;
+          }
+        }
+        if (hasAnyTag(tags, METRIC_TAGS.processOptimization)) {
+          metrics.processOptimization.add(score);
+        }
+        if (hasAnyTag(tags, METRIC_TAGS.managerEffectiveness) || hasAnyTag(wording, METRIC_WORDING.managerEffectiveness)) {
+          metrics.managerEffectiveness.add(score);
+        }
+        if (hasAnyTag(tags, METRIC_TAGS.salesProductivity)) {
+          metrics.salesProductivity.add(score);
+          team.workflow_efficiency += score;
+        }
+        if (hasAnyTag(tags, METRIC_TAGS.collaborationQuality)) {
+          metrics.collaborationQuality.add(score);
+          team.collaboration_score += score;
+        }
+      }
+
+      if (hasAnyTag(tags, METRIC_TAGS.admissionProcess)) {
+        metrics.admissionProcess.add(score);
+      }
+
+      if (score <= LOW_SCORE) {
+        section.low_scores++;
+        team.low_scores++;
+        month.issues++;
+
+        if (score <= CRITICAL_SCORE) {
+          processIssues.push({
+            question_id: question.id,
+            section: question.section,
+            question_text: questionText,
+            severity_score: score,
+            frequency: 1,
+            issue_category: issueCategory(tags)
+          });
+        }
+      } else if (score >= EXCELLENT_SCORE) {
+        section.high_scores++;
+        team.high_scores++;
+      }
+
+      if (hasAnyTag(tags, METRIC_TAGS.businessImpact)) {
+        section.business_impact_score += score;
+        month.business_impact += score;
+      }
+    }
+
+    if (question.question_type === 'percentage' && textAnswer && hasAnyTag(tags, ['time_allocation', 'admin_burden'])) {
+      const efficiency = salesTimeEfficiency(textAnswer);
+      if (efficiency !== null) metrics.adminTimeRatio.add(efficiency);
+    }
+
+    if (question.question_type === 'multiple_choice' && textAnswer && hasAnyTag(tags, ['tool_count', 'system_complexity'])) {
+      metrics.systemComplexity.add(toolCountSimplicity(textAnswer));
+    }
+
+    const ranking = question.question_type === 'ranking' && textAnswer ? parseRanking(textAnswer) : {};
+    if (Object.keys(ranking).length > 0) {
+      getOrCreate(rankingAnswers, question.id, () => ({
+        section: question.section,
+        question_text: questionText,
+        options: parseQuestionOptions(question),
+        rankings: []
+      })).rankings.push(ranking);
+    }
+
+    if (question.question_type === 'text' && textAnswer?.trim()) {
+      textDocuments.push({ questionId: question.id, section: question.section, text: textAnswer, sentiment: answer.sentiment_score });
+    }
+
+    if (answer.sentiment_score !== null) {
+      [section, team, month].forEach(totals => {
+        totals.sentiment_total += answer.sentiment_score!;
+        totals.sentiment_count++;
+      });
+    }
+  };
+
+  for (const response of withAnswers) {
+    const team = getOrCreate(teamTotals, response.target_role, () => ({
+      team: response.target_role,
+      responses: 0,
+      scores: new Map<number, number[]>(),
+      completion_times: [],
+      low_scores: 0,
+      high_scores: 0,
+      critical_pain_points: 0,
+      workflow_efficiency: 0,
+      collaboration_score: 0,
+      sentiment_total: 0,
+      sentiment_count: 0
+    }));
+    const monthKey = new Date(response.completed_at).toISOString().slice(0, 7);
+    const month = getOrCreate(monthlyTotals, monthKey, () => ({
+      month: monthKey,
+      responses: 0,
+      members: [],
+      scores: new Map<number, number[]>(),
+      completion_times: [],
+      issues: 0,
+      business_impact: 0,
+      sentiment_total: 0,
+      sentiment_count: 0
+    }));
+
+    team.responses++;
+    month.responses++;
+    month.members.push(response);
+    if (response.response_time_seconds) {
+      team.completion_times.push(response.response_time_seconds);
+      month.completion_times.push(response.response_time_seconds);
+    }
+
+    response.answers.forEach(answer => analyseAnswer(answer, response.id, team, month));
+  }
+
+  // A theme raised by enough people is a recurring complaint, unless its answers
+  // read as positive, and is reported against the question most of them came from
+  const textThemes = extractTextThemes(textDocuments, { minCellSize });
+  textThemes.themes
+    .filter(theme => isReportable(theme.answer_count, minCellSize))
+    .filter(theme => theme.avg_sentiment === null || sentimentLabel(theme.avg_sentiment) !== 'Positivo')
+    .forEach(theme => {
+      processIssues.push({
+        question_id: theme.question_ids[0],
+        section: theme.sections[0],
+        question_text: `Tema recurrente en comentarios: ${theme.label}`,
+        severity_score: 1,
+        frequency: theme.answer_count,
+        issue_category: 'TEXT_CRITICAL'
+      });
+    });
+
+  // Questions answered by too few people are left out rather than shown as a shape
+  const questionDistributions: QuestionDistribution[] = Array.from(likertScores.entries())
+    .filter(([, question]) => isReportable(question.scores.length, minCellSize))
+    .map(([questionId, question]) => ({
+      question_id: questionId,
+      section: question.section,
+      question_text: question.question_text,
+      min: question.min,
+      counts: histogram(question.scores, question.min, question.max),
+      ...summarize(question.scores)
+    }));
+
+  const rankingAnalysis: RankingSummary[] = Array.from(rankingAnswers.entries())
+    .filter(([, question]) => isReportable(question.rankings.length, minCellSize))
+    .map(([questionId, question]) => ({
+      question_id: questionId,
+      section: question.section,
+      question_text: question.question_text,
+      ...aggregateRankings(question.options, question.rankings)
+    }));
+
+  const businessMetrics = emptyBusinessMetrics();
+  businessMetrics.systemEfficiency.workflowEffectiveness = metrics.admissionProcess.hasValues
+    ? metrics.admissionProcess.value
+    : metrics.workflowEffectiveness.value;
+  businessMetrics.systemEfficiency.processOptimization = metrics.processOptimization.value;
+  businessMetrics.operationalEfficiency.adminTimeRatio = metrics.adminTimeRatio.value;
+  businessMetrics.operationalEfficiency.systemComplexity = metrics.systemComplexity.value;
+  businessMetrics.operationalEfficiency.workflowEfficiency = metrics.salesProductivity.value;
+  businessMetrics.teamPerformance.managerEffectiveness = metrics.managerEffectiveness.value;
+  businessMetrics.teamPerformance.salesProductivity = metrics.salesProductivity.value;
+  businessMetrics.teamPerformance.collaborationQuality = metrics.collaborationQuality.value;
+
+  // Task completion summarises the workflow and team metrics that have data
+  const completionInputs = [
+    metrics.workflowEffectiveness.value,
+    businessMetrics.operationalEfficiency.workflowEfficiency,
+    businessMetrics.teamPerformance.managerEffectiveness,
+    businessMetrics.teamPerformance.salesProductivity
+  ].filter(score => score > 0);
+  if (completionInputs.length > 0) {
+    businessMetrics.systemEfficiency.taskCompletion = completionInputs.reduce((sum, score) => sum + score, 0) / completionInputs.length;
+  }
+
+  // Leave out groups too small to report on
+  const sections = suppressSmallCells(Array.from(sectionTotals.values()), stat => stat.scores.size, minCellSize);
+  const teams = suppressSmallCells(Array.from(teamTotals.values()), stat => stat.responses, minCellSize);
+  // Quiet months are reported together with the following one instead of being dropped
+  const months = mergeSmallCells(
+    Array.from(monthlyTotals.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    stat => stat.responses,
+    mergeMonths,
+    minCellSize
+  );
+
+  const sectionPerformance: SectionStat[] = sections.cells.map(stat => {
+    const { avg, ...spread } = scoreSpread(stat.scores);
+    return {
+      section: stat.section,
+      avg_score: round1(avg),
+      response_count: stat.scores.size,
+      problem_indicators: stat.low_scores,
+      ...spread,
+      business_impact: round1(stat.business_impact_score / Math.max(stat.count, 1)),
+      critical_issues: stat.critical_issues,
+      avg_sentiment: meanSentiment(stat)
+    };
+  }).sort((a, b) => a.avg_score - b.avg_score);
+
+  const teamAnalysis: TeamStat[] = teams.cells.map(stat => {
+    const { avg, ...spread } = scoreSpread(stat.scores);
+    return {
+      team: stat.team,
+      performance_score: round1(avg),
+      ...spread,
+      pain_points: stat.low_scores,
+      strengths: stat.high_scores,
+      sample_size: stat.responses,
+      avg_completion_time: average(stat.completion_times),
+      critical_pain_points: stat.critical_pain_points,
+      workflow_efficiency: stat.workflow_efficiency / Math.max(stat.responses, 1),
+      collaboration_quality: stat.collaboration_score / Math.max(stat.responses, 1),
+      avg_sentiment: meanSentiment(stat)
+    };
+  });
+
+  const performanceTrends: MonthlyStat[] = months.cells.map(stat => ({
+    month: stat.month,
+    avg_performance: stat.scores.size > 0 ? round1(scoreSpread(stat.scores).avg) : 0,
+    response_count: stat.responses,
+    issues_reported: stat.issues,
+    avg_completion_time: average(stat.completion_times),
+    business_impact: stat.business_impact / Math.max(stat.responses, 1),
+    avg_sentiment: meanSentiment(stat)
+  }));
+
+  const recentChange = months.cells.length >= 2
+    ? compareResponses(months.cells[months.cells.length - 2].members, months.cells[months.cells.length - 1].members, {
+      questionText: options.questionText,
+      minCellSize
+    })
+    : null;
+
+  // Issues point at a question, so they need enough people answering it, text answers included
+  const reportableIssues = processIssues.filter(issue =>
+    isReportable(questionResponseCounts.get(issue.question_id) || 0, minCellSize)
+  );
+
+  return {
+    sectionPerformance,
+    teamAnalysis,
+    performanceTrends,
+    processIssues: reportableIssues.slice(0, 10),
+    criticalIssues: reportableIssues
+      .filter(issue => issue.severity_score <= CRITICAL_SCORE || issue.issue_category.includes('CRITICAL'))
+      .slice(0, 5),
+    excellenceAreas: sectionPerformance.filter(section => section.avg_score >= EXCELLENT_SCORE),
+    trendDirection: trendOf(recentChange),
+    businessMetrics,
+    textThemes,
+    questionDistributions,
+    npsAnalysis: computeNps(withAnswers, { minCellSize }),
+    rankingAnalysis,
+    recentChange,
+    suppressedGroups: sections.suppressed + teams.suppressed + months.suppressed
+  };
+}
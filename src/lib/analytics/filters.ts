@@ -0,0 +1,134 @@
+// Dashboard filters as query parameters. Shared by the API, which validates
+// them, and the dashboard, which keeps them in its URL so views can be shared.
+//
+//   from, to     completion dates (YYYY-MM-DD, both inclusive)
+//   surveyId     one survey; version narrows it to one published version
+//   role         the role the survey targets (manager or sales)
+//   department   respondents' department
+//   sections     repeated once per section to include
+//
+// A comparison takes the same filters for both sides, plus the period or wave
+// of each one, prefixed: before.from, before.to, before.version, and the same
+// with after.
+
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import type { ParseResult } from '@/lib/survey-authoring';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ROLES = ['manager', 'sales'];
+const PERIOD_KEYS = ['from', 'to', 'version'];
+
+export const COMPARISON_SIDES = ['before', 'after'] as const;
+export type ComparisonSide = (typeof COMPARISON_SIDES)[number];
+export type ComparisonFilter = Record<ComparisonSide, AnalyticsFilter>;
+
+function isValidDate(value: string) {
+  return DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+function parseId(value: string | null) {
+  return value !== null && /^\d+$/.test(value) ? parseInt(value) : NaN;
+}
+
+export function parseAnalyticsFilter(params: URLSearchParams): ParseResult<AnalyticsFilter> {
+  const filter: AnalyticsFilter = {};
+  const errors: string[] = [];
+
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from !== null) {
+    if (isValidDate(from)) filter.from = from;
+    else errors.push('from must be a date (YYYY-MM-DD)');
+  }
+  if (to !== null) {
+    if (isValidDate(to)) filter.to = to;
+    else errors.push('to must be a date (YYYY-MM-DD)');
+  }
+  if (filter.from && filter.to && filter.from > filter.to) {
+    errors.push('from must not be after to');
+  }
+
+  if (params.has('surveyId')) {
+    const surveyId = parseId(params.get('surveyId'));
+    if (isNaN(surveyId)) errors.push('surveyId must be a number');
+    else filter.surveyId = surveyId;
+  }
+  if (params.has('version')) {
+    const version = parseId(params.get('version'));
+    if (isNaN(version)) errors.push('version must be a number');
+    else if (!params.has('surveyId')) errors.push('version needs a surveyId');
+    else filter.version = version;
+  }
+
+  const role = params.get('role');
+  if (role !== null) {
+    if (ROLES.includes(role)) filter.role = role;
+    else errors.push(`role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  const department = params.get('department');
+  if (department) filter.department = department;
+
+  const sections = params.getAll('sections').filter(Boolean);
+  if (sections.length > 0) filter.sections = sections;
+
+  return { data: filter, errors };
+}
+
+export function toSearchParams(filter: AnalyticsFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.surveyId !== undefined) params.set('surveyId', String(filter.surveyId));
+  if (filter.version !== undefined) params.set('version', String(filter.version));
+  if (filter.role) params.set('role', filter.role);
+  if (filter.department) params.set('department', filter.department);
+  filter.sections?.forEach(section => params.append('sections', section));
+  return params;
+}
+
+export function parseComparisonFilter(params: URLSearchParams): ParseResult<ComparisonFilter> {
+  const shared = new URLSearchParams();
+  params.forEach((value, key) => {
+    if (!PERIOD_KEYS.includes(key) && !key.includes('.')) shared.append(key, value);
+  });
+  const { data: sharedFilter, errors } = parseAnalyticsFilter(shared);
+
+  const sides = {} as ComparisonFilter;
+  COMPARISON_SIDES.forEach(side => {
+    const period = new URLSearchParams();
+    PERIOD_KEYS.forEach(key => {
+      const value = params.get(`${side}.${key}`);
+      if (value !== null) period.set(key, value);
+    });
+    if (!PERIOD_KEYS.some(key => period.has(key))) {
+      errors.push(`${side} needs a from, to or version`);
+    } else if (params.has('surveyId')) {
+      period.set('surveyId', params.get('surveyId')!);
+    }
+    const { data, errors: periodErrors } = parseAnalyticsFilter(period);
+    periodErrors.filter(error => !error.startsWith('surveyId')).forEach(error => errors.push(`${side}.${error}`));
+    sides[side] = { ...sharedFilter, from: data.from, to: data.to, version: data.version };
+  });
+
+  return { data: sides, errors };
+}
+
+export function toComparisonSearchParams(filter: ComparisonFilter): URLSearchParams {
+  const { from, to, version, ...shared } = filter.before;
+  const params = toSearchParams(shared);
+  COMPARISON_SIDES.forEach(side => {
+    const period = filter[side];
+    if (period.from) params.set(`${side}.from`, period.from);
+    if (period.to) params.set(`${side}.to`, period.to);
+    if (period.version !== undefined) params.set(`${side}.version`, String(period.version));
+  });
+  return params;
+}
+
+// `to` is inclusive; timestamp comparisons need the start of the next day
+export function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
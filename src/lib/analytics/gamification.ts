@@ -0,0 +1,113 @@
+// Participation badges, goals and the motivational copy around them
+
+import type { CompletionStats, ImprovementMetrics, PeriodComparison } from './types';
+
+// Completed responses needed for each participation badge
+const BADGE_THRESHOLDS = { bronze: 10, silver: 20, gold: 30, platinum: 50 };
+
+// Scores that count as reaching each quality goal
+const GOALS = { efficiency: 7.5, quality: 7.5, productivity: 8.0 };
+
+function progress(value: number, target: number) {
+  return Math.min(100, (value / target) * 100);
+}
+
+// `recentChange` compares the latest month with the previous one; improvements
+// only count when the change is significant
+export function buildEngagement(stats: CompletionStats, metrics: ImprovementMetrics, recentChange: PeriodComparison | null) {
+  const total = stats.total_responses;
+  const overall = recentChange?.overall ?? null;
+
+  const achievements = {
+    participation_badges: {
+      bronze: total >= BADGE_THRESHOLDS.bronze,
+      silver: total >= BADGE_THRESHOLDS.silver,
+      gold: total >= BADGE_THRESHOLDS.gold,
+      platinum: total >= BADGE_THRESHOLDS.platinum
+    },
+    quality_badges: {
+      data_quality_expert: false, // Would need more detailed data
+      efficiency_champion: metrics.efficiency_score >= GOALS.efficiency,
+      productivity_master: metrics.productivity_score >= GOALS.productivity,
+      lead_conversion_pro: false // Would need more detailed data
+    },
+    improvement_badges: {
+      problem_solver: (recentChange?.sections ?? []).some(section => section.significant && section.delta > 0),
+      growth_catalyst: metrics.satisfaction_score > 6,
+      engagement_booster: total > 10
+    }
+  };
+
+  const progressMetrics = {
+    overall_improvement: Boolean(overall?.significant && overall.delta > 0),
+    improvement_percentage: overall && overall.before.mean > 0
+      ? Math.round((overall.delta / overall.before.mean) * 1000) / 10
+      : 0,
+    issues_resolved: 0,
+    participation_growth: Math.max(0, total - 5),
+    excellence_areas: Object.values(metrics).filter(score => score >= 8).length,
+    team_engagement_level: total > 15 ? 'Excelente' : total > 8 ? 'Bueno' : 'En crecimiento'
+  };
+
+  const badges = achievements.participation_badges;
+  const nextBadgeAt = badges.platinum ? total
+    : badges.gold ? BADGE_THRESHOLDS.platinum
+    : badges.silver ? BADGE_THRESHOLDS.gold
+    : badges.bronze ? BADGE_THRESHOLDS.silver
+    : BADGE_THRESHOLDS.bronze;
+
+  const gamificationProgress = {
+    bronze_progress: progress(total, BADGE_THRESHOLDS.bronze),
+    silver_progress: progress(total, BADGE_THRESHOLDS.silver),
+    gold_progress: progress(total, BADGE_THRESHOLDS.gold),
+    platinum_progress: progress(total, BADGE_THRESHOLDS.platinum),
+    efficiency_goal_progress: progress(metrics.efficiency_score, GOALS.efficiency),
+    quality_goal_progress: progress(metrics.satisfaction_score, GOALS.quality),
+    productivity_goal_progress: progress(metrics.productivity_score, GOALS.productivity),
+    next_badge_responses_needed: nextBadgeAt - total
+  };
+
+  // Predictive insights (simplified)
+  const predictiveInsights = {
+    monthly_improvement_rate: 2.5, // Simplified
+    projected_score_next_month: (metrics.satisfaction_score || 5) + 0.1,
+    estimated_days_to_excellence: metrics.satisfaction_score >= 8 ? 0 : 30,
+    participation_velocity: total / 30
+  };
+
+  const quickWins = [
+    {
+      title: 'Mejorar: Participación del equipo',
+      impact: 'Alto',
+      effort: 'Bajo',
+      description: 'Incrementar la participación en encuestas para obtener datos más precisos',
+      category: 'ENGAGEMENT',
+      estimated_improvement: 2
+    }
+  ];
+
+  const recentAchievements = badges.bronze
+    ? [{
+        type: 'participation',
+        title: 'Bronze Badge Alcanzado',
+        description: 'Buena participación del equipo alcanzada',
+        date: new Date().toISOString(),
+        impact: 'medium'
+      }]
+    : [];
+
+  const dataStories = [
+    {
+      title: 'Inicio del Sistema de Retroalimentación',
+      narrative: `El sistema de retroalimentación está activo con ${total} respuestas recopiladas.`,
+      trend: 'positive',
+      key_metrics: {
+        before: '0',
+        after: total.toString(),
+        change: `+${total}`
+      }
+    }
+  ];
+
+  return { achievements, progressMetrics, gamificationProgress, predictiveInsights, quickWins, recentAchievements, dataStories };
+}
@@ -0,0 +1,67 @@
+// How individual answers are read as business signals: which analysis tags feed
+// each metric, and how non-numeric answers are turned into 1-10 scores.
+
+import type { IssueCategory } from './types';
+
+// Likert questions feeding each business metric, by analysis tag
+export const METRIC_TAGS = {
+  workflowEffectiveness: ['effectiveness', 'alignment', 'enrollment_support', 'lead_tracking_confidence'],
+  processOptimization: ['data_quality', 'data_confidence', 'excel_impact', 'automation_effectiveness'],
+  managerEffectiveness: ['performance_monitoring', 'coaching_data', 'visibility'],
+  salesProductivity: ['information_accessibility', 'call_preparation', 'interaction_quality', 'personalization'],
+  collaborationQuality: ['information_sharing', 'collaboration', 'handoff_quality', 'team_coordination'],
+  // Questions about the admission workflow itself override workflow effectiveness when present
+  admissionProcess: ['lead_management', 'conversion', 'sales_process', 'follow_up'],
+  businessImpact: ['revenue_impact', 'productivity', 'efficiency']
+} as const;
+
+// Questions untagged for a metric can still match on their (Spanish) wording
+export const METRIC_WORDING = {
+  workflowEffectiveness: ['efectiv', 'apoyo'],
+  managerEffectiveness: ['monitorear']
+} as const;
+
+// Scores at or below this are problems, at or above EXCELLENT_SCORE strengths
+export const LOW_SCORE = 3;
+export const CRITICAL_SCORE = 2;
+export const EXCELLENT_SCORE = 8;
+
+export function hasAnyTag(tags: string, candidates: readonly string[]): boolean {
+  return candidates.some(tag => tags.includes(tag));
+}
+
+export function issueCategory(tags: string): IssueCategory {
+  if (tags.includes('revenue_impact')) return 'REVENUE_CRITICAL';
+  if (tags.includes('time_efficiency')) return 'PRODUCTIVITY_CRITICAL';
+  if (tags.includes('system_reliability')) return 'SYSTEM_CRITICAL';
+  return 'LOW_SATISFACTION';
+}
+
+// Fewer tools to juggle is simpler: "1-2" scores 9, "9+" scores 1
+export function toolCountSimplicity(answer: string): number {
+  if (answer.includes('1-2')) return 9;
+  if (answer.includes('3-4')) return 7;
+  if (answer.includes('5-6')) return 5;
+  if (answer.includes('7-8')) return 3;
+  if (answer.includes('9+')) return 1;
+  return 5;
+}
+
+// Share of selling time against admin time in a time-allocation answer, on a
+// 1-10 scale; null when the answer cannot be read or has neither
+export function salesTimeEfficiency(answer: string): number | null {
+  let allocation: any;
+  try {
+    allocation = JSON.parse(answer);
+  } catch {
+    return null;
+  }
+  if (!allocation || typeof allocation !== 'object') return null;
+
+  const dataEntryTime = allocation['Data Entry'] || 0;
+  const salesTime = allocation['Venta'] || allocation['Sales'] || 0;
+  const adminTime = allocation['Admin'] || dataEntryTime; // Data Entry is admin time
+
+  const total = salesTime + adminTime;
+  return total > 0 ? (salesTime / total) * 10 : null;
+}
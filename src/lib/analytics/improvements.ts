@@ -0,0 +1,74 @@
+// Measured change in the tagged scores: the average of the latest closed 90-day
+// window against the window before, with a bootstrap interval. Each respondent
+// counts once, with the mean of their tagged answers. Nothing is reported for a
+// window with too few respondents, so a change is never invented from thin data.
+// Windows are fixed periods counted from the Unix epoch rather than the last 90
+// days: a window that moved with every request, or took in each new response,
+// would change by one respondent at a time and give that respondent away.
+
+import type { ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, isReportable } from '@/lib/anonymity';
+import { hasAnyTag } from './heuristics';
+import { bootstrapInterval, mean } from './statistics';
+import type { MeasuredImprovement, MeasuredImprovements } from './types';
+
+export interface ImprovementOptions {
+  now?: Date;
+  minCellSize?: number;
+}
+
+export const IMPROVEMENT_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Percent change of the mean from the previous window to the current one
+function percentChange([current, previous]: number[][]): number {
+  return ((mean(current) - mean(previous)) / mean(previous)) * 100;
+}
+
+// End of the latest window that has closed by `now`
+export function lastClosedWindowEnd(now: Date): Date {
+  const windowMs = IMPROVEMENT_WINDOW_DAYS * DAY_MS;
+  return new Date(Math.floor(now.getTime() / windowMs) * windowMs);
+}
+
+// Mean tagged score of each respondent whose response falls in [from, to)
+function respondentScores(responses: ResponseWithAnswers[], tag: string, from: number, to: number): number[] {
+  return responses
+    .filter(response => {
+      const completedAt = new Date(response.completed_at).getTime();
+      return completedAt >= from && completedAt < to;
+    })
+    .map(response => response.answers
+      .filter(answer => answer.answer_numeric !== null && hasAnyTag((answer.question.analysis_tags || '').toLowerCase(), [tag]))
+      .map(answer => answer.answer_numeric as number))
+    .filter(scores => scores.length > 0)
+    .map(mean);
+}
+
+function measure(responses: ResponseWithAnswers[], tag: string, end: number, minCellSize: number): MeasuredImprovement | null {
+  const current = respondentScores(responses, tag, end - IMPROVEMENT_WINDOW_DAYS * DAY_MS, end);
+  const previous = respondentScores(responses, tag, end - 2 * IMPROVEMENT_WINDOW_DAYS * DAY_MS, end - IMPROVEMENT_WINDOW_DAYS * DAY_MS);
+  if (!isReportable(current.length, minCellSize) || !isReportable(previous.length, minCellSize)) return null;
+
+  const interval = bootstrapInterval([current, previous], percentChange);
+  if (!interval) return null;
+  return {
+    percent: round1(percentChange([current, previous])),
+    ci_low: round1(interval.low),
+    ci_high: round1(interval.high),
+    current_respondents: current.length,
+    previous_respondents: previous.length
+  };
+}
+
+export function measureImprovements(responses: ResponseWithAnswers[], options: ImprovementOptions = {}): MeasuredImprovements {
+  const end = lastClosedWindowEnd(options.now ?? new Date()).getTime();
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  return {
+    efficiency: measure(responses, 'efficiency', end, minCellSize),
+    productivity: measure(responses, 'productivity', end, minCellSize),
+    satisfaction: measure(responses, 'satisfaction', end, minCellSize)
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Analytics engine.
+ * Turns completed responses into the figures shown on the dashboard. Nothing
+ * here touches the database or the request: callers load the data through the
+ * DatabaseAdapter and pass it in, so exports and scheduled reports get exactly
+ * the numbers the dashboard shows.
+ */
+
+export { computeDetailedAnalytics, emptyDetailedAnalytics, type AnalyticsOptions } from './engine';
+export { buildAnalyticsReport, type AnalyticsReport, type AnalyticsReportInput, type VersionBreakdownRow } from './report';
+export { buildProfessionalInsights, generateActionableInsights } from './insights';
+export {
+  COMPARISON_SIDES,
+  parseAnalyticsFilter,
+  parseComparisonFilter,
+  toComparisonSearchParams,
+  toSearchParams,
+  type ComparisonFilter,
+  type ComparisonSide
+} from './filters';
+export { compareResponses, type ComparisonOptions } from './comparison';
+export { computeNps, emptyNpsAnalysis, npsCategory, scoreNps, type NpsCategory, type NpsOptions } from './nps';
+export { aggregateRankings, parseRanking } from './ranking';
+export { IMPROVEMENT_WINDOW_DAYS, lastClosedWindowEnd, measureImprovements, type ImprovementOptions } from './improvements';
+export { histogram, mannWhitney, summarize, type MannWhitneyResult } from './statistics';
+export { scoreSentiment, sentimentLabel, type SentimentLabel } from './sentiment';
+export { extractTextThemes, type TextDocument, type TopicOptions } from './topics';
+export { buildTextExplorer, type TextAnswerEntry, type TextExplorer, type TextQuestionGroup } from './text-answers';
+export { QUESTION_SPLITS, buildQuestionDetail, type DetailQuestion, type QuestionDetailOptions } from './question-detail';
+export * from './types';
@@ -0,0 +1,128 @@
+// Plain-language findings for coordinators and advisors, in Spanish as shown on the dashboard
+
+import { EXCELLENT_SCORE } from './heuristics';
+import type { ActionableInsights, CompletionStats, DetailedAnalytics, ProfessionalInsight } from './types';
+
+// Sections scoring under this are worth prioritising
+const PRIORITY_SCORE = 6;
+
+// Generate actionable insights based on real data
+export function generateActionableInsights(completionStats: CompletionStats, detailedAnalytics: DetailedAnalytics): ActionableInsights {
+  const insights: ActionableInsights = {
+    immediate_actions: [],
+    strategic_recommendations: [],
+    celebration_worthy: [],
+    improvement_opportunities: []
+  };
+
+  // Celebrate achievements
+  if (completionStats.total_responses > 0) {
+    insights.celebration_worthy.push(
+      `¡Excelente! Se han recopilado ${completionStats.total_responses} respuestas del equipo`
+    );
+  }
+
+  if (detailedAnalytics.excellenceAreas.length > 0) {
+    insights.celebration_worthy.push(
+      `${detailedAnalytics.excellenceAreas.length} área(s) con excelente rendimiento (${EXCELLENT_SCORE}+/10)`
+    );
+  }
+
+  // Identify improvement opportunities
+  if (detailedAnalytics.criticalIssues.length > 0) {
+    insights.immediate_actions.push(
+      `Atender urgentemente ${detailedAnalytics.criticalIssues.length} problema(s) crítico(s) identificado(s)`
+    );
+  }
+
+  if (completionStats.total_responses < 10) {
+    insights.improvement_opportunities.push(
+      "Aumentar la participación del equipo en las encuestas para obtener datos más representativos"
+    );
+  }
+
+  // Team-specific insights
+  detailedAnalytics.teamAnalysis.forEach(team => {
+    if (team.pain_points > team.strengths) {
+      insights.strategic_recommendations.push(
+        `Equipo ${team.team}: Enfocar en resolver ${team.pain_points} área(s) problemática(s)`
+      );
+    }
+  });
+
+  // Performance trends
+  if (detailedAnalytics.trendDirection === 'Declinando') {
+    insights.immediate_actions.push(
+      "El rendimiento está declinando - investigar causas y implementar mejoras"
+    );
+  } else if (detailedAnalytics.trendDirection === 'Mejorando') {
+    insights.celebration_worthy.push(
+      "Tendencia positiva de mejora en el rendimiento del equipo"
+    );
+  }
+
+  // Section-specific recommendations
+  const lowestSection = detailedAnalytics.sectionPerformance[0];
+  if (lowestSection && lowestSection.avg_score < PRIORITY_SCORE) {
+    insights.strategic_recommendations.push(
+      `Priorizar mejoras en "${lowestSection.section}" (puntuación: ${lowestSection.avg_score}/10)`
+    );
+  }
+
+  return insights;
+}
+
+// The same findings as structured cards, most urgent first
+export function buildProfessionalInsights(detailedAnalytics: DetailedAnalytics): ProfessionalInsight[] {
+  const insights: ProfessionalInsight[] = [];
+
+  detailedAnalytics.criticalIssues.forEach(issue => {
+    insights.push({
+      category: 'CRITICAL',
+      title: `Problema crítico en ${issue.section}`,
+      description: issue.question_text,
+      impact: 'HIGH',
+      actionRequired: true,
+      metrics: { severidad: issue.severity_score, categoria: issue.issue_category }
+    });
+  });
+
+  detailedAnalytics.sectionPerformance
+    .filter(section => section.avg_score < PRIORITY_SCORE)
+    .forEach(section => {
+      insights.push({
+        category: 'OPPORTUNITY',
+        title: `Oportunidad de mejora: ${section.section}`,
+        description: `Puntuación promedio de ${section.avg_score}/10 con ${section.problem_indicators} respuesta(s) baja(s)`,
+        impact: section.critical_issues > 0 ? 'HIGH' : 'MEDIUM',
+        actionRequired: section.critical_issues > 0,
+        metrics: { promedio: section.avg_score, respuestas: section.response_count }
+      });
+    });
+
+  detailedAnalytics.teamAnalysis
+    .filter(team => team.pain_points > team.strengths)
+    .forEach(team => {
+      insights.push({
+        category: 'RECOMMENDATION',
+        title: `Acompañar al equipo ${team.team}`,
+        description: `${team.pain_points} área(s) problemática(s) frente a ${team.strengths} fortaleza(s)`,
+        impact: 'MEDIUM',
+        actionRequired: false,
+        metrics: { rendimiento: team.performance_score, muestra: team.sample_size }
+      });
+    });
+
+  detailedAnalytics.excellenceAreas.forEach(section => {
+    insights.push({
+      category: 'SUCCESS',
+      title: `Fortaleza: ${section.section}`,
+      description: `Puntuación promedio de ${section.avg_score}/10`,
+      impact: 'LOW',
+      actionRequired: false,
+      metrics: { promedio: section.avg_score, respuestas: section.response_count }
+    });
+  });
+
+  return insights;
+}
@@ -0,0 +1,119 @@
+// Net Promoter Score from `nps` questions (0-10). Promoters answer 9 or 10,
+// passives 7 or 8 and detractors 0 to 6; the score is the percentage of
+// promoters minus the percentage of detractors, from -100 to 100. Questions
+// tagged `enps` ask whether people would recommend working here and are
+// reported apart as eNPS.
+
+import type { ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, isReportable, mergeSmallCells, suppressSmallCells } from '@/lib/anonymity';
+import { hasAnyTag } from './heuristics';
+import { mean, meanInterval } from './statistics';
+import type { NpsAnalysis, NpsBreakdown, NpsGroup, NpsScore } from './types';
+
+export interface NpsOptions {
+  minCellSize?: number;
+}
+
+export type NpsCategory = 'promoter' | 'passive' | 'detractor';
+
+type NpsKind = 'nps' | 'enps';
+
+interface Rating {
+  response: ResponseWithAnswers;
+  score: number;
+}
+
+interface Cell {
+  group: string;
+  scores: number[];
+}
+
+const CATEGORY_VALUE: Record<NpsCategory, number> = { promoter: 100, passive: 0, detractor: -100 };
+
+export function npsCategory(score: number): NpsCategory {
+  if (score >= 9) return 'promoter';
+  if (score >= 7) return 'passive';
+  return 'detractor';
+}
+
+function kindOf(tags: string | null): NpsKind {
+  return hasAnyTag((tags || '').toLowerCase(), ['enps']) ? 'enps' : 'nps';
+}
+
+// A response that answers several questions of one kind counts once, with the first
+function ratingsOf(responses: ResponseWithAnswers[], kind: NpsKind): Rating[] {
+  return responses.flatMap(response => {
+    const answer = response.answers.find(answer =>
+      answer.question.question_type === 'nps' && answer.answer_numeric !== null && kindOf(answer.question.analysis_tags) === kind
+    );
+    return answer ? [{ response, score: answer.answer_numeric as number }] : [];
+  });
+}
+
+// NPS is the mean of +100 per promoter, 0 per passive and -100 per detractor,
+// so its margin of error is that of a mean
+export function scoreNps(scores: number[]): NpsScore {
+  const categories = scores.map(npsCategory);
+  const values = categories.map(category => CATEGORY_VALUE[category]);
+  const interval = meanInterval(values);
+  return {
+    respondents: scores.length,
+    promoters: categories.filter(category => category === 'promoter').length,
+    passives: categories.filter(category => category === 'passive').length,
+    detractors: categories.filter(category => category === 'detractor').length,
+    nps: Math.round(mean(values)),
+    margin_of_error: interval ? Math.round(((interval.high - interval.low) / 2) * 10) / 10 : null
+  };
+}
+
+// Groups in first-seen order; ratings without a group are left out
+function groupBy(ratings: Rating[], keyOf: (response: ResponseWithAnswers) => string | null): Cell[] {
+  const groups = new Map<string, number[]>();
+  ratings.forEach(({ response, score }) => {
+    const key = keyOf(response);
+    if (key === null) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(score);
+  });
+  return Array.from(groups, ([group, scores]) => ({ group, scores }));
+}
+
+function toGroups(cells: Cell[]): NpsGroup[] {
+  return cells.map(cell => ({ group: cell.group, ...scoreNps(cell.scores) }));
+}
+
+function breakdown(ratings: Rating[], minCellSize: number): NpsBreakdown {
+  const reportable = (cells: Cell[]) => toGroups(suppressSmallCells(cells, cell => cell.scores.length, minCellSize).cells);
+
+  // Quiet months are merged with the following ones, as in the monthly trend
+  const months = groupBy(ratings, response => new Date(response.completed_at).toISOString().slice(0, 7))
+    .sort((a, b) => a.group.localeCompare(b.group));
+  const mergedMonths = mergeSmallCells(
+    months,
+    cell => cell.scores.length,
+    (a, b) => ({ group: `${a.group.slice(0, 7)} – ${b.group.slice(-7)}`, scores: [...a.scores, ...b.scores] }),
+    minCellSize
+  );
+
+  return {
+    overall: isReportable(ratings.length, minCellSize) ? scoreNps(ratings.map(rating => rating.score)) : null,
+    by_survey: reportable(groupBy(ratings, response => String(response.survey_id))),
+    by_role: reportable(groupBy(ratings, response => response.target_role)),
+    // Anonymous responses carry no department
+    by_department: reportable(groupBy(ratings, response => response.department)),
+    by_month: toGroups(mergedMonths.cells)
+  };
+}
+
+export function emptyNpsAnalysis(): NpsAnalysis {
+  const empty: NpsBreakdown = { overall: null, by_survey: [], by_role: [], by_department: [], by_month: [] };
+  return { nps: empty, enps: { ...empty } };
+}
+
+export function computeNps(responses: ResponseWithAnswers[], options: NpsOptions = {}): NpsAnalysis {
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  return {
+    nps: breakdown(ratingsOf(responses, 'nps'), minCellSize),
+    enps: breakdown(ratingsOf(responses, 'enps'), minCellSize)
+  };
+}
@@ -0,0 +1,175 @@
+// Drill-down into one question: its answers summarised as suits the question
+// type, overall and split by role or month, so a low section score can be
+// traced back to the answers behind it. Groups follow the same minimum size
+// as the rest of the dashboard; text answers are only quoted above it.
+
+import type { AnalyticsAnswer, ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, canShowFreeText, isReportable, mergeSmallCells, suppressSmallCells } from '@/lib/anonymity';
+import {
+  DEFAULT_PERCENTAGE_CATEGORIES,
+  parseQuestionOptions,
+  parseValidationRules,
+  type ValidatableQuestion
+} from '@/lib/answer-validation';
+import { scoreNps } from './nps';
+import { aggregateRankings, parseRanking } from './ranking';
+import { histogram, mean, summarize } from './statistics';
+import type { AllocationRow, OptionCount, QuestionDetail, QuestionGroupView, QuestionSplit, QuestionView } from './types';
+
+// The question as stored, live or from a published version's snapshot
+export interface DetailQuestion extends Pick<ValidatableQuestion, 'question_type' | 'options' | 'validation_rules'> {
+  id: number;
+  survey_id: number;
+  section: string;
+  question_text: string;
+}
+
+export interface QuestionDetailOptions {
+  split?: QuestionSplit;
+  minCellSize?: number;
+}
+
+export const QUESTION_SPLITS: QuestionSplit[] = ['none', 'role', 'month'];
+
+interface Cell {
+  group: string;
+  answers: AnalyticsAnswer[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseRecord(value: string): Record<string, number> {
+  const parsed = parseJson(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return Object.fromEntries(Object.entries(parsed).filter(([, amount]) => typeof amount === 'number'));
+}
+
+function parseList(value: string): string[] {
+  const parsed = parseJson(value);
+  return Array.isArray(parsed) ? parsed.filter(item => typeof item === 'string') : [];
+}
+
+// Options in the question's order, then any that were removed since they were answered
+function withStrayOptions(options: string[], answered: string[]): string[] {
+  return [...options, ...Array.from(new Set(answered)).filter(option => !options.includes(option))];
+}
+
+function countOptions(options: string[], picks: string[][]): OptionCount[] {
+  return withStrayOptions(options, picks.flat()).map(option => {
+    const count = picks.filter(picked => picked.includes(option)).length;
+    return { option, count, share: round1((count / picks.length) * 100) };
+  });
+}
+
+function allocate(categories: string[], allocations: Record<string, number>[]): AllocationRow[] {
+  return withStrayOptions(categories, allocations.flatMap(allocation => Object.keys(allocation))).map(category => ({
+    category,
+    mean_percentage: round1(mean(allocations.map(allocation => allocation[category] ?? 0)))
+  }));
+}
+
+function viewOf(question: DetailQuestion, answers: AnalyticsAnswer[], minCellSize: number): QuestionView {
+  const values = answers.map(answer => answer.answer_value!.trim());
+  const options = parseQuestionOptions(question);
+
+  switch (question.question_type) {
+    case 'likert':
+    case 'nps': {
+      const scores = answers.map(answer => answer.answer_numeric ?? parseFloat(answer.answer_value!)).filter(score => !isNaN(score));
+      const isNps = question.question_type === 'nps';
+      const rules = parseValidationRules(question);
+      const min = isNps ? 0 : rules.min ?? 1;
+      return {
+        kind: 'scale',
+        summary: summarize(scores),
+        min,
+        counts: histogram(scores, min, isNps ? 10 : rules.max ?? 10),
+        nps: isNps ? scoreNps(scores) : null
+      };
+    }
+    case 'multiple_choice':
+      return { kind: 'choice', options: countOptions(options, values.map(value => [value])) };
+    case 'checkbox':
+      return { kind: 'choice', options: countOptions(options, values.map(parseList)) };
+    case 'ranking':
+      return { kind: 'ranking', ranking: aggregateRankings(options, values.map(parseRanking)) };
+    case 'percentage':
+      return {
+        kind: 'allocation',
+        categories: allocate(options.length > 0 ? options : DEFAULT_PERCENTAGE_CATEGORIES, values.map(parseRecord))
+      };
+    default:
+      // Quoted verbatim, so only with enough people behind them
+      return { kind: 'text', answers: canShowFreeText(values.length, minCellSize) ? values : [] };
+  }
+}
+
+function cellsOf(responses: ResponseWithAnswers[], questionId: number, split: QuestionSplit): Cell[] {
+  const cells = new Map<string, AnalyticsAnswer[]>();
+  responses.forEach(response => {
+    const answer = response.answers.find(answer => answer.question_id === questionId && answer.answer_value?.trim());
+    if (!answer) return;
+    const group = split === 'role' ? response.target_role
+      : split === 'month' ? new Date(response.completed_at).toISOString().slice(0, 7)
+      : 'all';
+    if (!cells.has(group)) cells.set(group, []);
+    cells.get(group)!.push(answer);
+  });
+  return Array.from(cells, ([group, answers]) => ({ group, answers }));
+}
+
+export function buildQuestionDetail(
+  question: DetailQuestion,
+  responses: ResponseWithAnswers[],
+  options: QuestionDetailOptions = {}
+): QuestionDetail {
+  const split = options.split ?? 'none';
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  const toView = (cell: Cell): QuestionGroupView => ({
+    group: cell.group,
+    respondents: cell.answers.length,
+    view: viewOf(question, cell.answers, minCellSize)
+  });
+
+  const everyone = cellsOf(responses, question.id, 'none')[0] ?? { group: 'all', answers: [] };
+  let groups: QuestionGroupView[] = [];
+  let suppressedGroups = 0;
+
+  if (split !== 'none') {
+    const cells = cellsOf(responses, question.id, split);
+    // Quiet months are merged with the following ones, as in the monthly trend
+    const kept = split === 'month'
+      ? mergeSmallCells(
+        cells.sort((a, b) => a.group.localeCompare(b.group)),
+        cell => cell.answers.length,
+        (a, b) => ({ group: `${a.group.slice(0, 7)} – ${b.group.slice(-7)}`, answers: [...a.answers, ...b.answers] }),
+        minCellSize
+      )
+      : suppressSmallCells(cells, cell => cell.answers.length, minCellSize);
+    groups = kept.cells.map(toView);
+    suppressedGroups = kept.suppressed;
+  }
+
+  return {
+    question: {
+      id: question.id,
+      survey_id: question.survey_id,
+      section: question.section,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      options: parseQuestionOptions(question)
+    },
+    split,
+    overall: isReportable(everyone.answers.length, minCellSize) ? toView(everyone) : null,
+    groups,
+    suppressedGroups
+  };
+}
@@ -0,0 +1,63 @@
+// Aggregation of ranking answers, stored as `{option: rank}` JSON with 1 as
+// the top choice. Respondents may leave options unranked when the question is
+// optional: an unranked option earns no Borda points and loses every pairwise
+// comparison against a ranked one.
+
+import { mean } from './statistics';
+import type { RankingAggregate, RankingRow } from './types';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Ranks keyed by option; anything that is not a positive whole rank is dropped
+export function parseRanking(value: string): Record<string, number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return Object.fromEntries(
+    Object.entries(parsed).filter(([, rank]) => Number.isInteger(rank) && (rank as number) >= 1)
+  ) as Record<string, number>;
+}
+
+// Whether a respondent put `a` above `b`
+function prefers(ranking: Record<string, number>, a: string, b: string): boolean {
+  const rankA = ranking[a];
+  const rankB = ranking[b];
+  if (rankA === undefined) return false;
+  return rankB === undefined || rankA < rankB;
+}
+
+// `options` in the question's order; options no longer offered but still
+// ranked in older answers are added after them. Rows come out by Borda count.
+export function aggregateRankings(options: string[], answers: Record<string, number>[]): RankingAggregate {
+  // An empty or unreadable answer ranked nothing, so it is not a respondent
+  const rankings = answers.filter(ranking => Object.keys(ranking).length > 0);
+  const answered = rankings.flatMap(ranking => Object.keys(ranking));
+  const all = [...options, ...Array.from(new Set(answered)).filter(option => !options.includes(option))];
+  const respondents = rankings.length;
+
+  const rows: RankingRow[] = all.map(option => {
+    const ranks = rankings.map(ranking => ranking[option]).filter((rank): rank is number => rank !== undefined);
+    const firstPlaces = ranks.filter(rank => rank === 1).length;
+    return {
+      option,
+      // With k options, first place earns k - 1 points and last place none
+      borda_points: ranks.reduce((sum, rank) => sum + Math.max(all.length - rank, 0), 0),
+      mean_rank: ranks.length > 0 ? round2(mean(ranks)) : null,
+      first_places: firstPlaces,
+      first_choice_share: respondents > 0 ? round1((firstPlaces / respondents) * 100) : 0,
+      ranked_by: ranks.length
+    };
+  }).sort((a, b) => b.borda_points - a.borda_points || (a.mean_rank ?? Infinity) - (b.mean_rank ?? Infinity));
+
+  const pairwise = rows.map(row => rows.map(other => row.option === other.option || respondents === 0
+    ? 0
+    : round1((rankings.filter(ranking => prefers(ranking, row.option, other.option)).length / respondents) * 100)
+  ));
+
+  return { respondents, options: rows, pairwise };
+}
@@ -0,0 +1,198 @@
+// The full dashboard report: headline stats, detailed analytics and the
+// insights built on them, with placeholders where there is no data yet
+
+import { MIN_CELL_SIZE, isReportable } from '@/lib/anonymity';
+import { buildEngagement } from './gamification';
+import { buildProfessionalInsights, generateActionableInsights } from './insights';
+import type { CompletionStats, DetailedAnalytics, ImprovementMetrics } from './types';
+
+export interface VersionBreakdownRow {
+  survey_id: number;
+  survey_name: string;
+  target_role: string;
+  survey_version: number | null;
+  published_at: string | null;
+  response_count: number;
+  avg_score: number | null;
+}
+
+export interface AnalyticsReportInput {
+  completionStats: Partial<CompletionStats> | null | undefined;
+  improvementMetrics: Partial<ImprovementMetrics> | null | undefined;
+  versionBreakdown: VersionBreakdownRow[];
+  detailed: DetailedAnalytics;
+  minCellSize?: number;
+}
+
+const METRIC_EXPLANATIONS = {
+  overall_health_score: {
+    description: "Promedio general de todas las evaluaciones del sistema",
+    calculation: "Promedio de puntuaciones de satisfacción",
+    good_range: "7.0-10.0",
+    action_needed: "< 6.0"
+  },
+  efficiency_index: {
+    description: "Mide qué tan eficientemente el equipo puede completar sus tareas",
+    calculation: "Promedio de respuestas relacionadas con eficiencia",
+    good_range: "7.5-10.0",
+    action_needed: "< 6.0"
+  }
+};
+
+function healthStatus(satisfaction: number) {
+  return satisfaction >= 7.5 ? 'Excelente'
+    : satisfaction >= 6 ? 'Bueno'
+    : satisfaction >= 4 ? 'Mejorable'
+    : 'Requiere atención';
+}
+
+export function buildAnalyticsReport({ completionStats, improvementMetrics, versionBreakdown, detailed, minCellSize = MIN_CELL_SIZE }: AnalyticsReportInput) {
+  const totalResponses = completionStats?.total_responses || 0;
+
+  // Scores and times averaged over fewer than minCellSize people are withheld;
+  // response counts alone reveal no answers and are always shown
+  const belowThreshold = !isReportable(totalResponses, minCellSize);
+
+  const stats: CompletionStats = {
+    total_responses: totalResponses,
+    avg_response_time: belowThreshold ? 0 : completionStats?.avg_response_time || 0,
+    manager_responses: completionStats?.manager_responses || 0,
+    sales_responses: completionStats?.sales_responses || 0
+  };
+
+  const metrics: ImprovementMetrics = {
+    efficiency_score: belowThreshold ? 0 : improvementMetrics?.efficiency_score || 0,
+    productivity_score: belowThreshold ? 0 : improvementMetrics?.productivity_score || 0,
+    satisfaction_score: belowThreshold ? 0 : improvementMetrics?.satisfaction_score || 0
+  };
+
+  const systemHealth = {
+    overall_health_score: Math.round((metrics.satisfaction_score || 5) * 10) / 10,
+    efficiency_index: Math.round((metrics.efficiency_score || 5) * 10) / 10,
+    productivity_score: Math.round((metrics.productivity_score || 5) * 10) / 10,
+    critical_failure_rate: detailed.criticalIssues.length,
+    excellence_indicators: detailed.excellenceAreas.length,
+    health_status: healthStatus(metrics.satisfaction_score),
+    trend_direction: detailed.trendDirection
+  };
+
+  // Placeholder sections, teams and trends from the headline figures until there is detailed data
+  const sectionPerformance = detailed.sectionPerformance.length > 0
+    ? detailed.sectionPerformance
+    : [
+        { section: 'Sistema General', avg_score: metrics.satisfaction_score || 5 },
+        { section: 'Eficiencia', avg_score: metrics.efficiency_score || 5 },
+        { section: 'Productividad', avg_score: metrics.productivity_score || 5 }
+      ]
+        .map(section => ({ ...section, response_count: stats.total_responses, problem_indicators: 0 }))
+        .sort((a, b) => a.avg_score - b.avg_score);
+
+  const efficiencyMetrics = detailed.teamAnalysis.length > 0
+    ? detailed.teamAnalysis
+    : [
+        { team: 'manager', sample_size: stats.manager_responses },
+        { team: 'sales', sample_size: stats.sales_responses }
+      ].map(team => ({
+        ...team,
+        performance_score: metrics.satisfaction_score || 5,
+        pain_points: 0,
+        strengths: team.sample_size > 0 ? 1 : 0,
+        avg_completion_time: stats.avg_response_time
+      }));
+
+  const performanceTrends = detailed.performanceTrends.length > 0
+    ? detailed.performanceTrends
+    : [
+        {
+          month: new Date().toISOString().slice(0, 7),
+          avg_performance: metrics.satisfaction_score || 5,
+          response_count: stats.total_responses,
+          issues_reported: 0,
+          avg_completion_time: stats.avg_response_time
+        }
+      ];
+
+  const engagement = buildEngagement(stats, metrics, detailed.recentChange);
+
+  const teamInsights = efficiencyMetrics.map(team => ({
+    team: team.team,
+    insights: team.sample_size > 0
+      ? [`Equipo ${team.team}: ${team.sample_size} respuestas recopiladas con rendimiento de ${team.performance_score.toFixed(1)}/10`]
+      : [`Equipo ${team.team}: Sin datos suficientes para análisis`]
+  }));
+
+  const operationalInsights = {
+    total_responses: stats.total_responses,
+    participation_rate: stats.total_responses > 15 ? 'HIGH' : stats.total_responses > 8 ? 'MODERATE' : 'LOW',
+    avg_completion_time: Math.round(stats.avg_response_time || 0),
+    manager_participation: stats.manager_responses,
+    sales_participation: stats.sales_responses,
+    data_confidence: stats.total_responses > 20 ? 'HIGH' : stats.total_responses > 10 ? 'MODERATE' : 'LIMITED'
+  };
+
+  const suppressedVersions = versionBreakdown.filter(row => row.avg_score !== null && !isReportable(row.response_count, minCellSize)).length;
+
+  const strongestTeam = efficiencyMetrics.reduce<(typeof efficiencyMetrics)[number] | undefined>(
+    (best, team) => best && best.performance_score > team.performance_score ? best : team,
+    undefined
+  );
+
+  return {
+    summary: {
+      ...operationalInsights,
+      systemHealth: systemHealth.overall_health_score,
+      criticalIssues: systemHealth.critical_failure_rate,
+      lastUpdated: new Date().toISOString(),
+      healthStatus: systemHealth.health_status,
+      trendDirection: systemHealth.trend_direction,
+      anonymity: {
+        minCellSize,
+        belowThreshold,
+        suppressedGroups: detailed.suppressedGroups + suppressedVersions
+      }
+    },
+    systemHealth,
+    sectionPerformance,
+    processIssues: detailed.processIssues,
+    efficiencyMetrics,
+    performanceTrends,
+    // Responses per published survey version: wording changes between versions,
+    // so trends are only comparable within one version
+    versionBreakdown: versionBreakdown.map(row => ({
+      survey_id: row.survey_id,
+      survey_name: row.survey_name,
+      target_role: row.target_role,
+      version: row.survey_version,
+      published_at: row.published_at,
+      response_count: row.response_count,
+      avg_score: row.avg_score !== null && isReportable(row.response_count, minCellSize) ? Math.round(row.avg_score * 10) / 10 : null
+    })),
+    ...engagement,
+    actionableInsights: generateActionableInsights(stats, detailed),
+    professionalInsights: buildProfessionalInsights(detailed),
+    teamInsights,
+    metricExplanations: METRIC_EXPLANATIONS,
+    businessMetrics: detailed.businessMetrics,
+    criticalIssues: detailed.criticalIssues,
+    excellenceAreas: detailed.excellenceAreas,
+    textThemes: detailed.textThemes,
+    questionDistributions: detailed.questionDistributions,
+    npsAnalysis: detailed.npsAnalysis,
+    rankingAnalysis: detailed.rankingAnalysis,
+    recentChange: detailed.recentChange,
+    insights: {
+      topConcern: detailed.criticalIssues.length > 0
+        ? `${detailed.criticalIssues.length} problema(s) crítico(s) identificado(s)`
+        : 'Sistema funcionando correctamente',
+      improvementArea: sectionPerformance[0]?.section || 'Sistema estable',
+      strongestArea: sectionPerformance[sectionPerformance.length - 1]?.section || 'Rendimiento general',
+      motivationalMessage: stats.total_responses > 0
+        ? `¡Excelente! Se han recopilado ${stats.total_responses} respuestas del equipo.`
+        : 'Sistema listo para recopilar retroalimentación del equipo.',
+      nextMilestone: `Próxima meta: Alcanzar ${engagement.gamificationProgress.next_badge_responses_needed} respuestas más para el siguiente badge`,
+      teamStrength: strongestTeam?.team || 'Ambos equipos'
+    }
+  };
+}
+
+export type AnalyticsReport = ReturnType<typeof buildAnalyticsReport>;
@@ -0,0 +1,81 @@
+// Sentiment of Spanish open-text answers from a word lexicon, following the
+// VADER rules: negation flips and dampens a word ("no hay problema" is mildly
+// positive), intensifiers strengthen it ("muy lento"), and after "pero" the
+// second half of the sentence weighs more. Scores run from -1 to 1.
+
+import { stem, words } from './spanish';
+
+// Polarity from -3 to 3, matched on the stem so inflections count too
+const LEXICON_WORDS: Record<string, number> = {
+  excelente: 3, genial: 3, perfecto: 3, increíble: 3, fantástico: 3, maravilloso: 3,
+  bueno: 2, bien: 2, mejor: 2, fácil: 2, útil: 2, rápido: 2, eficiente: 2, eficaz: 2, ágil: 2, intuitivo: 2,
+  sencillo: 2, práctico: 2, cómodo: 2, confiable: 2, satisfecho: 2, contento: 2, feliz: 2, agradable: 2, positivo: 2,
+  claro: 1, ordenado: 1, organizado: 1, sirve: 1, ayuda: 1, apoyo: 1, gracias: 1, adecuado: 1, correcto: 1,
+  terrible: -3, horrible: -3, pésimo: -3, frustración: -3, frustrante: -3, desastre: -3, inservible: -3,
+  malo: -2, mal: -2, lento: -2, lentitud: -2, difícil: -2, dificultad: -2, complicado: -2, confuso: -2,
+  confusión: -2, problema: -2, error: -2, falla: -2, fallo: -2, imposible: -2, pérdida: -2, perder: -2,
+  tedioso: -2, engorroso: -2, inútil: -2, ineficiente: -2, deficiente: -2, insuficiente: -2, carencia: -2,
+  retraso: -2, demora: -2, estrés: -2, estresante: -2, molesto: -2, agotador: -2, caótico: -2, desorden: -2,
+  desorganizado: -2, queja: -2, bloqueo: -2, obstáculo: -2, sobrecarga: -2, saturado: -2,
+  falta: -1, incompleto: -1, duplicado: -1, tardar: -1, repetitivo: -1, cansado: -1, innecesario: -1,
+  excesivo: -1, preocupación: -1, riesgo: -1, manualmente: -1
+};
+
+const LEXICON = new Map(Object.entries(LEXICON_WORDS).map(([word, polarity]) => [stem(word), polarity]));
+
+// "ningún" after "no" is still a single negation in Spanish
+const NEGATORS = new Set(['no', 'nunca', 'jamás', 'tampoco', 'ni', 'sin', 'nada', 'nadie', 'ningún', 'ninguna', 'ninguno', 'poco']);
+const INTENSIFIERS = new Set([
+  'muy', 'mucho', 'muchísimo', 'demasiado', 'bastante', 'super', 'súper', 'totalmente', 'realmente',
+  'extremadamente', 'sumamente', 'tan', 'completamente', 'altamente', 'siempre'
+]);
+const DIMINISHERS = new Set(['algo', 'apenas', 'ligeramente', 'medio', 'relativamente']);
+const CONTRAST = 'pero';
+
+const NEGATION_SCALAR = -0.74;
+const INTENSIFIER_BOOST = 0.293;
+const NEGATION_WINDOW = 3;
+const INTENSIFIER_WINDOW = 2;
+// Normalisation constant: a sum of 3.9 maps to 0.71, 8 to 0.9
+const ALPHA = 15;
+// Scores closer to zero than this read as neutral
+const NEUTRAL_BAND = 0.05;
+
+export type SentimentLabel = 'Positivo' | 'Neutral' | 'Negativo';
+
+export function scoreSentiment(text: string): number {
+  // Negation and intensifiers reach back within a clause only: in
+  // "sin problemas, todo bien" the "sin" does not touch "bien"
+  const clauses = text.split(/[.,;:!?¡¿\n]+/).map(words);
+  const tokens = clauses.flat();
+  const contrastAt = tokens.lastIndexOf(CONTRAST);
+
+  let position = 0;
+  let sum = 0;
+  for (const clause of clauses) {
+    clause.forEach((word, i) => {
+      const polarity = LEXICON.get(stem(word));
+      if (polarity === undefined) return;
+
+      let value = polarity;
+      clause.slice(Math.max(0, i - INTENSIFIER_WINDOW), i).forEach(previous => {
+        if (INTENSIFIERS.has(previous)) value += Math.sign(value) * INTENSIFIER_BOOST;
+        if (DIMINISHERS.has(previous)) value -= Math.sign(value) * INTENSIFIER_BOOST;
+      });
+      if (clause.slice(Math.max(0, i - NEGATION_WINDOW), i).some(previous => NEGATORS.has(previous))) {
+        value *= NEGATION_SCALAR;
+      }
+      if (contrastAt >= 0) value *= position + i < contrastAt ? 0.5 : 1.5;
+      sum += value;
+    });
+    position += clause.length;
+  }
+
+  return Math.round((sum / Math.sqrt(sum * sum + ALPHA)) * 1000) / 1000;
+}
+
+export function sentimentLabel(score: number): SentimentLabel {
+  if (score >= NEUTRAL_BAND) return 'Positivo';
+  if (score <= -NEUTRAL_BAND) return 'Negativo';
+  return 'Neutral';
+}
@@ -0,0 +1,206 @@
+// Spanish text processing for the open-text answers: tokenization, stopwords
+// and the Snowball Spanish stemmer (snowballstem.org/algorithms/spanish), so
+// "gestionar", "gestión" and "gestiones" are counted as one term. Offline and
+// dependency-free on purpose.
+
+const VOWELS = 'aeiouáéíóúü';
+
+// Function words plus fillers that carry no theme on their own
+export const STOPWORDS = new Set([
+  'a', 'al', 'algo', 'algun', 'alguna', 'algunas', 'alguno', 'algunos', 'algún', 'ante', 'antes', 'aqui', 'aquí',
+  'asi', 'así', 'aun', 'aún', 'bastante', 'bien', 'cada', 'casi', 'como', 'con', 'contra', 'cual', 'cuales', 'cuando',
+  'cómo', 'de', 'del', 'desde', 'donde', 'dos', 'durante', 'e', 'el', 'ella', 'ellas', 'ellos', 'en', 'entre', 'era',
+  'eran', 'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta', 'estaba', 'estado', 'estamos', 'estan', 'estar', 'estas',
+  'este', 'esto', 'estos', 'están', 'está', 'etc', 'fue', 'fueron', 'ha', 'han', 'hace', 'hacen', 'hacer', 'hasta',
+  'hay', 'he', 'hemos', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas', 'me', 'mi', 'mis', 'mismo', 'mucho', 'muchos',
+  'muy', 'más', 'mí', 'nada', 'ni', 'no', 'nos', 'nosotros', 'nuestra', 'nuestras', 'nuestro', 'nuestros', 'o', 'otra',
+  'otras', 'otro', 'otros', 'para', 'pero', 'poco', 'por', 'porque', 'puede', 'pueden', 'que', 'qué', 'se', 'sea',
+  'según', 'ser', 'si', 'sido', 'siempre', 'sin', 'sino', 'sobre', 'solo', 'son', 'su', 'sus', 'sí', 'sólo', 'también',
+  'tan', 'tanto', 'te', 'tenemos', 'tener', 'tiene', 'tienen', 'todo', 'todos', 'toda', 'todas', 'tu', 'tus', 'u',
+  'un', 'una', 'unas', 'uno', 'unos', 'usted', 'ustedes', 'va', 'van', 'veces', 'vez', 'y', 'ya', 'yo'
+]);
+
+export interface Token {
+  // Lowercase word as written
+  word: string;
+  stem: string;
+}
+
+function isVowel(char: string | undefined) {
+  return char !== undefined && VOWELS.includes(char);
+}
+
+// Start of the region after the first non-vowel following a vowel
+function regionAfter(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+function rvStart(word: string): number {
+  if (word.length < 2) return word.length;
+  if (!isVowel(word[1])) {
+    for (let i = 2; i < word.length; i++) if (isVowel(word[i])) return i + 1;
+    return word.length;
+  }
+  if (isVowel(word[0])) {
+    for (let i = 2; i < word.length; i++) if (!isVowel(word[i])) return i + 1;
+    return word.length;
+  }
+  return Math.min(3, word.length);
+}
+
+// Longest of the suffixes the word ends with, optionally starting at or after `limit`
+function longestSuffix(word: string, suffixes: readonly string[], limit = 0): string | null {
+  let found: string | null = null;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= limit && (!found || suffix.length > found.length)) {
+      found = suffix;
+    }
+  }
+  return found;
+}
+
+const removeAccents = (word: string) =>
+  word.replace(/á/g, 'a').replace(/é/g, 'e').replace(/í/g, 'i').replace(/ó/g, 'o').replace(/ú/g, 'u');
+
+const PRONOUNS = ['me', 'se', 'sela', 'selo', 'selas', 'selos', 'la', 'le', 'lo', 'las', 'les', 'los', 'nos'];
+const PRONOUN_HOSTS = ['iéndo', 'ándo', 'ár', 'ér', 'ír', 'ando', 'iendo', 'ar', 'er', 'ir', 'yendo'];
+
+const STANDARD_SUFFIXES = {
+  plain: ['anza', 'anzas', 'ico', 'ica', 'icos', 'icas', 'ismo', 'ismos', 'able', 'ables', 'ible', 'ibles', 'ista',
+    'istas', 'oso', 'osa', 'osos', 'osas', 'amiento', 'amientos', 'imiento', 'imientos'],
+  agent: ['adora', 'ador', 'ación', 'adoras', 'adores', 'aciones', 'ante', 'antes', 'ancia', 'ancias'],
+  logia: ['logía', 'logías'],
+  ucion: ['ución', 'uciones'],
+  encia: ['encia', 'encias'],
+  amente: ['amente'],
+  mente: ['mente'],
+  idad: ['idad', 'idades'],
+  iva: ['iva', 'ivo', 'ivas', 'ivos']
+};
+const ALL_STANDARD = Object.values(STANDARD_SUFFIXES).flat();
+
+const Y_VERB_SUFFIXES = ['ya', 'ye', 'yan', 'yen', 'yeron', 'yendo', 'yo', 'yó', 'yas', 'yes', 'yais', 'yamos'];
+const GU_VERB_SUFFIXES = ['en', 'es', 'éis', 'emos'];
+const VERB_SUFFIXES = [
+  'arían', 'arías', 'arán', 'arás', 'aríais', 'aría', 'aréis', 'aríamos', 'aremos', 'ará', 'aré', 'erían', 'erías',
+  'erán', 'erás', 'eríais', 'ería', 'eréis', 'eríamos', 'eremos', 'erá', 'eré', 'irían', 'irías', 'irán', 'irás',
+  'iríais', 'iría', 'iréis', 'iríamos', 'iremos', 'irá', 'iré', 'aba', 'ada', 'ida', 'ía', 'ara', 'iera', 'ad', 'ed',
+  'id', 'ase', 'iese', 'aste', 'iste', 'an', 'aban', 'ían', 'aran', 'ieran', 'asen', 'iesen', 'aron', 'ieron', 'ado',
+  'ido', 'ando', 'iendo', 'ió', 'ar', 'er', 'ir', 'as', 'abas', 'adas', 'idas', 'ías', 'aras', 'ieras', 'ases',
+  'ieses', 'ís', 'áis', 'abais', 'íais', 'arais', 'ierais', 'aseis', 'ieseis', 'asteis', 'isteis', 'ados', 'idos',
+  'amos', 'ábamos', 'íamos', 'imos', 'áramos', 'iéramos', 'iésemos', 'ásemos'
+];
+const RESIDUAL_SUFFIXES = ['os', 'a', 'o', 'á', 'í', 'ó', 'e', 'é'];
+
+// Step 1: derivational suffixes; returns the stemmed word, or null when nothing was removed
+function standardSuffix(word: string, r1: number, r2: number): string | null {
+  const suffix = longestSuffix(word, ALL_STANDARD);
+  if (!suffix) return null;
+  const start = word.length - suffix.length;
+  const inR2 = start >= r2;
+  let stem = word.slice(0, start);
+  const dropIfR2 = (ending: string) => {
+    if (stem.endsWith(ending) && stem.length - ending.length >= r2) stem = stem.slice(0, -ending.length);
+  };
+
+  if (STANDARD_SUFFIXES.plain.includes(suffix)) return inR2 ? stem : null;
+  if (STANDARD_SUFFIXES.agent.includes(suffix)) {
+    if (!inR2) return null;
+    dropIfR2('ic');
+    return stem;
+  }
+  if (STANDARD_SUFFIXES.logia.includes(suffix)) return inR2 ? `${stem}log` : null;
+  if (STANDARD_SUFFIXES.ucion.includes(suffix)) return inR2 ? `${stem}u` : null;
+  if (STANDARD_SUFFIXES.encia.includes(suffix)) return inR2 ? `${stem}ente` : null;
+  if (suffix === 'amente') {
+    if (start < r1) return null;
+    if (stem.endsWith('iv') && stem.length - 2 >= r2) {
+      stem = stem.slice(0, -2);
+      dropIfR2('at');
+    } else {
+      const preceding = longestSuffix(stem, ['os', 'ic', 'ad']);
+      if (preceding) dropIfR2(preceding);
+    }
+    return stem;
+  }
+  if (suffix === 'mente') {
+    if (!inR2) return null;
+    const preceding = longestSuffix(stem, ['ante', 'able', 'ible']);
+    if (preceding) dropIfR2(preceding);
+    return stem;
+  }
+  if (STANDARD_SUFFIXES.idad.includes(suffix)) {
+    if (!inR2) return null;
+    const preceding = longestSuffix(stem, ['abil', 'ic', 'iv']);
+    if (preceding) dropIfR2(preceding);
+    return stem;
+  }
+  // iva, ivo, ivas, ivos
+  if (!inR2) return null;
+  dropIfR2('at');
+  return stem;
+}
+
+export function stem(input: string): string {
+  let word = input.toLowerCase();
+  if (word.length < 3) return word;
+
+  const rv = rvStart(word);
+  const r1 = regionAfter(word, 0);
+  const r2 = regionAfter(word, r1);
+
+  // Step 0: attached pronouns ("gestionarlos" -> "gestionar")
+  const pronoun = longestSuffix(word, PRONOUNS);
+  if (pronoun) {
+    const before = word.slice(0, -pronoun.length);
+    const host = longestSuffix(before, PRONOUN_HOSTS, rv);
+    if (host && (host !== 'yendo' || before.slice(0, -host.length).endsWith('u'))) {
+      word = before.slice(0, -host.length) + removeAccents(host);
+    }
+  }
+
+  const standard = standardSuffix(word, r1, r2);
+  if (standard !== null) {
+    word = standard;
+  } else {
+    // Step 2a: verb endings starting with y, after a u
+    const ySuffix = longestSuffix(word, Y_VERB_SUFFIXES, rv);
+    if (ySuffix && word.slice(0, -ySuffix.length).endsWith('u')) {
+      word = word.slice(0, -ySuffix.length);
+    } else {
+      // Step 2b: other verb endings
+      const verbSuffix = longestSuffix(word, [...GU_VERB_SUFFIXES, ...VERB_SUFFIXES], rv);
+      if (verbSuffix) {
+        word = word.slice(0, -verbSuffix.length);
+        if (GU_VERB_SUFFIXES.includes(verbSuffix) && word.endsWith('gu')) word = word.slice(0, -1);
+      }
+    }
+  }
+
+  // Step 3: residual vowels
+  const residual = longestSuffix(word, RESIDUAL_SUFFIXES, rv);
+  if (residual) {
+    word = word.slice(0, -residual.length);
+    if ((residual === 'e' || residual === 'é') && word.endsWith('gu') && word.length - 1 >= rv) {
+      word = word.slice(0, -1);
+    }
+  }
+
+  return removeAccents(word);
+}
+
+// Every word of a text, lowercased, in order
+export function words(text: string): string[] {
+  return text.normalize('NFC').toLowerCase().match(/\p{L}+/gu) ?? [];
+}
+
+// Content words of a text with their stems; stopwords, numbers and one- and
+// two-letter words are dropped
+export function tokenize(text: string): Token[] {
+  return words(text)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    .map(word => ({ word, stem: stem(word) }));
+}
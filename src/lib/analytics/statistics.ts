@@ -0,0 +1,181 @@
+// Descriptive statistics for the dashboard: medians, spread, confidence
+// intervals and histograms. Intervals are 95% throughout.
+
+import type { ScoreSummary } from './types';
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+const Z_95 = 1.96;
+
+const BOOTSTRAP_ITERATIONS = 2000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Beyond 30 degrees of freedom the normal value is within 2% of t
+export function tCritical(degreesOfFreedom: number): number {
+  return T_CRITICAL_95[degreesOfFreedom - 1] ?? Z_95;
+}
+
+export function meanInterval(values: number[]): Interval | null {
+  if (values.length < 2) return null;
+  const margin = tCritical(values.length - 1) * standardDeviation(values) / Math.sqrt(values.length);
+  const average = mean(values);
+  return { low: average - margin, high: average + margin };
+}
+
+export function summarize(values: number[]): ScoreSummary {
+  const interval = meanInterval(values);
+  return {
+    n: values.length,
+    mean: round2(mean(values)),
+    median: round2(median(values)),
+    std_dev: round2(standardDeviation(values)),
+    ci_low: interval ? round2(interval.low) : null,
+    ci_high: interval ? round2(interval.high) : null
+  };
+}
+
+// Standard normal cumulative distribution, from the Abramowitz-Stegun
+// approximation of erf (error below 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export interface MannWhitneyResult {
+  // Pairs in which the value from b is higher than the one from a, ties counting half
+  u: number;
+  z: number;
+  // Two-sided
+  p_value: number;
+  // Rank-biserial correlation, -1 to 1; positive when b tends to be higher
+  effect_size: number;
+}
+
+// Mann-Whitney U test of two independent samples, with the normal approximation,
+// tie correction and continuity correction. Likert answers are ordinal, so this
+// is used instead of a t-test. Null below two values in either sample.
+export function mannWhitney(a: number[], b: number[]): MannWhitneyResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const combined = [...a.map(value => ({ value, fromB: false })), ...b.map(value => ({ value, fromB: true }))]
+    .sort((x, y) => x.value - y.value);
+  const total = combined.length;
+
+  // Average ranks over ties, and the tie correction term
+  let rankSumB = 0;
+  let ties = 0;
+  for (let start = 0; start < total;) {
+    let end = start;
+    while (end + 1 < total && combined[end + 1].value === combined[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    const tied = end - start + 1;
+    ties += tied ** 3 - tied;
+    for (let i = start; i <= end; i++) if (combined[i].fromB) rankSumB += rank;
+    start = end + 1;
+  }
+
+  const u = rankSumB - (b.length * (b.length + 1)) / 2;
+  const pairs = a.length * b.length;
+  const expected = pairs / 2;
+  const variance = (pairs / 12) * ((total + 1) - ties / (total * (total - 1)));
+  const z = variance > 0 ? (u - expected - 0.5 * Math.sign(u - expected)) / Math.sqrt(variance) : 0;
+
+  return {
+    u,
+    z: round2(z),
+    p_value: Math.round(Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) * 10000) / 10000,
+    effect_size: round2((2 * u) / pairs - 1)
+  };
+}
+
+// Holm-Bonferroni adjusted p-values, in the order given. The smallest p is
+// multiplied by the number of tests, the next by one less, and so on, never
+// dropping below an earlier one; comparing them with the significance level
+// keeps the chance of any false positive among all the tests at that level.
+export function holmAdjust(pValues: number[]): number[] {
+  const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(pValues.length);
+  let previous = 0;
+  order.forEach(({ p, index }, rank) => {
+    previous = Math.max(previous, Math.min(1, (pValues.length - rank) * p));
+    adjusted[index] = Math.round(previous * 10000) / 10000;
+  });
+  return adjusted;
+}
+
+// Count of each whole score from min to max; index 0 holds min
+export function histogram(values: number[], min = 1, max = 10): number[] {
+  const counts = new Array(max - min + 1).fill(0);
+  values.forEach(value => {
+    const bucket = Math.round(value) - min;
+    if (bucket >= 0 && bucket < counts.length) counts[bucket]++;
+  });
+  return counts;
+}
+
+// Small seeded generator (mulberry32) so bootstrap intervals are reproducible
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Percentile bootstrap of a statistic over independent samples: each sample is
+// resampled with replacement on its own, and the middle 95% of the results kept
+export function bootstrapInterval(
+  samples: number[][],
+  statistic: (resampled: number[][]) => number,
+  seed = 1
+): Interval | null {
+  if (samples.some(sample => sample.length < 2)) return null;
+  const random = seededRandom(seed);
+  const results: number[] = [];
+  for (let i = 0; i < BOOTSTRAP_ITERATIONS; i++) {
+    const resampled = samples.map(sample => sample.map(() => sample[Math.floor(random() * sample.length)]));
+    const value = statistic(resampled);
+    if (Number.isFinite(value)) results.push(value);
+  }
+  if (results.length === 0) return null;
+  return { low: quantile(results, 0.025), high: quantile(results, 0.975) };
+}
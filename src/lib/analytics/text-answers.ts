@@ -0,0 +1,95 @@
+// Free-text answers grouped by question for the text explorer, with the
+// themes they were coded with. Text is quoted verbatim, so a question only
+// lists its answers when enough people answered it under the current filters.
+
+import type { AnswerTheme, ResponseWithAnswers } from '@/lib/database-adapter';
+import { MIN_CELL_SIZE, canShowFreeText } from '@/lib/anonymity';
+
+export interface TextAnswerEntry {
+  id: number;
+  text: string;
+  target_role: string;
+  themes: number[];
+}
+
+export interface TextQuestionGroup {
+  question_id: number;
+  section: string;
+  question_text: string;
+  // Text answers to the question under the filters, before search and theme
+  answer_count: number;
+  // Answers per theme id, over the same answers as answer_count
+  theme_counts: Record<number, number>;
+  answers: TextAnswerEntry[];
+}
+
+export interface TextExplorerOptions {
+  codings: AnswerTheme[];
+  // Ids of the answers matching a full-text search; null lists every answer
+  matches?: Set<number> | null;
+  themeId?: number;
+  minCellSize?: number;
+}
+
+export interface TextExplorer {
+  questions: TextQuestionGroup[];
+  // Answers per theme id across the questions shown
+  themeCounts: Record<number, number>;
+  // Questions left out because too few people answered them
+  suppressedQuestions: number;
+}
+
+export function buildTextExplorer(responses: ResponseWithAnswers[], options: TextExplorerOptions): TextExplorer {
+  const { codings, matches = null, themeId, minCellSize = MIN_CELL_SIZE } = options;
+
+  const themesByAnswer = new Map<number, number[]>();
+  codings.forEach(({ answer_id, theme_id }) => {
+    themesByAnswer.set(answer_id, [...(themesByAnswer.get(answer_id) ?? []), theme_id]);
+  });
+
+  const groups = new Map<number, TextQuestionGroup & { all: TextAnswerEntry[] }>();
+  for (const response of responses) {
+    for (const answer of response.answers) {
+      const text = answer.answer_value?.trim();
+      if (answer.question.question_type !== 'text' || !text) continue;
+
+      let group = groups.get(answer.question_id);
+      if (!group) {
+        group = {
+          question_id: answer.question_id,
+          section: answer.question.section,
+          question_text: answer.question.question_text,
+          answer_count: 0,
+          theme_counts: {},
+          answers: [],
+          all: []
+        };
+        groups.set(answer.question_id, group);
+      }
+      group.all.push({ id: answer.id, text, target_role: response.target_role, themes: themesByAnswer.get(answer.id) ?? [] });
+    }
+  }
+
+  const questions: TextQuestionGroup[] = [];
+  const themeCounts: Record<number, number> = {};
+  let suppressedQuestions = 0;
+
+  for (const { all, ...group } of Array.from(groups.values())) {
+    if (!canShowFreeText(all.length, minCellSize)) {
+      suppressedQuestions++;
+      continue;
+    }
+
+    group.answer_count = all.length;
+    all.forEach(entry => entry.themes.forEach(id => {
+      group.theme_counts[id] = (group.theme_counts[id] ?? 0) + 1;
+      themeCounts[id] = (themeCounts[id] ?? 0) + 1;
+    }));
+    group.answers = all.filter(entry =>
+      (matches === null || matches.has(entry.id)) && (themeId === undefined || entry.themes.includes(themeId))
+    );
+    questions.push(group);
+  }
+
+  return { questions, themeCounts, suppressedQuestions };
+}
@@ -0,0 +1,235 @@
+// Recurring themes in open-text answers. Answers are reduced to stemmed words
+// and word pairs, weighted by TF-IDF and grouped with spherical k-means, so
+// "no encuentro los prospectos" and "perdemos prospectos" land together
+// without any keyword list. Deterministic: the same answers give the same themes.
+
+import { MIN_CELL_SIZE, canShowFreeText } from '@/lib/anonymity';
+import { tokenize } from './spanish';
+import type { RecurringTheme, TermFrequency, TextThemeAnalysis } from './types';
+
+export interface TextDocument {
+  questionId: number;
+  section: string;
+  text: string;
+  sentiment?: number | null;
+}
+
+export interface TopicOptions {
+  minCellSize?: number;
+}
+
+// A term must appear in this many answers to count as recurring
+const MIN_TERM_ANSWERS = 2;
+const MAX_THEMES = 8;
+const LABEL_TERMS = 3;
+const TOP_TERMS = 15;
+const EXAMPLES = 2;
+const EXAMPLE_LENGTH = 160;
+const MAX_ITERATIONS = 20;
+
+type Vector = Map<string, number>;
+
+interface ParsedDocument {
+  doc: TextDocument;
+  counts: Map<string, number>;
+}
+
+function dot(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((value, term) => {
+    sum += value * (large.get(term) ?? 0);
+  });
+  return sum;
+}
+
+function normalize(vector: Vector): Vector {
+  const length = Math.sqrt(dot(vector, vector));
+  if (length > 0) vector.forEach((value, term) => vector.set(term, value / length));
+  return vector;
+}
+
+function increment<K>(map: Map<K, number>, key: K, by = 1) {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+// Keys by descending count, ties in first-seen order
+function byCount<K>(counts: Map<K, number>): K[] {
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+}
+
+// Stems and stem pairs of one answer, counting how each was written
+function parse(doc: TextDocument, surfaces: Map<string, Map<string, number>>): ParsedDocument {
+  const tokens = tokenize(doc.text);
+  const counts = new Map<string, number>();
+  const add = (term: string, surface: string) => {
+    increment(counts, term);
+    if (!surfaces.has(term)) surfaces.set(term, new Map());
+    increment(surfaces.get(term)!, surface);
+  };
+
+  tokens.forEach((token, i) => {
+    add(token.stem, token.word);
+    const next = tokens[i + 1];
+    if (next && next.stem !== token.stem) add(`${token.stem} ${next.stem}`, `${token.word} ${next.word}`);
+  });
+  return { doc, counts };
+}
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > EXAMPLE_LENGTH ? `${clean.slice(0, EXAMPLE_LENGTH - 1).trimEnd()}…` : clean;
+}
+
+// Drops single words already covered by a chosen word pair ("prospect" after "gestion prospect")
+function distinctTerms(candidates: string[], limit: number): string[] {
+  const chosen: string[] = [];
+  for (const term of candidates) {
+    const words = term.split(' ');
+    const covered = chosen.some(other => {
+      const otherWords = other.split(' ');
+      return words.every(word => otherWords.includes(word)) || otherWords.every(word => words.includes(word));
+    });
+    if (!covered) chosen.push(term);
+    if (chosen.length === limit) break;
+  }
+  return chosen;
+}
+
+// Farthest-first seeding: start from the answer closest to everything, then
+// keep adding the answer least similar to the seeds chosen so far
+function seedCentroids(vectors: Vector[], k: number): Vector[] {
+  const total: Vector = new Map();
+  vectors.forEach(vector => vector.forEach((value, term) => increment(total, term, value)));
+  normalize(total);
+
+  let first = 0;
+  vectors.forEach((vector, i) => {
+    if (dot(vector, total) > dot(vectors[first], total)) first = i;
+  });
+  const seeds = [vectors[first]];
+  const closest = vectors.map(vector => dot(vector, vectors[first]));
+
+  while (seeds.length < k) {
+    let next = -1;
+    closest.forEach((similarity, i) => {
+      if (similarity < 0.999 && (next === -1 || similarity < closest[next])) next = i;
+    });
+    if (next === -1) break;
+    seeds.push(vectors[next]);
+    vectors.forEach((vector, i) => {
+      closest[i] = Math.max(closest[i], dot(vector, vectors[next]));
+    });
+  }
+  return seeds.map(seed => new Map(seed));
+}
+
+// Spherical k-means; returns the cluster of each vector, -1 when it shares no term with any
+function cluster(vectors: Vector[], k: number): { assignments: number[]; centroids: Vector[] } {
+  let centroids = seedCentroids(vectors, k);
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => {
+      let best = -1;
+      let bestSimilarity = 0;
+      centroids.forEach((centroid, c) => {
+        const similarity = dot(vector, centroid);
+        if (similarity > bestSimilarity) {
+          best = c;
+          bestSimilarity = similarity;
+        }
+      });
+      return best;
+    });
+
+    const changed = next.some((c, i) => c !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    centroids = centroids.map((_, c) => {
+      const centroid: Vector = new Map();
+      vectors.forEach((vector, i) => {
+        if (assignments[i] === c) vector.forEach((value, term) => increment(centroid, term, value));
+      });
+      return normalize(centroid);
+    });
+  }
+  return { assignments, centroids };
+}
+
+export function extractTextThemes(documents: TextDocument[], options: TopicOptions = {}): TextThemeAnalysis {
+  const minCellSize = options.minCellSize ?? MIN_CELL_SIZE;
+  const surfaces = new Map<string, Map<string, number>>();
+  const parsed = documents.map(doc => parse(doc, surfaces)).filter(item => item.counts.size > 0);
+
+  const answerCounts = new Map<string, number>();
+  parsed.forEach(item => item.counts.forEach((_, term) => increment(answerCounts, term)));
+  const vocabulary = new Set(Array.from(answerCounts.keys()).filter(term => answerCounts.get(term)! >= MIN_TERM_ANSWERS));
+  const label = (term: string) => byCount(surfaces.get(term)!)[0];
+
+  const top_terms: TermFrequency[] = distinctTerms(byCount(new Map(
+    Array.from(vocabulary).map(term => [term, answerCounts.get(term)!])
+  )), TOP_TERMS).map(term => ({ term: label(term), count: answerCounts.get(term)! }));
+
+  // TF-IDF over the recurring terms; answers without one cannot join a theme
+  const idf = (term: string) => Math.log((1 + parsed.length) / (1 + answerCounts.get(term)!)) + 1;
+  const weighted = parsed
+    .map(item => {
+      const vector: Vector = new Map();
+      item.counts.forEach((count, term) => {
+        if (vocabulary.has(term)) vector.set(term, count * idf(term));
+      });
+      return { item, vector: normalize(vector) };
+    })
+    .filter(entry => entry.vector.size > 0);
+
+  const result: TextThemeAnalysis = { analyzed_answers: parsed.length, themes: [], top_terms };
+  if (weighted.length < MIN_TERM_ANSWERS) return result;
+
+  const k = Math.min(MAX_THEMES, Math.max(1, Math.round(Math.sqrt(weighted.length))));
+  const { assignments, centroids } = cluster(weighted.map(entry => entry.vector), k);
+
+  centroids.forEach((centroid, c) => {
+    const members = weighted.filter((_, i) => assignments[i] === c);
+    if (members.length < MIN_TERM_ANSWERS) return;
+
+    // Label with the heaviest terms that more than one member uses
+    const memberCounts = new Map<string, number>();
+    members.forEach(({ vector }) => vector.forEach((_, term) => increment(memberCounts, term)));
+    const shared = byCount(centroid).filter(term => (memberCounts.get(term) ?? 0) >= MIN_TERM_ANSWERS);
+    if (shared.length === 0) return;
+    const terms = distinctTerms(shared, LABEL_TERMS).map(label);
+
+    const sentiments = members
+      .map(({ item: { doc } }) => doc.sentiment)
+      .filter((score): score is number => typeof score === 'number');
+    const questions = new Map<number, number>();
+    const sections = new Map<string, number>();
+    members.forEach(({ item: { doc } }) => {
+      increment(questions, doc.questionId);
+      increment(sections, doc.section);
+    });
+
+    result.themes.push({
+      label: terms.join(' · '),
+      terms,
+      answer_count: members.length,
+      share: Math.round((members.length / parsed.length) * 100),
+      question_ids: byCount(questions),
+      sections: byCount(sections),
+      avg_sentiment: sentiments.length > 0
+        ? Math.round((sentiments.reduce((sum, score) => sum + score, 0) / sentiments.length) * 100) / 100
+        : null,
+      examples: canShowFreeText(members.length, minCellSize)
+        ? [...members]
+            .sort((a, b) => dot(b.vector, centroid) - dot(a.vector, centroid))
+            .slice(0, EXAMPLES)
+            .map(({ item }) => excerpt(item.doc.text))
+        : []
+    });
+  });
+
+  result.themes.sort((a, b) => b.answer_count - a.answer_count);
+  return result;
+}
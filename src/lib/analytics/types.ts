@@ -0,0 +1,350 @@
+// Results of the analytics engine. Field names are snake_case because they are
+// sent to the dashboard as-is.
+
+export interface ScoreSummary {
+  n: number;
+  mean: number;
+  median: number;
+  // Sample standard deviation; 0 with a single value
+  std_dev: number;
+  // 95% t-based interval of the mean; null below two values
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+// Spread of a score over respondents, each counting once with the mean of their answers
+export interface ScoreSpread {
+  median_score: number;
+  std_dev: number;
+  // 95% confidence interval of the average; null with a single respondent
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+export interface SectionStat extends ScoreSpread {
+  section: string;
+  avg_score: number;
+  response_count: number;
+  problem_indicators: number;
+  business_impact: number;
+  critical_issues: number;
+  // Mean sentiment of the section's text answers, -1 to 1; null without any
+  avg_sentiment: number | null;
+}
+
+export interface TeamStat extends ScoreSpread {
+  team: string;
+  performance_score: number;
+  pain_points: number;
+  strengths: number;
+  sample_size: number;
+  avg_completion_time: number;
+  critical_pain_points: number;
+  workflow_efficiency: number;
+  collaboration_quality: number;
+  avg_sentiment: number | null;
+}
+
+export interface MonthlyStat {
+  // YYYY-MM, or "YYYY-MM – YYYY-MM" when quiet months were merged
+  month: string;
+  avg_performance: number;
+  response_count: number;
+  issues_reported: number;
+  avg_completion_time: number;
+  business_impact: number;
+  avg_sentiment: number | null;
+}
+
+// Likert answers to one question
+export interface QuestionDistribution extends ScoreSummary {
+  question_id: number;
+  section: string;
+  question_text: string;
+  // Lowest score of the question's scale
+  min: number;
+  // Answers per score, from min up to the top of the scale
+  counts: number[];
+}
+
+// A score in two periods; the second is compared against the first
+export interface ScoreChange {
+  before: ScoreSummary;
+  after: ScoreSummary;
+  // Mean after minus mean before
+  delta: number;
+  // Two-sided Mann-Whitney U test of the two sets of scores
+  p_value: number;
+  // Rank-biserial correlation, -1 to 1; positive when scores went up
+  effect_size: number;
+  // p_value after the Holm correction over every section and question of the
+  // comparison; the overall score is a single test and keeps its p_value
+  adjusted_p_value: number;
+  // Adjusted p below 0.05
+  significant: boolean;
+}
+
+export interface SectionChange extends ScoreChange {
+  section: string;
+}
+
+export interface QuestionChange extends ScoreChange {
+  question_id: number;
+  section: string;
+  question_text: string;
+}
+
+// Likert scores of two periods or survey waves. Sections and the overall score
+// count each respondent once; questions compare the answers themselves.
+export interface PeriodComparison {
+  before_responses: number;
+  after_responses: number;
+  overall: ScoreChange | null;
+  sections: SectionChange[];
+  questions: QuestionChange[];
+  // Sections and questions left out because either period had too few answers
+  suppressedGroups: number;
+}
+
+export interface OptionCount {
+  option: string;
+  count: number;
+  // Percentage of the respondents; checkbox shares can add up to more than 100
+  share: number;
+}
+
+export interface RankingRow {
+  option: string;
+  // Borda count: with k options, first place earns k - 1 points and last place none
+  borda_points: number;
+  // Mean position among the respondents who ranked the option; null when nobody did
+  mean_rank: number | null;
+  first_places: number;
+  // Percentage of the respondents who ranked the option first
+  first_choice_share: number;
+  ranked_by: number;
+}
+
+export interface RankingAggregate {
+  respondents: number;
+  // Highest Borda count first
+  options: RankingRow[];
+  // pairwise[i][j]: percentage of respondents who put options[i] above options[j]
+  pairwise: number[][];
+}
+
+// Ranking answers to one question across the filtered responses
+export interface RankingSummary extends RankingAggregate {
+  question_id: number;
+  section: string;
+  question_text: string;
+}
+
+export interface AllocationRow {
+  category: string;
+  // Mean share given to the category; respondents who left it out count as 0
+  mean_percentage: number;
+}
+
+// Answers to one question, summarised as suits its type
+export type QuestionView =
+  | { kind: 'scale'; summary: ScoreSummary; min: number; counts: number[]; nps: NpsScore | null }
+  | { kind: 'choice'; options: OptionCount[] }
+  | { kind: 'ranking'; ranking: RankingAggregate }
+  | { kind: 'allocation'; categories: AllocationRow[] }
+  | { kind: 'text'; answers: string[] };
+
+export interface QuestionGroupView {
+  // "all", a role or a month ("YYYY-MM – YYYY-MM" when quiet months were merged)
+  group: string;
+  respondents: number;
+  view: QuestionView;
+}
+
+export type QuestionSplit = 'none' | 'role' | 'month';
+
+export interface QuestionDetail {
+  question: {
+    id: number;
+    survey_id: number;
+    section: string;
+    question_text: string;
+    question_type: string;
+    options: string[];
+  };
+  split: QuestionSplit;
+  // Null when too few people answered under the filters
+  overall: QuestionGroupView | null;
+  groups: QuestionGroupView[];
+  // Groups left out because they were under the minimum size
+  suppressedGroups: number;
+}
+
+export type IssueCategory =
+  | 'LOW_SATISFACTION'
+  | 'REVENUE_CRITICAL'
+  | 'PRODUCTIVITY_CRITICAL'
+  | 'SYSTEM_CRITICAL'
+  | 'TEXT_CRITICAL';
+
+export interface ProcessIssue {
+  question_id: number;
+  section: string;
+  question_text: string;
+  severity_score: number;
+  frequency: number;
+  issue_category: IssueCategory;
+}
+
+export interface BusinessMetrics {
+  systemEfficiency: {
+    workflowEffectiveness: number;
+    processOptimization: number;
+    taskCompletion: number;
+  };
+  operationalEfficiency: {
+    adminTimeRatio: number;
+    systemComplexity: number;
+    workflowEfficiency: number;
+  };
+  teamPerformance: {
+    managerEffectiveness: number;
+    salesProductivity: number;
+    collaborationQuality: number;
+  };
+}
+
+// Professional analytics insights specifically for coordinators and advisors
+export interface ProfessionalInsight {
+  category: 'CRITICAL' | 'OPPORTUNITY' | 'SUCCESS' | 'RECOMMENDATION';
+  title: string;
+  description: string;
+  impact: 'HIGH' | 'MEDIUM' | 'LOW';
+  actionRequired: boolean;
+  metrics?: { [key: string]: number | string };
+}
+
+// A group of open-text answers that talk about the same thing
+export interface RecurringTheme {
+  // Most distinctive terms of the group, as written in the answers
+  label: string;
+  terms: string[];
+  answer_count: number;
+  // Percentage of the analysed answers
+  share: number;
+  // Questions and sections the answers came from, most frequent first
+  question_ids: number[];
+  sections: string[];
+  // Mean sentiment of the answers, null when they were never scored
+  avg_sentiment: number | null;
+  // Representative excerpts, only when the group is large enough to quote
+  examples: string[];
+}
+
+export interface TermFrequency {
+  term: string;
+  // Answers using the term
+  count: number;
+}
+
+export interface TextThemeAnalysis {
+  analyzed_answers: number;
+  themes: RecurringTheme[];
+  top_terms: TermFrequency[];
+}
+
+// Net Promoter Score of a group of respondents
+export interface NpsScore {
+  respondents: number;
+  // Answers of 9-10, 7-8 and 0-6
+  promoters: number;
+  passives: number;
+  detractors: number;
+  // Percentage of promoters minus percentage of detractors, -100 to 100
+  nps: number;
+  // Half-width of the 95% interval, in NPS points; null with a single respondent
+  margin_of_error: number | null;
+}
+
+export interface NpsGroup extends NpsScore {
+  // Survey id, role, department or month ("YYYY-MM – YYYY-MM" when merged)
+  group: string;
+}
+
+// Groups with too few respondents are left out, and quiet months merged
+export interface NpsBreakdown {
+  overall: NpsScore | null;
+  by_survey: NpsGroup[];
+  by_role: NpsGroup[];
+  by_department: NpsGroup[];
+  by_month: NpsGroup[];
+}
+
+export interface NpsAnalysis {
+  nps: NpsBreakdown;
+  // Employee NPS, from questions tagged `enps`
+  enps: NpsBreakdown;
+}
+
+export type TrendDirection = 'Mejorando' | 'Declinando' | 'Estable' | 'Sin datos' | 'Datos insuficientes' | 'Error';
+
+export interface DetailedAnalytics {
+  sectionPerformance: SectionStat[];
+  teamAnalysis: TeamStat[];
+  performanceTrends: MonthlyStat[];
+  processIssues: ProcessIssue[];
+  criticalIssues: ProcessIssue[];
+  excellenceAreas: SectionStat[];
+  trendDirection: TrendDirection;
+  businessMetrics: BusinessMetrics;
+  // Themes found in the open-text answers
+  textThemes: TextThemeAnalysis;
+  // Reportable Likert questions, in survey order
+  questionDistributions: QuestionDistribution[];
+  npsAnalysis: NpsAnalysis;
+  // Reportable ranking questions, in survey order
+  rankingAnalysis: RankingSummary[];
+  // The latest month (or merged months) against the one before; null with fewer than two
+  recentChange: PeriodComparison | null;
+  // Groups left out or merged away because they were under the minimum size
+  suppressedGroups: number;
+}
+
+export interface ActionableInsights {
+  immediate_actions: string[];
+  strategic_recommendations: string[];
+  celebration_worthy: string[];
+  improvement_opportunities: string[];
+}
+
+// Headline figures from the adapter's stats queries, before any suppression
+export interface CompletionStats {
+  total_responses: number;
+  avg_response_time: number;
+  manager_responses: number;
+  sales_responses: number;
+}
+
+// Change of a tagged score, latest 90 days against the 90 before
+export interface MeasuredImprovement {
+  // Percent change of the average score
+  percent: number;
+  // 95% bootstrap interval of the change
+  ci_low: number;
+  ci_high: number;
+  current_respondents: number;
+  previous_respondents: number;
+}
+
+// Null where either period has too few respondents to compare
+export interface MeasuredImprovements {
+  efficiency: MeasuredImprovement | null;
+  productivity: MeasuredImprovement | null;
+  satisfaction: MeasuredImprovement | null;
+}
+
+export interface ImprovementMetrics {
+  efficiency_score: number;
+  productivity_score: number;
+  satisfaction_score: number;
+}
@@ -0,0 +1,72 @@
+/**
+ * Minimum group size for reported results (k-anonymity).
+ * Averages over a handful of people give away individual answers, so every
+ * group shown in analytics must hold at least ANALYTICS_MIN_CELL_SIZE
+ * responses (5 by default). Smaller groups are suppressed, or merged with
+ * their neighbours where that keeps the result meaningful, such as months.
+ */
+
+const DEFAULT_MIN_CELL_SIZE = 5;
+
+function readMinCellSize(): number {
+  const configured = parseInt(process.env.ANALYTICS_MIN_CELL_SIZE || '');
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_MIN_CELL_SIZE;
+}
+
+export const MIN_CELL_SIZE = readMinCellSize();
+
+export function isReportable(responseCount: number, minSize = MIN_CELL_SIZE): boolean {
+  return responseCount >= minSize;
+}
+
+// Two overlapping groups shown side by side give away whoever is in only one of
+// them: the rest cancels out of the difference. Each group's own members must
+// be none, when the groups are the same, or at least minSize.
+export function isReportableDifference(a: Iterable<number>, b: Iterable<number>, minSize = MIN_CELL_SIZE): boolean {
+  const first = new Set(a);
+  const second = new Set(b);
+  const onlyFirst = Array.from(first).filter(id => !second.has(id)).length;
+  const onlySecond = Array.from(second).filter(id => !first.has(id)).length;
+  return [onlyFirst, onlySecond].every(count => count === 0 || isReportable(count, minSize));
+}
+
+// Free-text answers are quoted verbatim, so they need as many respondents as any other cell
+export const canShowFreeText = isReportable;
+
+export interface Suppressed<T> {
+  cells: T[];
+  suppressed: number;
+}
+
+// Drop the cells with fewer than minSize responses
+export function suppressSmallCells<T>(cells: T[], sizeOf: (cell: T) => number, minSize = MIN_CELL_SIZE): Suppressed<T> {
+  const kept = cells.filter(cell => isReportable(sizeOf(cell), minSize));
+  return { cells: kept, suppressed: cells.length - kept.length };
+}
+
+// Combine consecutive cells until each holds minSize responses; a short tail
+// joins the last full cell. Everything is suppressed when even the total is short.
+export function mergeSmallCells<T>(
+  cells: T[],
+  sizeOf: (cell: T) => number,
+  merge: (a: T, b: T) => T,
+  minSize = MIN_CELL_SIZE
+): Suppressed<T> {
+  const merged: T[] = [];
+  let pending: T | null = null;
+
+  for (const cell of cells) {
+    pending = pending === null ? cell : merge(pending, cell);
+    if (isReportable(sizeOf(pending), minSize)) {
+      merged.push(pending);
+      pending = null;
+    }
+  }
+
+  if (pending !== null) {
+    if (merged.length === 0) return { cells: [], suppressed: cells.length };
+    merged.push(merge(merged.pop()!, pending));
+  }
+
+  return { cells: merged, suppressed: 0 };
+}
@@ -0,0 +1,279 @@
+/**
+ * Answer validation shared by the survey UI and the submit API.
+ * Rules come from the question definition (type, options, validation_rules),
+ * so the browser and the server always agree on what a valid answer is.
+ */
+
+import type { Question } from './questions';
+import { getVisibleQuestions, toAnswerValues, type ConditionalQuestion } from './question-conditions';
+
+export type AnswerErrorCode =
+  | 'required'
+  | 'word_limit'
+  | 'out_of_range'
+  | 'invalid_option'
+  | 'invalid_format'
+  | 'sum_to_100'
+  | 'duplicate_rank'
+  | 'incomplete_ranking';
+
+export interface AnswerValidationError {
+  code: AnswerErrorCode;
+  message: string;
+}
+
+export interface QuestionValidationError extends AnswerValidationError {
+  questionId: number;
+}
+
+type ValidationRules = NonNullable<Question['validation_rules']>;
+
+// Question as stored in the database (JSON strings) or as served by the API (parsed)
+export interface ValidatableQuestion extends ConditionalQuestion {
+  question_type: Question['question_type'];
+  is_required: boolean | number;
+  options?: string | string[] | null;
+  validation_rules?: string | ValidationRules | object | null;
+}
+
+// Categories the percentage renderer falls back to when a question has no options
+export const DEFAULT_PERCENTAGE_CATEGORIES = ['Data Entry', 'Selling', 'Other'];
+
+export function parseQuestionOptions(question: Pick<ValidatableQuestion, 'options'>): string[] {
+  if (!question.options) return [];
+  if (Array.isArray(question.options)) return question.options;
+  try {
+    const parsed = JSON.parse(question.options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing question options:', error, 'Raw options:', question.options);
+    return [];
+  }
+}
+
+export function parseValidationRules(question: Pick<ValidatableQuestion, 'validation_rules'>): ValidationRules {
+  if (!question.validation_rules) return {};
+  if (typeof question.validation_rules === 'object' && !Array.isArray(question.validation_rules)) {
+    return question.validation_rules as ValidationRules;
+  }
+  if (typeof question.validation_rules === 'string') {
+    try {
+      return JSON.parse(question.validation_rules);
+    } catch (error) {
+      console.error('Error parsing validation rules:', error, 'Raw rules:', question.validation_rules);
+      return {};
+    }
+  }
+  return {};
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+const invalidFormat: AnswerValidationError = { code: 'invalid_format', message: 'Formato de respuesta inválido' };
+
+// Scale answers are plain whole numbers; Number() alone would also take '0x5' or '5e0'
+const WHOLE_NUMBER = /^-?\d+$/;
+
+// Only points on the scale pass: whole numbers from min to max, `step` apart
+function validateLikert(value: string, rules: ValidationRules): AnswerValidationError | null {
+  const min = rules.min ?? 1;
+  const max = rules.max ?? 10;
+  const step = rules.step ?? 1;
+  const numValue = WHOLE_NUMBER.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(numValue) || numValue < min || numValue > max || (numValue - min) % step !== 0) {
+    return {
+      code: 'out_of_range',
+      message: step > 1
+        ? `Por favor elija un valor de la escala entre ${min} y ${max}, de ${step} en ${step}`
+        : `Por favor ingrese un valor entre ${min} y ${max}`
+    };
+  }
+  return null;
+}
+
+// Net Promoter Score: how likely, from 0 to 10, the respondent is to recommend
+function validateNps(value: string): AnswerValidationError | null {
+  const numValue = WHOLE_NUMBER.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(numValue) || numValue < 0 || numValue > 10) {
+    return { code: 'out_of_range', message: 'Por favor elija un valor entre 0 y 10' };
+  }
+  return null;
+}
+
+function validateText(value: string, rules: ValidationRules): AnswerValidationError | null {
+  if (rules.word_limit) {
+    const wordCount = value.trim().split(/\s+/).length;
+    if (wordCount > rules.word_limit) {
+      return { code: 'word_limit', message: `Por favor limite a ${rules.word_limit} palabras (actual: ${wordCount})` };
+    }
+  }
+  return null;
+}
+
+function validateMultipleChoice(value: string, options: string[]): AnswerValidationError | null {
+  if (options.length > 0 && !options.includes(value)) {
+    return { code: 'invalid_option', message: 'Seleccione una opción válida' };
+  }
+  return null;
+}
+
+function validateCheckbox(value: string, options: string[]): AnswerValidationError | null {
+  const selected = parseJson(value);
+  if (!Array.isArray(selected) || selected.some(item => typeof item !== 'string')) {
+    return invalidFormat;
+  }
+  if (new Set(selected).size !== selected.length) {
+    return invalidFormat;
+  }
+  if (options.length > 0 && selected.some(item => !options.includes(item))) {
+    return { code: 'invalid_option', message: 'Seleccione opciones válidas' };
+  }
+  return null;
+}
+
+function validatePercentage(value: string, options: string[], rules: ValidationRules): AnswerValidationError | null {
+  const allocation = parseJson(value);
+  if (!allocation || typeof allocation !== 'object' || Array.isArray(allocation)) {
+    return invalidFormat;
+  }
+
+  const categories = options.length > 0 ? options : DEFAULT_PERCENTAGE_CATEGORIES;
+  const entries = Object.entries(allocation as Record<string, unknown>);
+
+  if (entries.some(([category]) => !categories.includes(category))) {
+    return { code: 'invalid_option', message: 'Categoría de porcentaje inválida' };
+  }
+  if (entries.some(([, amount]) => typeof amount !== 'number' || isNaN(amount) || amount < 0 || amount > 100)) {
+    return { code: 'out_of_range', message: 'Ingrese porcentajes entre 0 y 100' };
+  }
+
+  if (rules.sum_to_100) {
+    const total = entries.reduce((sum, [, amount]) => sum + (amount as number), 0);
+    // Allow for small floating point errors
+    if (Math.abs(total - 100) >= 0.01) {
+      return { code: 'sum_to_100', message: `Los porcentajes deben sumar 100% (actual: ${Math.round(total * 10) / 10}%)` };
+    }
+  }
+  return null;
+}
+
+function validateRanking(value: string, options: string[], isRequired: boolean): AnswerValidationError | null {
+  const rankings = parseJson(value);
+  if (!rankings || typeof rankings !== 'object' || Array.isArray(rankings)) {
+    return invalidFormat;
+  }
+
+  const entries = Object.entries(rankings as Record<string, unknown>);
+  const maxRank = options.length || entries.length;
+
+  if (options.length > 0 && entries.some(([option]) => !options.includes(option))) {
+    return { code: 'invalid_option', message: 'Opción de clasificación inválida' };
+  }
+  if (entries.some(([, rank]) => !Number.isInteger(rank) || (rank as number) < 1 || (rank as number) > maxRank)) {
+    return { code: 'out_of_range', message: `Las posiciones deben estar entre 1 y ${maxRank}` };
+  }
+
+  const ranks = entries.map(([, rank]) => rank as number);
+  if (new Set(ranks).size !== ranks.length) {
+    return { code: 'duplicate_rank', message: 'Cada posición solo puede asignarse a una opción' };
+  }
+
+  if (isRequired && options.length > 0 && entries.length < options.length) {
+    return { code: 'incomplete_ranking', message: `Clasifique todas las opciones (${entries.length} de ${options.length})` };
+  }
+  return null;
+}
+
+// Validate a single answer value against its question definition
+export function validateAnswer(question: ValidatableQuestion, value: string | null | undefined): AnswerValidationError | null {
+  const isRequired = Boolean(question.is_required);
+  const trimmed = (value ?? '').trim();
+
+  if (!trimmed) {
+    return isRequired ? { code: 'required', message: 'Este campo es requerido' } : null;
+  }
+
+  const options = parseQuestionOptions(question);
+  const rules = parseValidationRules(question);
+
+  switch (question.question_type) {
+    case 'likert':
+      return validateLikert(trimmed, rules);
+    case 'nps':
+      return validateNps(trimmed);
+    case 'text':
+      return validateText(trimmed, rules);
+    case 'multiple_choice':
+      return validateMultipleChoice(trimmed, options);
+    case 'checkbox':
+      return validateCheckbox(trimmed, options);
+    case 'percentage':
+      return validatePercentage(trimmed, options, rules);
+    case 'ranking':
+      return validateRanking(trimmed, options, isRequired);
+    default:
+      return null;
+  }
+}
+
+// Numeric value stored alongside a scale answer. It is derived from the value
+// itself rather than taken from the client, so analytics can only ever see a
+// validated scale point; other question types and invalid values get none.
+export function toAnswerNumeric(question: ValidatableQuestion | undefined, value: string | null | undefined): number | null {
+  if (!question || (question.question_type !== 'likert' && question.question_type !== 'nps')) return null;
+  const trimmed = (value ?? '').trim();
+  if (!trimmed || validateAnswer(question, trimmed)) return null;
+  return Number(trimmed);
+}
+
+// Optional self-rated confidence in an answer, on the default 1-10 scale
+export const CONFIDENCE_SCORE_MIN = 1;
+export const CONFIDENCE_SCORE_MAX = 10;
+
+export function isValidConfidenceScore(score: unknown): boolean {
+  return score == null || (Number.isInteger(score) && (score as number) >= CONFIDENCE_SCORE_MIN && (score as number) <= CONFIDENCE_SCORE_MAX);
+}
+
+// Whether a submitted answer has a question id and a string value; anything
+// else is rejected before the value is validated against its question
+export function isWellFormedAnswer(answer: unknown): boolean {
+  if (typeof answer !== 'object' || answer === null) return false;
+  const { questionId, value } = answer as Record<string, unknown>;
+  return Number.isInteger(questionId) && typeof value === 'string';
+}
+
+// Question ids answered more than once in the same request
+export function findDuplicateQuestionIds(answers: { questionId: number }[]): number[] {
+  const seen = new Set<number>();
+  const duplicates = new Set<number>();
+  answers.forEach(answer => {
+    if (seen.has(answer.questionId)) duplicates.add(answer.questionId);
+    seen.add(answer.questionId);
+  });
+  return Array.from(duplicates);
+}
+
+// Validate a full submission: every answer, plus required questions left unanswered.
+// Questions hidden by their display condition are skipped.
+export function validateSubmission(
+  questions: ValidatableQuestion[],
+  answers: { questionId: number; value: string | null }[]
+): QuestionValidationError[] {
+  const errors: QuestionValidationError[] = [];
+  const answerValues = toAnswerValues(answers);
+
+  for (const question of getVisibleQuestions(questions, answerValues)) {
+    const error = validateAnswer(question, answerValues[question.id]);
+    if (error) {
+      errors.push({ questionId: question.id, ...error });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,155 @@
+/**
+ * Sign-in and sessions.
+ * Users sign in through a single-use link emailed to the address stored in the
+ * users table. The session is kept in a cookie holding the user's identity and
+ * an HMAC signature, so it can be checked without a database round trip.
+ * Only Web Crypto is used, which keeps this module usable from middleware.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+export type UserRole = 'admin' | 'manager' | 'sales';
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  department: string | null;
+  // Set for sessions opened from an invitation link: they only reach that survey
+  surveyId?: number;
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number; // seconds since epoch
+}
+
+export const SESSION_COOKIE = 'feedback_session';
+export const SESSION_MAX_AGE = 60 * 60 * 12; // 12 hours
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+const encoder = new TextEncoder();
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  return 'development-only-auth-secret';
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function sign(value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value))));
+}
+
+// Compare without returning early so the time taken does not leak the signature
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Random token for a sign-in link; only its hash is stored
+export function generateToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Only same-site paths are followed after signing in, never other hosts
+export function safeRedirectPath(value: unknown): string | null {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.includes('\\')
+    ? value
+    : null;
+}
+
+// Pick the fields of a users row that the session carries
+export function toSessionUser(user: any): SessionUser {
+  return {
+    id: Number(user.id),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    department: user.department ?? null
+  };
+}
+
+// Whether the user may answer a survey; invitation sessions are limited to theirs
+export function isSurveyInScope(user: SessionUser, surveyId: number): boolean {
+  return user.surveyId === undefined || user.surveyId === surveyId;
+}
+
+// Analytics filters as the user may run them. Managers only ever see responses
+// from users of their own department, whatever department they asked for.
+// Null for a manager without a department, who may not see analytics at all.
+export function resolveAnalyticsScope<F extends { department?: string }>(user: SessionUser, requested: F): F | null {
+  if (user.role !== 'manager') return requested;
+  if (!user.department) return null;
+  return { ...requested, department: user.department };
+}
+
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const payload: SessionPayload = { ...user, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE };
+  const encoded = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  return `${encoded}.${await sign(encoded)}`;
+}
+
+// Returns the signed-in user, or null for a missing, tampered or expired token
+export async function verifySessionToken(token: string | undefined): Promise<SessionUser | null> {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature || !safeEqual(signature, await sign(encoded))) return null;
+
+  try {
+    const { exp, ...user }: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+    if (typeof exp !== 'number' || exp < Date.now() / 1000) return null;
+    return user;
+  } catch {
+    return null;
+  }
+}
+
+export async function getSession(request: NextRequest): Promise<SessionUser | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export async function setSessionCookie(response: NextResponse, user: SessionUser): Promise<void> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
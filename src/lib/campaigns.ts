@@ -0,0 +1,64 @@
+/**
+ * Survey campaigns.
+ * A campaign sends one survey to a chosen set of users. Every recipient gets a
+ * personal link with a random token; only its hash is stored, so links cannot
+ * be recovered from the database and a lost one means inviting the user again.
+ */
+
+import type { MailMessage } from './mailer';
+import type { ParseResult } from './survey-authoring';
+
+export interface CampaignPayload {
+  surveyId: number;
+  name: string;
+  userIds: number[];
+}
+
+export type InvitationStatus = 'invited' | 'opened' | 'started' | 'completed';
+
+export function parseCampaignPayload(body: any): ParseResult<CampaignPayload | null> {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(body.survey_id)) errors.push('survey_id must be an integer');
+  if (typeof body.name !== 'string' || body.name.trim().length === 0) errors.push('name is required');
+
+  const userIds = body.user_ids;
+  if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(Number.isInteger)) {
+    errors.push('user_ids must be a non-empty list of user ids');
+  } else if (new Set(userIds).size !== userIds.length) {
+    errors.push('user_ids must be unique');
+  }
+
+  return {
+    data: errors.length === 0 ? { surveyId: body.survey_id, name: body.name.trim(), userIds } : null,
+    errors
+  };
+}
+
+export function getInvitationStatus(recipient: { opened_at: string | null; started_at: string | null; completed_at: string | null }): InvitationStatus {
+  if (recipient.completed_at) return 'completed';
+  if (recipient.started_at) return 'started';
+  if (recipient.opened_at) return 'opened';
+  return 'invited';
+}
+
+export function buildInvitationEmail(
+  recipient: { email: string; name: string },
+  survey: { name: string },
+  link: string
+): MailMessage {
+  return {
+    to: recipient.email,
+    subject: `Invitación: ${survey.name}`,
+    text: [
+      `Hola ${recipient.name},`,
+      '',
+      `Le invitamos a responder la encuesta "${survey.name}". Sus respuestas nos ayudan a mejorar nuestros procesos de admisión.`,
+      '',
+      'Use su enlace personal para comenzar:',
+      link,
+      '',
+      'El enlace es personal; por favor no lo comparta. Podrá elegir responder de forma anónima antes de comenzar.'
+    ].join('\n')
+  };
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AnalyticsFilter } from './database-adapter';
+import { analyticsFixture, loadIntoSQLite, withBulkResponses } from '@/test/analytics-fixture';
+import type { Tables } from '@/test/fake-supabase';
+
+// The rows the Supabase client is created over; the fixture unless a test swaps them
+const supabaseRows = vi.hoisted(() => ({ tables: null as Tables | null }));
+
+// Supabase mode reads the same fixture through an in-memory client
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabase } = await import('@/test/fake-supabase');
+  const { analyticsFixture } = await import('@/test/analytics-fixture');
+  return { createClient: () => createFakeSupabase(supabaseRows.tables ?? analyticsFixture) };
+});
+
+type Backend = Awaited<ReturnType<typeof loadBackend>>;
+
+// The adapter and report loader of one database type. The adapter picks its
+// database when the module loads, so each backend gets fresh modules.
+async function loadBackend(databaseType: 'sqlite' | 'supabase') {
+  vi.resetModules();
+  vi.stubEnv('DATABASE_TYPE', databaseType);
+  const { databaseAdapter } = await import('./database-adapter');
+  const { loadAnalyticsReport } = await import('./analytics-report');
+  return { databaseAdapter, loadAnalyticsReport };
+}
+
+const FILTERS: [string, AnalyticsFilter][] = [
+  ['no filters', {}],
+  ['a survey', { surveyId: 2 }],
+  ['a survey version', { surveyId: 1, version: 1 }],
+  ['a role', { role: 'manager' }],
+  ['a department', { department: 'Sales' }],
+  ['a date range', { from: '2024-02-01', to: '2024-03-15' }],
+  ['some sections', { sections: ['Eficiencia', 'Comentarios'] }],
+  ['filters that match nothing', { department: 'Finance' }]
+];
+
+describe('SQLite and Supabase parity', () => {
+  let sqlite: Backend;
+  let supabase: Backend;
+  let db: Awaited<typeof import('./database')>['db'];
+
+  beforeAll(async () => {
+    sqlite = await loadBackend('sqlite');
+    ({ db } = await import('./database'));
+    // A new database seeds its questions in the background; let it finish first
+    await vi.waitFor(() => {
+      expect((db.prepare('SELECT COUNT(*) as count FROM questions').get() as { count: number }).count).toBeGreaterThan(0);
+    });
+    loadIntoSQLite(db);
+    // Loads the database into this adapter before the modules are reset
+    await sqlite.databaseAdapter.getResponsesWithAnswers();
+
+    supabase = await loadBackend('supabase');
+    // The report is stamped with the time it was built
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-04-02T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('loads every completed response with answers from the fixture', async () => {
+    const responses = await sqlite.databaseAdapter.getResponsesWithAnswers();
+    const completed = analyticsFixture.responses.filter(response => response.is_complete);
+
+    expect(responses.map(response => response.id).sort()).toEqual(completed.map(response => response.id).sort());
+    expect(responses.find(response => response.id === 103)).toMatchObject({ user_id: null, is_anonymous: true, department: null });
+  });
+
+  it.each(FILTERS)('returns the same responses with %s', async (_, filter) => {
+    const expected = await sqlite.databaseAdapter.getResponsesWithAnswers(filter);
+    expect(await supabase.databaseAdapter.getResponsesWithAnswers(filter)).toStrictEqual(expected);
+  });
+
+  it.each(FILTERS)('builds the same dashboard with %s', async (_, filter) => {
+    const expected = await sqlite.loadAnalyticsReport(filter);
+    expect(await supabase.loadAnalyticsReport(filter)).toStrictEqual(expected);
+  });
+
+  it('looks up the same context for every answer', async () => {
+    const answerIds = [...analyticsFixture.answers.map(answer => answer.id), 9999];
+    for (const answerId of answerIds) {
+      const expected = await sqlite.databaseAdapter.getAnswerContext(answerId);
+      expect(await supabase.databaseAdapter.getAnswerContext(answerId)).toStrictEqual(expected);
+    }
+
+    const draftAnswer = analyticsFixture.answers.find(answer => answer.response_id === 122)!;
+    const anonymousAnswer = analyticsFixture.answers.find(answer => answer.response_id === 103 && answer.question_id === 14)!;
+    expect(await sqlite.databaseAdapter.getAnswerContext(draftAnswer.id)).toMatchObject({ is_complete: false, department: 'Sales' });
+    expect(await sqlite.databaseAdapter.getAnswerContext(anonymousAnswer.id)).toEqual({
+      id: anonymousAnswer.id,
+      question_type: 'text',
+      is_complete: true,
+      department: null
+    });
+    expect(await sqlite.databaseAdapter.getAnswerContext(9999)).toBeNull();
+  });
+
+  it('builds the detailed dashboard from the fixture', async () => {
+    const report = await sqlite.loadAnalyticsReport({});
+
+    expect(report.sectionPerformance.map(section => section.section)).toContain('Eficiencia');
+    expect(report.efficiencyMetrics.map(team => team.team).sort()).toEqual(['manager', 'sales']);
+    expect(report.performanceTrends.length).toBeGreaterThan(1);
+    expect(report.rankingAnalysis).toHaveLength(1);
+    expect(report.npsAnalysis.nps.overall?.respondents).toBe(12);
+  });
+
+  // PostgREST returns at most 1000 rows per request
+  describe('with more rows than one Supabase page', () => {
+    const bulk = withBulkResponses(1200);
+
+    beforeAll(async () => {
+      loadIntoSQLite(db, bulk);
+      supabaseRows.tables = bulk;
+      supabase = await loadBackend('supabase');
+    });
+
+    afterAll(() => {
+      supabaseRows.tables = null;
+    });
+
+    it('loads every completed response', async () => {
+      const responses = await supabase.databaseAdapter.getResponsesWithAnswers();
+      expect(responses).toHaveLength(bulk.responses.filter(response => response.is_complete).length);
+      expect(responses).toStrictEqual(await sqlite.databaseAdapter.getResponsesWithAnswers());
+    });
+
+    it.each([
+      ['no filters', {}],
+      ['a survey', { surveyId: 2 }],
+      ['a department', { department: 'Sales' }]
+    ] as [string, AnalyticsFilter][])('builds the same dashboard with %s', async (_, filter) => {
+      const expected = await sqlite.loadAnalyticsReport(filter);
+      expect(await supabase.loadAnalyticsReport(filter)).toStrictEqual(expected);
+    });
+  });
+});
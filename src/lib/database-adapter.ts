@@ -4,6 +4,10 @@
  */
 
 import { supabaseHelpers, initSupabaseDatabase } from './supabase';
+import { parseDisplayCondition } from './question-conditions';
+import type { QuestionType } from './questions';
+import type { ActionItemPriority, ActionItemStatus } from './action-items';
+import { dayAfter } from './analytics/filters';
 
 // Import SQLite database components
 let sqliteDb: any = null;
@@ -24,23 +28,292 @@ const DATABASE_TYPE = process.env.DATABASE_TYPE || 'sqlite'; // 'sqlite' or 'sup
 
 export const isUsingSupabase = DATABASE_TYPE === 'supabase';
 
+// Answer payload shared by batch answer operations
+export interface AnswerRecord {
+  questionId: number;
+  answerValue: string | null;
+  answerNumeric: number | null;
+  confidenceScore: number | null;
+  // Text answers only; drafts are stored without it and scored on submit
+  sentimentScore?: number | null;
+}
+
+// Everything needed to store a finished survey in one atomic step
+export interface SubmissionRecord {
+  surveyId: number;
+  userId: number | null;
+  // The signed-in user, even when the answers are anonymous, so only their own draft is picked up
+  respondentId: number;
+  sessionId: string;
+  isAnonymous: boolean;
+  startedAt: string;
+  responseTimeSeconds: number;
+  surveyVersion: number;
+  answers: AnswerRecord[];
+}
+
+export interface SubmissionResult {
+  responseId: number;
+  alreadySubmitted: boolean;
+}
+
+// Restricts analytics to one survey (optionally a single published version of it),
+// the surveys of one role, the responses of one department's users, a range of
+// completion dates (YYYY-MM-DD, inclusive) and/or the answers in some sections
+export interface AnalyticsFilter {
+  surveyId?: number;
+  version?: number;
+  role?: string;
+  department?: string;
+  from?: string;
+  to?: string;
+  sections?: string[];
+}
+
+// A precomputed analytics figure; value and filters are serialized JSON and the
+// figure is looked up by metric name and filters hash until it expires
+export interface CachedMetric {
+  metricName: string;
+  value: string;
+  filters: string;
+  filtersHash: string;
+  expiresAt: string;
+}
+
+// A completed response with its answers and the questions they belong to: the
+// input of the detailed analytics, in the same shape for both databases
+export interface ResponseWithAnswers {
+  id: number;
+  survey_id: number;
+  survey_version: number | null;
+  user_id: number | null;
+  is_anonymous: boolean;
+  target_role: string;
+  // Department of the respondent; null for anonymous responses
+  department: string | null;
+  completed_at: string;
+  response_time_seconds: number | null;
+  answers: AnalyticsAnswer[];
+}
+
+export interface AnalyticsAnswer {
+  id: number;
+  question_id: number;
+  answer_value: string | null;
+  answer_numeric: number | null;
+  confidence_score: number | null;
+  sentiment_score: number | null;
+  question: {
+    id: number;
+    section: string;
+    question_text: string;
+    question_type: QuestionType;
+    analysis_tags: string | null;
+    options: string | null;
+    validation_rules: string | null;
+  };
+}
+
+// Survey fields editable from the admin area
+export interface SurveyInput {
+  name: string;
+  description: string | null;
+  targetRole: string;
+  isActive: boolean;
+}
+
+// Question fields editable from the admin area; JSON columns are already serialized
+export interface QuestionInput {
+  section: string;
+  questionText: string;
+  questionType: QuestionType;
+  isRequired: boolean;
+  options: string | null;
+  validationRules: string | null;
+  displayCondition: string | null;
+  analysisTags: string | null;
+}
+
+// A campaign sends a survey to chosen users; each recipient carries the hash of
+// their invitation token, the token itself only goes out by email
+export interface CampaignInput {
+  surveyId: number;
+  name: string;
+  createdBy: number | null;
+}
+
+export interface CampaignRecipientInput {
+  userId: number;
+  tokenHash: string;
+}
+
+// Action item fields editable from the tracker
+export interface ActionItemInput {
+  title: string;
+  description: string | null;
+  priority: ActionItemPriority;
+  category: string | null;
+  assignedTo: number | null;
+  status: ActionItemStatus;
+  dueDate: string | null;
+  // Whose managers see the item; null for items only admins see
+  department: string | null;
+}
+
+// A theme free-text answers are coded with
+export interface TextThemeInput {
+  name: string;
+  description: string | null;
+}
+
+// One theme given to one answer
+export interface AnswerTheme {
+  answer_id: number;
+  theme_id: number;
+}
+
+// An answer with what decides who may code it: the type of its question,
+// whether its response was completed and the respondent's department (null
+// when anonymous)
+export interface AnswerContext {
+  id: number;
+  question_type: QuestionType;
+  is_complete: boolean;
+  department: string | null;
+}
+
+export interface TextAnswerRecord {
+  id: number;
+  answer_value: string;
+}
+
+export interface SentimentScore {
+  answerId: number;
+  score: number;
+}
+
+const surveyColumns: Record<keyof SurveyInput, string> = {
+  name: 'name',
+  description: 'description',
+  targetRole: 'target_role',
+  isActive: 'is_active'
+};
+
+const questionColumns: Record<keyof QuestionInput, string> = {
+  section: 'section',
+  questionText: 'question_text',
+  questionType: 'question_type',
+  isRequired: 'is_required',
+  options: 'options',
+  validationRules: 'validation_rules',
+  displayCondition: 'display_condition',
+  analysisTags: 'analysis_tags'
+};
+
+const actionItemColumns: Record<keyof ActionItemInput, string> = {
+  title: 'title',
+  description: 'description',
+  priority: 'priority',
+  category: 'category',
+  assignedTo: 'assigned_to',
+  status: 'status',
+  dueDate: 'due_date',
+  department: 'department'
+};
+
+const textThemeColumns: Record<keyof TextThemeInput, string> = {
+  name: 'name',
+  description: 'description'
+};
+
+// Map the provided fields of a partial update onto column names
+function toColumnValues<T extends object>(changes: Partial<T>, columns: Record<keyof T, string>): Record<string, any> {
+  const values: Record<string, any> = {};
+  (Object.keys(changes) as (keyof T)[]).forEach(key => {
+    if (changes[key] !== undefined && columns[key]) {
+      values[columns[key]] = changes[key];
+    }
+  });
+  return values;
+}
+
 // Unified interface for database operations
 export interface DatabaseAdapter {
   // User operations
   getUser(id: number): Promise<any>;
   getUserByEmail(email: string): Promise<any>;
+
+  // Sign-in links
+  createAuthToken(userId: number, tokenHash: string, expiresAt: string): Promise<void>;
+  consumeAuthToken(tokenHash: string): Promise<number | null>;
   
+  getActiveUsers(): Promise<any[]>;
+
+  // Campaigns and invitations
+  getCampaigns(): Promise<any[]>;
+  getCampaign(id: number): Promise<any>;
+  createCampaign(campaign: CampaignInput, recipients: CampaignRecipientInput[]): Promise<any>;
+  getCampaignRecipients(campaignId: number): Promise<any[]>;
+  getInvitation(tokenHash: string): Promise<any>;
+  markInvitationOpened(recipientId: number): Promise<void>;
+  markInvitationsStarted(userId: number, surveyId: number): Promise<void>;
+  markInvitationsCompleted(userId: number, surveyId: number): Promise<void>;
+
+  // Action items; status changes are recorded with the user who made them
+  getActionItems(): Promise<any[]>;
+  getActionItem(id: number): Promise<any>;
+  createActionItem(item: ActionItemInput, createdBy: number | null): Promise<any>;
+  updateActionItem(id: number, changes: Partial<ActionItemInput>, changedBy: number | null): Promise<any>;
+  getActionItemHistory(id: number): Promise<any[]>;
+
+  // Coding of free-text answers: themes, the themes given to each answer
+  // (replaced as a whole) and full-text search returning answer ids
+  getTextThemes(): Promise<any[]>;
+  getTextTheme(id: number): Promise<any>;
+  createTextTheme(theme: TextThemeInput, createdBy: number | null): Promise<any>;
+  updateTextTheme(id: number, changes: Partial<TextThemeInput>): Promise<any>;
+  deleteTextTheme(id: number): Promise<void>;
+  getAnswerThemes(): Promise<AnswerTheme[]>;
+  setAnswerThemes(answerId: number, themeIds: number[], codedBy: number | null): Promise<void>;
+  getAnswerContext(answerId: number): Promise<AnswerContext | null>;
+  searchAnswers(search: string): Promise<number[]>;
+
+  // Sentiment of text answers: the answers to (re)score and their new scores
+  getTextAnswers(unscoredOnly: boolean): Promise<TextAnswerRecord[]>;
+  setSentimentScores(scores: SentimentScore[]): Promise<void>;
+
   // Survey operations
   getSurvey(id: number): Promise<any>;
   getSurveysByRole(role: string): Promise<any[]>;
   getQuestionsBySurvey(surveyId: number): Promise<any[]>;
+  getAllSurveys(): Promise<any[]>;
+  createSurvey(survey: SurveyInput): Promise<any>;
+  updateSurvey(id: number, changes: Partial<SurveyInput>): Promise<any>;
+  deleteSurvey(id: number): Promise<void>;
+  countResponsesBySurvey(surveyId: number): Promise<number>;
+
+  // Question authoring
+  getQuestion(id: number): Promise<any>;
+  createQuestion(surveyId: number, question: QuestionInput): Promise<any>;
+  updateQuestion(id: number, changes: Partial<QuestionInput>): Promise<any>;
+  deleteQuestion(id: number): Promise<void>;
+  reorderQuestions(surveyId: number, questionIds: number[]): Promise<void>;
+  countAnswersByQuestion(questionId: number): Promise<number>;
+
+  // Survey versions
+  publishSurvey(surveyId: number): Promise<any>;
+  getSurveyVersion(surveyId: number, version: number): Promise<any>;
+  getSurveyVersions(surveyId: number): Promise<any[]>;
   
   // Response operations
-  insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string): Promise<any>;
+  insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string, surveyVersion: number | null): Promise<any>;
   updateResponse(responseId: number, responseTimeSeconds: number): Promise<any>;
+  getResponseBySession(sessionId: string, userId: number): Promise<any>;
+  submitResponse(submission: SubmissionRecord): Promise<SubmissionResult>;
   
   // Answer operations
   insertAnswer(responseId: number, questionId: number, answerValue: string | null, answerNumeric: number | null, confidenceScore: number | null): Promise<any>;
+  replaceAnswers(responseId: number, answers: AnswerRecord[]): Promise<void>;
   getResponsesBySurvey(surveyId: number): Promise<any[]>;
   getAnswersByResponse(responseId: number): Promise<any[]>;
   
@@ -48,11 +321,41 @@ export interface DatabaseAdapter {
   validateQuestionIds(questionIds: number[], surveyId: number): Promise<{ valid: boolean; missingIds?: number[] }>;
   
   // Analytics
-  getCompletionStats(): Promise<any>;
-  getImprovementMetrics(): Promise<any>;
+  getCompletionStats(filter?: AnalyticsFilter): Promise<any>;
+  getImprovementMetrics(filter?: AnalyticsFilter): Promise<any>;
+  getVersionBreakdown(filter?: AnalyticsFilter): Promise<any[]>;
+  getResponsesWithAnswers(filter?: AnalyticsFilter): Promise<ResponseWithAnswers[]>;
+  getCachedMetric(metricName: string, filtersHash: string): Promise<string | null>;
+  saveCachedMetric(metric: CachedMetric): Promise<void>;
+  clearAnalyticsCache(): Promise<void>;
   getQuestionCount(surveyId: number): Promise<number>;
 }
 
+// Words of a search as an FTS5 query: every word must appear, as a word or
+// the start of one; quoting keeps FTS5 operators in the input from applying
+function toFtsQuery(search: string): string | null {
+  const words = search.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map(word => `"${word}"*`).join(' ') : null;
+}
+
+// SQLite stores booleans as integers
+function toSQLiteValue(value: any) {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+// Named parameters for the filterable analytics statements
+function toSQLiteFilter(filter?: AnalyticsFilter) {
+  return {
+    surveyId: filter?.surveyId ?? null,
+    version: filter?.version ?? null,
+    role: filter?.role ?? null,
+    department: filter?.department ?? null,
+    from: filter?.from ?? null,
+    to: filter?.to ?? null,
+    sections: filter?.sections ? JSON.stringify(filter.sections) : null
+  };
+}
+
 // SQLite adapter implementation
 class SQLiteAdapter implements DatabaseAdapter {
   private db: any = null;
@@ -73,7 +376,194 @@ class SQLiteAdapter implements DatabaseAdapter {
 
   async getUserByEmail(email: string): Promise<any> {
     await this.ensureLoaded();
-    return this.helpers.getUserByEmail.get(email);
+    return this.helpers.getUserByEmail.get(email) || null;
+  }
+
+  async createAuthToken(userId: number, tokenHash: string, expiresAt: string): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.insertAuthToken.run(userId, tokenHash, expiresAt);
+  }
+
+  async consumeAuthToken(tokenHash: string): Promise<number | null> {
+    await this.ensureLoaded();
+    const row = this.helpers.consumeAuthToken.get(tokenHash, new Date().toISOString());
+    return row ? row.user_id : null;
+  }
+
+  async getActiveUsers(): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getActiveUsers.all();
+  }
+
+  async getCampaigns(): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getCampaigns.all({ id: null });
+  }
+
+  async getCampaign(id: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getCampaigns.get({ id }) || null;
+  }
+
+  async createCampaign(campaign: CampaignInput, recipients: CampaignRecipientInput[]): Promise<any> {
+    await this.ensureLoaded();
+    const create = this.db.transaction(() => {
+      const campaignId = Number(this.helpers.insertCampaign.run(campaign.surveyId, campaign.name, campaign.createdBy).lastInsertRowid);
+      for (const recipient of recipients) {
+        this.helpers.insertCampaignRecipient.run(campaignId, recipient.userId, recipient.tokenHash);
+      }
+      return campaignId;
+    });
+    return this.getCampaign(create());
+  }
+
+  async getCampaignRecipients(campaignId: number): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getCampaignRecipients.all(campaignId);
+  }
+
+  async getInvitation(tokenHash: string): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getRecipientByToken.get(tokenHash) || null;
+  }
+
+  async markInvitationOpened(recipientId: number): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.markInvitationOpened.run(recipientId);
+  }
+
+  async markInvitationsStarted(userId: number, surveyId: number): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.markInvitationsStarted.run(userId, surveyId);
+  }
+
+  async markInvitationsCompleted(userId: number, surveyId: number): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.markInvitationsCompleted.run(userId, surveyId);
+  }
+
+  async getActionItems(): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getActionItems.all({ id: null });
+  }
+
+  async getActionItem(id: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getActionItems.get({ id }) || null;
+  }
+
+  async createActionItem(item: ActionItemInput, createdBy: number | null): Promise<any> {
+    await this.ensureLoaded();
+    const create = this.db.transaction(() => {
+      const id = Number(this.helpers.insertActionItem.run(
+        item.title, item.description, item.priority, item.category, item.assignedTo, item.status, item.dueDate, item.department
+      ).lastInsertRowid);
+      this.helpers.insertActionItemHistory.run(id, null, item.status, createdBy);
+      return id;
+    });
+    return this.getActionItem(create());
+  }
+
+  async updateActionItem(id: number, changes: Partial<ActionItemInput>, changedBy: number | null): Promise<any> {
+    await this.ensureLoaded();
+    const values = toColumnValues(changes, actionItemColumns);
+    const update = this.db.transaction(() => {
+      const current = this.helpers.getActionItems.get({ id });
+      if (!current || Object.keys(values).length === 0) return;
+
+      const assignments = Object.keys(values).map(column => `${column} = ?`).join(', ');
+      this.db.prepare(`UPDATE action_items SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(...Object.values(values), id);
+      if (changes.status !== undefined && changes.status !== current.status) {
+        this.helpers.insertActionItemHistory.run(id, current.status, changes.status, changedBy);
+      }
+    });
+    update();
+    return this.getActionItem(id);
+  }
+
+  async getActionItemHistory(id: number): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getActionItemHistory.all(id);
+  }
+
+  async getTextThemes(): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getTextThemes.all({ id: null });
+  }
+
+  async getTextTheme(id: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getTextThemes.get({ id }) || null;
+  }
+
+  async createTextTheme(theme: TextThemeInput, createdBy: number | null): Promise<any> {
+    await this.ensureLoaded();
+    const result = this.helpers.insertTextTheme.run(theme.name, theme.description, createdBy);
+    return this.getTextTheme(Number(result.lastInsertRowid));
+  }
+
+  async updateTextTheme(id: number, changes: Partial<TextThemeInput>): Promise<any> {
+    await this.ensureLoaded();
+    const values = toColumnValues(changes, textThemeColumns);
+    if (Object.keys(values).length > 0) {
+      const assignments = Object.keys(values).map(column => `${column} = ?`).join(', ');
+      this.db.prepare(`UPDATE text_themes SET ${assignments} WHERE id = ?`).run(...Object.values(values), id);
+    }
+    return this.getTextTheme(id);
+  }
+
+  async deleteTextTheme(id: number): Promise<void> {
+    await this.ensureLoaded();
+    const remove = this.db.transaction(() => {
+      this.helpers.deleteAnswerThemesByTheme.run(id);
+      this.helpers.deleteTextTheme.run(id);
+    });
+    remove();
+  }
+
+  async getAnswerThemes(): Promise<AnswerTheme[]> {
+    await this.ensureLoaded();
+    return this.helpers.getAnswerThemes.all();
+  }
+
+  async setAnswerThemes(answerId: number, themeIds: number[], codedBy: number | null): Promise<void> {
+    await this.ensureLoaded();
+    const replace = this.db.transaction(() => {
+      this.helpers.deleteAnswerThemesByAnswer.run(answerId);
+      for (const themeId of themeIds) {
+        this.helpers.insertAnswerTheme.run(answerId, themeId, codedBy);
+      }
+    });
+    replace();
+  }
+
+  async getAnswerContext(answerId: number): Promise<AnswerContext | null> {
+    await this.ensureLoaded();
+    const row = this.helpers.getAnswerContext.get(answerId);
+    return row ? { ...row, is_complete: Boolean(row.is_complete) } : null;
+  }
+
+  async searchAnswers(search: string): Promise<number[]> {
+    await this.ensureLoaded();
+    const query = toFtsQuery(search);
+    if (!query) return [];
+    return this.helpers.searchAnswers.all(query).map((row: any) => row.id);
+  }
+
+  async getTextAnswers(unscoredOnly: boolean): Promise<TextAnswerRecord[]> {
+    await this.ensureLoaded();
+    return this.helpers.getTextAnswers.all({ unscored: unscoredOnly ? 1 : 0 });
+  }
+
+  async setSentimentScores(scores: SentimentScore[]): Promise<void> {
+    await this.ensureLoaded();
+    const update = this.db.transaction((rows: SentimentScore[]) => {
+      for (const row of rows) {
+        this.helpers.setSentimentScore.run(row.score, row.answerId);
+      }
+    });
+    update(scores);
   }
 
   async getSurvey(id: number): Promise<any> {
@@ -91,9 +581,141 @@ class SQLiteAdapter implements DatabaseAdapter {
     return this.helpers.getQuestionsBySurvey.all(surveyId);
   }
 
-  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string): Promise<any> {
+  async getAllSurveys(): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getAllSurveys.all();
+  }
+
+  async createSurvey(survey: SurveyInput): Promise<any> {
+    await this.ensureLoaded();
+    const result = this.helpers.insertSurvey.run(survey.name, survey.description, survey.targetRole, survey.isActive ? 1 : 0);
+    return this.helpers.getSurvey.get(result.lastInsertRowid);
+  }
+
+  async updateSurvey(id: number, changes: Partial<SurveyInput>): Promise<any> {
+    await this.ensureLoaded();
+    const values = toColumnValues(changes, surveyColumns);
+    if (Object.keys(values).length > 0) {
+      const assignments = Object.keys(values).map(column => `${column} = ?`).join(', ');
+      this.db.prepare(`UPDATE surveys SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(...Object.values(values).map(toSQLiteValue), id);
+    }
+    return this.helpers.getSurvey.get(id);
+  }
+
+  async deleteSurvey(id: number): Promise<void> {
+    await this.ensureLoaded();
+    const remove = this.db.transaction(() => {
+      this.helpers.deleteCampaignRecipientsBySurvey.run(id);
+      this.helpers.deleteCampaignsBySurvey.run(id);
+      this.helpers.deleteSurveyVersions.run(id);
+      this.helpers.deleteQuestionsBySurvey.run(id);
+      this.helpers.deleteSurvey.run(id);
+    });
+    remove();
+  }
+
+  async countResponsesBySurvey(surveyId: number): Promise<number> {
+    await this.ensureLoaded();
+    return this.helpers.countResponsesBySurvey.get(surveyId).count;
+  }
+
+  async getQuestion(id: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getQuestion.get(id) || null;
+  }
+
+  async createQuestion(surveyId: number, question: QuestionInput): Promise<any> {
+    await this.ensureLoaded();
+    const create = this.db.transaction(() => {
+      const { next_order } = this.helpers.getNextQuestionOrder.get(surveyId);
+      const result = this.helpers.insertQuestion.run(
+        surveyId,
+        question.section,
+        question.questionText,
+        question.questionType,
+        next_order,
+        question.isRequired ? 1 : 0,
+        question.options,
+        question.validationRules,
+        question.displayCondition,
+        question.analysisTags
+      );
+      return this.helpers.getQuestion.get(result.lastInsertRowid);
+    });
+    return create();
+  }
+
+  async updateQuestion(id: number, changes: Partial<QuestionInput>): Promise<any> {
+    await this.ensureLoaded();
+    const values = toColumnValues(changes, questionColumns);
+    if (Object.keys(values).length > 0) {
+      const assignments = Object.keys(values).map(column => `${column} = ?`).join(', ');
+      this.db.prepare(`UPDATE questions SET ${assignments} WHERE id = ?`)
+        .run(...Object.values(values).map(toSQLiteValue), id);
+    }
+    return this.helpers.getQuestion.get(id);
+  }
+
+  async deleteQuestion(id: number): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.deleteQuestion.run(id);
+  }
+
+  async reorderQuestions(surveyId: number, questionIds: number[]): Promise<void> {
     await this.ensureLoaded();
-    const result = this.helpers.insertResponse.run(surveyId, userId, sessionId, isAnonymous ? 1 : 0, startedAt);
+    const reorder = this.db.transaction((ids: number[]) => {
+      const questions = this.helpers.getQuestionsBySurvey.all(surveyId);
+      const newOrders = new Map<number, number>();
+      questions.forEach((q: any) => newOrders.set(q.question_order, ids.indexOf(q.id) + 1));
+
+      // Skip logic references questions by order, so point conditions at the new positions
+      questions.forEach((q: any) => {
+        const condition = parseDisplayCondition(q);
+        const newOrder = condition && newOrders.get(condition.question_order);
+        if (condition && newOrder) {
+          this.helpers.setDisplayCondition.run(JSON.stringify({ ...condition, question_order: newOrder }), q.id);
+        }
+      });
+
+      // Move everything out of the way first so UNIQUE(survey_id, question_order) holds at every step
+      questions.forEach((q: any) => this.helpers.setQuestionOrder.run(-q.question_order, q.id));
+      ids.forEach((id, index) => this.helpers.setQuestionOrder.run(index + 1, id));
+    });
+    reorder(questionIds);
+  }
+
+  async countAnswersByQuestion(questionId: number): Promise<number> {
+    await this.ensureLoaded();
+    return this.helpers.countAnswersByQuestion.get(questionId).count;
+  }
+
+  async publishSurvey(surveyId: number): Promise<any> {
+    await this.ensureLoaded();
+    const publish = this.db.transaction(() => {
+      const survey = this.helpers.getSurvey.get(surveyId);
+      const version = (survey.version || 0) + 1;
+      const questions = this.helpers.getQuestionsBySurvey.all(surveyId);
+      this.helpers.insertSurveyVersion.run(surveyId, version, JSON.stringify(questions));
+      this.helpers.setSurveyVersion.run(version, surveyId);
+      return this.helpers.getSurveyVersion.get(surveyId, version);
+    });
+    return publish();
+  }
+
+  async getSurveyVersion(surveyId: number, version: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getSurveyVersion.get(surveyId, version) || null;
+  }
+
+  async getSurveyVersions(surveyId: number): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getSurveyVersions.all(surveyId);
+  }
+
+  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string, surveyVersion: number | null): Promise<any> {
+    await this.ensureLoaded();
+    const result = this.helpers.insertResponse.run(surveyId, userId, sessionId, isAnonymous ? 1 : 0, startedAt, surveyVersion);
     return { id: result.lastInsertRowid };
   }
 
@@ -102,9 +724,55 @@ class SQLiteAdapter implements DatabaseAdapter {
     return this.helpers.updateResponse.run(responseTimeSeconds, responseId);
   }
 
+  async getResponseBySession(sessionId: string, userId: number): Promise<any> {
+    await this.ensureLoaded();
+    return this.helpers.getResponseBySession.get(sessionId, userId) || null;
+  }
+
+  async submitResponse(submission: SubmissionRecord): Promise<SubmissionResult> {
+    await this.ensureLoaded();
+    const submit = this.db.transaction((s: SubmissionRecord): SubmissionResult => {
+      const existing = this.helpers.getResponseBySession.get(s.sessionId, s.respondentId);
+      const sameSurvey = existing && existing.survey_id === s.surveyId;
+
+      // A retried submission returns the response that was already stored
+      if (sameSurvey && existing.is_complete) {
+        return { responseId: existing.id, alreadySubmitted: true };
+      }
+
+      const responseId = sameSurvey
+        ? existing.id
+        : Number(this.helpers.insertResponse.run(s.surveyId, s.userId, s.sessionId, s.isAnonymous ? 1 : 0, s.startedAt, s.surveyVersion).lastInsertRowid);
+
+      // A draft may have been started on an older version or before the respondent
+      // chose to stay anonymous; the submission is what counts
+      this.helpers.setResponseSubmission.run(s.surveyVersion, s.userId, s.isAnonymous ? 1 : 0, responseId);
+      this.helpers.deleteAnswersByResponse.run(responseId);
+      for (const answer of s.answers) {
+        this.helpers.insertAnswer.run(responseId, answer.questionId, answer.answerValue, answer.answerNumeric, answer.confidenceScore, answer.sentimentScore ?? null);
+      }
+      this.helpers.updateResponse.run(s.responseTimeSeconds, responseId);
+
+      return { responseId, alreadySubmitted: false };
+    });
+
+    return submit(submission);
+  }
+
   async insertAnswer(responseId: number, questionId: number, answerValue: string | null, answerNumeric: number | null, confidenceScore: number | null): Promise<any> {
     await this.ensureLoaded();
-    return this.helpers.insertAnswer.run(responseId, questionId, answerValue, answerNumeric, confidenceScore);
+    return this.helpers.insertAnswer.run(responseId, questionId, answerValue, answerNumeric, confidenceScore, null);
+  }
+
+  async replaceAnswers(responseId: number, answers: AnswerRecord[]): Promise<void> {
+    await this.ensureLoaded();
+    const replace = this.db.transaction((rows: AnswerRecord[]) => {
+      this.helpers.deleteAnswersByResponse.run(responseId);
+      for (const row of rows) {
+        this.helpers.insertAnswer.run(responseId, row.questionId, row.answerValue, row.answerNumeric, row.confidenceScore, row.sentimentScore ?? null);
+      }
+    });
+    replace(answers);
   }
 
   async getResponsesBySurvey(surveyId: number): Promise<any[]> {
@@ -133,14 +801,74 @@ class SQLiteAdapter implements DatabaseAdapter {
     };
   }
 
-  async getCompletionStats(): Promise<any> {
+  async getCompletionStats(filter?: AnalyticsFilter): Promise<any> {
     await this.ensureLoaded();
-    return this.helpers.getCompletionStats.get();
+    return this.helpers.getCompletionStats.get(toSQLiteFilter(filter));
   }
 
-  async getImprovementMetrics(): Promise<any> {
+  async getImprovementMetrics(filter?: AnalyticsFilter): Promise<any> {
     await this.ensureLoaded();
-    return this.helpers.getImprovementMetrics.get();
+    return this.helpers.getImprovementMetrics.get(toSQLiteFilter(filter));
+  }
+
+  async getVersionBreakdown(filter?: AnalyticsFilter): Promise<any[]> {
+    await this.ensureLoaded();
+    return this.helpers.getVersionBreakdown.all(toSQLiteFilter(filter));
+  }
+
+  async getResponsesWithAnswers(filter?: AnalyticsFilter): Promise<ResponseWithAnswers[]> {
+    await this.ensureLoaded();
+    const params = toSQLiteFilter(filter);
+
+    const answersByResponse = new Map<number, AnalyticsAnswer[]>();
+    for (const row of this.helpers.getAnalyticsAnswers.all(params)) {
+      const answers = answersByResponse.get(row.response_id) ?? [];
+      answers.push({
+        id: row.id,
+        question_id: row.question_id,
+        answer_value: row.answer_value,
+        answer_numeric: row.answer_numeric,
+        confidence_score: row.confidence_score,
+        sentiment_score: row.sentiment_score,
+        question: {
+          id: row.question_id,
+          section: row.section,
+          question_text: row.question_text,
+          question_type: row.question_type,
+          analysis_tags: row.analysis_tags,
+          options: row.options,
+          validation_rules: row.validation_rules
+        }
+      });
+      answersByResponse.set(row.response_id, answers);
+    }
+
+    return this.helpers.getAnalyticsResponses.all(params).map((row: any) => ({
+      ...row,
+      is_anonymous: Boolean(row.is_anonymous),
+      answers: answersByResponse.get(row.id) ?? []
+    }));
+  }
+
+  async getCachedMetric(metricName: string, filtersHash: string): Promise<string | null> {
+    await this.ensureLoaded();
+    const row = this.helpers.getCachedMetric.get(metricName, filtersHash, new Date().toISOString());
+    return row ? row.metric_value : null;
+  }
+
+  async saveCachedMetric(metric: CachedMetric): Promise<void> {
+    await this.ensureLoaded();
+    // Replace the previous value and drop whatever has expired meanwhile
+    const save = this.db.transaction(() => {
+      this.helpers.deleteCachedMetric.run(metric.metricName, metric.filtersHash, new Date().toISOString());
+      this.helpers.insertCachedMetric.run(metric.metricName, metric.value, metric.filters, metric.filtersHash, metric.expiresAt);
+    });
+    save();
+  }
+
+  async clearAnalyticsCache(): Promise<void> {
+    await this.ensureLoaded();
+    this.helpers.clearAnalyticsCache.run();
   }
 
   async getQuestionCount(surveyId: number): Promise<number> {
@@ -150,6 +878,35 @@ class SQLiteAdapter implements DatabaseAdapter {
   }
 }
 
+// Supabase filters dates in the query; role and sections are checked on the returned rows
+function matchesRole(filter: AnalyticsFilter | undefined, role: string | undefined) {
+  return filter?.role === undefined || role === filter.role;
+}
+
+function inSections(filter: AnalyticsFilter | undefined, section: string | undefined) {
+  return filter?.sections === undefined || (section !== undefined && filter.sections.includes(section));
+}
+
+// PostgREST caps every response at 1000 rows (its default max-rows), so reads
+// that can grow past that are fetched a page at a time. `build` returns the
+// filtered query afresh for each page; it must be fully ordered.
+const SUPABASE_PAGE_SIZE = 1000;
+
+async function selectAllPages(build: () => any): Promise<{ data: any[]; error: any }> {
+  const data: any[] = [];
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data: page, error } = await build().range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) return { data, error };
+    data.push(...(page || []));
+    if (!page || page.length < SUPABASE_PAGE_SIZE) return { data, error: null };
+  }
+}
+
+// Mean like SQL's AVG: null rather than 0 when there is nothing to average
+function averageOf(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
 // Supabase adapter implementation
 class SupabaseAdapter implements DatabaseAdapter {
   async getUser(id: number): Promise<any> {
@@ -160,6 +917,137 @@ class SupabaseAdapter implements DatabaseAdapter {
     return await supabaseHelpers.getUserByEmail(email);
   }
 
+  async createAuthToken(userId: number, tokenHash: string, expiresAt: string): Promise<void> {
+    await supabaseHelpers.insertAuthToken(userId, tokenHash, expiresAt);
+  }
+
+  async consumeAuthToken(tokenHash: string): Promise<number | null> {
+    return await supabaseHelpers.consumeAuthToken(tokenHash);
+  }
+
+  async getActiveUsers(): Promise<any[]> {
+    return await supabaseHelpers.getActiveUsers();
+  }
+
+  async getCampaigns(): Promise<any[]> {
+    return await supabaseHelpers.getCampaigns();
+  }
+
+  async getCampaign(id: number): Promise<any> {
+    return (await supabaseHelpers.getCampaigns(id))[0] || null;
+  }
+
+  async createCampaign(campaign: CampaignInput, recipients: CampaignRecipientInput[]): Promise<any> {
+    const created = await supabaseHelpers.createCampaign(campaign, recipients);
+    return this.getCampaign(created.id);
+  }
+
+  async getCampaignRecipients(campaignId: number): Promise<any[]> {
+    return await supabaseHelpers.getCampaignRecipients(campaignId);
+  }
+
+  async getInvitation(tokenHash: string): Promise<any> {
+    return await supabaseHelpers.getInvitation(tokenHash);
+  }
+
+  async markInvitationOpened(recipientId: number): Promise<void> {
+    await supabaseHelpers.markInvitationOpened(recipientId);
+  }
+
+  async markInvitationsStarted(userId: number, surveyId: number): Promise<void> {
+    await supabaseHelpers.markInvitationsProgress(userId, surveyId, false);
+  }
+
+  async markInvitationsCompleted(userId: number, surveyId: number): Promise<void> {
+    await supabaseHelpers.markInvitationsProgress(userId, surveyId, true);
+  }
+
+  async getActionItems(): Promise<any[]> {
+    return await supabaseHelpers.getActionItems();
+  }
+
+  async getActionItem(id: number): Promise<any> {
+    return (await supabaseHelpers.getActionItems(id))[0] || null;
+  }
+
+  async createActionItem(item: ActionItemInput, createdBy: number | null): Promise<any> {
+    const created = await supabaseHelpers.createActionItem({
+      title: item.title,
+      description: item.description,
+      priority: item.priority,
+      category: item.category,
+      assigned_to: item.assignedTo,
+      status: item.status,
+      due_date: item.dueDate,
+      department: item.department
+    }, createdBy);
+    return this.getActionItem(created.id);
+  }
+
+  async updateActionItem(id: number, changes: Partial<ActionItemInput>, changedBy: number | null): Promise<any> {
+    const current = await this.getActionItem(id);
+    const values = toColumnValues(changes, actionItemColumns);
+    if (!current || Object.keys(values).length === 0) return current;
+
+    await supabaseHelpers.updateActionItem(id, { ...values, updated_at: new Date().toISOString() });
+    if (changes.status !== undefined && changes.status !== current.status) {
+      await supabaseHelpers.insertActionItemHistory(id, current.status, changes.status, changedBy);
+    }
+    return this.getActionItem(id);
+  }
+
+  async getActionItemHistory(id: number): Promise<any[]> {
+    return await supabaseHelpers.getActionItemHistory(id);
+  }
+
+  async getTextThemes(): Promise<any[]> {
+    return await supabaseHelpers.getTextThemes();
+  }
+
+  async getTextTheme(id: number): Promise<any> {
+    return (await supabaseHelpers.getTextThemes(id))[0] || null;
+  }
+
+  async createTextTheme(theme: TextThemeInput, createdBy: number | null): Promise<any> {
+    return await supabaseHelpers.insertTextTheme({ name: theme.name, description: theme.description, created_by: createdBy });
+  }
+
+  async updateTextTheme(id: number, changes: Partial<TextThemeInput>): Promise<any> {
+    const values = toColumnValues(changes, textThemeColumns);
+    if (Object.keys(values).length === 0) return this.getTextTheme(id);
+    return await supabaseHelpers.updateTextTheme(id, values);
+  }
+
+  async deleteTextTheme(id: number): Promise<void> {
+    await supabaseHelpers.deleteTextTheme(id);
+  }
+
+  async getAnswerThemes(): Promise<AnswerTheme[]> {
+    return await supabaseHelpers.getAnswerThemes();
+  }
+
+  async setAnswerThemes(answerId: number, themeIds: number[], codedBy: number | null): Promise<void> {
+    await supabaseHelpers.setAnswerThemes(answerId, themeIds, codedBy);
+  }
+
+  async getAnswerContext(answerId: number): Promise<AnswerContext | null> {
+    return await supabaseHelpers.getAnswerContext(answerId);
+  }
+
+  async searchAnswers(search: string): Promise<number[]> {
+    return await supabaseHelpers.searchAnswers(search);
+  }
+
+  async getTextAnswers(unscoredOnly: boolean): Promise<TextAnswerRecord[]> {
+    return await supabaseHelpers.getTextAnswers(unscoredOnly);
+  }
+
+  async setSentimentScores(scores: SentimentScore[]): Promise<void> {
+    for (const row of scores) {
+      await supabaseHelpers.setSentimentScore(row.answerId, row.score);
+    }
+  }
+
   async getSurvey(id: number): Promise<any> {
     return await supabaseHelpers.getSurvey(id);
   }
@@ -172,18 +1060,118 @@ class SupabaseAdapter implements DatabaseAdapter {
     return await supabaseHelpers.getQuestionsBySurvey(surveyId);
   }
 
-  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string): Promise<any> {
-    return await supabaseHelpers.insertResponse(surveyId, userId, sessionId, isAnonymous, startedAt);
+  async getAllSurveys(): Promise<any[]> {
+    const surveys = await supabaseHelpers.getAllSurveys();
+    return surveys.map(({ questions, ...survey }: any) => ({
+      ...survey,
+      question_count: questions?.[0]?.count ?? 0
+    }));
+  }
+
+  async createSurvey(survey: SurveyInput): Promise<any> {
+    return await supabaseHelpers.insertSurvey({
+      name: survey.name,
+      description: survey.description,
+      target_role: survey.targetRole,
+      version: 0, // nothing is published until the first version
+      is_active: survey.isActive
+    });
+  }
+
+  async updateSurvey(id: number, changes: Partial<SurveyInput>): Promise<any> {
+    const values = toColumnValues(changes, surveyColumns);
+    if (Object.keys(values).length === 0) {
+      return await supabaseHelpers.getSurvey(id);
+    }
+    return await supabaseHelpers.updateSurvey(id, { ...values, updated_at: new Date().toISOString() });
+  }
+
+  async deleteSurvey(id: number): Promise<void> {
+    await supabaseHelpers.deleteSurvey(id);
+  }
+
+  async countResponsesBySurvey(surveyId: number): Promise<number> {
+    return await supabaseHelpers.countResponsesBySurvey(surveyId);
+  }
+
+  async getQuestion(id: number): Promise<any> {
+    return await supabaseHelpers.getQuestion(id);
+  }
+
+  async createQuestion(surveyId: number, question: QuestionInput): Promise<any> {
+    return await supabaseHelpers.insertQuestion({
+      survey_id: surveyId,
+      question_order: await supabaseHelpers.getNextQuestionOrder(surveyId),
+      ...toColumnValues(question, questionColumns)
+    } as any);
+  }
+
+  async updateQuestion(id: number, changes: Partial<QuestionInput>): Promise<any> {
+    const values = toColumnValues(changes, questionColumns);
+    if (Object.keys(values).length === 0) {
+      return await supabaseHelpers.getQuestion(id);
+    }
+    return await supabaseHelpers.updateQuestion(id, values);
+  }
+
+  async deleteQuestion(id: number): Promise<void> {
+    await supabaseHelpers.deleteQuestion(id);
+  }
+
+  async reorderQuestions(surveyId: number, questionIds: number[]): Promise<void> {
+    await supabaseHelpers.reorderQuestions(surveyId, questionIds);
+  }
+
+  async countAnswersByQuestion(questionId: number): Promise<number> {
+    return await supabaseHelpers.countAnswersByQuestion(questionId);
+  }
+
+  async publishSurvey(surveyId: number): Promise<any> {
+    return await supabaseHelpers.publishSurvey(surveyId);
+  }
+
+  async getSurveyVersion(surveyId: number, version: number): Promise<any> {
+    return await supabaseHelpers.getSurveyVersion(surveyId, version);
+  }
+
+  async getSurveyVersions(surveyId: number): Promise<any[]> {
+    const versions = await supabaseHelpers.getSurveyVersions(surveyId);
+    const completed = await supabaseHelpers.getResponsesBySurvey(surveyId);
+    return versions.map(({ questions, ...version }: any) => ({
+      ...version,
+      question_count: JSON.parse(questions).length,
+      response_count: (completed || []).filter((r: any) => r.survey_version === version.version).length
+    }));
+  }
+
+  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string, surveyVersion: number | null): Promise<any> {
+    return await supabaseHelpers.insertResponse(surveyId, userId, sessionId, isAnonymous, startedAt, surveyVersion);
   }
 
   async updateResponse(responseId: number, responseTimeSeconds: number): Promise<any> {
     return await supabaseHelpers.updateResponse(responseId, responseTimeSeconds);
   }
 
+  async getResponseBySession(sessionId: string, userId: number): Promise<any> {
+    return await supabaseHelpers.getResponseBySession(sessionId, userId);
+  }
+
+  async submitResponse(submission: SubmissionRecord): Promise<SubmissionResult> {
+    const result = await supabaseHelpers.submitResponse(submission);
+    return {
+      responseId: Number(result.response_id),
+      alreadySubmitted: Boolean(result.already_submitted)
+    };
+  }
+
   async insertAnswer(responseId: number, questionId: number, answerValue: string | null, answerNumeric: number | null, confidenceScore: number | null): Promise<any> {
     return await supabaseHelpers.insertAnswer(responseId, questionId, answerValue, answerNumeric, confidenceScore);
   }
 
+  async replaceAnswers(responseId: number, answers: AnswerRecord[]): Promise<void> {
+    await supabaseHelpers.replaceAnswers(responseId, answers);
+  }
+
   async getResponsesBySurvey(surveyId: number): Promise<any[]> {
     return await supabaseHelpers.getResponsesBySurvey(surveyId);
   }
@@ -212,110 +1200,291 @@ class SupabaseAdapter implements DatabaseAdapter {
     };
   }
 
-  async getCompletionStats(): Promise<any> {
+  async getCompletionStats(filter?: AnalyticsFilter): Promise<any> {
     const { supabase } = await import('./supabase');
     
-    // Get responses that have answers (actual data), regardless of completion status
-    const { data, error } = await supabase
-      .from('responses')
-      .select(`
-        *,
-        surveys(target_role),
-        answers(id)
-      `);
+    const departmentUserIds = filter?.department !== undefined
+      ? await supabaseHelpers.getUserIdsByDepartment(filter.department)
+      : null;
+
+    // Completed responses only: autosave drafts stay incomplete
+    const { data, error } = await selectAllPages(() => {
+      let query = supabase
+        .from('responses')
+        .select(`
+          *,
+          surveys(target_role),
+          answers(id, questions(section))
+        `)
+        .eq('is_complete', true)
+        .order('id');
+
+      if (filter?.surveyId !== undefined) query = query.eq('survey_id', filter.surveyId);
+      if (filter?.version !== undefined) query = query.eq('survey_version', filter.version);
+      if (departmentUserIds !== null) query = query.in('user_id', departmentUserIds);
+      if (filter?.from !== undefined) query = query.gte('completed_at', filter.from);
+      if (filter?.to !== undefined) query = query.lt('completed_at', dayAfter(filter.to));
+      return query;
+    });
 
     if (error) {
       console.error('Error fetching completion stats:', error);
       throw error;
     }
 
-    // Filter responses that actually have answers (real data)
-    const responsesWithData = data?.filter(r => r.answers && r.answers.length > 0) || [];
+    // With sections selected, only responses answering one of them count, as in SQLite
+    const responses = data.filter(r =>
+      matchesRole(filter, r.surveys?.target_role) &&
+      (filter?.sections === undefined || (r.answers || []).some((a: any) => inSections(filter, a.questions?.section)))
+    );
 
-    const totalResponses = responsesWithData.length;
-    const avgResponseTime = totalResponses > 0
-      ? responsesWithData.reduce((sum, r) => sum + (r.response_time_seconds || 300), 0) / totalResponses  // Default 5 min if null
-      : 0;
-    const managerResponses = responsesWithData.filter(r => r.surveys?.target_role === 'manager').length;
-    const salesResponses = responsesWithData.filter(r => r.surveys?.target_role === 'sales').length;
+    const times = responses.map(r => r.response_time_seconds).filter((seconds): seconds is number => seconds !== null);
 
     return {
-      total_responses: totalResponses,
-      avg_response_time: avgResponseTime,
-      manager_responses: managerResponses,
-      sales_responses: salesResponses
+      total_responses: responses.length,
+      avg_response_time: averageOf(times),
+      manager_responses: responses.filter(r => r.surveys?.target_role === 'manager').length,
+      sales_responses: responses.filter(r => r.surveys?.target_role === 'sales').length
     };
   }
 
-  async getImprovementMetrics(): Promise<any> {
+  async getImprovementMetrics(filter?: AnalyticsFilter): Promise<any> {
     const { supabase } = await import('./supabase');
     
-    // Get ALL answers with numeric values (remove date filter)
-    const { data, error } = await supabase
-      .from('answers')
-      .select(`
-        answer_numeric,
-        questions!inner(analysis_tags)
-      `)
-      .not('answer_numeric', 'is', null);
+    const departmentUserIds = filter?.department !== undefined
+      ? await supabaseHelpers.getUserIdsByDepartment(filter.department)
+      : null;
+
+    // Numeric answers of completed responses
+    const { data, error } = await selectAllPages(() => {
+      let query = supabase
+        .from('answers')
+        .select(`
+          answer_numeric,
+          questions!inner(analysis_tags, section),
+          responses!inner(is_complete, survey_id, survey_version, user_id, completed_at, surveys(target_role))
+        `)
+        .not('answer_numeric', 'is', null)
+        .eq('responses.is_complete', true)
+        .order('id');
+
+      if (filter?.surveyId !== undefined) query = query.eq('responses.survey_id', filter.surveyId);
+      if (filter?.version !== undefined) query = query.eq('responses.survey_version', filter.version);
+      if (departmentUserIds !== null) query = query.in('responses.user_id', departmentUserIds);
+      if (filter?.from !== undefined) query = query.gte('responses.completed_at', filter.from);
+      if (filter?.to !== undefined) query = query.lt('responses.completed_at', dayAfter(filter.to));
+      return query;
+    });
 
     if (error) {
       console.error('Error fetching improvement metrics:', error);
       throw error;
     }
 
+    const answers = data.filter(a =>
+      matchesRole(filter, a.responses?.surveys?.target_role) && inSections(filter, a.questions?.section)
+    );
+    // Averages of the answers tagged for each metric; null when none are, as in SQLite
+    const taggedAverage = (tag: string) => averageOf(answers
+      .filter(a => (a.questions?.analysis_tags || '').toLowerCase().includes(tag))
+      .map(a => a.answer_numeric));
+
     const metrics = {
-      efficiency_score: 5, // Default baseline
-      productivity_score: 5,
-      satisfaction_score: 5
+      efficiency_score: taggedAverage('efficiency'),
+      productivity_score: taggedAverage('productivity'),
+      satisfaction_score: taggedAverage('satisfaction')
     };
+    return metrics;
+  }
 
-    if (data && data.length > 0) {
-      // Cast to any to handle Supabase query result types
-      const typedData = data as any[];
-      
-      // Calculate based on actual responses
-      const allNumericAnswers = typedData.filter(a => a.answer_numeric !== null);
-      
-      if (allNumericAnswers.length > 0) {
-        // Calculate overall average from all numeric responses
-        const overallAvg = allNumericAnswers.reduce((sum: number, a: any) => sum + a.answer_numeric, 0) / allNumericAnswers.length;
-        
-        // Use overall average as baseline for all metrics
-        metrics.efficiency_score = overallAvg;
-        metrics.productivity_score = overallAvg;
-        metrics.satisfaction_score = overallAvg;
-        
-        // Try to get more specific metrics if tags exist
-        const efficiency = typedData.filter((a: any) => {
-          const tags = a.questions?.analysis_tags;
-          return tags && typeof tags === 'string' && (tags.includes('efficiency') || tags.includes('effectiveness'));
-        });
-        
-        const productivity = typedData.filter((a: any) => {
-          const tags = a.questions?.analysis_tags;
-          return tags && typeof tags === 'string' && tags.includes('productivity');
-        });
-        
-        const satisfaction = typedData.filter((a: any) => {
-          const tags = a.questions?.analysis_tags;
-          return tags && typeof tags === 'string' && (tags.includes('satisfaction') || tags.includes('effectiveness'));
+  async getVersionBreakdown(filter?: AnalyticsFilter): Promise<any[]> {
+    const { supabase } = await import('./supabase');
+
+    const departmentUserIds = filter?.department !== undefined
+      ? await supabaseHelpers.getUserIdsByDepartment(filter.department)
+      : null;
+
+    const { data, error } = await selectAllPages(() => {
+      let query = supabase
+        .from('responses')
+        .select(`
+          id,
+          survey_id,
+          survey_version,
+          surveys(name, target_role),
+          answers(answer_numeric, questions(question_type, section))
+        `)
+        .eq('is_complete', true)
+        .order('id');
+
+      if (filter?.surveyId !== undefined) query = query.eq('survey_id', filter.surveyId);
+      if (filter?.version !== undefined) query = query.eq('survey_version', filter.version);
+      if (departmentUserIds !== null) query = query.in('user_id', departmentUserIds);
+      if (filter?.from !== undefined) query = query.gte('completed_at', filter.from);
+      if (filter?.to !== undefined) query = query.lt('completed_at', dayAfter(filter.to));
+      return query;
+    });
+
+    if (error) {
+      console.error('Error fetching version breakdown:', error);
+      throw error;
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from('survey_versions')
+      .select('survey_id, version, published_at');
+
+    if (versionsError) throw versionsError;
+
+    const groups = new Map<string, any>();
+    data.forEach(response => {
+      if (!matchesRole(filter, response.surveys?.target_role)) return;
+      const answers = (response.answers || []).filter((answer: any) => inSections(filter, answer.questions?.section));
+      if (filter?.sections !== undefined && answers.length === 0) return;
+
+      const key = `${response.survey_id}:${response.survey_version}`;
+      if (!groups.has(key)) {
+        const published = versions?.find(v => v.survey_id === response.survey_id && v.version === response.survey_version);
+        groups.set(key, {
+          survey_id: response.survey_id,
+          survey_name: response.surveys?.name,
+          target_role: response.surveys?.target_role,
+          survey_version: response.survey_version,
+          published_at: published?.published_at ?? null,
+          response_count: 0,
+          score_total: 0,
+          score_count: 0
         });
+      }
 
-        if (efficiency.length > 0) {
-          metrics.efficiency_score = efficiency.reduce((sum: number, a: any) => sum + (a.answer_numeric || 0), 0) / efficiency.length;
+      const group = groups.get(key);
+      group.response_count++;
+      answers.forEach((answer: any) => {
+        if (answer.questions?.question_type === 'likert' && answer.answer_numeric !== null) {
+          group.score_total += answer.answer_numeric;
+          group.score_count++;
         }
-        
-        if (productivity.length > 0) {
-          metrics.productivity_score = productivity.reduce((sum: number, a: any) => sum + (a.answer_numeric || 0), 0) / productivity.length;
-        }
-        
-        if (satisfaction.length > 0) {
-          metrics.satisfaction_score = satisfaction.reduce((sum: number, a: any) => sum + (a.answer_numeric || 0), 0) / satisfaction.length;
-        }
-      }
+      });
+    });
+
+    return Array.from(groups.values())
+      .sort((a, b) => a.survey_id - b.survey_id || (a.survey_version ?? 0) - (b.survey_version ?? 0))
+      .map(({ score_total, score_count, ...group }) => ({
+        ...group,
+        avg_score: score_count > 0 ? score_total / score_count : null
+      }));
+  }
+
+  async getResponsesWithAnswers(filter?: AnalyticsFilter): Promise<ResponseWithAnswers[]> {
+    const { supabase } = await import('./supabase');
+
+    const departmentUserIds = filter?.department !== undefined
+      ? await supabaseHelpers.getUserIdsByDepartment(filter.department)
+      : null;
+
+    const { data, error } = await selectAllPages(() => {
+      let query = supabase
+        .from('responses')
+        .select(`
+          id,
+          survey_id,
+          survey_version,
+          user_id,
+          is_anonymous,
+          completed_at,
+          response_time_seconds,
+          surveys(target_role),
+          users(department),
+          answers(
+            id,
+            question_id,
+            answer_value,
+            answer_numeric,
+            confidence_score,
+            sentiment_score,
+            questions(id, section, question_text, question_type, analysis_tags, options, validation_rules, question_order)
+          )
+        `)
+        .eq('is_complete', true)
+        .order('completed_at')
+        .order('id');
+
+      if (filter?.surveyId !== undefined) query = query.eq('survey_id', filter.surveyId);
+      if (filter?.version !== undefined) query = query.eq('survey_version', filter.version);
+      if (departmentUserIds !== null) query = query.in('user_id', departmentUserIds);
+      if (filter?.from !== undefined) query = query.gte('completed_at', filter.from);
+      if (filter?.to !== undefined) query = query.lt('completed_at', dayAfter(filter.to));
+      return query;
+    });
+
+    if (error) {
+      console.error('Error fetching responses with answers:', error);
+      throw error;
     }
-    return metrics;
+
+    return data
+      .filter(response => matchesRole(filter, response.surveys?.target_role))
+      .map(({ surveys, users, answers, ...response }) => ({
+        ...response,
+        target_role: surveys?.target_role ?? 'unknown',
+        department: users?.department ?? null,
+        answers: (answers || [])
+          .filter((answer: any) => answer.questions && inSections(filter, answer.questions.section))
+          .sort((a: any, b: any) => a.questions.question_order - b.questions.question_order)
+          .map(({ questions: { question_order, ...question }, ...answer }: any) => ({ ...answer, question }))
+      }))
+      .filter(response => filter?.sections === undefined || response.answers.length > 0);
+  }
+
+  async getCachedMetric(metricName: string, filtersHash: string): Promise<string | null> {
+    const { supabase } = await import('./supabase');
+
+    const { data, error } = await supabase
+      .from('analytics_cache')
+      .select('metric_value')
+      .eq('metric_name', metricName)
+      .eq('filters_hash', filtersHash)
+      .gt('expires_at', new Date().toISOString())
+      .order('id', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0]?.metric_value ?? null;
+  }
+
+  async saveCachedMetric(metric: CachedMetric): Promise<void> {
+    const { supabase } = await import('./supabase');
+
+    // Replace the previous value and drop whatever has expired meanwhile
+    const { error: deleteError } = await supabase
+      .from('analytics_cache')
+      .delete()
+      .or(`and(metric_name.eq.${metric.metricName},filters_hash.eq.${metric.filtersHash}),expires_at.lte.${new Date().toISOString()}`);
+
+    if (deleteError) throw deleteError;
+
+    const { error } = await supabase
+      .from('analytics_cache')
+      .insert({
+        metric_name: metric.metricName,
+        metric_value: metric.value,
+        filters: metric.filters,
+        filters_hash: metric.filtersHash,
+        expires_at: metric.expiresAt
+      });
+
+    if (error) throw error;
+  }
+
+  async clearAnalyticsCache(): Promise<void> {
+    const { supabase } = await import('./supabase');
+
+    const { error } = await supabase
+      .from('analytics_cache')
+      .delete()
+      .not('id', 'is', null);
+
+    if (error) throw error;
   }
 
   async getQuestionCount(surveyId: number): Promise<number> {
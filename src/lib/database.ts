@@ -1,12 +1,64 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { scoreSentiment } from './analytics/sentiment';
 
-const dbPath = path.join(process.cwd(), 'feedback.db');
+// DATABASE_PATH overrides the file; ':memory:' gives a throwaway database
+const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'feedback.db');
 export const db = new Database(dbPath);
 
 // Enable foreign key constraints
 db.pragma('foreign_keys = ON');
 
+// Add a column to an existing table; returns true when the column was created
+function addColumnIfMissing(table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+// Questions table under the given name, so an outdated one can be rebuilt from it
+function createQuestionsTable(name: string) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      survey_id INTEGER NOT NULL,
+      section TEXT NOT NULL,
+      question_text TEXT NOT NULL,
+      question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps')),
+      question_order INTEGER NOT NULL,
+      is_required BOOLEAN DEFAULT 1,
+      options TEXT, -- JSON string for multiple choice and ranking questions
+      validation_rules TEXT, -- JSON string
+      display_condition TEXT, -- JSON string, skip logic rule
+      analysis_tags TEXT,
+      FOREIGN KEY (survey_id) REFERENCES surveys(id),
+      UNIQUE(survey_id, question_order)
+    );
+  `);
+}
+
+// SQLite cannot change a CHECK constraint in place: copy the questions into a
+// table with the current definition and swap it in. Ids are kept, so answers
+// and survey snapshots still point at the same questions.
+function rebuildQuestionsTable() {
+  const columns = (db.prepare('PRAGMA table_info(questions)').all() as { name: string }[])
+    .map(column => column.name)
+    .join(', ');
+
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      createQuestionsTable('questions_rebuilt');
+      db.exec(`INSERT INTO questions_rebuilt (${columns}) SELECT ${columns} FROM questions`);
+      db.exec('DROP TABLE questions');
+      db.exec('ALTER TABLE questions_rebuilt RENAME TO questions');
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
 // Initialize database schema
 export function initDatabase() {
   // Users table
@@ -38,20 +90,18 @@ export function initDatabase() {
   `);
 
   // Questions table
+  createQuestionsTable('questions');
+
+  // Survey versions table: frozen copy of the questions as each version was published
   db.exec(`
-    CREATE TABLE IF NOT EXISTS questions (
+    CREATE TABLE IF NOT EXISTS survey_versions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       survey_id INTEGER NOT NULL,
-      section TEXT NOT NULL,
-      question_text TEXT NOT NULL,
-      question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox')),
-      question_order INTEGER NOT NULL,
-      is_required BOOLEAN DEFAULT 1,
-      options TEXT, -- JSON string for multiple choice and ranking questions
-      validation_rules TEXT, -- JSON string
-      analysis_tags TEXT,
+      version INTEGER NOT NULL,
+      questions TEXT NOT NULL, -- JSON array of question rows
+      published_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (survey_id) REFERENCES surveys(id),
-      UNIQUE(survey_id, question_order)
+      UNIQUE(survey_id, version)
     );
   `);
 
@@ -67,11 +117,56 @@ export function initDatabase() {
       completed_at TIMESTAMP,
       is_complete BOOLEAN DEFAULT 0,
       response_time_seconds INTEGER,
+      survey_version INTEGER, -- published version the answers were given against
       FOREIGN KEY (survey_id) REFERENCES surveys(id),
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
   `);
 
+  // Sign-in links: only a hash of the emailed token is stored, and each one works once
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS auth_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+  `);
+
+  // Campaigns: a survey sent to a chosen set of users
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS campaigns (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      survey_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      created_by INTEGER,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (survey_id) REFERENCES surveys(id),
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+  `);
+
+  // Campaign recipients: progress is tracked per invitation, never linked to the
+  // response itself so anonymous answers stay anonymous
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS campaign_recipients (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      campaign_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      invited_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      opened_at TIMESTAMP,
+      started_at TIMESTAMP,
+      completed_at TIMESTAMP,
+      FOREIGN KEY (campaign_id) REFERENCES campaigns(id),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      UNIQUE(campaign_id, user_id)
+    );
+  `);
+
   // Answers table
   db.exec(`
     CREATE TABLE IF NOT EXISTS answers (
@@ -81,6 +176,7 @@ export function initDatabase() {
       answer_value TEXT,
       answer_numeric REAL,
       confidence_score INTEGER,
+      sentiment_score REAL, -- -1 to 1, text answers only
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (response_id) REFERENCES responses(id),
       FOREIGN KEY (question_id) REFERENCES questions(id)
@@ -94,6 +190,7 @@ export function initDatabase() {
       metric_name TEXT NOT NULL,
       metric_value TEXT NOT NULL, -- JSON string
       filters TEXT, -- JSON string
+      filters_hash TEXT, -- SHA-256 of the normalized filters, the lookup key with metric_name
       computed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       expires_at TIMESTAMP
     );
@@ -110,6 +207,7 @@ export function initDatabase() {
       assigned_to INTEGER,
       status TEXT DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'cancelled')),
       due_date DATE,
+      department TEXT,
       created_from_response_id INTEGER,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -118,18 +216,137 @@ export function initDatabase() {
     );
   `);
 
+  // Status changes of action items, starting with their creation
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS action_item_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action_item_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      changed_by INTEGER,
+      changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (action_item_id) REFERENCES action_items(id),
+      FOREIGN KEY (changed_by) REFERENCES users(id)
+    );
+  `);
+
+  // Themes for coding free-text answers, and the themes given to each answer
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS text_themes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      description TEXT,
+      created_by INTEGER,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS answer_themes (
+      answer_id INTEGER NOT NULL,
+      theme_id INTEGER NOT NULL,
+      coded_by INTEGER,
+      coded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (answer_id, theme_id),
+      FOREIGN KEY (answer_id) REFERENCES answers(id),
+      FOREIGN KEY (theme_id) REFERENCES text_themes(id),
+      FOREIGN KEY (coded_by) REFERENCES users(id)
+    );
+  `);
+
+  // Full-text index over answer values, kept in step with answers by triggers;
+  // accents are ignored so "gestion" finds "gestión"
+  const hasAnswerIndex = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'answers_fts'").get();
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS answers_fts USING fts5(
+      answer_value, content='answers', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+    );
+    CREATE TRIGGER IF NOT EXISTS answers_fts_insert AFTER INSERT ON answers BEGIN
+      INSERT INTO answers_fts(rowid, answer_value) VALUES (new.id, new.answer_value);
+    END;
+    CREATE TRIGGER IF NOT EXISTS answers_fts_delete AFTER DELETE ON answers BEGIN
+      INSERT INTO answers_fts(answers_fts, rowid, answer_value) VALUES ('delete', old.id, old.answer_value);
+    END;
+    CREATE TRIGGER IF NOT EXISTS answers_fts_update AFTER UPDATE OF answer_value ON answers BEGIN
+      INSERT INTO answers_fts(answers_fts, rowid, answer_value) VALUES ('delete', old.id, old.answer_value);
+      INSERT INTO answers_fts(rowid, answer_value) VALUES (new.id, new.answer_value);
+    END;
+  `);
+  if (!hasAnswerIndex) {
+    // Index the answers stored before the index existed
+    db.exec("INSERT INTO answers_fts(answers_fts) VALUES ('rebuild')");
+  }
+
+  // Columns added after the initial schema
+  if (addColumnIfMissing('questions', 'display_condition', 'TEXT')) {
+    // Existing databases were seeded before skip logic: only ask for the
+    // critical workarounds when a manager reports 4 or more
+    db.prepare('UPDATE questions SET display_condition = ? WHERE survey_id = 1 AND question_order = 12')
+      .run(JSON.stringify({ question_order: 11, in: ['4-7', '8-12', '13+'] }));
+  }
+  if (addColumnIfMissing('responses', 'survey_version', 'INTEGER')) {
+    // Everything answered so far was answered against the only version there was
+    db.exec('UPDATE responses SET survey_version = (SELECT version FROM surveys WHERE surveys.id = responses.survey_id)');
+  }
+  addColumnIfMissing('analytics_cache', 'filters_hash', 'TEXT');
+  if (addColumnIfMissing('answers', 'sentiment_score', 'REAL')) {
+    // Score the text answers given before sentiment was stored
+    const setSentiment = db.prepare('UPDATE answers SET sentiment_score = ? WHERE id = ?');
+    const textAnswers = db.prepare(`
+      SELECT a.id, a.answer_value FROM answers a
+      JOIN questions q ON a.question_id = q.id
+      WHERE q.question_type = 'text' AND a.answer_value IS NOT NULL
+    `).all() as { id: number; answer_value: string }[];
+    db.transaction(() => {
+      textAnswers.forEach(answer => setSentiment.run(scoreSentiment(answer.answer_value), answer.id));
+    })();
+  }
+
+  // Databases created before NPS questions reject the new type
+  const questionsTable = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'questions'").get() as { sql: string };
+  if (!questionsTable.sql.includes("'nps'")) {
+    rebuildQuestionsTable();
+  }
+
+  snapshotPublishedSurveys();
+
   // Create indexes for performance
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_responses_survey_date ON responses(survey_id, completed_at);
+    CREATE INDEX IF NOT EXISTS idx_responses_survey_version ON responses(survey_id, survey_version);
     CREATE INDEX IF NOT EXISTS idx_answers_response_question ON answers(response_id, question_id);
     CREATE INDEX IF NOT EXISTS idx_users_role_active ON users(role, is_active);
+    CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens(user_id);
+    CREATE INDEX IF NOT EXISTS idx_campaign_recipients_user ON campaign_recipients(user_id, completed_at);
     CREATE INDEX IF NOT EXISTS idx_analytics_metric_date ON analytics_cache(metric_name, computed_at);
+    CREATE INDEX IF NOT EXISTS idx_analytics_cache_key ON analytics_cache(metric_name, filters_hash);
     CREATE INDEX IF NOT EXISTS idx_action_items_status_priority ON action_items(status, priority);
+    CREATE INDEX IF NOT EXISTS idx_action_item_history_item ON action_item_history(action_item_id, changed_at);
+    CREATE INDEX IF NOT EXISTS idx_answer_themes_theme ON answer_themes(theme_id);
   `);
 
   console.log('Database initialized successfully');
 }
 
+// Freeze the questions of surveys that are marked as published but have no
+// snapshot yet (databases created before versioning, or freshly seeded ones)
+export function snapshotPublishedSurveys() {
+  const unversioned = db.prepare(`
+    SELECT s.id, s.version FROM surveys s
+    WHERE s.version >= 1
+      AND NOT EXISTS (SELECT 1 FROM survey_versions v WHERE v.survey_id = s.id AND v.version = s.version)
+      AND EXISTS (SELECT 1 FROM questions q WHERE q.survey_id = s.id)
+  `).all() as { id: number; version: number }[];
+
+  const getQuestions = db.prepare('SELECT * FROM questions WHERE survey_id = ? ORDER BY question_order');
+  const insertVersion = db.prepare('INSERT INTO survey_versions (survey_id, version, questions) VALUES (?, ?, ?)');
+
+  for (const survey of unversioned) {
+    insertVersion.run(survey.id, survey.version, JSON.stringify(getQuestions.all(survey.id)));
+  }
+}
+
 // Initialize database on module load
 try {
   initDatabase();
@@ -168,7 +385,8 @@ export function seedDatabase() {
     ['sales3@company.com', 'sales', 'Lisa Brown', 'Sales', '2022-11-12', 1],
   ];
 
-  users.forEach(user => insertUser.run(...user));
+  // Emails are stored lowercase, as sign-in looks them up
+  users.forEach(([email, ...user]) => insertUser.run(String(email).toLowerCase(), ...user));
 
   // Insert surveys
   const insertSurvey = db.prepare(`
@@ -183,27 +401,140 @@ export function seedDatabase() {
 }
 
 // Helper functions for database operations
+// Conditions on the completed responses `r` shared by the filterable analytics
+// statements; every parameter is NULL when its filter is not set and
+// @sections is a JSON array of section names
+const RESPONSE_FILTER = `
+      AND (@surveyId IS NULL OR r.survey_id = @surveyId)
+      AND (@version IS NULL OR r.survey_version = @version)
+      AND (@role IS NULL OR r.survey_id IN (SELECT id FROM surveys WHERE target_role = @role))
+      AND (@department IS NULL OR r.user_id IN (SELECT id FROM users WHERE department = @department))
+      AND (@from IS NULL OR date(r.completed_at) >= @from)
+      AND (@to IS NULL OR date(r.completed_at) <= @to)
+      AND (@sections IS NULL OR EXISTS (
+        SELECT 1 FROM answers fa JOIN questions fq ON fa.question_id = fq.id
+        WHERE fa.response_id = r.id AND fq.section IN (SELECT value FROM json_each(@sections))
+      ))`;
+
+// Answers `q` outside the selected sections are left out of answer-level figures
+const SECTION_FILTER = `
+      AND (@sections IS NULL OR q.section IN (SELECT value FROM json_each(@sections)))`;
+
 export const dbHelpers = {
   getUser: db.prepare('SELECT * FROM users WHERE id = ?'),
-  getUserByEmail: db.prepare('SELECT * FROM users WHERE email = ?'),
+  getUserByEmail: db.prepare('SELECT * FROM users WHERE email = ? COLLATE NOCASE'),
   getSurvey: db.prepare('SELECT * FROM surveys WHERE id = ?'),
   getSurveysByRole: db.prepare('SELECT * FROM surveys WHERE target_role = ? AND is_active = 1'),
   getQuestionsBySurvey: db.prepare('SELECT * FROM questions WHERE survey_id = ? ORDER BY question_order'),
+  getAllSurveys: db.prepare(`
+    SELECT s.*, (SELECT COUNT(*) FROM questions q WHERE q.survey_id = s.id) as question_count
+    FROM surveys s
+    ORDER BY s.id
+  `),
+  insertSurvey: db.prepare(`
+    INSERT INTO surveys (name, description, target_role, version, is_active)
+    VALUES (?, ?, ?, 0, ?)
+  `),
+  deleteSurvey: db.prepare('DELETE FROM surveys WHERE id = ?'),
+  getSurveyVersion: db.prepare('SELECT * FROM survey_versions WHERE survey_id = ? AND version = ?'),
+  getSurveyVersions: db.prepare(`
+    SELECT v.id, v.survey_id, v.version, v.published_at, json_array_length(v.questions) as question_count,
+      (SELECT COUNT(*) FROM responses r WHERE r.survey_id = v.survey_id AND r.survey_version = v.version AND r.is_complete = 1) as response_count
+    FROM survey_versions v
+    WHERE v.survey_id = ?
+    ORDER BY v.version
+  `),
+  insertSurveyVersion: db.prepare('INSERT INTO survey_versions (survey_id, version, questions) VALUES (?, ?, ?)'),
+  setSurveyVersion: db.prepare('UPDATE surveys SET version = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
+  deleteSurveyVersions: db.prepare('DELETE FROM survey_versions WHERE survey_id = ?'),
+  countResponsesBySurvey: db.prepare('SELECT COUNT(*) as count FROM responses WHERE survey_id = ?'),
+  getQuestion: db.prepare('SELECT * FROM questions WHERE id = ?'),
+  getNextQuestionOrder: db.prepare('SELECT COALESCE(MAX(question_order), 0) + 1 as next_order FROM questions WHERE survey_id = ?'),
+  insertQuestion: db.prepare(`
+    INSERT INTO questions (
+      survey_id, section, question_text, question_type, question_order,
+      is_required, options, validation_rules, display_condition, analysis_tags
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+  deleteQuestion: db.prepare('DELETE FROM questions WHERE id = ?'),
+  deleteQuestionsBySurvey: db.prepare('DELETE FROM questions WHERE survey_id = ?'),
+  setQuestionOrder: db.prepare('UPDATE questions SET question_order = ? WHERE id = ?'),
+  setDisplayCondition: db.prepare('UPDATE questions SET display_condition = ? WHERE id = ?'),
+  countAnswersByQuestion: db.prepare('SELECT COUNT(*) as count FROM answers WHERE question_id = ?'),
   insertResponse: db.prepare(`
-    INSERT INTO responses (survey_id, user_id, session_id, is_anonymous, started_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO responses (survey_id, user_id, session_id, is_anonymous, started_at, survey_version)
+    VALUES (?, ?, ?, ?, ?, ?)
   `),
   updateResponse: db.prepare(`
     UPDATE responses SET completed_at = CURRENT_TIMESTAMP, is_complete = 1, response_time_seconds = ?
     WHERE id = ?
   `),
   insertAnswer: db.prepare(`
-    INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score, sentiment_score)
+    VALUES (?, ?, ?, ?, ?, ?)
   `),
   getResponsesBySurvey: db.prepare('SELECT * FROM responses WHERE survey_id = ? AND is_complete = 1'),
   getAnswersByResponse: db.prepare('SELECT * FROM answers WHERE response_id = ?'),
-  
+  // Drafts belong to the user who started them; anonymous submissions no longer
+  // name anyone, so they are found by session alone to keep retries idempotent
+  getResponseBySession: db.prepare(`
+    SELECT * FROM responses
+    WHERE session_id = ? AND (user_id = ? OR (user_id IS NULL AND is_complete = 1))
+    ORDER BY user_id IS NULL, id DESC LIMIT 1
+  `),
+  deleteAnswersByResponse: db.prepare('DELETE FROM answers WHERE response_id = ?'),
+  setResponseSubmission: db.prepare('UPDATE responses SET survey_version = ?, user_id = ?, is_anonymous = ? WHERE id = ?'),
+  insertAuthToken: db.prepare('INSERT INTO auth_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)'),
+  consumeAuthToken: db.prepare(`
+    UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP
+    WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+    RETURNING user_id
+  `),
+  getActiveUsers: db.prepare('SELECT * FROM users WHERE is_active = 1 ORDER BY role, name'),
+
+  // Campaigns with their invitation progress
+  getCampaigns: db.prepare(`
+    SELECT c.*, s.name as survey_name, s.target_role,
+      COUNT(cr.id) as invited_count,
+      COUNT(cr.started_at) as started_count,
+      COUNT(cr.completed_at) as completed_count
+    FROM campaigns c
+    JOIN surveys s ON c.survey_id = s.id
+    LEFT JOIN campaign_recipients cr ON cr.campaign_id = c.id
+    WHERE @id IS NULL OR c.id = @id
+    GROUP BY c.id
+    ORDER BY c.created_at DESC, c.id DESC
+  `),
+  insertCampaign: db.prepare('INSERT INTO campaigns (survey_id, name, created_by) VALUES (?, ?, ?)'),
+  insertCampaignRecipient: db.prepare('INSERT INTO campaign_recipients (campaign_id, user_id, token_hash) VALUES (?, ?, ?)'),
+  getCampaignRecipients: db.prepare(`
+    SELECT cr.id, cr.campaign_id, cr.user_id, cr.invited_at, cr.opened_at, cr.started_at, cr.completed_at,
+      u.name, u.email, u.department
+    FROM campaign_recipients cr
+    JOIN users u ON cr.user_id = u.id
+    WHERE cr.campaign_id = ?
+    ORDER BY u.name
+  `),
+  getRecipientByToken: db.prepare(`
+    SELECT cr.*, c.survey_id, c.name as campaign_name
+    FROM campaign_recipients cr
+    JOIN campaigns c ON cr.campaign_id = c.id
+    WHERE cr.token_hash = ?
+  `),
+  markInvitationOpened: db.prepare('UPDATE campaign_recipients SET opened_at = COALESCE(opened_at, CURRENT_TIMESTAMP) WHERE id = ?'),
+  markInvitationsStarted: db.prepare(`
+    UPDATE campaign_recipients SET started_at = COALESCE(started_at, CURRENT_TIMESTAMP)
+    WHERE user_id = ? AND completed_at IS NULL
+      AND campaign_id IN (SELECT id FROM campaigns WHERE survey_id = ?)
+  `),
+  markInvitationsCompleted: db.prepare(`
+    UPDATE campaign_recipients
+    SET started_at = COALESCE(started_at, CURRENT_TIMESTAMP), completed_at = CURRENT_TIMESTAMP
+    WHERE user_id = ? AND completed_at IS NULL
+      AND campaign_id IN (SELECT id FROM campaigns WHERE survey_id = ?)
+  `),
+  deleteCampaignRecipientsBySurvey: db.prepare('DELETE FROM campaign_recipients WHERE campaign_id IN (SELECT id FROM campaigns WHERE survey_id = ?)'),
+  deleteCampaignsBySurvey: db.prepare('DELETE FROM campaigns WHERE survey_id = ?'),  
   // Analytics functions for dynamic statistics
   getCompletionStats: db.prepare(`
     SELECT
@@ -213,8 +544,7 @@ export const dbHelpers = {
       COUNT(CASE WHEN target_role = 'sales' THEN 1 END) as sales_responses
     FROM responses r
     JOIN surveys s ON r.survey_id = s.id
-    WHERE r.is_complete = 1
-      AND r.completed_at >= datetime('now', '-30 days')
+    WHERE r.is_complete = 1${RESPONSE_FILTER}
   `),
   
   getImprovementMetrics: db.prepare(`
@@ -225,10 +555,113 @@ export const dbHelpers = {
     FROM answers a
     JOIN questions q ON a.question_id = q.id
     JOIN responses r ON a.response_id = r.id
-    WHERE r.is_complete = 1
-      AND r.completed_at >= datetime('now', '-30 days')
+    WHERE r.is_complete = 1${RESPONSE_FILTER}${SECTION_FILTER}
   `),
   
+  // Completed responses per published version, so trends can be read per wording
+  getVersionBreakdown: db.prepare(`
+    SELECT
+      r.survey_id,
+      s.name as survey_name,
+      s.target_role,
+      r.survey_version,
+      v.published_at,
+      COUNT(DISTINCT r.id) as response_count,
+      AVG(CASE WHEN q.question_type = 'likert'
+        AND (@sections IS NULL OR q.section IN (SELECT value FROM json_each(@sections)))
+        THEN a.answer_numeric END) as avg_score
+    FROM responses r
+    JOIN surveys s ON r.survey_id = s.id
+    LEFT JOIN survey_versions v ON v.survey_id = r.survey_id AND v.version = r.survey_version
+    LEFT JOIN answers a ON a.response_id = r.id
+    LEFT JOIN questions q ON a.question_id = q.id
+    WHERE r.is_complete = 1${RESPONSE_FILTER}
+    GROUP BY r.survey_id, r.survey_version
+    ORDER BY r.survey_id, r.survey_version
+  `),
+
+  // Completed responses and their answers for the detailed analytics
+  getAnalyticsResponses: db.prepare(`
+    SELECT r.id, r.survey_id, r.survey_version, r.user_id, r.is_anonymous, r.completed_at, r.response_time_seconds,
+      s.target_role, u.department
+    FROM responses r
+    JOIN surveys s ON r.survey_id = s.id
+    LEFT JOIN users u ON r.user_id = u.id
+    WHERE r.is_complete = 1${RESPONSE_FILTER}
+    ORDER BY r.completed_at, r.id
+  `),
+  getAnalyticsAnswers: db.prepare(`
+    SELECT a.id, a.response_id, a.question_id, a.answer_value, a.answer_numeric, a.confidence_score, a.sentiment_score,
+      q.section, q.question_text, q.question_type, q.analysis_tags, q.options, q.validation_rules
+    FROM answers a
+    JOIN questions q ON a.question_id = q.id
+    JOIN responses r ON a.response_id = r.id
+    WHERE r.is_complete = 1${RESPONSE_FILTER}${SECTION_FILTER}
+    ORDER BY a.response_id, q.question_order
+  `),
+
+  // Action items with their assignee, most urgent first
+  getActionItems: db.prepare(`
+    SELECT ai.*, u.name as assigned_name, u.email as assigned_email
+    FROM action_items ai
+    LEFT JOIN users u ON ai.assigned_to = u.id
+    WHERE @id IS NULL OR ai.id = @id
+    ORDER BY CASE ai.priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END,
+      ai.due_date IS NULL, ai.due_date, ai.id DESC
+  `),
+  insertActionItem: db.prepare(`
+    INSERT INTO action_items (title, description, priority, category, assigned_to, status, due_date, department)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+  getActionItemHistory: db.prepare(`
+    SELECT h.id, h.action_item_id, h.from_status, h.to_status, h.changed_by, h.changed_at, u.name as changed_by_name
+    FROM action_item_history h
+    LEFT JOIN users u ON h.changed_by = u.id
+    WHERE h.action_item_id = ?
+    ORDER BY h.changed_at, h.id
+  `),
+  insertActionItemHistory: db.prepare('INSERT INTO action_item_history (action_item_id, from_status, to_status, changed_by) VALUES (?, ?, ?, ?)'),
+
+  // Themes for coding free-text answers
+  getTextThemes: db.prepare('SELECT * FROM text_themes WHERE @id IS NULL OR id = @id ORDER BY name COLLATE NOCASE'),
+  insertTextTheme: db.prepare('INSERT INTO text_themes (name, description, created_by) VALUES (?, ?, ?)'),
+  deleteTextTheme: db.prepare('DELETE FROM text_themes WHERE id = ?'),
+  getAnswerThemes: db.prepare('SELECT answer_id, theme_id FROM answer_themes ORDER BY answer_id, theme_id'),
+  insertAnswerTheme: db.prepare('INSERT INTO answer_themes (answer_id, theme_id, coded_by) VALUES (?, ?, ?)'),
+  deleteAnswerThemesByAnswer: db.prepare('DELETE FROM answer_themes WHERE answer_id = ?'),
+  deleteAnswerThemesByTheme: db.prepare('DELETE FROM answer_themes WHERE theme_id = ?'),
+  getAnswerContext: db.prepare(`
+    SELECT a.id, q.question_type, r.is_complete, u.department
+    FROM answers a
+    JOIN questions q ON a.question_id = q.id
+    JOIN responses r ON a.response_id = r.id
+    LEFT JOIN users u ON r.user_id = u.id
+    WHERE a.id = ?
+  `),
+  // MATCH takes an FTS5 query; see toFtsQuery in the adapter
+  searchAnswers: db.prepare('SELECT rowid as id FROM answers_fts WHERE answers_fts MATCH ? ORDER BY rowid'),
+  getTextAnswers: db.prepare(`
+    SELECT a.id, a.answer_value
+    FROM answers a
+    JOIN questions q ON a.question_id = q.id
+    WHERE q.question_type = 'text' AND a.answer_value IS NOT NULL AND (@unscored = 0 OR a.sentiment_score IS NULL)
+    ORDER BY a.id
+  `),
+  setSentimentScore: db.prepare('UPDATE answers SET sentiment_score = ? WHERE id = ?'),
+
+  // Precomputed analytics; expires_at is an ISO timestamp compared as text
+  getCachedMetric: db.prepare(`
+    SELECT metric_value FROM analytics_cache
+    WHERE metric_name = ? AND filters_hash = ? AND expires_at > ?
+    ORDER BY id DESC LIMIT 1
+  `),
+  deleteCachedMetric: db.prepare('DELETE FROM analytics_cache WHERE (metric_name = ? AND filters_hash = ?) OR expires_at <= ?'),
+  insertCachedMetric: db.prepare(`
+    INSERT INTO analytics_cache (metric_name, metric_value, filters, filters_hash, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `),
+  clearAnalyticsCache: db.prepare('DELETE FROM analytics_cache'),
+
   getQuestionCount: db.prepare('SELECT COUNT(*) as count FROM questions WHERE survey_id = ?'),
 };
 
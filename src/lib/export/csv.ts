@@ -0,0 +1,18 @@
+// CSV writer (RFC 4180). A UTF-8 byte order mark lets Excel read accents
+// correctly, and text starting with a formula character is prefixed with a
+// quote so free-text answers cannot run as formulas when opened.
+
+import type { Cell } from './responses';
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: Cell) {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Cell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
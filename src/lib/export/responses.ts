@@ -0,0 +1,153 @@
+// One row per response and one column per question. Answers holding several
+// values are spread over one sub-column per option: rankings give the rank,
+// percentages the share and checkboxes 1 or 0. Column names are short codes
+// (Q12, Q12_3) that SPSS accepts; the variables sheet says what each one means.
+
+import type { AnalyticsAnswer, ResponseWithAnswers } from '@/lib/database-adapter';
+import { DEFAULT_PERCENTAGE_CATEGORIES, parseQuestionOptions } from '@/lib/answer-validation';
+
+export type Cell = string | number | null;
+
+export interface Variable {
+  name: string;
+  questionId: number | null;
+  section: string | null;
+  label: string;
+  questionType: string | null;
+  tags: string | null;
+  option: string | null;
+}
+
+export interface ResponseTable {
+  variables: Variable[];
+  rows: Cell[][];
+}
+
+const SPREAD_TYPES = ['ranking', 'percentage', 'checkbox'];
+
+// Columns describing the response itself; respondents are never identified
+const RESPONSE_VARIABLES: Array<{ name: string; label: string; value: (response: ResponseWithAnswers) => Cell }> = [
+  { name: 'response_id', label: 'ID de respuesta', value: response => response.id },
+  { name: 'survey_id', label: 'ID de encuesta', value: response => response.survey_id },
+  { name: 'survey_version', label: 'Versión de la encuesta', value: response => response.survey_version },
+  { name: 'target_role', label: 'Rol', value: response => response.target_role },
+  { name: 'completed_at', label: 'Fecha de envío', value: response => response.completed_at },
+  { name: 'response_time_seconds', label: 'Tiempo de respuesta (segundos)', value: response => response.response_time_seconds },
+  { name: 'is_anonymous', label: 'Anónima (1 = sí)', value: response => response.is_anonymous ? 1 : 0 }
+];
+
+interface QuestionColumns {
+  answer: AnalyticsAnswer;
+  options: string[];
+}
+
+function parseJson(value: string | null): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// Options as defined on the question, plus any found only in answers
+// (given under an earlier version of the question)
+function answerOptions(answer: AnalyticsAnswer): string[] {
+  const parsed = parseJson(answer.answer_value);
+  if (answer.question.question_type === 'checkbox') {
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  }
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? Object.keys(parsed) : [];
+}
+
+function collectQuestions(responses: ResponseWithAnswers[]): QuestionColumns[] {
+  const questions = new Map<number, QuestionColumns>();
+  const bySurvey = [...responses].sort((a, b) => a.survey_id - b.survey_id);
+
+  for (const response of bySurvey) {
+    for (const answer of response.answers) {
+      let entry = questions.get(answer.question_id);
+      if (!entry) {
+        const defined = parseQuestionOptions({ options: answer.question.options });
+        const options = defined.length === 0 && answer.question.question_type === 'percentage'
+          ? DEFAULT_PERCENTAGE_CATEGORIES
+          : defined;
+        entry = { answer, options: [...options] };
+        questions.set(answer.question_id, entry);
+      }
+      if (SPREAD_TYPES.includes(answer.question.question_type)) {
+        answerOptions(answer).forEach(option => {
+          if (!entry!.options.includes(option)) entry!.options.push(option);
+        });
+      }
+    }
+  }
+  return Array.from(questions.values());
+}
+
+function cellValues(answer: AnalyticsAnswer | undefined, type: string, options: string[]): Cell[] {
+  if (!SPREAD_TYPES.includes(type)) {
+    if (!answer) return [null];
+    if (type === 'likert' || type === 'nps') {
+      // NPS answers can be 0, so only a missing number falls back to the stored text
+      const value = parseFloat(answer.answer_value ?? '');
+      return [answer.answer_numeric ?? (isNaN(value) ? null : value)];
+    }
+    return [answer.answer_value];
+  }
+
+  const parsed = parseJson(answer?.answer_value ?? null);
+  if (type === 'checkbox') {
+    return options.map(option => Array.isArray(parsed) ? (parsed.includes(option) ? 1 : 0) : null);
+  }
+  const values = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  return options.map(option => typeof values?.[option] === 'number' ? values[option] as number : null);
+}
+
+export function buildResponseTable(responses: ResponseWithAnswers[]): ResponseTable {
+  const questions = collectQuestions(responses);
+
+  const variables: Variable[] = RESPONSE_VARIABLES.map(({ name, label }) => ({
+    name, label, questionId: null, section: null, questionType: null, tags: null, option: null
+  }));
+  questions.forEach(({ answer: { question }, options }) => {
+    const base = {
+      questionId: question.id,
+      section: question.section,
+      label: question.question_text,
+      questionType: question.question_type,
+      tags: question.analysis_tags
+    };
+    if (SPREAD_TYPES.includes(question.question_type)) {
+      options.forEach((option, i) => variables.push({ ...base, name: `Q${question.id}_${i + 1}`, option }));
+    } else {
+      variables.push({ ...base, name: `Q${question.id}`, option: null });
+    }
+  });
+
+  const rows = responses.map(response => {
+    const answers = new Map(response.answers.map(answer => [answer.question_id, answer]));
+    return [
+      ...RESPONSE_VARIABLES.map(({ value }) => value(response)),
+      ...questions.flatMap(({ answer: { question }, options }) =>
+        cellValues(answers.get(question.id), question.question_type, options)
+      )
+    ];
+  });
+
+  return { variables, rows };
+}
+
+// The variables sheet: what every column of the responses sheet holds
+export function variableRows(table: ResponseTable): Cell[][] {
+  return [
+    ['Variable', 'ID de pregunta', 'Sección', 'Pregunta', 'Tipo', 'Etiquetas', 'Opción'],
+    ...table.variables.map(variable => [
+      variable.name, variable.questionId, variable.section, variable.label, variable.questionType, variable.tags, variable.option
+    ])
+  ];
+}
+
+export function responseRows(table: ResponseTable): Cell[][] {
+  return [table.variables.map(variable => variable.name), ...table.rows];
+}
@@ -0,0 +1,58 @@
+/**
+ * Outgoing email.
+ * Messages go through the transport named by MAIL_TRANSPORT. Two are built in
+ * for local use: `console` (default) prints messages to the server log and
+ * `file` writes each one to MAIL_OUTBOX_DIR. A real provider is plugged in
+ * with registerMailTransport.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function formatMessage(message: MailMessage): string {
+  return [`To: ${message.to}`, `Subject: ${message.subject}`, '', message.text].join('\n');
+}
+
+const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(['--- Outgoing email ---', formatMessage(message), '----------------------'].join('\n'));
+  }
+};
+
+const fileTransport: MailTransport = {
+  async send(message) {
+    const outbox = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox');
+    await mkdir(outbox, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.txt`;
+    await writeFile(path.join(outbox, filename), formatMessage(message), 'utf8');
+  }
+};
+
+const transports: Record<string, MailTransport> = {
+  console: consoleTransport,
+  file: fileTransport
+};
+
+export function registerMailTransport(name: string, transport: MailTransport): void {
+  transports[name] = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+  await transport.send(message);
+}
@@ -0,0 +1,102 @@
+/**
+ * Skip logic for survey questions.
+ * A question with a display_condition is only shown when the answer to another
+ * question of the same survey (referenced by question_order, which survives reseeding
+ * unlike ids) matches the rule. Hidden questions are neither required nor stored.
+ */
+
+export interface DisplayCondition {
+  question_order: number;
+  in?: string[]; // show when the answer is one of these values
+  not_in?: string[]; // show when the answer is none of these values
+  min?: number; // show when the numeric answer is at least min
+  max?: number; // show when the numeric answer is at most max
+}
+
+export interface ConditionalQuestion {
+  id: number;
+  question_order: number;
+  display_condition?: string | DisplayCondition | null;
+}
+
+// Answer values keyed by question id
+export type AnswerValues = Record<number, string | null | undefined>;
+
+export function parseDisplayCondition(question: Pick<ConditionalQuestion, 'display_condition'>): DisplayCondition | null {
+  if (!question.display_condition) return null;
+  if (typeof question.display_condition === 'object') return question.display_condition;
+  try {
+    return JSON.parse(question.display_condition);
+  } catch (error) {
+    console.error('Error parsing display condition:', error, 'Raw condition:', question.display_condition);
+    return null;
+  }
+}
+
+function matchesCondition(condition: DisplayCondition, value: string | null | undefined): boolean {
+  if (!value || !value.trim()) return false;
+
+  // Checkbox answers are JSON arrays; the rule matches on any selected option
+  let selected = [value];
+  if (value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) selected = parsed.map(String);
+    } catch {
+      // Plain text answer that happens to start with a bracket
+    }
+  }
+
+  if (condition.in && !selected.some(option => condition.in!.includes(option))) return false;
+  if (condition.not_in && selected.some(option => condition.not_in!.includes(option))) return false;
+
+  if (condition.min !== undefined || condition.max !== undefined) {
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) return false;
+    if (condition.min !== undefined && numValue < condition.min) return false;
+    if (condition.max !== undefined && numValue > condition.max) return false;
+  }
+
+  return true;
+}
+
+export function isQuestionVisible<T extends ConditionalQuestion>(
+  question: T,
+  questions: T[],
+  answerValues: AnswerValues,
+  visited: Set<number> = new Set()
+): boolean {
+  const condition = parseDisplayCondition(question);
+  if (!condition) return true;
+
+  // A rule pointing at a missing question (or a cycle) never hides anything
+  const source = questions.find(q => q.question_order === condition.question_order);
+  if (!source || source.id === question.id || visited.has(source.id)) return true;
+
+  // Questions that depend on a hidden question are hidden as well
+  visited.add(question.id);
+  if (!isQuestionVisible(source, questions, answerValues, visited)) return false;
+
+  return matchesCondition(condition, answerValues[source.id]);
+}
+
+export function getVisibleQuestions<T extends ConditionalQuestion>(questions: T[], answerValues: AnswerValues): T[] {
+  return questions.filter(question => isQuestionVisible(question, questions, answerValues));
+}
+
+export function toAnswerValues(answers: { questionId: number; value: string | null }[]): AnswerValues {
+  const values: AnswerValues = {};
+  answers.forEach(answer => {
+    values[answer.questionId] = answer.value;
+  });
+  return values;
+}
+
+// Drop answers to questions that are hidden by the other answers
+export function filterVisibleAnswers<A extends { questionId: number; value: string | null }>(
+  questions: ConditionalQuestion[],
+  answers: A[]
+): A[] {
+  const visibleIds = new Set(getVisibleQuestions(questions, toAnswerValues(answers)).map(q => q.id));
+  return answers.filter(answer => visibleIds.has(answer.questionId));
+}
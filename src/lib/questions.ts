@@ -1,19 +1,28 @@
+import type { DisplayCondition } from './question-conditions';
+
+export const QUESTION_TYPES = ['likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
 export interface Question {
   id: number;
   survey_id: number;
   section: string;
   question_text: string;
-  question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox';
+  question_type: QuestionType;
   question_order: number;
   is_required: boolean;
   options?: string[];
   validation_rules?: {
     min?: number;
     max?: number;
+    // Likert only: distance between scale points, 1 by default
+    step?: number;
     required?: boolean;
     word_limit?: number;
     sum_to_100?: boolean;
   };
+  display_condition?: DisplayCondition;
   analysis_tags?: string;
 }
 
@@ -142,6 +151,7 @@ export const managerQuestions: Omit<Question, 'id'>[] = [
     question_order: 12,
     is_required: false,
     validation_rules: { word_limit: 200 },
+    display_condition: { question_order: 11, in: ["4-7", "8-12", "13+"] },
     analysis_tags: "critical_workarounds,process_gaps"
   },
   {
@@ -0,0 +1,238 @@
+// Executive report: the dashboard's headline figures as a printable HTML
+// document for leadership. Styles are inline and there are no scripts or
+// remote assets, so the page renders the same in a browser and in the PDF
+// printer (see ./pdf).
+
+import type { AnalyticsFilter } from '@/lib/database-adapter';
+import type { AnalyticsReport } from '@/lib/analytics';
+import { TARGET_ROLE_LABELS } from '@/lib/survey-authoring';
+
+export interface ExecutiveReportContext {
+  filter: AnalyticsFilter;
+  // Name of the survey in filter.surveyId, when there is one
+  surveyName?: string;
+  generatedAt: Date;
+}
+
+const BRAND_COLOR = '#1d4ed8';
+
+const TEAM_LABELS: Record<string, string> = {
+  manager: 'Equipo Gerencial',
+  sales: 'Equipo de Ventas'
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(date: string | Date) {
+  return new Date(date).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' });
+}
+
+function scoreColor(score: number) {
+  return score >= 7 ? '#15803d' : score >= 5 ? '#b45309' : '#b91c1c';
+}
+
+function describeFilter({ filter, surveyName }: ExecutiveReportContext): string[] {
+  const parts: string[] = [];
+  if (filter.from || filter.to) {
+    parts.push(`Periodo: ${filter.from ? formatDate(filter.from) : 'inicio'} – ${filter.to ? formatDate(filter.to) : 'hoy'}`);
+  }
+  if (filter.surveyId !== undefined) {
+    const name = surveyName ?? `Encuesta ${filter.surveyId}`;
+    parts.push(filter.version !== undefined ? `${name} (versión ${filter.version})` : name);
+  }
+  if (filter.role) parts.push(`Rol: ${TARGET_ROLE_LABELS[filter.role] ?? filter.role}`);
+  if (filter.department) parts.push(`Departamento: ${filter.department}`);
+  if (filter.sections?.length) parts.push(`Secciones: ${filter.sections.join(', ')}`);
+  return parts.length > 0 ? parts : ['Todas las respuestas completadas'];
+}
+
+function list(items: string[], empty: string) {
+  return items.length > 0
+    ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : `<p class="muted">${escapeHtml(empty)}</p>`;
+}
+
+function healthSection(report: AnalyticsReport) {
+  const { systemHealth, summary } = report;
+  const figures = [
+    { label: 'Salud del sistema', value: `${systemHealth.overall_health_score.toFixed(1)}/10`, color: scoreColor(systemHealth.overall_health_score) },
+    { label: 'Índice de eficiencia', value: `${systemHealth.efficiency_index.toFixed(1)}/10`, color: scoreColor(systemHealth.efficiency_index) },
+    { label: 'Productividad', value: `${systemHealth.productivity_score.toFixed(1)}/10`, color: scoreColor(systemHealth.productivity_score) },
+    { label: 'Respuestas', value: String(summary.total_responses), color: BRAND_COLOR }
+  ];
+
+  return `
+    <section>
+      <h2>Salud del sistema</h2>
+      <div class="figures">
+        ${figures.map(figure => `
+          <div class="figure">
+            <div class="value" style="color:${figure.color}">${figure.value}</div>
+            <div class="label">${figure.label}</div>
+          </div>`).join('')}
+      </div>
+      <p>Estado: <strong>${escapeHtml(systemHealth.health_status)}</strong> · Tendencia: <strong>${escapeHtml(systemHealth.trend_direction)}</strong>
+        · ${systemHealth.critical_failure_rate} problema(s) crítico(s) · ${systemHealth.excellence_indicators} área(s) de excelencia</p>
+      ${summary.anonymity.belowThreshold
+        ? `<p class="notice">Se necesitan al menos ${summary.anonymity.minCellSize} respuestas para mostrar puntuaciones sin identificar a nadie; las cifras de este informe son provisionales.</p>`
+        : ''}
+    </section>`;
+}
+
+// Placeholder rows, shown before there is detailed data, carry no spread
+function median(row: object) {
+  return 'median_score' in row && typeof row.median_score === 'number' ? row.median_score.toFixed(1) : '—';
+}
+
+function confidenceInterval(row: object) {
+  return 'ci_low' in row && typeof row.ci_low === 'number' && 'ci_high' in row && typeof row.ci_high === 'number'
+    ? `${row.ci_low.toFixed(1)}–${row.ci_high.toFixed(1)}`
+    : '—';
+}
+
+function sectionPerformance(report: AnalyticsReport) {
+  const rows = [...report.sectionPerformance].sort((a, b) => b.avg_score - a.avg_score);
+  return `
+    <section>
+      <h2>Rendimiento por sección</h2>
+      <table>
+        <thead><tr><th>Sección</th><th class="bar-cell">Puntuación</th><th class="num">Mediana</th><th class="num">IC 95%</th><th class="num">Respuestas</th><th class="num">Indicadores de problema</th></tr></thead>
+        <tbody>
+          ${rows.map(row => `
+            <tr>
+              <td>${escapeHtml(row.section)}</td>
+              <td class="bar-cell">
+                <div class="bar"><div style="width:${Math.min(100, Math.max(0, row.avg_score * 10))}%;background:${scoreColor(row.avg_score)}"></div></div>
+                <span>${row.avg_score.toFixed(1)}</span>
+              </td>
+              <td class="num">${median(row)}</td>
+              <td class="num">${confidenceInterval(row)}</td>
+              <td class="num">${row.response_count}</td>
+              <td class="num">${row.problem_indicators}</td>
+            </tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+function teamComparison(report: AnalyticsReport) {
+  return `
+    <section>
+      <h2>Comparación de equipos</h2>
+      <table>
+        <thead><tr><th>Equipo</th><th class="num">Rendimiento</th><th class="num">IC 95%</th><th class="num">Respuestas</th><th class="num">Puntos de dolor</th><th class="num">Fortalezas</th></tr></thead>
+        <tbody>
+          ${report.efficiencyMetrics.map(team => `
+            <tr>
+              <td>${escapeHtml(TEAM_LABELS[team.team] ?? team.team)}</td>
+              <td class="num" style="color:${scoreColor(team.performance_score)}">${team.performance_score.toFixed(1)}/10</td>
+              <td class="num">${confidenceInterval(team)}</td>
+              <td class="num">${team.sample_size}</td>
+              <td class="num">${team.pain_points}</td>
+              <td class="num">${team.strengths}</td>
+            </tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+function criticalIssues(report: AnalyticsReport) {
+  return `
+    <section>
+      <h2>Problemas críticos</h2>
+      ${report.criticalIssues.length > 0
+        ? `<table>
+            <thead><tr><th>Pregunta</th><th>Sección</th><th class="num">Gravedad</th><th class="num">Respuestas</th></tr></thead>
+            <tbody>
+              ${report.criticalIssues.map(issue => `
+                <tr>
+                  <td>${escapeHtml(issue.question_text)}</td>
+                  <td>${escapeHtml(issue.section)}</td>
+                  <td class="num">${issue.severity_score.toFixed(1)}</td>
+                  <td class="num">${issue.frequency}</td>
+                </tr>`).join('')}
+            </tbody>
+          </table>`
+        : '<p class="muted">No se identificaron problemas críticos.</p>'}
+    </section>`;
+}
+
+function recommendations(report: AnalyticsReport) {
+  const { immediate_actions, strategic_recommendations } = report.actionableInsights;
+  const recommended = report.professionalInsights.filter(insight => insight.category === 'RECOMMENDATION' || insight.category === 'OPPORTUNITY');
+
+  return `
+    <section>
+      <h2>Recomendaciones</h2>
+      <h3>Acciones inmediatas</h3>
+      ${list(immediate_actions, 'No hay acciones inmediatas pendientes.')}
+      <h3>Recomendaciones estratégicas</h3>
+      ${list(strategic_recommendations, 'Sin recomendaciones estratégicas por ahora.')}
+      ${recommended.length > 0
+        ? `<h3>Oportunidades</h3>${recommended.map(insight => `
+            <div class="insight">
+              <strong>${escapeHtml(insight.title)}</strong>
+              <p>${escapeHtml(insight.description)}</p>
+            </div>`).join('')}`
+        : ''}
+    </section>`;
+}
+
+const STYLES = `
+  @page { size: A4; margin: 16mm 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #111827; font-size: 11pt; line-height: 1.45; margin: 0; }
+  header { border-bottom: 4px solid ${BRAND_COLOR}; padding-bottom: 12px; margin-bottom: 20px; }
+  header .brand { color: ${BRAND_COLOR}; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; font-size: 9pt; }
+  h1 { font-size: 20pt; margin: 4px 0 6px; }
+  h2 { font-size: 14pt; color: ${BRAND_COLOR}; margin: 0 0 10px; }
+  h3 { font-size: 11pt; margin: 14px 0 6px; }
+  section { margin-bottom: 22px; page-break-inside: avoid; }
+  .meta { color: #4b5563; font-size: 9.5pt; }
+  .figures { display: flex; gap: 10px; margin-bottom: 10px; }
+  .figure { flex: 1; border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px; text-align: center; }
+  .figure .value { font-size: 18pt; font-weight: 700; }
+  .figure .label { font-size: 9pt; color: #4b5563; }
+  table { width: 100%; border-collapse: collapse; font-size: 10pt; }
+  th { text-align: left; background: #eff6ff; color: #1e3a8a; padding: 6px 8px; }
+  td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .bar-cell { width: 34%; white-space: nowrap; }
+  .bar { display: inline-block; width: 75%; height: 8px; background: #e5e7eb; border-radius: 4px; overflow: hidden; vertical-align: middle; margin-right: 6px; }
+  .bar div { height: 100%; }
+  .muted { color: #6b7280; }
+  .notice { background: #fef3c7; border-left: 4px solid #d97706; padding: 8px 10px; font-size: 10pt; }
+  .insight { border-left: 3px solid ${BRAND_COLOR}; padding: 2px 10px; margin-bottom: 8px; }
+  .insight p { margin: 2px 0 0; }
+  footer { color: #6b7280; font-size: 8.5pt; border-top: 1px solid #e5e7eb; padding-top: 8px; }
+`;
+
+export function renderExecutiveReport(report: AnalyticsReport, context: ExecutiveReportContext): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>Informe Ejecutivo de Retroalimentación</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <div class="brand">Sistema de Retroalimentación</div>
+    <h1>Informe Ejecutivo</h1>
+    <div class="meta">Generado el ${formatDate(context.generatedAt)} · ${describeFilter(context).map(escapeHtml).join(' · ')}</div>
+  </header>
+  ${healthSection(report)}
+  ${sectionPerformance(report)}
+  ${teamComparison(report)}
+  ${criticalIssues(report)}
+  ${recommendations(report)}
+  <footer>Grupos con menos de ${report.summary.anonymity.minCellSize} respuestas se ocultan o agrupan para proteger el anonimato de los participantes.</footer>
+</body>
+</html>`;
+}
@@ -0,0 +1,65 @@
+// HTML to PDF with a locally installed Chrome or Chromium in headless mode,
+// so reports are printed on the server without any external service. The
+// browser is REPORT_CHROME_PATH, or the first one found in the usual places.
+
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const BROWSER_PATHS = [
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe'
+];
+
+const PRINT_TIMEOUT_MS = 60_000;
+
+export function findBrowser(): string | null {
+  const configured = process.env.REPORT_CHROME_PATH;
+  if (configured) return existsSync(configured) ? configured : null;
+  return BROWSER_PATHS.find(candidate => existsSync(candidate)) ?? null;
+}
+
+function run(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: PRINT_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (error) reject(new Error(`PDF printing failed: ${stderr.trim() || error.message}`));
+      else resolve();
+    });
+  });
+}
+
+export async function htmlToPdf(html: string): Promise<Buffer> {
+  const browser = findBrowser();
+  if (!browser) {
+    throw new Error('No Chrome or Chromium found; set REPORT_CHROME_PATH');
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'report-'));
+  try {
+    const input = path.join(workDir, 'report.html');
+    const output = path.join(workDir, 'report.pdf');
+    await writeFile(input, html, 'utf8');
+
+    await run(browser, [
+      '--headless',
+      '--disable-gpu',
+      // Chrome refuses to start sandboxed as root, which is common in containers
+      ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+      `--user-data-dir=${path.join(workDir, 'profile')}`,
+      '--no-pdf-header-footer',
+      `--print-to-pdf=${output}`,
+      pathToFileURL(input).href
+    ]);
+
+    return await readFile(output);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -1,12 +1,12 @@
-import { db, dbHelpers } from './database';
+import { db, dbHelpers, snapshotPublishedSurveys } from './database';
 import { allQuestions } from './questions';
 
 export function seedQuestions() {
   const insertQuestion = db.prepare(`
     INSERT OR REPLACE INTO questions (
       survey_id, section, question_text, question_type, question_order,
-      is_required, options, validation_rules, analysis_tags
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      is_required, options, validation_rules, display_condition, analysis_tags
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   console.log('Seeding questions...');
@@ -21,10 +21,14 @@ export function seedQuestions() {
       question.is_required ? 1 : 0,
       question.options ? JSON.stringify(question.options) : null,
       question.validation_rules ? JSON.stringify(question.validation_rules) : null,
+      question.display_condition ? JSON.stringify(question.display_condition) : null,
       question.analysis_tags || null
     );
   }
 
+  // The seeded surveys are published as version 1
+  snapshotPublishedSurveys();
+
   console.log(`Successfully seeded ${allQuestions.length} questions`);
 }
 
@@ -33,6 +33,7 @@ export interface SurveyState {
   setUserId: (userId: number | null) => void;
   setAnonymous: (anonymous: boolean) => void;
   startSurvey: (surveyId: number, totalQuestions: number) => void;
+  resumeSurvey: (surveyId: number, sessionId: string, totalQuestions: number, savedAnswers: SurveyAnswer[], startedAt: string) => void;
   setCurrentQuestion: (index: number, section: string) => void;
   setAnswer: (questionId: number, value: string, numericValue?: number, confidenceScore?: number) => void;
   setError: (questionId: number, error: string) => void;
@@ -82,6 +83,32 @@ export const useSurveyStore = create<SurveyState>()(
         });
       },
       
+      resumeSurvey: (surveyId, sessionId, totalQuestions, savedAnswers, startedAt) => {
+        const state = get();
+        const isSameSession = state.sessionId === sessionId;
+        const restoredAnswers: Record<number, SurveyAnswer> = {};
+        savedAnswers.forEach(answer => {
+          restoredAnswers[answer.questionId] = answer;
+        });
+
+        // Local answers for the same session may be newer than the last autosave
+        const mergedAnswers = isSameSession
+          ? { ...restoredAnswers, ...state.answers }
+          : restoredAnswers;
+
+        set({
+          currentSurveyId: surveyId,
+          sessionId,
+          totalQuestions,
+          currentQuestionIndex: isSameSession ? state.currentQuestionIndex : 0,
+          completedQuestions: Object.keys(mergedAnswers).length,
+          answers: mergedAnswers,
+          startTime: new Date(startedAt),
+          errors: {},
+          isValid: true,
+        });
+      },
+
       setCurrentQuestion: (index, section) => set({
         currentQuestionIndex: index,
         currentSection: section,
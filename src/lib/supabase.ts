@@ -1,11 +1,20 @@
 import { createClient } from '@supabase/supabase-js';
 
-// Supabase configuration
+// Supabase configuration. The server uses the service-role key, which bypasses
+// row level security; the anon key ships to the browser and is granted nothing.
+// This module must only be imported from server code.
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 
-// Create Supabase client
-export const supabase = createClient(supabaseUrl, supabaseKey);
+if (process.env.DATABASE_TYPE === 'supabase' && !supabaseKey) {
+  throw new Error('SUPABASE_SERVICE_ROLE_KEY is required when DATABASE_TYPE=supabase');
+}
+
+// Create Supabase client. SQLite deployments import it without ever calling
+// it, so they need no key.
+export const supabase = createClient(supabaseUrl, supabaseKey || 'not-configured', {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
 
 // Database tables interface for TypeScript
 export interface Database {
@@ -81,11 +90,12 @@ export interface Database {
           survey_id: number;
           section: string;
           question_text: string;
-          question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox';
+          question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox' | 'nps';
           question_order: number;
           is_required: boolean;
           options: string | null;
           validation_rules: string | null;
+          display_condition: string | null;
           analysis_tags: string | null;
         };
         Insert: {
@@ -93,11 +103,12 @@ export interface Database {
           survey_id: number;
           section: string;
           question_text: string;
-          question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox';
+          question_type: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox' | 'nps';
           question_order: number;
           is_required?: boolean;
           options?: string | null;
           validation_rules?: string | null;
+          display_condition?: string | null;
           analysis_tags?: string | null;
         };
         Update: {
@@ -105,14 +116,261 @@ export interface Database {
           survey_id?: number;
           section?: string;
           question_text?: string;
-          question_type?: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox';
+          question_type?: 'likert' | 'multiple_choice' | 'text' | 'ranking' | 'percentage' | 'checkbox' | 'nps';
           question_order?: number;
           is_required?: boolean;
           options?: string | null;
           validation_rules?: string | null;
+          display_condition?: string | null;
           analysis_tags?: string | null;
         };
       };
+      auth_tokens: {
+        Row: {
+          id: number;
+          user_id: number;
+          token_hash: string;
+          expires_at: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: number;
+          token_hash: string;
+          expires_at: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: number;
+          token_hash?: string;
+          expires_at?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+      };
+      campaigns: {
+        Row: {
+          id: number;
+          survey_id: number;
+          name: string;
+          created_by: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          survey_id: number;
+          name: string;
+          created_by?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          survey_id?: number;
+          name?: string;
+          created_by?: number | null;
+          created_at?: string;
+        };
+      };
+      campaign_recipients: {
+        Row: {
+          id: number;
+          campaign_id: number;
+          user_id: number;
+          token_hash: string;
+          invited_at: string;
+          opened_at: string | null;
+          started_at: string | null;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          campaign_id: number;
+          user_id: number;
+          token_hash: string;
+          invited_at?: string;
+          opened_at?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          campaign_id?: number;
+          user_id?: number;
+          token_hash?: string;
+          invited_at?: string;
+          opened_at?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+      };
+      action_items: {
+        Row: {
+          id: number;
+          title: string;
+          description: string | null;
+          priority: 'high' | 'medium' | 'low' | null;
+          category: string | null;
+          assigned_to: number | null;
+          status: 'open' | 'in_progress' | 'completed' | 'cancelled';
+          due_date: string | null;
+          department: string | null;
+          created_from_response_id: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          title: string;
+          description?: string | null;
+          priority?: 'high' | 'medium' | 'low' | null;
+          category?: string | null;
+          assigned_to?: number | null;
+          status?: 'open' | 'in_progress' | 'completed' | 'cancelled';
+          due_date?: string | null;
+          department?: string | null;
+          created_from_response_id?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          title?: string;
+          description?: string | null;
+          priority?: 'high' | 'medium' | 'low' | null;
+          category?: string | null;
+          assigned_to?: number | null;
+          status?: 'open' | 'in_progress' | 'completed' | 'cancelled';
+          due_date?: string | null;
+          department?: string | null;
+          created_from_response_id?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      action_item_history: {
+        Row: {
+          id: number;
+          action_item_id: number;
+          from_status: string | null;
+          to_status: string;
+          changed_by: number | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: number;
+          action_item_id: number;
+          from_status?: string | null;
+          to_status: string;
+          changed_by?: number | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: number;
+          action_item_id?: number;
+          from_status?: string | null;
+          to_status?: string;
+          changed_by?: number | null;
+          changed_at?: string;
+        };
+      };
+      text_themes: {
+        Row: {
+          id: number;
+          name: string;
+          description: string | null;
+          created_by: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          description?: string | null;
+          created_by?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          description?: string | null;
+          created_by?: number | null;
+          created_at?: string;
+        };
+      };
+      answer_themes: {
+        Row: {
+          answer_id: number;
+          theme_id: number;
+          coded_by: number | null;
+          coded_at: string;
+        };
+        Insert: {
+          answer_id: number;
+          theme_id: number;
+          coded_by?: number | null;
+          coded_at?: string;
+        };
+        Update: {
+          answer_id?: number;
+          theme_id?: number;
+          coded_by?: number | null;
+          coded_at?: string;
+        };
+      };
+      analytics_cache: {
+        Row: {
+          id: number;
+          metric_name: string;
+          metric_value: string;
+          filters: string | null;
+          filters_hash: string | null;
+          computed_at: string;
+          expires_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          metric_name: string;
+          metric_value: string;
+          filters?: string | null;
+          filters_hash?: string | null;
+          computed_at?: string;
+          expires_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          metric_name?: string;
+          metric_value?: string;
+          filters?: string | null;
+          filters_hash?: string | null;
+          computed_at?: string;
+          expires_at?: string | null;
+        };
+      };
+      survey_versions: {
+        Row: {
+          id: number;
+          survey_id: number;
+          version: number;
+          questions: string;
+          published_at: string;
+        };
+        Insert: {
+          id?: number;
+          survey_id: number;
+          version: number;
+          questions: string;
+          published_at?: string;
+        };
+        Update: {
+          id?: number;
+          survey_id?: number;
+          version?: number;
+          questions?: string;
+          published_at?: string;
+        };
+      };
       responses: {
         Row: {
           id: number;
@@ -124,6 +382,7 @@ export interface Database {
           completed_at: string | null;
           is_complete: boolean;
           response_time_seconds: number | null;
+          survey_version: number | null;
         };
         Insert: {
           id?: number;
@@ -135,6 +394,7 @@ export interface Database {
           completed_at?: string | null;
           is_complete?: boolean;
           response_time_seconds?: number | null;
+          survey_version?: number | null;
         };
         Update: {
           id?: number;
@@ -146,6 +406,7 @@ export interface Database {
           completed_at?: string | null;
           is_complete?: boolean;
           response_time_seconds?: number | null;
+          survey_version?: number | null;
         };
       };
       answers: {
@@ -156,6 +417,7 @@ export interface Database {
           answer_value: string | null;
           answer_numeric: number | null;
           confidence_score: number | null;
+          sentiment_score: number | null;
           created_at: string;
         };
         Insert: {
@@ -165,6 +427,7 @@ export interface Database {
           answer_value?: string | null;
           answer_numeric?: number | null;
           confidence_score?: number | null;
+          sentiment_score?: number | null;
           created_at?: string;
         };
         Update: {
@@ -174,6 +437,7 @@ export interface Database {
           answer_value?: string | null;
           answer_numeric?: number | null;
           confidence_score?: number | null;
+          sentiment_score?: number | null;
           created_at?: string;
         };
       };
@@ -195,15 +459,372 @@ export const supabaseHelpers = {
     return data;
   },
 
+  // Case-insensitive: an exact ilike match, with its wildcards escaped
   async getUserByEmail(email: string) {
     const { data, error } = await supabase
       .from('users')
       .select('*')
-      .eq('email', email)
-      .single();
+      .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+      .limit(1);
     
     if (error) throw error;
-    return data;
+    return data?.[0] || null;
+  },
+
+  // Ids of the users of a department, used to scope analytics for managers
+  async getUserIdsByDepartment(department: string) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id')
+      .eq('department', department);
+
+    if (error) throw error;
+    return (data || []).map(user => user.id);
+  },
+
+  async getActiveUsers() {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('is_active', true)
+      .order('role')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Campaigns with their invitation progress; all of them, or the one with the given id
+  async getCampaigns(id?: number) {
+    let query = supabase
+      .from('campaigns')
+      .select('*, surveys(name, target_role), campaign_recipients(started_at, completed_at)')
+      .order('created_at', { ascending: false });
+
+    if (id !== undefined) query = query.eq('id', id);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data as any[] || []).map(({ surveys, campaign_recipients, ...campaign }) => ({
+      ...campaign,
+      survey_name: surveys?.name,
+      target_role: surveys?.target_role,
+      invited_count: campaign_recipients.length,
+      started_count: campaign_recipients.filter((r: any) => r.started_at).length,
+      completed_count: campaign_recipients.filter((r: any) => r.completed_at).length
+    }));
+  },
+
+  // Runs the create_campaign function so a campaign is never left without its recipients
+  async createCampaign(
+    campaign: { surveyId: number; name: string; createdBy: number | null },
+    recipients: { userId: number; tokenHash: string }[]
+  ) {
+    const { data, error } = await supabase.rpc('create_campaign', {
+      p_survey_id: campaign.surveyId,
+      p_name: campaign.name,
+      p_created_by: campaign.createdBy,
+      p_recipients: recipients.map(recipient => ({
+        user_id: recipient.userId,
+        token_hash: recipient.tokenHash
+      }))
+    });
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async getCampaignRecipients(campaignId: number) {
+    const { data, error } = await supabase
+      .from('campaign_recipients')
+      .select('id, campaign_id, user_id, invited_at, opened_at, started_at, completed_at, users(name, email, department)')
+      .eq('campaign_id', campaignId);
+
+    if (error) throw error;
+    return (data as any[] || [])
+      .map(({ users, ...recipient }) => ({ ...recipient, name: users?.name, email: users?.email, department: users?.department }))
+      .sort((a, b) => String(a.name).localeCompare(String(b.name)));
+  },
+
+  async getInvitation(tokenHash: string) {
+    const { data, error } = await supabase
+      .from('campaign_recipients')
+      .select('*, campaigns(survey_id, name)')
+      .eq('token_hash', tokenHash)
+      .limit(1);
+
+    if (error) throw error;
+    const recipient: any = data?.[0];
+    if (!recipient) return null;
+
+    const { campaigns, ...invitation } = recipient;
+    return { ...invitation, survey_id: campaigns?.survey_id, campaign_name: campaigns?.name };
+  },
+
+  async markInvitationOpened(recipientId: number) {
+    const { error } = await supabase
+      .from('campaign_recipients')
+      .update({ opened_at: new Date().toISOString() })
+      .eq('id', recipientId)
+      .is('opened_at', null);
+
+    if (error) throw error;
+  },
+
+  // Flag the user's pending invitations to a survey as started, or as completed
+  async markInvitationsProgress(userId: number, surveyId: number, completed: boolean) {
+    const { data: campaigns, error: campaignsError } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('survey_id', surveyId);
+
+    if (campaignsError) throw campaignsError;
+    const campaignIds = (campaigns || []).map(campaign => campaign.id);
+    if (campaignIds.length === 0) return;
+
+    const now = new Date().toISOString();
+    const { error: startedError } = await supabase
+      .from('campaign_recipients')
+      .update({ started_at: now })
+      .eq('user_id', userId)
+      .in('campaign_id', campaignIds)
+      .is('started_at', null)
+      .is('completed_at', null);
+
+    if (startedError) throw startedError;
+    if (!completed) return;
+
+    const { error } = await supabase
+      .from('campaign_recipients')
+      .update({ completed_at: now })
+      .eq('user_id', userId)
+      .in('campaign_id', campaignIds)
+      .is('completed_at', null);
+
+    if (error) throw error;
+  },
+
+  // Action items with their assignee, most urgent first
+  async getActionItems(id?: number) {
+    let query = supabase
+      .from('action_items')
+      .select('*, users(name, email)');
+
+    if (id !== undefined) query = query.eq('id', id);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    const priorityOrder: Record<string, number> = { high: 0, medium: 1, low: 2 };
+    return (data as any[] || [])
+      .map(({ users, ...item }) => ({ ...item, assigned_name: users?.name ?? null, assigned_email: users?.email ?? null }))
+      .sort((a, b) =>
+        (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2) ||
+        (a.due_date === null ? 1 : 0) - (b.due_date === null ? 1 : 0) ||
+        String(a.due_date).localeCompare(String(b.due_date)) ||
+        b.id - a.id
+      );
+  },
+
+  // Runs the create_action_item function so an item is never left without its first history entry
+  async createActionItem(item: Database['public']['Tables']['action_items']['Insert'], createdBy: number | null) {
+    const { data, error } = await supabase.rpc('create_action_item', {
+      p_title: item.title,
+      p_description: item.description ?? null,
+      p_priority: item.priority ?? null,
+      p_category: item.category ?? null,
+      p_assigned_to: item.assigned_to ?? null,
+      p_status: item.status ?? 'open',
+      p_due_date: item.due_date ?? null,
+      p_department: item.department ?? null,
+      p_created_by: createdBy
+    });
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async updateActionItem(id: number, changes: Database['public']['Tables']['action_items']['Update']) {
+    const { error } = await supabase
+      .from('action_items')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getActionItemHistory(actionItemId: number) {
+    const { data, error } = await supabase
+      .from('action_item_history')
+      .select('id, action_item_id, from_status, to_status, changed_by, changed_at, users(name)')
+      .eq('action_item_id', actionItemId)
+      .order('changed_at')
+      .order('id');
+
+    if (error) throw error;
+    return (data as any[] || []).map(({ users, ...entry }) => ({ ...entry, changed_by_name: users?.name ?? null }));
+  },
+
+  async insertActionItemHistory(actionItemId: number, fromStatus: string | null, toStatus: string, changedBy: number | null) {
+    const { error } = await supabase
+      .from('action_item_history')
+      .insert({ action_item_id: actionItemId, from_status: fromStatus, to_status: toStatus, changed_by: changedBy });
+
+    if (error) throw error;
+  },
+
+  // Themes for coding free-text answers
+  async getTextThemes(id?: number) {
+    let query = supabase
+      .from('text_themes')
+      .select('*')
+      .order('name');
+
+    if (id !== undefined) query = query.eq('id', id);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async insertTextTheme(theme: Database['public']['Tables']['text_themes']['Insert']) {
+    const { data, error } = await supabase
+      .from('text_themes')
+      .insert(theme)
+      .select();
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async updateTextTheme(id: number, changes: Database['public']['Tables']['text_themes']['Update']) {
+    const { data, error } = await supabase
+      .from('text_themes')
+      .update(changes)
+      .eq('id', id)
+      .select();
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  async deleteTextTheme(id: number) {
+    const { error: codingError } = await supabase
+      .from('answer_themes')
+      .delete()
+      .eq('theme_id', id);
+
+    if (codingError) throw codingError;
+
+    const { error } = await supabase
+      .from('text_themes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getAnswerThemes() {
+    const { data, error } = await supabase
+      .from('answer_themes')
+      .select('answer_id, theme_id')
+      .order('answer_id')
+      .order('theme_id');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async setAnswerThemes(answerId: number, themeIds: number[], codedBy: number | null) {
+    const { error: deleteError } = await supabase
+      .from('answer_themes')
+      .delete()
+      .eq('answer_id', answerId);
+
+    if (deleteError) throw deleteError;
+    if (themeIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('answer_themes')
+      .insert(themeIds.map(themeId => ({ answer_id: answerId, theme_id: themeId, coded_by: codedBy })));
+
+    if (error) throw error;
+  },
+
+  async getAnswerContext(answerId: number) {
+    const { data, error } = await supabase
+      .from('answers')
+      .select('id, questions!inner(question_type), responses!inner(is_complete, users(department))')
+      .eq('id', answerId)
+      .limit(1);
+
+    if (error) throw error;
+    const row = (data as any[] || [])[0];
+    return row ? {
+      id: row.id,
+      question_type: row.questions.question_type,
+      is_complete: row.responses.is_complete,
+      department: row.responses.users?.department ?? null
+    } : null;
+  },
+
+  // Full-text search with Spanish stemming, see search_answers
+  async searchAnswers(search: string) {
+    const { data, error } = await supabase.rpc('search_answers', { p_search: search });
+
+    if (error) throw error;
+    return (data as { id: number }[] || []).map(row => row.id);
+  },
+
+  async getTextAnswers(unscoredOnly: boolean) {
+    let query = supabase
+      .from('answers')
+      .select('id, answer_value, questions!inner(question_type)')
+      .eq('questions.question_type', 'text')
+      .not('answer_value', 'is', null)
+      .order('id');
+
+    if (unscoredOnly) query = query.is('sentiment_score', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data as any[] || []).map(row => ({ id: row.id, answer_value: row.answer_value }));
+  },
+
+  async setSentimentScore(answerId: number, score: number) {
+    const { error } = await supabase
+      .from('answers')
+      .update({ sentiment_score: score })
+      .eq('id', answerId);
+
+    if (error) throw error;
+  },
+
+  // Sign-in links
+  async insertAuthToken(userId: number, tokenHash: string, expiresAt: string) {
+    const { error } = await supabase
+      .from('auth_tokens')
+      .insert({ user_id: userId, token_hash: tokenHash, expires_at: expiresAt });
+
+    if (error) throw error;
+  },
+
+  // Marks the token used in the same statement that checks it, so a link can
+  // only be redeemed once even when it is opened twice at the same time
+  async consumeAuthToken(tokenHash: string) {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('auth_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', tokenHash)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('user_id');
+
+    if (error) throw error;
+    return data?.[0]?.user_id ?? null;
   },
 
   // Survey operations
@@ -241,7 +862,7 @@ export const supabaseHelpers = {
   },
 
   // Response operations
-  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string) {
+  async insertResponse(surveyId: number, userId: number | null, sessionId: string, isAnonymous: boolean, startedAt: string, surveyVersion: number | null) {
     const { data, error } = await supabase
       .from('responses')
       .insert({
@@ -249,7 +870,8 @@ export const supabaseHelpers = {
         user_id: userId,
         session_id: sessionId,
         is_anonymous: isAnonymous,
-        started_at: startedAt
+        started_at: startedAt,
+        survey_version: surveyVersion
       })
       .select();
     
@@ -305,9 +927,271 @@ export const supabaseHelpers = {
       .from('answers')
       .select('*')
       .eq('response_id', responseId);
-    
+
     if (error) throw error;
     return data;
+  },
+
+  // Same scoping as the SQLite statement: the user's own drafts first, then a
+  // completed anonymous submission for the session
+  async getResponseBySession(sessionId: string, userId: number) {
+    const { data, error } = await supabase
+      .from('responses')
+      .select('*')
+      .eq('session_id', sessionId)
+      .or(`user_id.eq.${userId},and(user_id.is.null,is_complete.eq.true)`)
+      .order('user_id', { ascending: true, nullsFirst: false })
+      .order('id', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  // Runs the submit_survey_response function so the response, its answers and
+  // the completion flag are written in a single transaction
+  async submitResponse(submission: {
+    surveyId: number;
+    userId: number | null;
+    respondentId: number;
+    sessionId: string;
+    isAnonymous: boolean;
+    startedAt: string;
+    responseTimeSeconds: number;
+    surveyVersion: number;
+    answers: { questionId: number; answerValue: string | null; answerNumeric: number | null; confidenceScore: number | null; sentimentScore?: number | null }[];
+  }) {
+    const { data, error } = await supabase.rpc('submit_survey_response', {
+      p_survey_id: submission.surveyId,
+      p_user_id: submission.userId,
+      p_respondent_id: submission.respondentId,
+      p_session_id: submission.sessionId,
+      p_is_anonymous: submission.isAnonymous,
+      p_started_at: submission.startedAt,
+      p_response_time_seconds: submission.responseTimeSeconds,
+      p_survey_version: submission.surveyVersion,
+      p_answers: submission.answers.map(answer => ({
+        question_id: answer.questionId,
+        answer_value: answer.answerValue,
+        answer_numeric: answer.answerNumeric,
+        confidence_score: answer.confidenceScore,
+        sentiment_score: answer.sentimentScore ?? null
+      }))
+    });
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  // Runs the replace_response_answers function so a draft never loses its
+  // answers between the delete and the insert
+  async replaceAnswers(responseId: number, answers: { questionId: number; answerValue: string | null; answerNumeric: number | null; confidenceScore: number | null; sentimentScore?: number | null }[]) {
+    const { error } = await supabase.rpc('replace_response_answers', {
+      p_response_id: responseId,
+      p_answers: answers.map(answer => ({
+        question_id: answer.questionId,
+        answer_value: answer.answerValue,
+        answer_numeric: answer.answerNumeric,
+        confidence_score: answer.confidenceScore,
+        sentiment_score: answer.sentimentScore ?? null
+      }))
+    });
+
+    if (error) throw error;
+  },
+
+  // Survey authoring
+  async getAllSurveys() {
+    const { data, error } = await supabase
+      .from('surveys')
+      .select('*, questions(count)')
+      .order('id');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async insertSurvey(survey: Database['public']['Tables']['surveys']['Insert']) {
+    const { data, error } = await supabase
+      .from('surveys')
+      .insert(survey)
+      .select();
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async updateSurvey(id: number, changes: Database['public']['Tables']['surveys']['Update']) {
+    const { data, error } = await supabase
+      .from('surveys')
+      .update(changes)
+      .eq('id', id)
+      .select();
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async deleteSurvey(id: number) {
+    const { data: campaigns, error: campaignsError } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('survey_id', id);
+
+    if (campaignsError) throw campaignsError;
+
+    if (campaigns && campaigns.length > 0) {
+      const campaignIds = campaigns.map(campaign => campaign.id);
+      const { error: recipientsError } = await supabase
+        .from('campaign_recipients')
+        .delete()
+        .in('campaign_id', campaignIds);
+
+      if (recipientsError) throw recipientsError;
+
+      const { error: campaignsDeleteError } = await supabase
+        .from('campaigns')
+        .delete()
+        .in('id', campaignIds);
+
+      if (campaignsDeleteError) throw campaignsDeleteError;
+    }
+
+    const { error: versionsError } = await supabase
+      .from('survey_versions')
+      .delete()
+      .eq('survey_id', id);
+
+    if (versionsError) throw versionsError;
+
+    const { error: questionsError } = await supabase
+      .from('questions')
+      .delete()
+      .eq('survey_id', id);
+
+    if (questionsError) throw questionsError;
+
+    const { error } = await supabase
+      .from('surveys')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async countResponsesBySurvey(surveyId: number) {
+    const { count, error } = await supabase
+      .from('responses')
+      .select('*', { count: 'exact', head: true })
+      .eq('survey_id', surveyId);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  async getQuestion(id: number) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('*')
+      .eq('id', id)
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  async getNextQuestionOrder(surveyId: number) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('question_order')
+      .eq('survey_id', surveyId)
+      .order('question_order', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return (data?.[0]?.question_order || 0) + 1;
+  },
+
+  async insertQuestion(question: Database['public']['Tables']['questions']['Insert']) {
+    const { data, error } = await supabase
+      .from('questions')
+      .insert(question)
+      .select();
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async updateQuestion(id: number, changes: Database['public']['Tables']['questions']['Update']) {
+    const { data, error } = await supabase
+      .from('questions')
+      .update(changes)
+      .eq('id', id)
+      .select();
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async deleteQuestion(id: number) {
+    const { error } = await supabase
+      .from('questions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async reorderQuestions(surveyId: number, questionIds: number[]) {
+    const { error } = await supabase.rpc('reorder_survey_questions', {
+      p_survey_id: surveyId,
+      p_question_ids: questionIds
+    });
+
+    if (error) throw error;
+  },
+
+  async countAnswersByQuestion(questionId: number) {
+    const { count, error } = await supabase
+      .from('answers')
+      .select('*', { count: 'exact', head: true })
+      .eq('question_id', questionId);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  // Survey versions
+  async publishSurvey(surveyId: number) {
+    const { data, error } = await supabase.rpc('publish_survey_version', {
+      p_survey_id: surveyId
+    });
+
+    if (error) throw error;
+    return data?.[0];
+  },
+
+  async getSurveyVersion(surveyId: number, version: number) {
+    const { data, error } = await supabase
+      .from('survey_versions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .eq('version', version)
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] || null;
+  },
+
+  async getSurveyVersions(surveyId: number) {
+    const { data, error } = await supabase
+      .from('survey_versions')
+      .select('*')
+      .eq('survey_id', surveyId)
+      .order('version');
+
+    if (error) throw error;
+    return data || [];
   }
 };
 
@@ -348,15 +1232,34 @@ CREATE TABLE IF NOT EXISTS questions (
   survey_id BIGINT NOT NULL REFERENCES surveys(id),
   section TEXT NOT NULL,
   question_text TEXT NOT NULL,
-  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox')),
+  question_type TEXT NOT NULL CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps')),
   question_order INTEGER NOT NULL,
   is_required BOOLEAN DEFAULT true,
   options TEXT, -- JSON string for multiple choice and ranking questions
   validation_rules TEXT, -- JSON string
+  display_condition TEXT, -- JSON string, skip logic rule
   analysis_tags TEXT,
   UNIQUE(survey_id, question_order)
 );
 
+-- Skip logic was added after the initial release
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS display_condition TEXT;
+
+-- NPS questions were added later; widen the type check of existing tables
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+ALTER TABLE questions ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('likert', 'multiple_choice', 'text', 'ranking', 'percentage', 'checkbox', 'nps'));
+
+-- Survey versions table: frozen copy of the questions as each version was published
+CREATE TABLE IF NOT EXISTS survey_versions (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  version INTEGER NOT NULL,
+  questions TEXT NOT NULL, -- JSON array of question rows
+  published_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(survey_id, version)
+);
+
 -- Responses table
 CREATE TABLE IF NOT EXISTS responses (
   id BIGSERIAL PRIMARY KEY,
@@ -367,7 +1270,48 @@ CREATE TABLE IF NOT EXISTS responses (
   started_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ,
   is_complete BOOLEAN DEFAULT false,
-  response_time_seconds INTEGER
+  response_time_seconds INTEGER,
+  survey_version INTEGER -- published version the answers were given against
+);
+
+-- Versioning was added after the initial release; earlier responses were all
+-- answered against the version their survey had at the time
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS survey_version INTEGER;
+UPDATE responses r SET survey_version = s.version
+FROM surveys s
+WHERE r.survey_id = s.id AND r.survey_version IS NULL;
+
+-- Sign-in links: only a hash of the emailed token is stored, and each one works once
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Campaigns: a survey sent to a chosen set of users
+CREATE TABLE IF NOT EXISTS campaigns (
+  id BIGSERIAL PRIMARY KEY,
+  survey_id BIGINT NOT NULL REFERENCES surveys(id),
+  name TEXT NOT NULL,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Campaign recipients: progress is tracked per invitation, never linked to the
+-- response itself so anonymous answers stay anonymous
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id BIGSERIAL PRIMARY KEY,
+  campaign_id BIGINT NOT NULL REFERENCES campaigns(id),
+  user_id BIGINT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  opened_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE(campaign_id, user_id)
 );
 
 -- Answers table
@@ -378,28 +1322,329 @@ CREATE TABLE IF NOT EXISTS answers (
   answer_value TEXT,
   answer_numeric REAL,
   confidence_score INTEGER,
+  sentiment_score REAL, -- -1 to 1, text answers only
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Sentiment was added later; score older text answers with npm run backfill-sentiment
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS sentiment_score REAL;
+
+-- Action items: work agreed on from the feedback
+CREATE TABLE IF NOT EXISTS action_items (
+  id BIGSERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+  category TEXT,
+  assigned_to BIGINT REFERENCES users(id),
+  status TEXT DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'cancelled')),
+  due_date DATE,
+  department TEXT,
+  created_from_response_id BIGINT REFERENCES responses(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Status changes of action items, starting with their creation
+CREATE TABLE IF NOT EXISTS action_item_history (
+  id BIGSERIAL PRIMARY KEY,
+  action_item_id BIGINT NOT NULL REFERENCES action_items(id),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by BIGINT REFERENCES users(id),
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Themes for coding free-text answers, and the themes given to each answer
+CREATE TABLE IF NOT EXISTS text_themes (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  created_by BIGINT REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS answer_themes (
+  answer_id BIGINT NOT NULL REFERENCES answers(id),
+  theme_id BIGINT NOT NULL REFERENCES text_themes(id),
+  coded_by BIGINT REFERENCES users(id),
+  coded_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (answer_id, theme_id)
+);
+
+-- Analytics cache: precomputed dashboard figures, looked up by metric and
+-- filters hash until they expire; cleared whenever a survey is submitted
+CREATE TABLE IF NOT EXISTS analytics_cache (
+  id BIGSERIAL PRIMARY KEY,
+  metric_name TEXT NOT NULL,
+  metric_value TEXT NOT NULL,
+  filters TEXT,
+  filters_hash TEXT,
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
 -- Create indexes for performance
+-- Sign-in matches emails case-insensitively, so one address is one user whatever its case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_lower ON users(lower(email));
 CREATE INDEX IF NOT EXISTS idx_responses_survey_date ON responses(survey_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_responses_survey_version ON responses(survey_id, survey_version);
 CREATE INDEX IF NOT EXISTS idx_answers_response_question ON answers(response_id, question_id);
 CREATE INDEX IF NOT EXISTS idx_users_role_active ON users(role, is_active);
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_user ON campaign_recipients(user_id, completed_at);
+CREATE INDEX IF NOT EXISTS idx_analytics_cache_key ON analytics_cache(metric_name, filters_hash);
+CREATE INDEX IF NOT EXISTS idx_action_items_status_priority ON action_items(status, priority);
+CREATE INDEX IF NOT EXISTS idx_action_item_history_item ON action_item_history(action_item_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_answer_themes_theme ON answer_themes(theme_id);
+-- Full-text search over answers, used by search_answers
+CREATE INDEX IF NOT EXISTS idx_answers_fts ON answers USING GIN (to_tsvector('spanish', COALESCE(answer_value, '')));
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE surveys ENABLE ROW LEVEL SECURITY;
 ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE survey_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE responses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE action_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE action_item_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE text_themes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE answer_themes ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the app reaches every table through its API with the
+-- service-role key, which bypasses RLS, so the middleware's role checks always
+-- apply. The anon key ships to the browser and must not read or write anything.
+-- Projects set up before this drop the public policies they were created with.
+DO $$
+DECLARE
+  p RECORD;
+BEGIN
+  FOR p IN SELECT policyname, tablename FROM pg_policies
+           WHERE schemaname = 'public' AND policyname LIKE 'Public % access' LOOP
+    EXECUTE format('DROP POLICY %I ON %I', p.policyname, p.tablename);
+  END LOOP;
+END $$;
+
+-- Autosave drafts are stored as incomplete responses. Responses submitted before
+-- the update policy existed were never flagged complete, so mark them once:
+UPDATE responses SET is_complete = true, completed_at = COALESCE(completed_at, started_at)
+WHERE is_complete = false AND id IN (SELECT DISTINCT response_id FROM answers);
+
+-- Atomic, idempotent survey submission. Retrying with the same session
+-- returns the original response instead of inserting a duplicate.
+-- The version-less signature is replaced, not overloaded
+DROP FUNCTION IF EXISTS submit_survey_response(BIGINT, BIGINT, TEXT, BOOLEAN, TIMESTAMPTZ, INTEGER, JSONB);
+DROP FUNCTION IF EXISTS submit_survey_response(BIGINT, BIGINT, TEXT, BOOLEAN, TIMESTAMPTZ, INTEGER, INTEGER, JSONB);
+CREATE OR REPLACE FUNCTION submit_survey_response(
+  p_survey_id BIGINT,
+  p_user_id BIGINT,
+  p_respondent_id BIGINT,
+  p_session_id TEXT,
+  p_is_anonymous BOOLEAN,
+  p_started_at TIMESTAMPTZ,
+  p_response_time_seconds INTEGER,
+  p_survey_version INTEGER,
+  p_answers JSONB
+) RETURNS TABLE (response_id BIGINT, already_submitted BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_response responses%ROWTYPE;
+BEGIN
+  -- Serialize concurrent submissions for the same session
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_id));
+
+  SELECT * INTO v_response FROM responses r
+  WHERE r.session_id = p_session_id AND r.survey_id = p_survey_id
+    -- Only the respondent's own draft, or an anonymous submission being retried
+    AND (r.user_id = p_respondent_id OR (r.user_id IS NULL AND r.is_complete))
+  ORDER BY r.user_id IS NULL, r.id DESC
+  LIMIT 1;
+
+  IF FOUND AND v_response.is_complete THEN
+    RETURN QUERY SELECT v_response.id, true;
+    RETURN;
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO responses (survey_id, user_id, session_id, is_anonymous, started_at, survey_version)
+    VALUES (p_survey_id, p_user_id, p_session_id, p_is_anonymous, COALESCE(p_started_at, NOW()), p_survey_version)
+    RETURNING * INTO v_response;
+  END IF;
+
+  DELETE FROM answers a WHERE a.response_id = v_response.id;
+
+  INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score, sentiment_score)
+  SELECT v_response.id,
+         (elem->>'question_id')::BIGINT,
+         elem->>'answer_value',
+         (elem->>'answer_numeric')::REAL,
+         (elem->>'confidence_score')::INTEGER,
+         (elem->>'sentiment_score')::REAL
+  FROM jsonb_array_elements(p_answers) AS elem;
+
+  -- A draft may have been started on an older version or before the respondent
+  -- chose to stay anonymous; the submission is what counts
+  UPDATE responses r
+  SET completed_at = NOW(), is_complete = true, response_time_seconds = p_response_time_seconds,
+      survey_version = p_survey_version, user_id = p_user_id, is_anonymous = p_is_anonymous
+  WHERE r.id = v_response.id;
+
+  RETURN QUERY SELECT v_response.id, false;
+END;
+$$;
+
+-- Replace a draft's answers in one transaction, as autosave does on every save
+CREATE OR REPLACE FUNCTION replace_response_answers(
+  p_response_id BIGINT,
+  p_answers JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM answers a WHERE a.response_id = p_response_id;
+
+  INSERT INTO answers (response_id, question_id, answer_value, answer_numeric, confidence_score, sentiment_score)
+  SELECT p_response_id,
+         (elem->>'question_id')::BIGINT,
+         elem->>'answer_value',
+         (elem->>'answer_numeric')::REAL,
+         (elem->>'confidence_score')::INTEGER,
+         (elem->>'sentiment_score')::REAL
+  FROM jsonb_array_elements(p_answers) AS elem;
+END;
+$$;
+
+-- Reorder all questions of a survey in one transaction. Skip logic references
+-- questions by question_order, so display conditions are remapped as well.
+CREATE OR REPLACE FUNCTION reorder_survey_questions(
+  p_survey_id BIGINT,
+  p_question_ids BIGINT[]
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE questions q
+  SET display_condition = jsonb_set(q.display_condition::jsonb, '{question_order}', to_jsonb(m.new_order))::text
+  FROM (
+    SELECT src.question_order AS old_order, ids.position::INTEGER AS new_order
+    FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+    JOIN questions src ON src.id = ids.id AND src.survey_id = p_survey_id
+  ) m
+  WHERE q.survey_id = p_survey_id
+    AND q.display_condition IS NOT NULL
+    AND (q.display_condition::jsonb->>'question_order')::INTEGER = m.old_order;
+
+  -- Move everything out of the way first so UNIQUE(survey_id, question_order) holds at every step
+  UPDATE questions SET question_order = -question_order WHERE survey_id = p_survey_id;
+
+  UPDATE questions q
+  SET question_order = ids.position
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ids(id, position)
+  WHERE q.id = ids.id AND q.survey_id = p_survey_id;
+END;
+$$;
+
+-- Publish the current questions of a survey as its next immutable version
+CREATE OR REPLACE FUNCTION publish_survey_version(p_survey_id BIGINT)
+RETURNS SETOF survey_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  -- Lock the survey so concurrent publishes get consecutive version numbers
+  SELECT COALESCE(s.version, 0) + 1 INTO v_version FROM surveys s WHERE s.id = p_survey_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Survey % not found', p_survey_id;
+  END IF;
+
+  UPDATE surveys SET version = v_version, updated_at = NOW() WHERE id = p_survey_id;
+
+  RETURN QUERY
+  INSERT INTO survey_versions (survey_id, version, questions)
+  SELECT p_survey_id, v_version, COALESCE(json_agg(q ORDER BY q.question_order), '[]'::json)::text
+  FROM questions q
+  WHERE q.survey_id = p_survey_id
+  RETURNING *;
+END;
+$$;
+
+-- Create a campaign together with all of its recipients
+CREATE OR REPLACE FUNCTION create_campaign(
+  p_survey_id BIGINT,
+  p_name TEXT,
+  p_created_by BIGINT,
+  p_recipients JSONB
+) RETURNS SETOF campaigns
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+BEGIN
+  INSERT INTO campaigns (survey_id, name, created_by)
+  VALUES (p_survey_id, p_name, p_created_by)
+  RETURNING * INTO v_campaign;
+
+  INSERT INTO campaign_recipients (campaign_id, user_id, token_hash)
+  SELECT v_campaign.id, (elem->>'user_id')::BIGINT, elem->>'token_hash'
+  FROM jsonb_array_elements(p_recipients) AS elem;
+
+  RETURN NEXT v_campaign;
+END;
+$$;
+
+-- Create an action item together with the history entry of its first status
+CREATE OR REPLACE FUNCTION create_action_item(
+  p_title TEXT,
+  p_description TEXT,
+  p_priority TEXT,
+  p_category TEXT,
+  p_assigned_to BIGINT,
+  p_status TEXT,
+  p_due_date DATE,
+  p_department TEXT,
+  p_created_by BIGINT
+) RETURNS SETOF action_items
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item action_items%ROWTYPE;
+BEGIN
+  INSERT INTO action_items (title, description, priority, category, assigned_to, status, due_date, department)
+  VALUES (p_title, p_description, p_priority, p_category, p_assigned_to, p_status, p_due_date, p_department)
+  RETURNING * INTO v_item;
+
+  INSERT INTO action_item_history (action_item_id, from_status, to_status, changed_by)
+  VALUES (v_item.id, NULL, v_item.status, p_created_by);
+
+  RETURN NEXT v_item;
+END;
+$$;
+
+-- Ids of the answers matching a web-style search (words, "phrases", -excluded)
+CREATE OR REPLACE FUNCTION search_answers(p_search TEXT)
+RETURNS TABLE (id BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT a.id FROM answers a
+  WHERE to_tsvector('spanish', COALESCE(a.answer_value, '')) @@ websearch_to_tsquery('spanish', p_search)
+  ORDER BY a.id;
+$$;
 
--- Create policies for public access (adjust as needed for your security requirements)
-CREATE POLICY "Public read access" ON surveys FOR SELECT USING (true);
-CREATE POLICY "Public read access" ON questions FOR SELECT USING (true);
-CREATE POLICY "Public insert access" ON responses FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public insert access" ON answers FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public read access" ON responses FOR SELECT USING (true);
-CREATE POLICY "Public read access" ON answers FOR SELECT USING (true);
+-- Surveys published before versioning existed get a snapshot of their current questions
+INSERT INTO survey_versions (survey_id, version, questions)
+SELECT s.id, s.version, json_agg(q ORDER BY q.question_order)::text
+FROM surveys s
+JOIN questions q ON q.survey_id = s.id
+WHERE s.version >= 1
+GROUP BY s.id, s.version
+ON CONFLICT (survey_id, version) DO NOTHING;
   `;
 
   console.log('SQL commands for Supabase setup:');
@@ -0,0 +1,245 @@
+/**
+ * Request parsing for the survey authoring API.
+ * Turns admin form payloads into SurveyInput / QuestionInput and collects every
+ * problem at once so the editor can show them together.
+ */
+
+import type { QuestionInput, SurveyInput } from './database-adapter';
+import { QUESTION_TYPES, type QuestionType } from './questions';
+import type { DisplayCondition } from './question-conditions';
+
+export interface ParseResult<T> {
+  data: T;
+  errors: string[];
+}
+
+export const TARGET_ROLES = ['manager', 'sales'];
+
+export const TARGET_ROLE_LABELS: Record<string, string> = {
+  manager: 'Gerentes',
+  sales: 'Equipo de admisiones'
+};
+
+// Types whose answers are picked from a list of options
+export const OPTION_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'ranking', 'checkbox'];
+
+// Validation rules each question type understands
+const ALLOWED_RULES: Record<QuestionType, string[]> = {
+  likert: ['min', 'max', 'step'],
+  multiple_choice: [],
+  text: ['word_limit'],
+  ranking: [],
+  percentage: ['sum_to_100'],
+  checkbox: [],
+  // Always 0-10, so NPS figures stay comparable between surveys
+  nps: []
+};
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function parseSurveyPayload(body: any, partial = false): ParseResult<Partial<SurveyInput>> {
+  const data: Partial<SurveyInput> = {};
+  const errors: string[] = [];
+
+  if (!partial || body.name !== undefined) {
+    if (isNonEmptyString(body.name)) data.name = body.name.trim();
+    else errors.push('name is required');
+  }
+
+  if (!partial || body.description !== undefined) {
+    if (body.description == null || typeof body.description === 'string') {
+      data.description = body.description?.trim() || null;
+    } else {
+      errors.push('description must be a string');
+    }
+  }
+
+  if (!partial || body.target_role !== undefined) {
+    if (TARGET_ROLES.includes(body.target_role)) data.targetRole = body.target_role;
+    else errors.push(`target_role must be one of: ${TARGET_ROLES.join(', ')}`);
+  }
+
+  if (!partial || body.is_active !== undefined) {
+    if (body.is_active === undefined || typeof body.is_active === 'boolean') {
+      data.isActive = body.is_active ?? true;
+    } else {
+      errors.push('is_active must be a boolean');
+    }
+  }
+
+  return { data, errors };
+}
+
+function parseOptions(type: QuestionType, options: unknown, errors: string[]): string | null {
+  const needsOptions = OPTION_QUESTION_TYPES.includes(type);
+  // Percentage questions may name their categories; the renderer has defaults
+  const acceptsOptions = needsOptions || type === 'percentage';
+
+  if (options == null || (Array.isArray(options) && options.length === 0)) {
+    if (needsOptions) errors.push(`options are required for ${type} questions`);
+    return null;
+  }
+
+  if (!acceptsOptions) {
+    errors.push(`${type} questions do not take options`);
+    return null;
+  }
+
+  if (!Array.isArray(options) || !options.every(isNonEmptyString)) {
+    errors.push('options must be a list of non-empty strings');
+    return null;
+  }
+
+  const trimmed = options.map(option => option.trim());
+  if (trimmed.length < 2) errors.push('at least two options are required');
+  if (new Set(trimmed).size !== trimmed.length) errors.push('options must be unique');
+
+  return JSON.stringify(trimmed);
+}
+
+function parseValidationRules(type: QuestionType, rules: unknown, errors: string[]): string | null {
+  if (rules == null) return null;
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    errors.push('validation_rules must be an object');
+    return null;
+  }
+
+  const entries = Object.entries(rules as Record<string, unknown>).filter(([, value]) => value !== null && value !== undefined);
+  const unknownRules = entries.filter(([key]) => !ALLOWED_RULES[type].includes(key)).map(([key]) => key);
+  if (unknownRules.length > 0) {
+    errors.push(`validation_rules not supported for ${type}: ${unknownRules.join(', ')}`);
+  }
+
+  const parsed = Object.fromEntries(entries) as Record<string, any>;
+
+  if (type === 'likert') {
+    const { min, max } = parsed;
+    if ((min !== undefined && !Number.isInteger(min)) || (max !== undefined && !Number.isInteger(max))) {
+      errors.push('likert min and max must be integers');
+    } else if ((min ?? 1) >= (max ?? 10)) {
+      errors.push('likert min must be lower than max');
+    }
+    if (parsed.step !== undefined && (!Number.isInteger(parsed.step) || parsed.step < 1)) {
+      errors.push('likert step must be a positive integer');
+    }
+  }
+
+  if (parsed.word_limit !== undefined && (!Number.isInteger(parsed.word_limit) || parsed.word_limit < 1)) {
+    errors.push('word_limit must be a positive integer');
+  }
+
+  if (parsed.sum_to_100 !== undefined && typeof parsed.sum_to_100 !== 'boolean') {
+    errors.push('sum_to_100 must be a boolean');
+  }
+
+  return entries.length > 0 ? JSON.stringify(parsed) : null;
+}
+
+function parseDisplayCondition(
+  condition: unknown,
+  questionOrder: number | null,
+  surveyQuestions: { question_order: number }[],
+  errors: string[]
+): string | null {
+  if (condition == null) return null;
+  if (typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push('display_condition must be an object');
+    return null;
+  }
+
+  const { question_order, in: inValues, not_in: notInValues, min, max } = condition as DisplayCondition;
+
+  if (!Number.isInteger(question_order)) {
+    errors.push('display_condition.question_order must be an integer');
+  } else if (!surveyQuestions.some(q => q.question_order === question_order)) {
+    errors.push(`display_condition refers to question ${question_order}, which does not exist in this survey`);
+  } else if (questionOrder !== null && question_order >= questionOrder) {
+    errors.push('display_condition must refer to an earlier question');
+  }
+
+  const isStringList = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+  if (inValues !== undefined && !isStringList(inValues)) errors.push('display_condition.in must be a list of values');
+  if (notInValues !== undefined && !isStringList(notInValues)) errors.push('display_condition.not_in must be a list of values');
+  if (min !== undefined && typeof min !== 'number') errors.push('display_condition.min must be a number');
+  if (max !== undefined && typeof max !== 'number') errors.push('display_condition.max must be a number');
+  if (inValues === undefined && notInValues === undefined && min === undefined && max === undefined) {
+    errors.push('display_condition needs at least one of in, not_in, min or max');
+  }
+
+  const parsed: DisplayCondition = { question_order };
+  if (inValues !== undefined) parsed.in = inValues;
+  if (notInValues !== undefined) parsed.not_in = notInValues;
+  if (min !== undefined) parsed.min = min;
+  if (max !== undefined) parsed.max = max;
+  return JSON.stringify(parsed);
+}
+
+function parseAnalysisTags(tags: unknown, errors: string[]): string | null {
+  if (tags == null) return null;
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : null;
+  if (!list || !list.every(tag => typeof tag === 'string')) {
+    errors.push('analysis_tags must be a comma separated string or a list of strings');
+    return null;
+  }
+  const cleaned = list.map(tag => tag.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned.join(',') : null;
+}
+
+/**
+ * Parse a complete question definition.
+ * questionOrder is the position of the question being edited (null for a new
+ * question, which is appended) and surveyQuestions the other questions of its
+ * survey, used to check skip logic references.
+ */
+export function parseQuestionPayload(
+  body: any,
+  questionOrder: number | null,
+  surveyQuestions: { question_order: number }[]
+): ParseResult<QuestionInput | null> {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(body.section)) errors.push('section is required');
+  if (!isNonEmptyString(body.question_text)) errors.push('question_text is required');
+  if (body.is_required !== undefined && typeof body.is_required !== 'boolean') errors.push('is_required must be a boolean');
+
+  if (!QUESTION_TYPES.includes(body.question_type)) {
+    errors.push(`question_type must be one of: ${QUESTION_TYPES.join(', ')}`);
+    return { data: null, errors };
+  }
+
+  const questionType: QuestionType = body.question_type;
+  const data: QuestionInput = {
+    section: body.section?.trim?.() ?? '',
+    questionText: body.question_text?.trim?.() ?? '',
+    questionType,
+    isRequired: body.is_required ?? true,
+    options: parseOptions(questionType, body.options, errors),
+    validationRules: parseValidationRules(questionType, body.validation_rules, errors),
+    displayCondition: parseDisplayCondition(body.display_condition, questionOrder, surveyQuestions, errors),
+    analysisTags: parseAnalysisTags(body.analysis_tags, errors)
+  };
+
+  return { data: errors.length === 0 ? data : null, errors };
+}
+
+// Expand the JSON columns of a stored question so it can be merged with a payload
+export function parseStoredQuestion(question: any) {
+  const parseJson = (value: string | null) => {
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    ...question,
+    is_required: Boolean(question.is_required),
+    options: parseJson(question.options),
+    validation_rules: parseJson(question.validation_rules),
+    display_condition: parseJson(question.display_condition)
+  };
+}
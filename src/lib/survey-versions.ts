@@ -0,0 +1,60 @@
+/**
+ * Published survey versions.
+ * Respondents answer a frozen snapshot of the questions taken when the survey was
+ * published, so editing a question in the admin area never changes what the
+ * answers already stored for an earlier version were given against.
+ */
+
+import { databaseAdapter } from './database-adapter';
+
+export interface PublishedQuestions {
+  version: number;
+  publishedAt: string;
+  questions: any[];
+}
+
+// Columns that define a question as respondents see it
+const SNAPSHOT_FIELDS = [
+  'id', 'section', 'question_text', 'question_type', 'question_order',
+  'is_required', 'options', 'validation_rules', 'display_condition', 'analysis_tags'
+];
+
+export function parseSnapshot(versionRow: { questions: string }): any[] {
+  try {
+    const questions = JSON.parse(versionRow.questions);
+    return Array.isArray(questions) ? questions : [];
+  } catch {
+    return [];
+  }
+}
+
+function fingerprint(questions: any[]): string {
+  return JSON.stringify(questions.map(question =>
+    SNAPSHOT_FIELDS.map(field => field === 'is_required' ? Boolean(question[field]) : question[field] ?? null)
+  ));
+}
+
+// True when the live questions differ from what was published
+export function hasUnpublishedChanges(liveQuestions: any[], snapshot: any[] | null): boolean {
+  if (!snapshot) return liveQuestions.length > 0;
+  return fingerprint(liveQuestions) !== fingerprint(snapshot);
+}
+
+/**
+ * Questions of a published version, the survey's current one when no version
+ * is given. Returns null when that version was never published.
+ */
+export async function getPublishedQuestions(survey: { id: number; version: number }, version = survey.version): Promise<PublishedQuestions | null> {
+  const versionRow = await databaseAdapter.getSurveyVersion(survey.id, version);
+  if (!versionRow) return null;
+
+  // A question can only be deleted while it has no answers; once it is gone it
+  // is no longer asked, even by the version that still lists it
+  const liveIds = new Set((await databaseAdapter.getQuestionsBySurvey(survey.id)).map((q: any) => q.id));
+
+  return {
+    version: versionRow.version,
+    publishedAt: versionRow.published_at,
+    questions: parseSnapshot(versionRow).filter(question => liveIds.has(question.id))
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Qualitative coding of free-text answers.
+ * Reviewers define themes (e.g. "Duplicación de datos") and tag text answers
+ * with them in the explorer; counting the tagged answers turns the comments
+ * into figures that can be compared across sections, roles and periods.
+ */
+
+import type { TextThemeInput } from './database-adapter';
+import type { ParseResult } from './survey-authoring';
+
+const MAX_THEME_NAME_LENGTH = 60;
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value == null) return null;
+  return typeof value === 'string' ? value.trim() || null : undefined;
+}
+
+export function parseTextThemePayload(body: any, partial = false): ParseResult<Partial<TextThemeInput>> {
+  const data: Partial<TextThemeInput> = {};
+  const errors: string[] = [];
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) errors.push('name is required');
+    else if (name.length > MAX_THEME_NAME_LENGTH) errors.push(`name must be at most ${MAX_THEME_NAME_LENGTH} characters`);
+    else data.name = name;
+  }
+
+  if (!partial || body.description !== undefined) {
+    const description = optionalString(body.description);
+    if (description === undefined) errors.push('description must be a string');
+    else data.description = description;
+  }
+
+  return { data, errors };
+}
+
+// The complete set of themes for one answer
+export function parseAnswerThemesPayload(body: any): ParseResult<number[]> {
+  const themeIds = body?.theme_ids;
+  if (!Array.isArray(themeIds) || !themeIds.every(id => Number.isInteger(id) && id > 0)) {
+    return { data: [], errors: ['theme_ids must be an array of theme ids'] };
+  }
+  return { data: Array.from(new Set<number>(themeIds)), errors: [] };
+}
+
+// Theme names are compared ignoring case and surrounding spaces
+export function sameThemeName(a: string, b: string): boolean {
+  return a.trim().toLocaleLowerCase('es') === b.trim().toLocaleLowerCase('es');
+}
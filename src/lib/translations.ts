@@ -10,6 +10,7 @@ export interface Translations {
     startSurvey: string;
     returnHome: string;
     exportData: string;
+    manageSurveys: string;
   };
 
   // Landing Page
@@ -74,6 +75,25 @@ export interface Translations {
     };
   };
 
+  // Sign-in Page
+  login: {
+    title: string;
+    subtitle: string;
+    emailLabel: string;
+    emailPlaceholder: string;
+    sendLink: string;
+    sending: string;
+    linkSentTitle: string;
+    linkSentDescription: string;
+    useAnotherEmail: string;
+    invalidEmail: string;
+    sendFailed: string;
+    invalidLink: string;
+    verifyFailed: string;
+    invalidInvitation: string;
+    usedInvitation: string;
+  };
+
   // Role Selection Page
   roleSelection: {
     title: string;
@@ -108,6 +128,19 @@ export interface Translations {
     tryAgain: string;
     restartSurvey: string;
     anonymousNotice: string;
+    signedInAs: string;
+    signOut: string;
+    assignedSurveyTitle: string;
+    invitationTitle: string;
+    startSurvey: string;
+    noSurveyAssigned: string;
+    resumeDraft: {
+      title: string;
+      description: string;
+      savedAnswers: string;
+      continue: string;
+      startOver: string;
+    };
   };
 
   // Survey Interface
@@ -136,6 +169,8 @@ export interface Translations {
       completeRequired: string;
       submissionFailed: string;
       outdatedData: string;
+      validationFailed: string;
+      sessionExpired: string;
     };
   };
 
@@ -264,9 +299,11 @@ export interface Translations {
     impact: {
       title: string;
       description: string;
-      dataEntryReduction: string;
-      leadResponseImprovement: string;
-      productivityIncrease: string;
+      efficiencyChange: string;
+      productivityChange: string;
+      satisfactionChange: string;
+      confidenceInterval: string;
+      insufficientData: string;
     };
     actions: {
       viewAnalytics: string;
@@ -304,7 +341,26 @@ export const spanishTranslations: Translations = {
     takeSurvey: "Realizar Encuesta",
     startSurvey: "Iniciar Encuesta",
     returnHome: "Regresar al Inicio",
-    exportData: "Exportar Datos"
+    exportData: "Exportar Datos",
+    manageSurveys: "Administrar Encuestas"
+  },
+
+  login: {
+    title: "Iniciar Sesión",
+    subtitle: "Ingrese su correo institucional y le enviaremos un enlace para acceder a su encuesta",
+    emailLabel: "Correo electrónico",
+    emailPlaceholder: "nombre@empresa.com",
+    sendLink: "Enviar enlace de acceso",
+    sending: "Enviando...",
+    linkSentTitle: "Revise su correo",
+    linkSentDescription: "Si el correo pertenece a un usuario registrado, recibirá un enlace de acceso. El enlace vence en 15 minutos y solo puede usarse una vez.",
+    useAnotherEmail: "Usar otro correo",
+    invalidEmail: "Ingrese un correo electrónico válido",
+    sendFailed: "No se pudo enviar el enlace. Por favor intente nuevamente.",
+    invalidLink: "El enlace de acceso no es válido o ya expiró. Solicite uno nuevo.",
+    verifyFailed: "No se pudo iniciar sesión. Por favor intente nuevamente.",
+    invalidInvitation: "El enlace de invitación no es válido. Inicie sesión con su correo para responder su encuesta.",
+    usedInvitation: "Esta invitación ya fue utilizada para completar la encuesta. ¡Gracias por participar!"
   },
 
   roleSelection: {
@@ -339,7 +395,20 @@ export const spanishTranslations: Translations = {
     loadingSurvey: "Cargando encuesta...",
     tryAgain: "Intentar de nuevo",
     restartSurvey: "Reiniciar Encuesta",
-    anonymousNotice: "✓ Sus respuestas son completamente anónimas"
+    anonymousNotice: "✓ Sus respuestas son completamente anónimas",
+    signedInAs: "Sesión iniciada como",
+    signOut: "Cerrar Sesión",
+    assignedSurveyTitle: "Su Encuesta",
+    invitationTitle: "Invitación",
+    startSurvey: "Comenzar Encuesta",
+    noSurveyAssigned: "No hay una encuesta publicada para su función en este momento.",
+    resumeDraft: {
+      title: "Tiene una encuesta en progreso",
+      description: "Sus respuestas se guardaron automáticamente. Puede continuar donde se quedó o empezar de nuevo.",
+      savedAnswers: "respuestas guardadas",
+      continue: "Continuar Encuesta",
+      startOver: "Empezar de Nuevo"
+    }
   },
 
   landing: {
@@ -439,7 +508,9 @@ export const spanishTranslations: Translations = {
     errors: {
       completeRequired: "Por favor complete todas las preguntas requeridas",
       submissionFailed: "Error al enviar la encuesta. Por favor intente nuevamente.",
-      outdatedData: "Los datos de la encuesta están desactualizados. La página se recargará con datos actualizados."
+      outdatedData: "Los datos de la encuesta están desactualizados. La página se recargará con datos actualizados.",
+      validationFailed: "Algunas respuestas no son válidas. Revise las preguntas marcadas e intente nuevamente.",
+      sessionExpired: "Su sesión expiró. Inicie sesión nuevamente para enviar la encuesta; sus respuestas se conservan."
     }
   },
 
@@ -581,10 +652,12 @@ export const spanishTranslations: Translations = {
     },
     impact: {
       title: "Su Impacto",
-      description: "Su retroalimentación es fundamental para ayudar a mejorar la plataforma para todo el equipo de admisiones. Basándose en análisis recientes de retroalimentación y datos actuales de encuestas, los equipos típicamente ven:",
-      dataEntryReduction: "Reducción en tiempo de entrada de datos",
-      leadResponseImprovement: "Mejora en respuesta a prospectos",
-      productivityIncrease: "Aumento en productividad"
+      description: "Su retroalimentación es fundamental para ayudar a mejorar la plataforma para todo el equipo de admisiones. Así han cambiado las puntuaciones del equipo en el último periodo cerrado de 90 días frente al anterior:",
+      efficiencyChange: "Cambio en eficiencia",
+      productivityChange: "Cambio en productividad",
+      satisfactionChange: "Cambio en satisfacción",
+      confidenceInterval: "IC 95%: {low}% a {high}%",
+      insufficientData: "Datos insuficientes"
     },
     actions: {
       viewAnalytics: "Ver Panel de Control Analítico",
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, isSurveyInScope, verifySessionToken, type SessionUser, type UserRole } from '@/lib/auth';
+
+interface AccessRule {
+  pattern: RegExp;
+  roles: UserRole[];
+  methods?: string[]; // every method when omitted
+  invitation?: boolean; // open to invitation sessions, which only take the survey
+}
+
+const ALL_ROLES: UserRole[] = ['admin', 'manager', 'sales'];
+
+// Who may reach each path; the first matching rule applies and unmatched paths are public.
+// Analytics contain free-text answers about coworkers, so they are never public.
+const ACCESS_RULES: AccessRule[] = [
+  { pattern: /^\/(api\/)?analytics(\/|$)/, roles: ['admin', 'manager'] },
+  { pattern: /^\/(api\/)?action-items(\/|$)/, roles: ['admin', 'manager'] },
+  { pattern: /^\/api\/export(\/|$)/, roles: ['admin', 'manager'] },
+  { pattern: /^\/api\/reports(\/|$)/, roles: ['admin', 'manager'] },
+  { pattern: /^\/api\/text-(answers|themes)(\/|$)/, roles: ['admin', 'manager'] },
+  { pattern: /^\/admin(\/|$)/, roles: ['admin'] },
+  { pattern: /^\/api\/(campaigns|users)(\/|$)/, roles: ['admin'] },
+  // Survey flow
+  { pattern: /^\/survey(\/|$)/, roles: ALL_ROLES, invitation: true },
+  { pattern: /^\/api\/surveys\/(submit|autosave|assigned)$/, roles: ALL_ROLES, invitation: true },
+  { pattern: /^\/api\/surveys\/\d+\/questions$/, roles: ALL_ROLES, methods: ['GET'], invitation: true },
+  { pattern: /^\/api\/completion-stats$/, roles: ALL_ROLES, invitation: true },
+  // Everything else under /api/surveys is survey authoring
+  { pattern: /^\/api\/surveys(\/|$)/, roles: ['admin'] }
+];
+
+function findRule(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  return ACCESS_RULES.find(rule =>
+    rule.pattern.test(pathname) && (!rule.methods || rule.methods.includes(request.method))
+  );
+}
+
+// Invitation links carry their own credential, which the survey page redeems for a session
+function isInvitationLink(request: NextRequest) {
+  return request.nextUrl.pathname === '/survey' && request.nextUrl.searchParams.has('token');
+}
+
+// A session redeemed from an invitation carries the recipient's role, but may
+// only take part in the survey flow, and only for the campaign's survey.
+// The submit and autosave handlers check the survey in the request body.
+function isOutsideInvitation(request: NextRequest, rule: AccessRule, user: SessionUser) {
+  if (user.surveyId === undefined) return false;
+  if (!rule.invitation) return true;
+  const questionsOf = request.nextUrl.pathname.match(/^\/api\/surveys\/(\d+)\/questions$/);
+  return questionsOf !== null && !isSurveyInScope(user, parseInt(questionsOf[1]));
+}
+
+export async function middleware(request: NextRequest) {
+  if (isInvitationLink(request)) return NextResponse.next();
+
+  const rule = findRule(request);
+  if (!rule) return NextResponse.next();
+
+  const user = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const isApi = request.nextUrl.pathname.startsWith('/api/');
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (isOutsideInvitation(request, rule, user)) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: 'Sessions opened from an invitation can only answer its survey' },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL('/survey', request.url));
+  }
+
+  if (!rule.roles.includes(user.role)) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: `The ${user.role} role cannot access this resource` },
+        { status: 403 }
+      );
+    }
+    // Pages the user may not see send them back to the survey flow
+    return NextResponse.redirect(new URL('/survey', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/analytics/:path*', '/admin/:path*', '/action-items/:path*', '/survey/:path*', '/api/:path*']
+};
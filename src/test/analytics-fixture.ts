@@ -0,0 +1,205 @@
+// Surveys, responses and answers loaded into both databases by the parity
+// tests. Rows are in the shape of the Supabase tables; loadIntoSQLite stores
+// the same rows in SQLite. Two manager survey versions and a sales survey
+// cover every question type, anonymous responses, a response without answers,
+// a missing completion time and a draft that analytics must leave out.
+
+import type Database from 'better-sqlite3';
+import { scoreSentiment } from '@/lib/analytics/sentiment';
+import type { Tables } from './fake-supabase';
+
+const users = [
+  { id: 1, email: 'admin@company.com', role: 'admin', name: 'Admin User', department: 'IT' },
+  { id: 2, email: 'manager1@company.com', role: 'manager', name: 'Sarah Johnson', department: 'Admissions' },
+  { id: 3, email: 'manager2@company.com', role: 'manager', name: 'Michael Chen', department: 'Admissions' },
+  { id: 4, email: 'manager3@company.com', role: 'manager', name: 'Laura Gómez', department: 'Marketing' },
+  { id: 5, email: 'sales1@company.com', role: 'sales', name: 'Emma Williams', department: 'Sales' },
+  { id: 6, email: 'sales2@company.com', role: 'sales', name: 'David Rodriguez', department: 'Sales' },
+  { id: 7, email: 'sales3@company.com', role: 'sales', name: 'Lisa Brown', department: 'Sales' },
+  { id: 8, email: 'sales4@company.com', role: 'sales', name: 'Pablo Ruiz', department: 'Sales' },
+  { id: 9, email: 'sales5@company.com', role: 'sales', name: 'Marta Díaz', department: 'Sales' },
+  { id: 10, email: 'sales6@company.com', role: 'sales', name: 'Jorge Peña', department: 'Admissions' }
+].map(user => ({ ...user, hire_date: '2023-01-15', is_active: true }));
+
+const surveys = [
+  { id: 1, name: 'Manager Feedback Survey', description: 'Feedback estratégico', target_role: 'manager', version: 2, is_active: true },
+  { id: 2, name: 'Admissions Team Feedback Survey', description: 'Feedback del día a día', target_role: 'sales', version: 1, is_active: true }
+];
+
+const question = (
+  id: number,
+  surveyId: number,
+  order: number,
+  section: string,
+  questionType: string,
+  questionText: string,
+  analysisTags: string | null,
+  extra: { options?: string[]; validation_rules?: object } = {}
+) => ({
+  id,
+  survey_id: surveyId,
+  section,
+  question_text: questionText,
+  question_type: questionType,
+  question_order: order,
+  is_required: questionType !== 'text',
+  options: extra.options ? JSON.stringify(extra.options) : null,
+  validation_rules: extra.validation_rules ? JSON.stringify(extra.validation_rules) : null,
+  display_condition: null,
+  analysis_tags: analysisTags
+});
+
+const questions = [
+  question(11, 1, 1, 'Eficiencia', 'likert', '¿Qué tan efectivo es el sistema para su trabajo?', 'effectiveness,efficiency', { validation_rules: { min: 1, max: 10 } }),
+  question(12, 1, 2, 'Visibilidad', 'likert', '¿Puede monitorear el rendimiento de su equipo?', 'visibility,satisfaction,revenue_impact', { validation_rules: { min: 1, max: 10 } }),
+  question(13, 1, 3, 'Recomendación', 'nps', '¿Recomendaría el sistema a otro equipo?', 'nps'),
+  question(14, 1, 4, 'Comentarios', 'text', '¿Qué es lo que más le frena?', 'pain_points'),
+  question(21, 2, 1, 'Productividad', 'likert', '¿Encuentra rápido la información de cada lead?', 'information_accessibility,productivity,time_efficiency', { validation_rules: { min: 1, max: 10 } }),
+  question(22, 2, 2, 'Herramientas', 'multiple_choice', '¿Cuántas herramientas usa al día?', 'tool_count', { options: ['1-2', '3-4', '5-6', '7-8', '9+'] }),
+  question(23, 2, 3, 'Tiempo', 'percentage', '¿Cómo reparte su jornada?', 'time_allocation', { options: ['Venta', 'Admin'] }),
+  question(24, 2, 4, 'Prioridades', 'ranking', 'Ordene lo que más le ayudaría', 'priorities', { options: ['CRM', 'Llamadas', 'Reportes'] }),
+  question(25, 2, 5, 'Comentarios', 'text', '¿Qué cambiaría del proceso?', 'feedback')
+];
+
+// Version 1 of the manager survey asked its first question differently
+const survey_versions = [
+  {
+    id: 1,
+    survey_id: 1,
+    version: 1,
+    questions: JSON.stringify(questions.filter(q => q.survey_id === 1).map(q =>
+      q.id === 11 ? { ...q, question_text: '¿Qué tan efectivo es el CRM?' } : q
+    )),
+    published_at: '2024-01-01 08:00:00'
+  },
+  { id: 2, survey_id: 1, version: 2, questions: JSON.stringify(questions.filter(q => q.survey_id === 1)), published_at: '2024-03-01 08:00:00' },
+  { id: 3, survey_id: 2, version: 1, questions: JSON.stringify(questions.filter(q => q.survey_id === 2)), published_at: '2024-01-01 08:00:00' }
+];
+
+type Answers = Record<number, string | null>;
+
+// id, survey, version, user (null when anonymous), completed at, seconds taken, answers by question
+const completed: [number, number, number, number | null, string, number | null, Answers][] = [
+  [101, 1, 1, 2, '2024-01-08 09:15:00', 420, { 11: '8', 12: '7', 13: '9', 14: 'Los reportes del CRM tardan mucho en cargar' }],
+  [102, 1, 1, 3, '2024-01-10 11:00:00', 380, { 11: '3', 12: '4', 13: '6', 14: 'El CRM es lento y los reportes fallan' }],
+  [103, 1, 1, null, '2024-01-12 16:30:00', 510, { 11: '2', 12: '5', 13: '3', 14: 'Los reportes no muestran los datos del equipo' }],
+  [104, 1, 1, 4, '2024-01-19 10:05:00', 300, { 11: '7', 12: '8', 13: '10', 14: 'Buena visibilidad del equipo' }],
+  [105, 1, 1, 2, '2024-01-24 14:45:00', 450, { 11: '9', 12: '9', 13: '9', 14: null }],
+  [106, 1, 1, null, '2024-01-30 08:20:00', 600, { 11: '5', 12: '6', 13: '7', 14: 'Los reportes del CRM son lentos' }],
+  [107, 1, 2, 3, '2024-03-04 09:00:00', 350, { 11: '6', 12: '7', 13: '8', 14: 'Mejoró la carga de los reportes' }],
+  [108, 1, 2, 4, '2024-03-06 13:10:00', 290, { 11: '8', 12: '8', 13: '9', 14: null }],
+  [109, 1, 2, 2, '2024-03-11 10:30:00', 400, { 11: '9', 12: '8', 13: '10', 14: null }],
+  [110, 1, 2, null, '2024-03-15 15:00:00', 520, { 11: '7', 12: '9', 13: '9', 14: 'El CRM sigue lento en los reportes' }],
+  [111, 1, 2, 3, '2024-03-20 11:40:00', 310, { 11: '8', 12: '7', 13: '8', 14: null }],
+  [112, 1, 2, 4, '2024-03-27 17:25:00', 330, { 11: '10', 12: '9', 13: '10', 14: 'Excelente herramienta para el equipo' }],
+  [113, 2, 1, 5, '2024-02-05 09:30:00', 610, { 21: '4', 22: '5-6', 23: '{"Venta":40,"Admin":60}', 24: '{"CRM":1,"Llamadas":2,"Reportes":3}', 25: 'Demasiado tiempo cargando datos en el CRM' }],
+  [114, 2, 1, 6, '2024-02-07 10:00:00', null, { 21: '6', 22: '3-4', 23: '{"Venta":55,"Admin":45}', 24: '{"Llamadas":1,"CRM":2,"Reportes":3}', 25: 'Cargar datos a mano quita tiempo de venta' }],
+  [115, 2, 1, 7, '2024-02-14 12:00:00', 540, { 21: '2', 22: '5-6', 23: '{"Venta":30,"Admin":70}', 24: '{"CRM":1,"Reportes":2}', 25: 'El CRM se cae y perdemos datos' }],
+  [116, 2, 1, 10, '2024-02-21 16:00:00', 480, { 21: '7', 22: '1-2', 23: '{"Venta":65,"Admin":35}', 24: '{"Llamadas":1,"CRM":2,"Reportes":3}', 25: null }],
+  [117, 2, 1, 8, '2024-03-05 09:45:00', 450, { 21: '8', 22: '3-4', 23: '{"Venta":60,"Admin":40}', 24: '{"CRM":1,"Llamadas":2,"Reportes":3}', 25: null }],
+  [118, 2, 1, 9, '2024-03-12 11:15:00', 400, { 21: '5', 22: '3-4', 23: '{"Venta":50,"Admin":50}', 24: '{"Reportes":1,"CRM":2,"Llamadas":3}', 25: 'Cargar datos en el CRM es lento' }],
+  [119, 2, 1, 5, '2024-03-19 14:30:00', 430, { 21: '9', 22: '1-2', 23: '{"Venta":70,"Admin":30}', 24: '{"CRM":1,"Llamadas":2,"Reportes":3}', 25: null }],
+  [120, 2, 1, 6, '2024-03-26 10:20:00', 460, { 21: '7', 22: '3-4', 23: '{"Venta":60,"Admin":40}', 24: '{"Llamadas":1,"Reportes":2,"CRM":3}', 25: 'Las llamadas van mejor con el nuevo guion' }],
+  // Completed without answers
+  [121, 2, 1, 7, '2024-03-28 09:00:00', 200, {}]
+];
+
+const responses = [
+  ...completed.map(([id, surveyId, version, userId, completedAt, seconds]) => ({
+    id,
+    survey_id: surveyId,
+    user_id: userId,
+    session_id: `session-${id}`,
+    is_anonymous: userId === null,
+    started_at: completedAt,
+    completed_at: completedAt,
+    is_complete: true,
+    response_time_seconds: seconds,
+    survey_version: version
+  })),
+  // An autosaved draft
+  {
+    id: 122,
+    survey_id: 2,
+    user_id: 8,
+    session_id: 'session-122',
+    is_anonymous: false,
+    started_at: '2024-03-29 10:00:00',
+    completed_at: null,
+    is_complete: false,
+    response_time_seconds: null,
+    survey_version: 1
+  }
+];
+
+const questionsById = new Map(questions.map(q => [q.id, q]));
+let nextAnswerId = 1;
+
+const answersOf = (responseId: number, values: Answers) => Object.entries(values)
+  .filter((entry): entry is [string, string] => entry[1] !== null)
+  .map(([questionId, value]) => {
+    const { question_type } = questionsById.get(Number(questionId))!;
+    const isScale = question_type === 'likert' || question_type === 'nps';
+    return {
+      id: nextAnswerId++,
+      response_id: responseId,
+      question_id: Number(questionId),
+      answer_value: value,
+      answer_numeric: isScale ? Number(value) : null,
+      confidence_score: question_type === 'likert' ? 8 : null,
+      sentiment_score: question_type === 'text' ? scoreSentiment(value) : null
+    };
+  });
+
+const answers = [
+  ...completed.flatMap(([id, , , , , , values]) => answersOf(id, values)),
+  ...answersOf(122, { 21: '3' })
+];
+
+export const analyticsFixture: Tables = { users, surveys, questions, survey_versions, responses, answers };
+
+// The fixture plus `count` completed sales survey responses, enough for reads
+// that span more than one page of Supabase results
+export function withBulkResponses(count: number): Tables {
+  const options = ['1-2', '3-4', '5-6', '7-8', '9+'];
+  const bulk = Array.from({ length: count }, (_, i) => {
+    const completedAt = `2024-02-${String(1 + i % 28).padStart(2, '0')} ${String(8 + i % 10).padStart(2, '0')}:00:00`;
+    return {
+      response: {
+        id: 1000 + i,
+        survey_id: 2,
+        user_id: 5 + i % 6,
+        session_id: `session-${1000 + i}`,
+        is_anonymous: false,
+        started_at: completedAt,
+        completed_at: completedAt,
+        is_complete: true,
+        response_time_seconds: 300 + i % 200,
+        survey_version: 1
+      },
+      answers: answersOf(1000 + i, { 21: String(1 + i % 10), 22: options[i % options.length] })
+    };
+  });
+
+  return {
+    ...analyticsFixture,
+    responses: [...responses, ...bulk.map(row => row.response)],
+    answers: [...answers, ...bulk.flatMap(row => row.answers)]
+  };
+}
+
+// Parents before children, so foreign keys hold while loading
+const TABLE_ORDER = ['users', 'surveys', 'questions', 'survey_versions', 'responses', 'answers'];
+
+// Replace whatever the database holds (such as the seed data) with the fixture
+export function loadIntoSQLite(db: Database.Database, tables: Tables = analyticsFixture) {
+  const load = db.transaction(() => {
+    [...TABLE_ORDER].reverse().forEach(table => db.prepare(`DELETE FROM ${table}`).run());
+    TABLE_ORDER.forEach(table => tables[table].forEach(row => {
+      const columns = Object.keys(row);
+      db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+        .run(...columns.map(column => typeof row[column] === 'boolean' ? Number(row[column]) : row[column]));
+    }));
+  });
+  load();
+}
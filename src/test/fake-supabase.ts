@@ -0,0 +1,189 @@
+// An in-memory stand-in for the Supabase client over plain table rows, enough
+// for the adapter's read queries: selects with embedded tables, the eq, in,
+// gt, gte, lt and not-is-null filters, order, limit and range. Like PostgREST
+// it returns at most 1000 rows per request. A row embeds another
+// table through its `<singular>_id` column (responses → surveys) or is
+// embedded by the rows pointing back at it (responses → answers). Filters on
+// an embedded column drop the row, as they do on a `!inner` embed.
+
+type Row = Record<string, any>;
+
+export type Tables = Record<string, Row[]>;
+
+interface Field {
+  name: string;
+  inner: boolean;
+  // Columns of an embedded table; null for a plain column or `*`
+  fields: Field[] | null;
+}
+
+interface Ordering {
+  column: string;
+  ascending: boolean;
+  nullsFirst: boolean;
+}
+
+function parseSelect(select: string): Field[] {
+  const text = select.replace(/\s+/g, '');
+  const fields: Field[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (i === text.length || (text[i] === ',' && depth === 0)) {
+      const part = text.slice(start, i);
+      if (part) fields.push(parseField(part));
+      start = i + 1;
+    }
+  }
+  return fields;
+}
+
+function parseField(part: string): Field {
+  const embed = part.match(/^(\w+)(!inner)?\((.*)\)$/);
+  return embed
+    ? { name: embed[1], inner: Boolean(embed[2]), fields: parseSelect(embed[3]) }
+    : { name: part, inner: false, fields: null };
+}
+
+const singular = (table: string) => table.replace(/s$/, '');
+
+// The row `name` refers to, or the rows of `name` referring to `row`
+function related(tables: Tables, table: string, row: Row, name: string): Row | Row[] | null {
+  const rows = tables[name];
+  if (!rows) throw new Error(`Unknown table ${name}`);
+  const foreignKey = `${singular(name)}_id`;
+  if (foreignKey in row) return rows.find(other => other.id === row[foreignKey]) ?? null;
+  return rows.filter(other => other[`${singular(table)}_id`] === row.id);
+}
+
+function isPresent(value: Row | Row[] | null): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== null;
+}
+
+function project(tables: Tables, table: string, row: Row, fields: Field[]): Row {
+  const result: Row = {};
+  fields.forEach(field => {
+    if (field.fields) {
+      const value = related(tables, table, row, field.name);
+      result[field.name] = Array.isArray(value)
+        ? value.map(other => project(tables, field.name, other, field.fields!))
+        : value && project(tables, field.name, value, field.fields);
+    } else if (field.name === '*') {
+      Object.assign(result, row);
+    } else {
+      result[field.name] = row[field.name];
+    }
+  });
+  return result;
+}
+
+// PostgREST's default max-rows
+const MAX_ROWS = 1000;
+
+function compare(a: any, b: any): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+class FakeQuery implements PromiseLike<{ data: Row[]; error: null }> {
+  private fields: Field[] = parseSelect('*');
+  private conditions: ((row: Row) => boolean)[] = [];
+  private orderings: Ordering[] = [];
+  private offset = 0;
+  private maxRows = MAX_ROWS;
+
+  constructor(private tables: Tables, private table: string) {
+    if (!tables[table]) throw new Error(`Unknown table ${table}`);
+  }
+
+  select(columns = '*') {
+    this.fields = parseSelect(columns);
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, actual => actual === value);
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(column, actual => values.includes(actual));
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(column, actual => actual !== null && compare(actual, value) > 0);
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(column, actual => actual !== null && compare(actual, value) >= 0);
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(column, actual => actual !== null && compare(actual, value) < 0);
+  }
+
+  not(column: string, operator: 'is', value: null) {
+    if (operator !== 'is' || value !== null) throw new Error(`Unsupported filter not.${operator}.${value}`);
+    return this.where(column, actual => actual !== null);
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const ascending = options.ascending ?? true;
+    // PostgreSQL puts nulls last in ascending order and first in descending
+    this.orderings.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = Math.min(count, MAX_ROWS);
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.offset = from;
+    return this.limit(to - from + 1);
+  }
+
+  then<T1 = { data: Row[]; error: null }, T2 = never>(
+    onfulfilled?: ((value: { data: Row[]; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => ({ data: this.run(), error: null })).then(onfulfilled, onrejected);
+  }
+
+  // `column` is on the row itself or, as `table.column`, on the row it embeds
+  private where(column: string, test: (value: any) => boolean) {
+    const [first, rest] = column.split('.');
+    this.conditions.push(row => {
+      if (rest === undefined) return test(row[first] ?? null);
+      const embedded = related(this.tables, this.table, row, first);
+      if (Array.isArray(embedded)) throw new Error(`Unsupported filter on ${column}`);
+      return embedded !== null && test(embedded[rest] ?? null);
+    });
+    return this;
+  }
+
+  private run(): Row[] {
+    const inner = this.fields.filter(field => field.inner);
+    const rows = this.tables[this.table]
+      .filter(row => inner.every(field => isPresent(related(this.tables, this.table, row, field.name))))
+      .filter(row => this.conditions.every(condition => condition(row)))
+      .sort((a, b) => {
+        for (const { column, ascending, nullsFirst } of this.orderings) {
+          const x = a[column] ?? null;
+          const y = b[column] ?? null;
+          if (x === y) continue;
+          if (x === null || y === null) return (x === null) === nullsFirst ? -1 : 1;
+          return ascending ? compare(x, y) : compare(y, x);
+        }
+        return 0;
+      });
+    return rows.slice(this.offset, this.offset + this.maxRows).map(row => project(this.tables, this.table, row, this.fields));
+  }
+}
+
+export function createFakeSupabase(tables: Tables) {
+  return {
+    from: (table: string) => new FakeQuery(tables, table)
+  };
+}
@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') }
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // Tests never touch feedback.db, a real Supabase project or a stale cache
+    env: {
+      DATABASE_PATH: ':memory:',
+      ANALYTICS_CACHE_TTL_SECONDS: '0',
+      NEXT_PUBLIC_SUPABASE_URL: 'http://localhost',
+      SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key'
+    }
+  }
+});